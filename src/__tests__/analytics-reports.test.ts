@@ -0,0 +1,162 @@
+/**
+ * Tests for the analytics report pipeline: finding the report request, report and
+ * instances, then downloading and merging their segments
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { mergeReportSegments, ReportCache } from '../services/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const segment = (rows: string[][]) => zlib.gzipSync(rows.map(row => row.join('\t')).join('\n'));
+
+const HEADERS = ['Date', 'App Name', 'Territory', 'Counts'];
+
+const responses: Record<string, unknown> = {
+  '/apps/app-1/analyticsReportRequests': {
+    data: [
+      { id: 'stopped', attributes: { accessType: 'ONGOING', stoppedDueToInactivity: true } },
+      { id: 'req-1', attributes: { accessType: 'ONGOING', stoppedDueToInactivity: false } },
+    ],
+  },
+  '/analyticsReportRequests/req-1/reports': {
+    data: [
+      { id: 'rep-1', attributes: { name: 'App Downloads Standard', category: 'APP_STORE_COMMERCE' } },
+      { id: 'rep-2', attributes: { name: 'App Sessions Standard', category: 'APP_USAGE' } },
+    ],
+  },
+  '/analyticsReports/rep-1/instances': {
+    data: [
+      { id: 'inst-3', attributes: { granularity: 'DAILY', processingDate: '2024-01-03' } },
+      { id: 'inst-1', attributes: { granularity: 'DAILY', processingDate: '2024-01-01' } },
+      { id: 'inst-2', attributes: { granularity: 'DAILY', processingDate: '2024-01-02' } },
+    ],
+  },
+  '/analyticsReportInstances/inst-1/segments': {
+    data: [{ id: 'seg-1', attributes: { url: 'https://reports.example/seg-1', checksum: 'x', sizeInBytes: 1 } }],
+  },
+  '/analyticsReportInstances/inst-2/segments': {
+    data: [
+      { id: 'seg-2a', attributes: { url: 'https://reports.example/seg-2a', checksum: 'x', sizeInBytes: 1 } },
+      { id: 'seg-2b', attributes: { url: 'https://reports.example/seg-2b', checksum: 'x', sizeInBytes: 1 } },
+    ],
+  },
+};
+
+const downloads: Record<string, Buffer> = {
+  'https://reports.example/seg-1': segment([HEADERS, ['2024-01-01', 'Puzzle', 'US', '12']]),
+  'https://reports.example/seg-2a': segment([HEADERS, ['2024-01-02', 'Puzzle', 'US', '7'], ['2024-01-02', 'Puzzle', 'DE', '3']]),
+  'https://reports.example/seg-2b': segment([HEADERS, ['2024-01-02', 'Puzzle', 'FR', '1']]),
+};
+
+function createHandlers(overrides: Record<string, unknown> = {}, cache?: ReportCache) {
+  const client = createMockClient({
+    getPaginated: vi.fn(async (url: string) => overrides[url] ?? responses[url] ?? { data: [] }),
+    downloadBuffer: vi.fn(async (url: string) => downloads[url]),
+    post: vi.fn().mockResolvedValue({ data: { id: 'req-new' } }),
+  });
+  return { handlers: new AnalyticsHandlers(asClient(client), undefined, cache), client };
+}
+
+describe('mergeReportSegments', () => {
+  it('should merge segments under the union of their headers and infer column types', () => {
+    const { columns, rows } = mergeReportSegments([
+      segment([['Date', 'Counts'], ['2024-01-01', '5']]),
+      segment([['Date', 'Territory', 'Counts'], ['2024-01-02', 'US', '2.5']]),
+    ]);
+
+    expect(columns).toEqual([
+      { header: 'Date', field: 'date', type: 'date' },
+      { header: 'Counts', field: 'counts', type: 'decimal' },
+      { header: 'Territory', field: 'territory', type: 'string' },
+    ]);
+    expect(rows).toEqual([
+      { date: '2024-01-01', counts: 5, territory: null },
+      { date: '2024-01-02', counts: 2.5, territory: 'US' },
+    ]);
+  });
+});
+
+describe('AnalyticsHandlers.getAnalyticsReportData', () => {
+  it('should merge the segments of every instance in the date range', async () => {
+    const { handlers, client } = createHandlers();
+
+    const data = await handlers.getAnalyticsReportData({
+      appId: 'app-1',
+      reportName: 'app downloads standard',
+      startDate: '2024-01-01',
+      endDate: '2024-01-02',
+    });
+
+    expect(data).toMatchObject({
+      reportRequestId: 'req-1',
+      requestCreated: false,
+      report: { id: 'rep-1', name: 'App Downloads Standard' },
+      instances: [
+        { id: 'inst-1', processingDate: '2024-01-01', segments: 1 },
+        { id: 'inst-2', processingDate: '2024-01-02', segments: 2 },
+      ],
+      rowCount: 4,
+      truncated: false,
+    });
+    expect(data.columns.find(column => column.field === 'counts')?.type).toBe('integer');
+    expect(data.rows?.map(row => row.territory)).toEqual(['US', 'US', 'DE', 'FR']);
+    expect(client.getPaginated).toHaveBeenCalledWith(
+      '/analyticsReports/rep-1/instances',
+      { 'filter[granularity]': 'DAILY', limit: 200 },
+      { allPages: true }
+    );
+    expect(client.downloadBuffer).toHaveBeenCalledTimes(3);
+  });
+
+  it('should cache downloaded segments but look again for an instance that had none', async () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-analytics-cache-'));
+    const overrides: Record<string, unknown> = { '/analyticsReportInstances/inst-2/segments': { data: [] } };
+    const { handlers, client } = createHandlers(overrides, new ReportCache(cacheDir));
+    const query = { appId: 'app-1', reportName: 'App Downloads Standard', startDate: '2024-01-01', endDate: '2024-01-02' };
+
+    const first = await handlers.getAnalyticsReportData(query);
+    delete overrides['/analyticsReportInstances/inst-2/segments'];
+    const second = await handlers.getAnalyticsReportData(query);
+
+    expect(first.instances.map(instance => instance.segments)).toEqual([1, 0]);
+    expect(second.instances.map(instance => instance.segments)).toEqual([1, 2]);
+    expect(client.getPaginated).toHaveBeenCalledTimes(9);
+    expect(client.downloadBuffer).toHaveBeenCalledTimes(3);
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should cap the rows returned while reporting the full count', async () => {
+    const { handlers } = createHandlers();
+
+    const data = await handlers.getAnalyticsReportData({ appId: 'app-1', reportName: 'App Downloads Standard', maxRows: 2, format: 'csv' });
+
+    expect(data).toMatchObject({ rowCount: 4, truncated: true });
+    expect(data.csv).toBe('Date,App Name,Territory,Counts\n2024-01-01,Puzzle,US,12\n2024-01-02,Puzzle,US,7');
+  });
+
+  it('should create an ONGOING request when the app has none', async () => {
+    const { handlers, client } = createHandlers({ '/apps/app-1/analyticsReportRequests': { data: [] } });
+
+    const data = await handlers.getAnalyticsReportData({ appId: 'app-1', reportName: 'App Downloads Standard' });
+
+    expect(client.post).toHaveBeenCalledWith('/analyticsReportRequests', expect.objectContaining({
+      data: expect.objectContaining({ attributes: { accessType: 'ONGOING' } }),
+    }));
+    expect(data).toMatchObject({ reportRequestId: 'req-new', requestCreated: true, rowCount: 0 });
+  });
+
+  it('should list the available reports when the name does not match', async () => {
+    const { handlers } = createHandlers();
+
+    await expect(handlers.getAnalyticsReportData({ appId: 'app-1', reportName: 'Crashes' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('App Downloads Standard, App Sessions Standard'),
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Tests for translating App Store Connect error responses into structured reports
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { translateApiError, getApiErrorHint, API_ERROR_HINTS } from '../services/index.js';
+import { createToolRegistry } from '../tools/index.js';
+
+const requestConfig = { method: 'post', url: '/appStoreVersions', headers: new AxiosHeaders() };
+
+const apiError = (status: number, data: unknown, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', requestConfig, undefined, {
+    data,
+    status,
+    statusText: 'Error',
+    headers,
+    config: requestConfig,
+  });
+
+const conflict = {
+  errors: [
+    {
+      id: 'err-1',
+      status: '409',
+      code: 'ENTITY_ERROR.ATTRIBUTE.INVALID',
+      title: 'An attribute value is invalid.',
+      detail: 'The version string is not valid.',
+      source: { pointer: '/data/attributes/versionString' },
+    },
+    {
+      id: 'err-2',
+      status: '409',
+      code: 'PARAMETER_ERROR.INVALID.TOO_MANY',
+      title: 'A parameter has an invalid value',
+      detail: 'Too many values for filter.',
+      source: { parameter: 'filter[platform]' },
+    },
+  ],
+};
+
+describe('getApiErrorHint', () => {
+  it('should prefer the hint for the exact code', () => {
+    expect(getApiErrorHint('FORBIDDEN_ERROR.INCORRECT_ROLE')).toBe(API_ERROR_HINTS['FORBIDDEN_ERROR.INCORRECT_ROLE']);
+  });
+
+  it('should fall back to the closest parent code', () => {
+    expect(getApiErrorHint('ENTITY_ERROR.ATTRIBUTE.INVALID.TOO_LONG')).toBe(API_ERROR_HINTS['ENTITY_ERROR.ATTRIBUTE.INVALID']);
+    expect(getApiErrorHint('UNHEARD_OF')).toBeUndefined();
+  });
+});
+
+describe('translateApiError', () => {
+  it('should report every error with its location and hint', () => {
+    const report = translateApiError(apiError(409, conflict, { 'x-request-id': 'req-123' }));
+
+    expect(report).toMatchObject({
+      status: 409,
+      method: 'POST',
+      url: '/appStoreVersions',
+      requestId: 'req-123',
+      message: 'App Store Connect API error 409 ENTITY_ERROR.ATTRIBUTE.INVALID: The version string is not valid. ' +
+        '(at /data/attributes/versionString) and 1 more',
+    });
+    expect(report.errors).toEqual([
+      expect.objectContaining({
+        code: 'ENTITY_ERROR.ATTRIBUTE.INVALID',
+        pointer: '/data/attributes/versionString',
+        hint: API_ERROR_HINTS['ENTITY_ERROR.ATTRIBUTE.INVALID'],
+      }),
+      expect.objectContaining({
+        code: 'PARAMETER_ERROR.INVALID.TOO_MANY',
+        parameter: 'filter[platform]',
+        hint: API_ERROR_HINTS['PARAMETER_ERROR.INVALID'],
+      }),
+    ]);
+  });
+
+  it('should fall back to the error id when no request id header is present', () => {
+    expect(translateApiError(apiError(409, conflict)).requestId).toBe('err-1');
+  });
+
+  it('should parse error bodies that arrive as text or buffers', () => {
+    const forbidden = { errors: [{ status: '403', code: 'FORBIDDEN_ERROR', title: 'Forbidden', detail: 'Not allowed.' }] };
+
+    expect(translateApiError(apiError(403, JSON.stringify(forbidden))).errors[0].code).toBe('FORBIDDEN_ERROR');
+    expect(translateApiError(apiError(403, Buffer.from(JSON.stringify(forbidden)))).errors[0].hint)
+      .toBe(API_ERROR_HINTS.FORBIDDEN_ERROR);
+  });
+
+  it('should describe failures without an App Store Connect error body', () => {
+    const report = translateApiError(new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED', requestConfig));
+
+    expect(report).toEqual({
+      message: 'App Store Connect API request failed: connect ECONNREFUSED',
+      method: 'POST',
+      url: '/appStoreVersions',
+      errors: [],
+    });
+  });
+});
+
+describe('tool error results', () => {
+  it('should return API failures as structured error results', async () => {
+    const listApps = vi.fn().mockRejectedValue(apiError(409, conflict, { 'x-request-id': 'req-123' }));
+    const context = {
+      client: {} as any,
+      config: { keyId: 'KEY', issuerId: 'ISSUER', privateKeyPath: '/tmp/key.p8' },
+      handlers: { apps: { listApps } } as any,
+    };
+
+    const result = await createToolRegistry().call('list_apps', {}, context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ type: 'text', text: expect.stringContaining('ENTITY_ERROR.ATTRIBUTE.INVALID') });
+    expect(result.structuredContent).toMatchObject({ status: 409, requestId: 'req-123', errors: expect.any(Array) });
+  });
+
+  it('should still throw errors that are not API failures', async () => {
+    const listApps = vi.fn().mockRejectedValue(new Error('boom'));
+    const context = {
+      client: {} as any,
+      config: { keyId: 'KEY', issuerId: 'ISSUER', privateKeyPath: '/tmp/key.p8' },
+      handlers: { apps: { listApps } } as any,
+    };
+
+    await expect(createToolRegistry().call('list_apps', {}, context)).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Tests for AppStoreConnectClient
+ *
+ * These tests exercise the client's request helpers without touching the
+ * network by stubbing the lower-level `get` method or the axios instance.
+ */
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AppStoreConnectClient } from '../services/appstore-client.js';
+import { AuthService } from '../services/auth.js';
+import { parseRateLimitHeader, parseRetryAfter } from '../services/rate-limit.js';
+
+const testConfig = {
+  keyId: 'KEY123',
+  issuerId: 'issuer-123',
+  privateKeyPath: '/tmp/AuthKey_KEY123.p8',
+};
+
+const page = (ids: string[], next?: string, included?: Array<{ id: string; type: string }>) => ({
+  data: ids.map((id) => ({ id, type: 'betaTesters' })),
+  ...(included && { included }),
+  links: {
+    self: 'https://api.appstoreconnect.apple.com/v1/betaGroups/g1/betaTesters',
+    ...(next && { next }),
+  },
+  meta: { paging: { total: 5, limit: 2 } },
+});
+
+describe('AppStoreConnectClient', () => {
+  let client: AppStoreConnectClient;
+
+  beforeEach(() => {
+    client = new AppStoreConnectClient(testConfig);
+  });
+
+  describe('getPaginated', () => {
+    it('should behave like get when no pagination options are given', async () => {
+      const getSpy = vi.spyOn(client, 'get').mockResolvedValue(page(['t1', 't2'], 'https://next/2'));
+
+      const result = await client.getPaginated('/betaGroups/g1/betaTesters', { limit: 2 });
+
+      expect(getSpy).toHaveBeenCalledTimes(1);
+      expect(getSpy).toHaveBeenCalledWith('/betaGroups/g1/betaTesters', { limit: 2 });
+      expect(result.data).toHaveLength(2);
+      expect(result.links?.next).toBe('https://next/2');
+    });
+
+    it('should follow links.next until the collection is exhausted', async () => {
+      const getSpy = vi.spyOn(client, 'get')
+        .mockResolvedValueOnce(page(['t1', 't2'], 'https://next/2', [{ id: 'g1', type: 'betaGroups' }]))
+        .mockResolvedValueOnce(page(['t3', 't4'], 'https://next/3', [{ id: 'g1', type: 'betaGroups' }]))
+        .mockResolvedValueOnce(page(['t5'], undefined, [{ id: 'g2', type: 'betaGroups' }]));
+
+      const result = await client.getPaginated('/betaGroups/g1/betaTesters', { limit: 2 }, { allPages: true });
+
+      expect(getSpy).toHaveBeenCalledTimes(3);
+      expect(getSpy).toHaveBeenNthCalledWith(2, 'https://next/2');
+      expect(getSpy).toHaveBeenNthCalledWith(3, 'https://next/3');
+      expect(result.data.map((item) => item.id)).toEqual(['t1', 't2', 't3', 't4', 't5']);
+      expect(result.included).toEqual([
+        { id: 'g1', type: 'betaGroups' },
+        { id: 'g2', type: 'betaGroups' },
+      ]);
+      expect(result.links?.next).toBeUndefined();
+      expect(result.meta?.paging?.total).toBe(5);
+    });
+
+    it('should stop once maxItems have been collected', async () => {
+      const getSpy = vi.spyOn(client, 'get')
+        .mockResolvedValueOnce(page(['t1', 't2'], 'https://next/2'))
+        .mockResolvedValueOnce(page(['t3', 't4'], 'https://next/3'));
+
+      const result = await client.getPaginated('/betaGroups/g1/betaTesters', { limit: 2 }, { maxItems: 4 });
+
+      expect(getSpy).toHaveBeenCalledTimes(2);
+      expect(result.data.map((item) => item.id)).toEqual(['t1', 't2', 't3', 't4']);
+      expect(result.links?.next).toBe('https://next/3');
+      expect(result.meta?.paging?.total).toBe(5);
+      expect(result.meta).not.toHaveProperty('truncated');
+    });
+
+    it('should drop the cursor and report truncation when maxItems ends inside a page', async () => {
+      vi.spyOn(client, 'get')
+        .mockResolvedValueOnce(page(['t1', 't2'], 'https://next/2'))
+        .mockResolvedValueOnce(page(['t3', 't4'], 'https://next/3'));
+
+      const result = await client.getPaginated('/betaGroups/g1/betaTesters', { limit: 2 }, { maxItems: 3 });
+
+      expect(result.data.map((item) => item.id)).toEqual(['t1', 't2', 't3']);
+      expect(result.links?.next).toBeUndefined();
+      expect(result.meta).toMatchObject({ paging: { total: 5 }, truncated: true });
+    });
+  });
+});
+
+const apiResponse = (data: any, headers: Record<string, string> = {}) => ({
+  data,
+  status: 200,
+  statusText: 'OK',
+  headers,
+  config: { headers: new AxiosHeaders() },
+});
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', undefined, undefined, {
+    data: { errors: [{ status: String(status), code: 'RATE_LIMIT_EXCEEDED', title: 'Error', detail: 'Error' }] },
+    status,
+    statusText: 'Error',
+    headers,
+    config: { headers: new AxiosHeaders() },
+  });
+
+describe('AppStoreConnectClient - retries', () => {
+  let client: AppStoreConnectClient;
+  let axiosRequest: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.spyOn(AuthService.prototype, 'generateToken').mockResolvedValue('token');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    client = new AppStoreConnectClient(testConfig, { baseDelayMs: 1, maxDelayMs: 50 });
+    axiosRequest = vi.fn();
+    (client as any).axiosInstance.request = axiosRequest;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should retry throttled requests and record the reported quota', async () => {
+    axiosRequest
+      .mockRejectedValueOnce(apiError(429, { 'x-rate-limit': 'user-hour-lim:3600;user-hour-rem:0;' }))
+      .mockResolvedValueOnce(apiResponse({ data: [] }, { 'x-rate-limit': 'user-hour-lim:3600;user-hour-rem:3599;' }));
+
+    const result = await client.get('/apps');
+
+    expect(result).toEqual({ data: [] });
+    expect(axiosRequest).toHaveBeenCalledTimes(2);
+    expect(client.getRateLimitStatus()).toMatchObject({ limit: 3600, remaining: 3599, retriedRequests: 1 });
+  });
+
+  it('should give up after maxRetries attempts', async () => {
+    axiosRequest.mockRejectedValue(apiError(503));
+
+    await expect(client.get('/apps')).rejects.toThrow('503');
+    expect(axiosRequest).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not retry writes that fail with a server error', async () => {
+    axiosRequest.mockRejectedValue(apiError(500));
+
+    await expect(client.post('/reviewSubmissions', { data: {} })).rejects.toThrow('500');
+    expect(axiosRequest).toHaveBeenCalledTimes(1);
+
+    axiosRequest.mockClear();
+    axiosRequest.mockRejectedValue(apiError(503));
+
+    await expect(client.patch('/appStoreVersions/v1', { data: {} })).rejects.toThrow('503');
+    expect(axiosRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry throttled writes', async () => {
+    axiosRequest
+      .mockRejectedValueOnce(apiError(429))
+      .mockResolvedValueOnce(apiResponse({ data: { id: 'r1' } }));
+
+    await expect(client.post('/reviewSubmissions', { data: {} })).resolves.toEqual({ data: { id: 'r1' } });
+    expect(axiosRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should discard cached tokens when Apple rejects one', async () => {
+    const clearTokenCache = vi.spyOn(AuthService.prototype, 'clearTokenCache');
+    axiosRequest.mockRejectedValue(apiError(401));
+
+    await expect(client.get('/apps')).rejects.toThrow('401');
+    expect(clearTokenCache).toHaveBeenCalledTimes(1);
+    expect(axiosRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    axiosRequest.mockRejectedValue(apiError(404));
+
+    await expect(client.get('/apps/missing')).rejects.toThrow('404');
+    expect(axiosRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry when Retry-After exceeds the maximum delay', async () => {
+    axiosRequest.mockRejectedValue(apiError(429, { 'retry-after': '3600' }));
+
+    await expect(client.get('/apps')).rejects.toThrow('429');
+    expect(axiosRequest).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('AppStoreConnectClient - token scope', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should sign every request with a token limited to the configured scope', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const tokenScope = ['GET /v1/apps'];
+    const client = new AppStoreConnectClient({
+      ...testConfig,
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      tokenScope,
+    });
+    const axiosRequest = vi.fn().mockResolvedValue(apiResponse({ data: [] }));
+    (client as any).axiosInstance.request = axiosRequest;
+
+    await client.get('/apps');
+
+    const token = axiosRequest.mock.calls[0][0].headers.Authorization.replace('Bearer ', '');
+    expect(jwt.verify(token, publicKey, { algorithms: ['ES256'] })).toMatchObject({ scope: tokenScope });
+  });
+
+  it('should refuse requests outside the scope without sending them', async () => {
+    const client = new AppStoreConnectClient({
+      ...testConfig,
+      tokenScope: ['GET /v1/apps', 'GET /v1/apps/app-1/appStoreVersions?filter[platform]=IOS'],
+    });
+    const axiosRequest = vi.fn().mockResolvedValue(apiResponse({ data: [] }));
+    (client as any).axiosInstance.request = axiosRequest;
+    vi.spyOn(AuthService.prototype, 'generateToken').mockResolvedValue('scoped-token');
+
+    await client.get('/apps', { limit: 10 });
+    await client.get('https://api.appstoreconnect.apple.com/v1/apps?cursor=abc');
+    await client.get('/apps/app-1/appStoreVersions', { 'filter[platform]': 'IOS' });
+    await expect(client.get('/builds')).rejects.toMatchObject({ code: ErrorCode.InvalidRequest });
+    await expect(client.post('/apps', {})).rejects.toThrow("POST /v1/apps is outside the profile's token scope");
+
+    expect(axiosRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it('should keep a scoped token after a 401', async () => {
+    const client = new AppStoreConnectClient({ ...testConfig, tokenScope: ['GET /v1/apps'] });
+    (client as any).axiosInstance.request = vi.fn().mockRejectedValue(apiError(401));
+    vi.spyOn(AuthService.prototype, 'generateToken').mockResolvedValue('scoped-token');
+    const clearTokenCache = vi.spyOn(AuthService.prototype, 'clearTokenCache');
+
+    await expect(client.get('/apps')).rejects.toThrow('401');
+    expect(clearTokenCache).not.toHaveBeenCalled();
+  });
+});
+
+describe('rate limit header parsing', () => {
+  it('should parse the X-Rate-Limit header', () => {
+    expect(parseRateLimitHeader('user-hour-lim:3500;user-hour-rem:12;')).toEqual({ limit: 3500, remaining: 12 });
+    expect(parseRateLimitHeader('garbage')).toBeNull();
+    expect(parseRateLimitHeader(undefined)).toBeNull();
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for listing, expiring and attaching builds, and waiting for them to process
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BuildHandlers } from '../handlers/builds.js';
+import { longRunningOptions } from '../tools/registry.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+function createHandlers() {
+  const client = createMockClient({
+    get: vi.fn().mockResolvedValue({ data: { type: 'builds', id: 'build-1' } }),
+    getPaginated: vi.fn().mockResolvedValue({ data: [] }),
+    patch: vi.fn().mockResolvedValue(undefined),
+  });
+  return { handlers: new BuildHandlers(asClient(client)), client };
+}
+
+describe('BuildHandlers', () => {
+  it('should map build filters to API filter parameters', async () => {
+    const { handlers, client } = createHandlers();
+
+    await handlers.listBuilds({
+      filter: { appId: 'app-1', preReleaseVersion: '2.1.0', platform: 'IOS', processingState: ['VALID'], expired: false },
+      limit: 10,
+    });
+
+    expect(client.getPaginated).toHaveBeenCalledWith('/builds', {
+      limit: 10,
+      sort: '-uploadedDate',
+      'filter[app]': 'app-1',
+      'filter[preReleaseVersion.version]': '2.1.0',
+      'filter[preReleaseVersion.platform]': 'IOS',
+      'filter[processingState]': 'VALID',
+      'filter[expired]': 'false',
+      include: 'preReleaseVersion',
+    }, { allPages: undefined, maxItems: undefined });
+  });
+
+  it('should include TestFlight details, marketing version and icons by default', async () => {
+    const { handlers, client } = createHandlers();
+
+    await handlers.getBuild({ buildId: 'build-1' });
+
+    expect(client.get).toHaveBeenCalledWith('/builds/build-1', { include: 'buildBetaDetail,preReleaseVersion,icons' });
+  });
+
+  it('should expire builds and set or clear a version\'s build', async () => {
+    const { handlers, client } = createHandlers();
+
+    await handlers.expireBuild({ buildId: 'build-1' });
+    await handlers.attachBuildToVersion({ appStoreVersionId: 'version-1', buildId: 'build-1' });
+    await handlers.detachBuildFromVersion({ appStoreVersionId: 'version-1' });
+
+    expect(client.patch.mock.calls).toEqual([
+      ['/builds/build-1', { data: { type: 'builds', id: 'build-1', attributes: { expired: true } } }],
+      ['/appStoreVersions/version-1/relationships/build', { data: { type: 'builds', id: 'build-1' } }],
+      ['/appStoreVersions/version-1/relationships/build', { data: null }],
+    ]);
+  });
+});
+
+describe('BuildHandlers.waitForBuildProcessing', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const build = (processingState: string) => ({
+    data: [{ type: 'builds', id: 'build-1', attributes: { version: '42', processingState } }],
+    included: [{ type: 'buildBetaDetails', id: 'detail-1', attributes: { internalBuildState: 'MISSING_EXPORT_COMPLIANCE' } }],
+  });
+
+  it('should find the build by number once uploaded and poll until it is processed', async () => {
+    const getPaginated = vi.fn()
+      .mockResolvedValueOnce({ data: [] })
+      .mockResolvedValueOnce(build('PROCESSING'));
+    const { data: [valid], included } = build('VALID');
+    const get = vi.fn().mockResolvedValue({ data: valid, included });
+    const handlers = new BuildHandlers(asClient(createMockClient({ get, getPaginated })));
+    const onProgress = vi.fn().mockResolvedValue(undefined);
+
+    const waiting = handlers.waitForBuildProcessing({ appId: 'app-1', version: '42', pollIntervalSeconds: 10 }, { onProgress });
+    await vi.advanceTimersByTimeAsync(20_000);
+    const result = await waiting;
+
+    expect(result).toMatchObject({
+      buildId: 'build-1',
+      processingState: 'VALID',
+      finished: true,
+      timedOut: false,
+      elapsedSeconds: 20,
+      polls: 3,
+      internalBuildState: 'MISSING_EXPORT_COMPLIANCE',
+      issues: ['Export compliance is missing: set usesNonExemptEncryption for the build'],
+    });
+    expect(onProgress.mock.calls.map(([update]) => update)).toEqual([
+      { progress: 0, total: 1800, message: 'Waiting for build 42 to appear' },
+      { progress: 10, total: 1800, message: 'Build 42 is PROCESSING' },
+    ]);
+    // Once found, the build is followed by its ID
+    expect(get).toHaveBeenCalledWith('/builds/build-1', { include: 'buildBetaDetail' });
+  });
+
+  it('should return the last state seen once the timeout passes', async () => {
+    const get = vi.fn().mockResolvedValue({ data: build('PROCESSING').data[0] });
+    const handlers = new BuildHandlers(asClient(createMockClient({ get })));
+
+    const waiting = handlers.waitForBuildProcessing({ buildId: 'build-1', timeoutSeconds: 45, pollIntervalSeconds: 30 });
+    await vi.advanceTimersByTimeAsync(45_000);
+
+    await expect(waiting).resolves.toMatchObject({ processingState: 'PROCESSING', finished: false, timedOut: true, polls: 3 });
+  });
+
+  it('should stop polling when the call is cancelled', async () => {
+    const get = vi.fn().mockResolvedValue({ data: build('PROCESSING').data[0] });
+    const handlers = new BuildHandlers(asClient(createMockClient({ get })));
+    const controller = new AbortController();
+
+    const waiting = handlers.waitForBuildProcessing({ buildId: 'build-1' }, { signal: controller.signal });
+    const rejected = expect(waiting).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(1_000);
+    controller.abort(new Error('cancelled'));
+    await rejected;
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(get).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('longRunningOptions', () => {
+  it('should send progress notifications only when the client asked for them', async () => {
+    const sendNotification = vi.fn().mockResolvedValue(undefined);
+    const signal = new AbortController().signal;
+
+    const options = longRunningOptions({ signal, sendNotification, _meta: { progressToken: 'token-1' } } as any);
+    await options.onProgress?.({ progress: 5, total: 10, message: 'Halfway' });
+
+    expect(options.signal).toBe(signal);
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 5, total: 10, message: 'Halfway' },
+    });
+    expect(longRunningOptions({ signal, sendNotification } as any).onProgress).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for converting report amounts with the exchange rates of financial reports and
+ * the fallback table
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { convertAmount, parseFinanceReport, parseSalesReport } from '../services/index.js';
+import { getFallbackExchangeRates, ConfigurationError } from '../config.js';
+import { ExchangeRates } from '../types/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const gzip = (rows: string[][]) => zlib.gzipSync(rows.map(row => row.join('\t')).join('\n'));
+
+// Payments summary lines: one per region, with the rate Apple paid out at
+const consolidatedReport = gzip([
+  ['Country or Region (Currency)', 'Units', 'Partner Share', 'Exchange Rate', 'Proceeds', 'Bank Account Currency'],
+  ['Americas (USD)', '10', '7.00', '1.000000', '7.00', 'EUR'],
+  ['Japan (JPY)', '3', '300', '0.006500', '1.95', 'EUR'],
+]);
+
+const salesReport = gzip([
+  ['Title', 'Units', 'Developer Proceeds', 'Country Code', 'Currency of Proceeds'],
+  ['Puzzle', '10', '0.70', 'US', 'USD'],
+  ['Puzzle', '2', '100', 'JP', 'JPY'],
+  ['Puzzle', '1', '5', 'ZA', 'ZAR'],
+]);
+
+const fallback: ExchangeRates = { source: 'fallback', asOf: '2024-01-01', base: 'USD', perUnit: { EUR: 1.1, JPY: 0.007, ZAR: 0.05 } };
+
+const notFound = () => new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, {
+  data: { errors: [{ status: '404', code: 'NOT_FOUND', title: 'Not found', detail: 'No report' }] },
+  status: 404,
+  statusText: 'Not Found',
+  headers: {},
+  config: { headers: new AxiosHeaders() },
+});
+
+describe('convertAmount', () => {
+  it('should use the first table that knows both currencies', () => {
+    const reportRates: ExchangeRates = { source: 'finance-report', asOf: '2024-01', base: 'EUR', perUnit: { USD: 0.9 } };
+
+    expect(convertAmount(10, 'USD', 'EUR', [reportRates, fallback])).toBe(9);
+    expect(convertAmount(100, 'JPY', 'EUR', [reportRates, fallback])).toBeCloseTo(0.636, 3);
+    expect(convertAmount(1, 'XXX', 'EUR', [reportRates, fallback])).toBeUndefined();
+  });
+});
+
+describe('parseFinanceReport', () => {
+  it('should collect the exchange rates the report states and convert with them first', () => {
+    const report = parseFinanceReport(consolidatedReport, {
+      reportType: 'FINANCIAL',
+      regionCode: 'ZZ',
+      reportDate: '2024-01',
+      conversion: { currency: 'EUR', exchangeRates: [fallback] },
+    });
+
+    expect(report.exchangeRates).toEqual({ source: 'finance-report', asOf: '2024-01', base: 'EUR', perUnit: { USD: 1, JPY: 0.0065 } });
+    expect(report.converted).toMatchObject({
+      currency: 'EUR',
+      exchangeRates: [{ source: 'finance-report', asOf: '2024-01' }, { source: 'fallback', asOf: '2024-01-01' }],
+      unconvertedCurrencies: [],
+    });
+  });
+});
+
+describe('parseSalesReport', () => {
+  it('should total proceeds in the requested currency and list currencies without a rate', () => {
+    const report = parseSalesReport(salesReport, {
+      reportType: 'SALES',
+      reportSubType: 'SUMMARY',
+      frequency: 'DAILY',
+      reportDate: '2024-01-15',
+      version: '1_0',
+      conversion: { currency: 'USD', exchangeRates: [{ ...fallback, perUnit: { JPY: 0.007 } }] },
+    });
+
+    expect(report.converted).toEqual({
+      currency: 'USD',
+      proceeds: 8.4,
+      byProduct: { Puzzle: 8.4 },
+      byCountry: { US: 7, JP: 1.4, ZA: 0 },
+      exchangeRates: [{ source: 'fallback', asOf: '2024-01-01' }],
+      unconvertedCurrencies: ['ZAR'],
+    });
+  });
+});
+
+describe('AnalyticsHandlers currency option', () => {
+  function createHandlers(finance: Record<string, Buffer>) {
+    const getBuffer = vi.fn(async (url: string, params: Record<string, string> = {}) => {
+      const body = url === '/salesReports' ? salesReport : finance[params['filter[reportDate]']];
+      if (!body) {
+        throw notFound();
+      }
+      return body;
+    });
+    return { handlers: new AnalyticsHandlers(asClient(createMockClient({ getBuffer })), { vendorNumber: '12345' }, undefined, fallback), getBuffer };
+  }
+
+  it('should convert sales with the rates of the month\'s consolidated financial report', async () => {
+    const { handlers, getBuffer } = createHandlers({ '2024-01': consolidatedReport });
+
+    const report = await handlers.downloadSalesReport({ reportDate: '2024-01-15', frequency: 'DAILY', currency: 'EUR' });
+
+    expect(getBuffer).toHaveBeenCalledWith('/financeReports', expect.objectContaining({
+      'filter[reportDate]': '2024-01',
+      'filter[regionCode]': 'ZZ',
+    }));
+    // USD and JPY at the report's rates, ZAR through the fallback table
+    expect(report.converted?.byCountry).toEqual({ US: 7, JP: 1.3, ZA: 0.23 });
+    expect(report.converted?.exchangeRates.map(rates => rates.source)).toEqual(['finance-report', 'fallback']);
+  });
+
+  it('should use the previous month\'s rates while the month is not published', async () => {
+    const { handlers } = createHandlers({ '2024-01': consolidatedReport });
+
+    const report = await handlers.downloadSalesReport({ reportDate: '2024-02-03', frequency: 'DAILY', currency: 'EUR' });
+
+    expect(report.converted?.exchangeRates[0]).toEqual({ source: 'finance-report', asOf: '2024-01' });
+  });
+
+  it('should reject a currency no table knows', async () => {
+    const { handlers } = createHandlers({});
+
+    await expect(handlers.downloadSalesReport({ reportDate: '2024-01-15', frequency: 'DAILY', currency: 'XXX' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
+
+describe('getFallbackExchangeRates', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-rates-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load a rates table from the configured file', () => {
+    const file = path.join(tempDir, 'rates.json');
+    fs.writeFileSync(file, JSON.stringify({ base: 'EUR', asOf: '2024-09-30', rates: { USD: 0.91, GBP: 1.19 } }));
+
+    expect(getFallbackExchangeRates({ APP_STORE_CONNECT_EXCHANGE_RATES_FILE: file })).toEqual({
+      source: 'rates.json',
+      asOf: '2024-09-30',
+      base: 'EUR',
+      perUnit: { USD: 0.91, GBP: 1.19 },
+    });
+    expect(getFallbackExchangeRates({})).toBeUndefined();
+  });
+
+  it('should reject a malformed table', () => {
+    const file = path.join(tempDir, 'broken.json');
+    fs.writeFileSync(file, JSON.stringify({ base: 'EUR', rates: { USD: 'high' } }));
+
+    expect(() => getFallbackExchangeRates({ APP_STORE_CONNECT_EXCHANGE_RATES_FILE: file })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Tests for listing, answering and summarising customer reviews
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AppHandlers } from '../handlers/apps.js';
+import { reviewKeywords, summarizeCustomerReviews } from '../services/index.js';
+import { CustomerReview } from '../types/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+type Territory = NonNullable<CustomerReview['attributes']>['territory'];
+
+const review = (id: string, rating: number, createdDate: string, text: string, territory: Territory = 'USA', responseId?: string): CustomerReview => ({
+  type: 'customerReviews',
+  id,
+  attributes: { rating, title: '', body: text, createdDate, territory, reviewerNickname: 'someone' },
+  ...(responseId && { relationships: { response: { data: { type: 'customerReviewResponses', id: responseId } } } }),
+});
+
+const response = (id: string) => ({ type: 'customerReviewResponses' as const, id, attributes: { responseBody: 'Thanks!', state: 'PUBLISHED' as const } });
+
+describe('reviewKeywords', () => {
+  it('should keep distinct words and drop stopwords, short words and numbers', () => {
+    expect(Array.from(reviewKeywords("The app CRASHES, crashes on iOS 18! Don't buy it."))).toEqual(['crashes', 'ios', 'buy']);
+  });
+});
+
+describe('summarizeCustomerReviews', () => {
+  it('should count ratings, territories and keywords used by several reviews', () => {
+    const summary = summarizeCustomerReviews([
+      review('1', 1, '2024-03-03T10:00:00-07:00', 'Crashes after the update', 'USA'),
+      review('2', 2, '2024-03-02T10:00:00-07:00', 'Keeps crashing, crashes daily', 'GBR', 'r2'),
+      review('3', 5, '2024-03-01T10:00:00-07:00', 'Love the new update', 'USA', 'r3'),
+    ]);
+
+    expect(summary).toMatchObject({
+      reviews: 3,
+      averageRating: 2.67,
+      ratingDistribution: { 1: 1, 2: 1, 3: 0, 4: 0, 5: 1 },
+      withResponse: 2,
+      firstReviewDate: '2024-03-01T10:00:00-07:00',
+      lastReviewDate: '2024-03-03T10:00:00-07:00',
+      byTerritory: { USA: { reviews: 2, averageRating: 3 }, GBR: { reviews: 1, averageRating: 2 } },
+      truncated: false,
+    });
+    expect(summary.keywords).toEqual([
+      { keyword: 'crashes', reviews: 2, averageRating: 1.5 },
+      { keyword: 'update', reviews: 2, averageRating: 3 },
+    ]);
+  });
+});
+
+describe('AppHandlers customer reviews', () => {
+  function createHandlers(pages: Array<{ data: CustomerReview[]; included?: unknown[]; next?: string }>) {
+    const get = vi.fn(async (url: string) => {
+      const index = url.startsWith('page:') ? Number(url.slice(5)) : 0;
+      const { next, ...page } = pages[index];
+      return { ...page, links: { self: `page:${index}`, next } };
+    });
+    const client = createMockClient({ get, getPaginated: vi.fn().mockResolvedValue({ data: [] }), post: vi.fn().mockResolvedValue({}), delete: vi.fn() });
+    return { handlers: new AppHandlers(asClient(client)), client };
+  }
+
+  it('should pass API filters through and require one scope', async () => {
+    const { handlers, client } = createHandlers([]);
+
+    await handlers.listCustomerReviews({
+      appStoreVersionId: 'v1',
+      filter: { territory: ['USA', 'GBR'], rating: [1, 2], hasResponse: false },
+      limit: 50,
+    });
+
+    expect(client.getPaginated).toHaveBeenCalledWith('/appStoreVersions/v1/customerReviews', {
+      limit: 50,
+      sort: '-createdDate',
+      'filter[territory]': 'USA,GBR',
+      'filter[rating]': '1,2',
+      'exists[publishedResponse]': 'false',
+      include: 'response',
+    }, { allPages: undefined, maxItems: undefined });
+    await expect(handlers.listCustomerReviews({ appId: 'a', appStoreVersionId: 'v' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('should follow cursors until the date range has been passed', async () => {
+    const { handlers, client } = createHandlers([
+      { data: [review('1', 5, '2024-03-10T08:00:00Z', 'a'), review('2', 4, '2024-03-05T08:00:00Z', 'b', 'USA', 'r2')], included: [response('r2')], next: 'page:1' },
+      { data: [review('3', 3, '2024-03-01T08:00:00Z', 'c', 'USA', 'r3'), review('4', 2, '2024-02-20T08:00:00Z', 'd')], included: [response('r3')], next: 'page:2' },
+      { data: [review('5', 1, '2024-02-10T08:00:00Z', 'e')] },
+    ]);
+
+    const result = await handlers.listCustomerReviews({ appId: 'app', filter: { startDate: '2024-03-01', endDate: '2024-03-09' } });
+
+    expect(result.data.map(item => item.id)).toEqual(['2', '3']);
+    expect(result.included?.map(item => item.id)).toEqual(['r2', 'r3']);
+    expect(result.links).toEqual({ self: 'page:0', next: undefined });
+    expect(client.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave out the cursor when maxItems ends inside a page of the date range', async () => {
+    const { handlers } = createHandlers([
+      { data: [review('1', 5, '2024-03-08T08:00:00Z', 'a'), review('2', 4, '2024-03-05T08:00:00Z', 'b')], next: 'page:1' },
+      { data: [review('3', 3, '2024-03-01T08:00:00Z', 'c')] },
+    ]);
+
+    const result = await handlers.listCustomerReviews({ appId: 'app', filter: { startDate: '2024-03-01' }, maxItems: 1 });
+
+    expect(result.data.map(item => item.id)).toEqual(['1']);
+    expect(result.links).toEqual({ self: 'page:0', next: undefined });
+  });
+
+  it('should reject a date range with reviews sorted by rating', async () => {
+    const { handlers } = createHandlers([]);
+
+    await expect(handlers.listCustomerReviews({ appId: 'app', sort: 'rating', filter: { startDate: '2024-03-01' } }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('should summarise at most maxReviews reviews and say when more remain', async () => {
+    const { handlers } = createHandlers([
+      { data: [review('1', 5, '2024-03-10T08:00:00Z', 'great'), review('2', 1, '2024-03-09T08:00:00Z', 'bad')], next: 'page:1' },
+      { data: [review('3', 1, '2024-03-08T08:00:00Z', 'bad')] },
+    ]);
+
+    const summary = await handlers.summarizeCustomerReviews({ appId: 'app', maxReviews: 2 });
+
+    expect(summary).toMatchObject({ appId: 'app', reviews: 2, averageRating: 3, truncated: true });
+  });
+
+  it('should post responses against the review', async () => {
+    const { handlers, client } = createHandlers([]);
+
+    await handlers.respondToCustomerReview({ reviewId: 'rev', responseBody: 'Fixed in 2.1, thanks!' });
+
+    expect(client.post).toHaveBeenCalledWith('/customerReviewResponses', {
+      data: {
+        type: 'customerReviewResponses',
+        attributes: { responseBody: 'Fixed in 2.1, thanks!' },
+        relationships: { review: { data: { type: 'customerReviews', id: 'rev' } } },
+      },
+    });
+  });
+});
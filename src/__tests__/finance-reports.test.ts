@@ -0,0 +1,169 @@
+/**
+ * Tests for parsing finance reports and reconciling a fiscal month across regions
+ */
+
+import zlib from 'zlib';
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { parseFinanceReport, reconcileFinanceReports } from '../services/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const FINANCIAL_HEADERS = [
+  'Start Date', 'End Date', 'UPC', 'ISRC/ISBN', 'Vendor Identifier', 'Quantity', 'Partner Share',
+  'Extended Partner Share', 'Partner Share Currency', 'Sales or Return', 'Apple Identifier',
+  'Artist/Show/Developer/Author', 'Title', 'Label/Studio/Network/Developer/Publisher', 'Grid',
+  'Product Type Identifier', 'ISAN/Other Identifier', 'Country Of Sale', 'Pre-order Flag', 'Promo Code',
+  'Customer Price', 'Customer Currency',
+];
+
+const item = (title: string, quantity: number, share: number, currency: string, country: string) => [
+  '12/31/2023', '01/27/2024', '', '', `sku.${title.toLowerCase()}`, String(quantity), share.toFixed(2),
+  (quantity * share).toFixed(2), currency, quantity < 0 ? 'R' : 'S', '123456789', 'Example Inc', title, '', '',
+  '1F', '', country, '', '', '0.99', currency,
+];
+
+function financialReport(items: string[][], totalAmount?: number): Buffer {
+  const lines = [FINANCIAL_HEADERS, ...items];
+  const amount = totalAmount ?? items.reduce((sum, cells) => sum + Number(cells[7]), 0);
+  lines.push(['Total_Rows', String(items.length)], ['Total_Amount', amount.toFixed(2)]);
+  return zlib.gzipSync(lines.map(cells => cells.join('\t')).join('\n'));
+}
+
+const usReport = financialReport([
+  item('Puzzle', 10, 0.7, 'USD', 'US'),
+  item('Racer', 2, 1.4, 'USD', 'US'),
+  item('Puzzle', -1, 0.7, 'USD', 'US'),
+]);
+
+const euReport = financialReport([
+  item('Puzzle', 4, 0.6, 'EUR', 'DE'),
+  item('Puzzle', 1, 0.6, 'EUR', 'FR'),
+]);
+
+const notFound = () => new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, {
+  data: { errors: [{ status: '404', code: 'NOT_FOUND', title: 'Not found', detail: 'No report' }] },
+  status: 404,
+  statusText: 'Not Found',
+  headers: {},
+  config: { headers: new AxiosHeaders() },
+});
+
+describe('parseFinanceReport', () => {
+  it('should parse line items and the summary lines after them', () => {
+    const report = parseFinanceReport(usReport, { reportType: 'FINANCIAL', regionCode: 'US', reportDate: '2024-01' });
+
+    expect(report.rows).toHaveLength(3);
+    expect(report.rows?.[0]).toMatchObject({
+      startDate: '2023-12-31',
+      quantity: 10,
+      partnerShare: 0.7,
+      extendedPartnerShare: 7,
+      partnerShareCurrency: 'USD',
+      countryOfSale: 'US',
+    });
+    expect(report.summary).toEqual({ Total_Rows: 3, Total_Amount: 9.1 });
+  });
+
+  it('should total earnings by region, product, country and currency', () => {
+    const { totals } = parseFinanceReport(usReport, { reportType: 'FINANCIAL', regionCode: 'US', reportDate: '2024-01' });
+
+    expect(totals).toMatchObject({
+      rowCount: 3,
+      units: 11,
+      proceeds: { USD: 9.1 },
+      byRegion: { US: { units: 11, proceeds: { USD: 9.1 } } },
+      byProduct: { Puzzle: { units: 9, proceeds: { USD: 6.3 } }, Racer: { units: 2, proceeds: { USD: 2.8 } } },
+      byCurrency: { USD: { units: 11 } },
+    });
+  });
+
+  it('should skip title lines before the detail report header', () => {
+    const body = [
+      ['iTunes Connect - Payments and Financial Reports'],
+      ['Transaction Date', 'Settlement Date', 'Title', 'Country of Sale', 'Quantity', 'Partner Share', 'Extended Partner Share', 'Partner Share Currency', 'Region'],
+      ['01/02/2024', '01/31/2024', 'Puzzle', 'JP', '3', '100', '300', 'JPY', 'Japan'],
+    ].map(cells => cells.join('\t')).join('\n');
+
+    const report = parseFinanceReport(body, { reportType: 'FINANCE_DETAIL', regionCode: 'Z1', reportDate: '2024-01', format: 'csv' });
+
+    expect(report.csv?.split('\n')[1]).toBe('2024-01-02,2024-01-31,Puzzle,JP,3,100,300,JPY,Japan');
+    expect(report.totals.byRegion).toEqual({ Japan: { units: 3, proceeds: { JPY: 300 } } });
+  });
+});
+
+describe('reconcileFinanceReports', () => {
+  const parse = (body: Buffer, regionCode: string) =>
+    parseFinanceReport(body, { reportType: 'FINANCIAL', regionCode, reportDate: '2024-01' });
+
+  it('should summarise payouts and flag regions that do not match their stated total', () => {
+    const mismatched = financialReport([item('Racer', 1, 5, 'GBP', 'GB')], 6);
+
+    const reconciliation = reconcileFinanceReports('2024-01', [parse(usReport, 'US'), parse(mismatched, 'GB')], ['JP']);
+
+    expect(reconciliation.regions).toEqual([
+      { regionCode: 'US', rowCount: 3, units: 11, earnings: { USD: 9.1 }, reportedAmount: 9.1, matchesReportedAmount: true },
+      { regionCode: 'GB', rowCount: 1, units: 1, earnings: { GBP: 5 }, reportedAmount: 6, matchesReportedAmount: false },
+    ]);
+    expect(reconciliation.regionsWithoutReport).toEqual(['JP']);
+    expect(reconciliation.byCurrency).toEqual({
+      USD: { units: 11, earnings: 9.1, regions: ['US'] },
+      GBP: { units: 1, earnings: 5, regions: ['GB'] },
+    });
+  });
+
+  it('should report currencies where the consolidated report differs from the regions', () => {
+    const consolidated = financialReport([
+      item('Puzzle', 10, 0.7, 'USD', 'US'),
+      item('Racer', 2, 1.4, 'USD', 'US'),
+      item('Puzzle', -1, 0.7, 'USD', 'US'),
+      item('Puzzle', 4, 0.6, 'EUR', 'DE'),
+    ]);
+
+    const reconciliation = reconcileFinanceReports(
+      '2024-01',
+      [parse(usReport, 'US'), parse(euReport, 'EU')],
+      [],
+      parse(consolidated, 'ZZ')
+    );
+
+    expect(reconciliation.consolidated).toEqual({
+      earnings: { USD: 9.1, EUR: 2.4 },
+      discrepancies: [{ currency: 'EUR', regions: 3, consolidated: 2.4, difference: -0.6 }],
+    });
+  });
+});
+
+describe('AnalyticsHandlers.reconcileFinanceMonth', () => {
+  it('should fetch each region and treat missing reports as regions without earnings', async () => {
+    const reports: Record<string, Buffer> = { US: usReport, EU: euReport };
+    const getBuffer = vi.fn(async (_url: string, params: Record<string, string> = {}) => {
+      const body = reports[params['filter[regionCode]']];
+      if (!body) {
+        throw notFound();
+      }
+      return body;
+    });
+    const handlers = new AnalyticsHandlers(asClient(createMockClient({ getBuffer })), { vendorNumber: '12345' });
+
+    const reconciliation = await handlers.reconcileFinanceMonth({ reportDate: '2024-01', regionCodes: ['US', 'EU', 'JP'] });
+
+    expect(getBuffer).toHaveBeenCalledTimes(4);
+    expect(getBuffer).toHaveBeenCalledWith('/financeReports', {
+      'filter[vendorNumber]': '12345',
+      'filter[reportDate]': '2024-01',
+      'filter[regionCode]': 'ZZ',
+      'filter[reportType]': 'FINANCIAL',
+    });
+    expect(reconciliation.regions.map(region => region.regionCode)).toEqual(['US', 'EU']);
+    expect(reconciliation.regionsWithoutReport).toEqual(['JP']);
+    expect(reconciliation.consolidated).toBeUndefined();
+  });
+
+  it('should pass on errors other than a missing report', async () => {
+    const getBuffer = vi.fn().mockRejectedValue(new Error('socket hang up'));
+    const handlers = new AnalyticsHandlers(asClient(createMockClient({ getBuffer })), { vendorNumber: '12345' });
+
+    await expect(handlers.reconcileFinanceMonth({ reportDate: '2024-01', regionCodes: ['US'] })).rejects.toThrow('socket hang up');
+  });
+});
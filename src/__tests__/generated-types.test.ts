@@ -0,0 +1,179 @@
+/**
+ * Tests that keep the TypeScript types in line with Apple's OpenAPI spec (3.2.json)
+ *
+ * The generated module must match a fresh run of the generator, and the option lists
+ * that are still hand-written must only use values the spec allows. The compile-time
+ * checks at the bottom are enforced by `tsc`, which type-checks this file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect } from 'vitest';
+import { moduleRoot } from '../config.js';
+import { generateTypes } from '../codegen/openapi-types.js';
+import { OpenApiCatalog } from '../services/openapi.js';
+import {
+  SCREENSHOT_DIMENSIONS,
+  PREVIEW_RESOLUTIONS,
+  LANDSCAPE_PREVIEW_RESOLUTIONS,
+  AppIncludeOptions,
+  BuildIncludeOptions,
+  BuildSortOptions,
+  CustomerReviewSortOptions,
+  DeviceSortOptions,
+  DeviceFieldOptions,
+  UserSortOptions,
+  UserIncludeOptions,
+  SalesReportType,
+  SalesReportSubType,
+  FinanceReportType,
+  CiProduct,
+  CiWorkflow,
+  CiBuildRun,
+  CiBuildAction,
+  CiIssue,
+  CiTestResult,
+  CiArtifact,
+  ScmRepository,
+  ScmGitReference,
+} from '../types/index.js';
+import type * as Spec from '../types/generated/app-store-connect.js';
+
+const spec = JSON.parse(fs.readFileSync(path.join(moduleRoot, '3.2.json'), 'utf-8'));
+const catalog = new OpenApiCatalog();
+
+function parameterEnum(operationId: string, name: string): unknown[] {
+  const parameter = catalog.getOperation(operationId)?.parameters.find(p => p.name === name);
+  return (parameter?.schema.items?.enum ?? parameter?.schema.enum ?? []) as unknown[];
+}
+
+// Records keyed by a union force these lists to contain exactly the union's members
+const appIncludes: Record<AppIncludeOptions, true> = {
+  appClips: true, appInfos: true, appStoreVersions: true, availableTerritories: true,
+  betaAppReviewDetail: true, betaGroups: true, betaLicenseAgreement: true, builds: true,
+  endUserLicenseAgreement: true, gameCenterEnabledVersions: true, inAppPurchases: true,
+  preOrder: true, prices: true, reviewSubmissions: true,
+};
+const buildIncludes: Record<BuildIncludeOptions, true> = {
+  app: true, appEncryptionDeclaration: true, appStoreVersion: true, betaAppReviewSubmission: true,
+  betaBuildLocalizations: true, betaGroups: true, buildBetaDetail: true, buildBundles: true, icons: true,
+  individualTesters: true, preReleaseVersion: true,
+};
+const buildSorts: Record<BuildSortOptions, true> = {
+  uploadedDate: true, '-uploadedDate': true, version: true, '-version': true,
+  preReleaseVersion: true, '-preReleaseVersion': true,
+};
+const customerReviewSorts: Record<CustomerReviewSortOptions, true> = {
+  createdDate: true, '-createdDate': true, rating: true, '-rating': true,
+};
+const deviceSorts: Record<DeviceSortOptions, true> = {
+  id: true, '-id': true, name: true, '-name': true, platform: true, '-platform': true,
+  status: true, '-status': true, udid: true, '-udid': true,
+};
+const deviceFields: Record<DeviceFieldOptions, true> = {
+  name: true, platform: true, udid: true, deviceClass: true, status: true, model: true, addedDate: true,
+};
+const userSorts: Record<UserSortOptions, true> = {
+  username: true, '-username': true, lastName: true, '-lastName': true,
+};
+const userIncludes: Record<UserIncludeOptions, true> = { visibleApps: true };
+const salesReportTypes: Record<SalesReportType, true> = {
+  SALES: true, PRE_ORDER: true, NEWSSTAND: true, SUBSCRIPTION: true, SUBSCRIPTION_EVENT: true, SUBSCRIBER: true,
+};
+const financeReportTypes: Record<FinanceReportType, true> = { FINANCIAL: true, FINANCE_DETAIL: true };
+const salesReportSubTypes: Record<SalesReportSubType, true> = {
+  SUMMARY: true, DETAILED: true, SUMMARY_INSTALL_TYPE: true, SUMMARY_TERRITORY: true, SUMMARY_CHANNEL: true,
+};
+
+describe('generated App Store Connect types', () => {
+  it('should match a fresh generation from 3.2.json', () => {
+    const committed = fs.readFileSync(
+      path.join(moduleRoot, 'src', 'types', 'generated', 'app-store-connect.ts'),
+      'utf-8'
+    );
+
+    // If this fails, run `npm run generate:types` and commit the result
+    expect(committed).toBe(generateTypes(spec));
+  });
+
+  it('should render enums, required properties and references', () => {
+    const source = generateTypes({
+      components: {
+        schemas: {
+          Kind: { type: 'string', enum: ['A', 'B'] },
+          Thing: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              kinds: { type: 'array', items: { $ref: '#/components/schemas/Kind' } },
+              'odd-key': { type: 'integer', deprecated: true },
+            },
+            required: ['id'],
+          },
+        },
+      },
+    });
+
+    expect(source).toContain("export type Kind = 'A' | 'B';");
+    expect(source).toContain('export interface Thing {\n  id: string;\n  kinds?: Kind[];\n  /** @deprecated */\n  \'odd-key\'?: number;\n}');
+  });
+});
+
+describe('hand-written types', () => {
+  it('should only define screenshot dimensions for display types in the spec', () => {
+    const displayTypes = spec.components.schemas.ScreenshotDisplayType.enum;
+
+    for (const displayType of Object.keys(SCREENSHOT_DIMENSIONS)) {
+      expect(displayTypes).toContain(displayType);
+    }
+  });
+
+  it('should only define preview resolutions for preview types in the spec', () => {
+    const previewTypes = spec.components.schemas.PreviewType.enum;
+
+    for (const previewType of [...Object.keys(PREVIEW_RESOLUTIONS), ...Object.keys(LANDSCAPE_PREVIEW_RESOLUTIONS)]) {
+      expect(previewTypes).toContain(previewType);
+    }
+  });
+
+  it.each([
+    ['apps-get_instance', 'include', appIncludes],
+    ['apps-customerReviews-get_to_many_related', 'sort', customerReviewSorts],
+    ['builds-get_collection', 'sort', buildSorts],
+    ['builds-get_instance', 'include', buildIncludes],
+    ['devices-get_collection', 'sort', deviceSorts],
+    ['devices-get_collection', 'fields[devices]', deviceFields],
+    ['users-get_collection', 'sort', userSorts],
+    ['users-get_collection', 'include', userIncludes],
+    ['salesReports-get_collection', 'filter[reportType]', salesReportTypes],
+    ['salesReports-get_collection', 'filter[reportSubType]', salesReportSubTypes],
+    ['financeReports-get_collection', 'filter[reportType]', financeReportTypes],
+  ])('should only use %s %s values allowed by the spec', (operationId, parameter, options) => {
+    const allowed = parameterEnum(operationId, parameter);
+
+    expect(allowed.length).toBeGreaterThan(0);
+    expect(Object.keys(options).filter(option => !allowed.includes(option))).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Compile-time checks
+// ============================================================================
+
+/** Attribute names declared by a hand-written resource that the spec does not know about */
+type UnknownAttributes<HandWritten extends { attributes: object }, Generated extends { attributes?: object }> =
+  Exclude<keyof HandWritten['attributes'], keyof NonNullable<Generated['attributes']>>;
+
+type AssertNone<T extends never> = T;
+
+export type XcodeCloudAttributesMatchSpec = [
+  AssertNone<UnknownAttributes<CiProduct, Spec.CiProduct>>,
+  AssertNone<UnknownAttributes<CiWorkflow, Spec.CiWorkflow>>,
+  AssertNone<UnknownAttributes<CiBuildRun, Spec.CiBuildRun>>,
+  AssertNone<UnknownAttributes<CiBuildAction, Spec.CiBuildAction>>,
+  AssertNone<UnknownAttributes<CiIssue, Spec.CiIssue>>,
+  AssertNone<UnknownAttributes<CiTestResult, Spec.CiTestResult>>,
+  AssertNone<UnknownAttributes<CiArtifact, Spec.CiArtifact>>,
+  AssertNone<UnknownAttributes<ScmRepository, Spec.ScmRepository>>,
+  AssertNone<UnknownAttributes<ScmGitReference, Spec.ScmGitReference>>,
+];
@@ -0,0 +1,91 @@
+/**
+ * Tests that the localization, screenshot and preview handlers only request endpoints
+ * the bundled 3.2.json spec defines
+ */
+
+import { describe, it, expect } from 'vitest';
+import { OpenApiCatalog } from '../services/openapi.js';
+import { LocalizationHandlers } from '../handlers/localizations.js';
+import { ScreenshotHandlers } from '../handlers/screenshots.js';
+import { PreviewHandlers } from '../handlers/previews.js';
+import { createMockClient, asClient, MockClient } from './helpers/mock-client.js';
+
+const catalog = new OpenApiCatalog();
+
+const localizations = {
+  data: [{ type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { locale: 'en-US', description: 'Old' } }],
+};
+
+const screenshotSet = {
+  data: {
+    type: 'appScreenshotSets',
+    id: 'set-1',
+    relationships: { appScreenshots: { data: [{ type: 'appScreenshots', id: 'shot-1' }] } },
+  },
+  included: [{ type: 'appScreenshots', id: 'shot-1', attributes: {} }],
+};
+
+function createClient(): MockClient {
+  return createMockClient({
+    getPaginated: async (url) => url.endsWith('/appStoreVersionLocalizations') ? localizations : { data: [] },
+    get: async (url) => url.startsWith('/appScreenshotSets/') ? screenshotSet : { data: [], included: [] },
+    post: async () => ({ data: { type: 'appStoreVersionLocalizations', id: 'loc-new' } }),
+    patch: async () => ({ data: {} }),
+  });
+}
+
+/**
+ * Every request the client was asked to send, as "METHOD /v1/path"
+ */
+function requestsOf(client: MockClient): string[] {
+  const calls: Array<[string, Array<[string, ...unknown[]]>]> = [
+    ['GET', client.get.mock.calls],
+    ['GET', client.getPaginated.mock.calls],
+    ['POST', client.post.mock.calls],
+    ['PATCH', client.patch.mock.calls],
+    ['DELETE', client.delete.mock.calls],
+  ];
+  return calls.flatMap(([method, methodCalls]) => methodCalls.map(([url]) => `${method} /v1${url.split('?')[0]}`));
+}
+
+function isDefined(request: string): boolean {
+  const [method, path] = request.split(' ');
+  return catalog.listOperations().some(operation =>
+    operation.method === method &&
+    new RegExp(`^${operation.path.replace(/\{[^}]+\}/g, '[^/]+')}$`).test(path)
+  );
+}
+
+describe('handler endpoints', () => {
+  it('should only request endpoints defined by the OpenAPI spec', async () => {
+    const client = createClient();
+    const localizationHandlers = new LocalizationHandlers(asClient(client));
+    const screenshotHandlers = new ScreenshotHandlers(asClient(client));
+    const previewHandlers = new PreviewHandlers(asClient(client));
+
+    await localizationHandlers.listAppStoreVersionLocalizations({ appStoreVersionId: 'version-1' });
+    await localizationHandlers.exportVersionLocalizations({ appStoreVersionId: 'version-1', format: 'json' });
+    await localizationHandlers.importVersionLocalizations({
+      appStoreVersionId: 'version-1',
+      format: 'json',
+      content: JSON.stringify({ 'en-US': { description: 'New' }, 'ja': { description: '新しい' } }),
+      apply: true,
+    });
+    await screenshotHandlers.getVersionScreenshots({ appStoreVersionId: 'version-1' });
+    await screenshotHandlers.reorderScreenshots({ screenshotSetId: 'set-1', screenshotIds: ['shot-1'] });
+    await screenshotHandlers.deleteScreenshots({ screenshotIds: ['shot-1'] });
+    await screenshotHandlers.deleteScreenshotSet({ screenshotSetId: 'set-1' });
+    await previewHandlers.getVersionPreviews({ appStoreVersionId: 'version-1' });
+    await previewHandlers.deleteAppPreviewSet({ appPreviewSetId: 'preview-set-1' });
+
+    const requests = requestsOf(client);
+
+    expect(requests).toContain('GET /v1/appStoreVersions/version-1/appStoreVersionLocalizations');
+    expect(requests.filter(request => !isDefined(request))).toEqual([]);
+  });
+
+  it('should tell requests the spec does not define', () => {
+    expect(isDefined('POST /v1/appStoreVersionLocalizations')).toBe(true);
+    expect(isDefined('GET /v1/appStoreVersionLocalizations')).toBe(false);
+  });
+});
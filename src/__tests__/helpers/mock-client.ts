@@ -0,0 +1,62 @@
+/**
+ * A typed stand-in for AppStoreConnectClient, for handler tests
+ */
+
+import { vi, Mock } from 'vitest';
+import { AppStoreConnectClient } from '../../services/appstore-client.js';
+
+type ClientMethod =
+  | 'get'
+  | 'getPaginated'
+  | 'getBuffer'
+  | 'post'
+  | 'put'
+  | 'patch'
+  | 'delete'
+  | 'downloadBuffer'
+  | 'uploadPart';
+
+/**
+ * Fakes for the client's methods, taking the same arguments and resolving to the
+ * fixture a test needs
+ */
+export type MockClientMethods = {
+  [K in ClientMethod]?: (...args: Parameters<AppStoreConnectClient[K]>) => Promise<unknown>;
+};
+
+/**
+ * The client's methods as mocks that record their calls
+ */
+export type MockClient = {
+  [K in ClientMethod]: Mock<Parameters<AppStoreConnectClient[K]>, Promise<unknown>>;
+};
+
+function mockMethod<Args extends unknown[]>(
+  implementation: (...args: Args) => Promise<unknown> = async () => undefined
+): Mock<Args, Promise<unknown>> {
+  return vi.fn(implementation);
+}
+
+/**
+ * Creates a client whose methods call the given fakes, or resolve to undefined
+ */
+export function createMockClient(methods: MockClientMethods = {}): MockClient {
+  return {
+    get: mockMethod(methods.get),
+    getPaginated: mockMethod(methods.getPaginated),
+    getBuffer: mockMethod(methods.getBuffer),
+    post: mockMethod(methods.post),
+    put: mockMethod(methods.put),
+    patch: mockMethod(methods.patch),
+    delete: mockMethod(methods.delete),
+    downloadBuffer: mockMethod(methods.downloadBuffer),
+    uploadPart: mockMethod(methods.uploadPart),
+  };
+}
+
+/**
+ * Hands a mock client to a handler, which only calls the mocked methods
+ */
+export function asClient(client: MockClient): AppStoreConnectClient {
+  return client as unknown as AppStoreConnectClient;
+}
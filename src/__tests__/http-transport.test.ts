@@ -0,0 +1,93 @@
+/**
+ * Tests for the HTTP transport
+ *
+ * These tests start the transport on an ephemeral port with a minimal MCP server
+ * and talk to it with fetch.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'net';
+import type http from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { startHttpServer } from '../transports/http.js';
+
+const AUTH_TOKEN = 'test-token';
+
+const createServer = () => {
+  const server = new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
+  return server;
+};
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+describe('HTTP transport', () => {
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    httpServer = await startHttpServer(createServer, { host: '127.0.0.1', port: 0, authToken: AUTH_TOKEN });
+    const { port } = httpServer.address() as AddressInfo;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should answer health checks without authentication', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should reject requests without a valid bearer token', async () => {
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: JSON.stringify(initializeRequest) });
+    const wrong = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer nope' },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+  });
+
+  it('should open a streamable HTTP session for an initialize request', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${AUTH_TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(initializeRequest),
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    expect(await response.text()).toContain('"serverInfo"');
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${AUTH_TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
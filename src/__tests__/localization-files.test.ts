@@ -0,0 +1,197 @@
+/**
+ * Tests for localization files and for exporting and importing a version's localizations
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { LocalizationHandlers } from '../handlers/localizations.js';
+import { parseCsv, parseLocalizationFile, writeLocalizationFile } from '../services/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const texts = {
+  'en-US': {
+    description: 'Plan your trips.\nEven "offline", with maps & more.',
+    keywords: 'travel,maps,trips',
+    supportUrl: 'https://example.com/support',
+  },
+  'de-DE': {
+    description: 'Plane deine Reisen <jetzt>.',
+    whatsNew: 'Fehlerbehebungen',
+  },
+};
+
+describe('localization files', () => {
+  it('should read back the texts it writes as CSV and JSON', () => {
+    for (const format of ['csv', 'json'] as const) {
+      expect(parseLocalizationFile(writeLocalizationFile(texts, format), format)).toEqual(texts);
+    }
+  });
+
+  it('should quote CSV fields with commas, quotes and line breaks', () => {
+    const csv = writeLocalizationFile(texts, 'csv');
+
+    expect(csv.split('\n')[0]).toBe('locale,description,keywords,whatsNew,promotionalText,marketingUrl,supportUrl');
+    expect(parseCsv(csv)).toHaveLength(3);
+    expect(csv).toContain('"Plan your trips.\nEven ""offline"", with maps & more."');
+  });
+
+  it('should ignore a byte order mark before the CSV header', () => {
+    const csv = writeLocalizationFile(texts, 'csv');
+
+    expect(parseLocalizationFile('\uFEFF' + csv, 'csv')).toEqual(texts);
+  });
+
+  it('should write XLIFF with the source locale as source and read back the translations', () => {
+    const xliff = writeLocalizationFile(texts, 'xliff', { sourceLocale: 'en-US' });
+
+    expect(xliff).toContain('source-language="en-US" target-language="de-DE"');
+    expect(xliff).not.toContain('target-language="en-US"');
+    expect(xliff).toContain('<target>Plane deine Reisen &lt;jetzt&gt;.</target>');
+    expect(parseLocalizationFile(xliff, 'xliff')).toEqual({ 'de-DE': texts['de-DE'] });
+  });
+
+  it('should read XLIFF targets written as CDATA or with character references', () => {
+    const xliff = `<xliff version="1.2"><file source-language="en-US" target-language="fr-FR"><body>
+      <trans-unit id="description"><source>Hi</source><target><![CDATA[Salut <b>&</b>]]></target></trans-unit>
+      <trans-unit id="keywords"><source>a</source><target>caf&#233;,&#x2603;</target></trans-unit>
+      <trans-unit id="whatsNew"><source>New</source></trans-unit>
+    </body></file></xliff>`;
+
+    expect(parseLocalizationFile(xliff, 'xliff')).toEqual({ 'fr-FR': { description: 'Salut <b>&</b>', keywords: 'café,☃' } });
+  });
+
+  it('should reject unknown fields and malformed files', () => {
+    expect(() => parseLocalizationFile('{"en-US": {"subtitle": "x"}}', 'json')).toThrow('unknown field "subtitle" for en-US');
+    expect(() => parseLocalizationFile('{"en-US": ', 'json')).toThrow('Invalid JSON localization file');
+    expect(() => parseLocalizationFile('description\nHello', 'csv')).toThrow('including "locale"');
+    expect(() => parseLocalizationFile('<xliff/>', 'xliff')).toThrow('no <file> elements');
+  });
+});
+
+describe('LocalizationHandlers export and import', () => {
+  function createHandlers() {
+    const client = createMockClient({
+      getPaginated: vi.fn().mockResolvedValue({
+        data: [
+          { type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { locale: 'en-US', description: 'Old', keywords: 'travel', whatsNew: null } },
+          { type: 'appStoreVersionLocalizations', id: 'loc-de', attributes: { locale: 'de-DE', description: 'Alt' } },
+          { type: 'appStoreVersionLocalizations', id: 'loc-fr', attributes: { locale: 'fr-FR', description: 'Vieux' } },
+        ],
+      }),
+      post: vi.fn().mockResolvedValue({ data: { type: 'appStoreVersionLocalizations', id: 'loc-ja' } }),
+      patch: vi.fn(async (url: string) => {
+        if (url.endsWith('loc-fr')) {
+          throw new Error('Request failed with status code 409');
+        }
+        return { data: {} };
+      }),
+    });
+    return { handlers: new LocalizationHandlers(asClient(client)), client };
+  }
+
+  const file = JSON.stringify({
+    'en-US': { description: 'New', keywords: 'travel', whatsNew: 'Bug fixes' },
+    'de-DE': { description: 'Alt', keywords: '' },
+    'fr-FR': { description: 'Nouveau' },
+    'ja': { description: '旅行' },
+    'ko': { description: '', keywords: '' },
+  });
+
+  it('should export every locale and write the file if asked', async () => {
+    const { handlers } = createHandlers();
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'asc-localizations-')), 'texts.csv');
+
+    const exported = await handlers.exportVersionLocalizations({ appStoreVersionId: 'version-1', format: 'csv', filePath });
+
+    expect(exported).toEqual({ appStoreVersionId: 'version-1', format: 'csv', locales: ['de-DE', 'en-US', 'fr-FR'], filePath });
+    expect(parseLocalizationFile(fs.readFileSync(filePath, 'utf-8'), 'csv')).toEqual({
+      'de-DE': { description: 'Alt' },
+      'en-US': { description: 'Old', keywords: 'travel' },
+      'fr-FR': { description: 'Vieux' },
+    });
+    fs.rmSync(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  it('should preview the changes without making them', async () => {
+    const { handlers, client } = createHandlers();
+
+    const preview = await handlers.importVersionLocalizations({ appStoreVersionId: 'version-1', format: 'json', content: file });
+
+    expect(preview).toMatchObject({ applied: false, created: 0, updated: 0, unchanged: 1, failed: 0 });
+    expect(preview.locales).toEqual([
+      { locale: 'de-DE', action: 'unchanged', localizationId: 'loc-de', changes: [] },
+      {
+        locale: 'en-US',
+        action: 'update',
+        localizationId: 'loc-en',
+        changes: [{ field: 'description', from: 'Old', to: 'New' }, { field: 'whatsNew', to: 'Bug fixes' }],
+      },
+      { locale: 'fr-FR', action: 'update', localizationId: 'loc-fr', changes: [{ field: 'description', from: 'Vieux', to: 'Nouveau' }] },
+      { locale: 'ja', action: 'create', changes: [{ field: 'description', to: '旅行' }] },
+    ]);
+    expect(client.patch).not.toHaveBeenCalled();
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should send one update per changed locale, create missing ones and report failures', async () => {
+    const { handlers, client } = createHandlers();
+
+    const result = await handlers.importVersionLocalizations({ appStoreVersionId: 'version-1', format: 'json', content: file, apply: true });
+
+    expect(client.patch).toHaveBeenCalledTimes(2);
+    expect(client.patch).toHaveBeenCalledWith('/appStoreVersionLocalizations/loc-en', {
+      data: { type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { description: 'New', whatsNew: 'Bug fixes' } },
+    });
+    expect(client.post).toHaveBeenCalledWith('/appStoreVersionLocalizations', {
+      data: {
+        type: 'appStoreVersionLocalizations',
+        attributes: { locale: 'ja', description: '旅行' },
+        relationships: { appStoreVersion: { data: { type: 'appStoreVersions', id: 'version-1' } } },
+      },
+    });
+    expect(result).toMatchObject({ applied: true, created: 1, updated: 1, unchanged: 1, failed: 1 });
+    expect(result.locales.find(change => change.locale === 'fr-FR')?.error).toBe('Request failed with status code 409');
+    expect(result.locales.find(change => change.locale === 'ja')?.localizationId).toBe('loc-ja');
+  });
+
+  it('should stop sending changes once the import is cancelled', async () => {
+    const { handlers, client } = createHandlers();
+    const controller = new AbortController();
+    client.patch.mockImplementation(async () => {
+      controller.abort(new Error('cancelled'));
+      return { data: {} };
+    });
+
+    await expect(handlers.importVersionLocalizations(
+      { appStoreVersionId: 'version-1', format: 'json', content: file, apply: true },
+      { signal: controller.signal }
+    )).rejects.toThrow('cancelled');
+    expect(client.patch).toHaveBeenCalledTimes(1);
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should check every locale before changing any', async () => {
+    const { handlers, client } = createHandlers();
+    const content = JSON.stringify({
+      'en-US': { keywords: 'k'.repeat(101) },
+      'ja': { description: '旅行' },
+    });
+
+    const upload = handlers.importVersionLocalizations({
+      appStoreVersionId: 'version-1',
+      format: 'json',
+      content,
+      apply: true,
+      createMissingLocales: false,
+    });
+
+    await expect(upload).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(upload).rejects.toThrow(
+      'en-US keywords: 101 characters; at most 100 are allowed\n- ja: the version has no localization for this locale'
+    );
+    expect(client.patch).not.toHaveBeenCalled();
+  });
+});
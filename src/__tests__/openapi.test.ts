@@ -0,0 +1,124 @@
+/**
+ * Tests for the OpenAPI-driven generic API tools
+ *
+ * These tests load the bundled 3.2.json spec and mock the AppStoreConnectClient.
+ */
+
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { OpenApiCatalog } from '../services/openapi.js';
+import { OpenApiHandlers } from '../handlers/openapi.js';
+import { AppStoreConnectClient } from '../services/appstore-client.js';
+
+const catalog = new OpenApiCatalog();
+
+describe('OpenApiCatalog', () => {
+  describe('searchOperations', () => {
+    it('should find operations by keyword', () => {
+      const results = catalog.searchOperations({ query: 'apps update_instance' });
+
+      expect(results.map((operation) => operation.operationId)).toContain('apps-update_instance');
+    });
+
+    it('should filter by tag and method', () => {
+      const results = catalog.searchOperations({ tag: 'apps', method: 'PATCH' });
+
+      expect(results.length).toBeGreaterThan(0);
+      expect(results.every((operation) => operation.method === 'PATCH' && operation.tags.includes('Apps'))).toBe(true);
+    });
+  });
+
+  describe('prepareCall', () => {
+    it('should build the URL and serialize array query parameters', () => {
+      const call = catalog.prepareCall('apps-get_instance', {
+        pathParameters: { id: '123456789' },
+        queryParameters: { include: ['appStoreVersions', 'builds'] },
+      });
+
+      expect(call).toEqual({
+        method: 'GET',
+        url: 'https://api.appstoreconnect.apple.com/v1/apps/123456789',
+        params: { include: 'appStoreVersions,builds' },
+      });
+    });
+
+    it('should reject missing path parameters and unknown query parameters', () => {
+      expect(() => catalog.prepareCall('apps-get_instance', {
+        queryParameters: { 'filter[nope]': 'x' },
+      })).toThrow(/path parameter 'id' is required.*unknown query parameter 'filter\[nope\]'/);
+    });
+
+    it('should reject values outside a parameter enum', () => {
+      expect(() => catalog.prepareCall('apps-get_collection', {
+        queryParameters: { 'filter[appStoreVersions.platform]': 'WINDOWS' },
+      })).toThrow(/filter\[appStoreVersions.platform\]\[0\] must be one of/);
+    });
+
+    it('should validate the request body against the spec', () => {
+      expect(() => catalog.prepareCall('apps-update_instance', {
+        pathParameters: { id: '123' },
+        body: { data: { type: 'builds', id: '123', attributes: { contentRightsDeclaration: 'MAYBE' } } },
+      })).toThrow(/body\.data\.type must be one of: apps.*contentRightsDeclaration must be one of/);
+    });
+
+    it('should reject unknown operation IDs', () => {
+      expect(() => catalog.prepareCall('apps-does_not_exist', {})).toThrow(/Unknown operationId/);
+    });
+  });
+});
+
+describe('OpenApiHandlers', () => {
+  let handlers: OpenApiHandlers;
+  let mockClient: {
+    getPaginated: Mock;
+    request: Mock;
+  };
+
+  beforeEach(() => {
+    mockClient = {
+      getPaginated: vi.fn(),
+      request: vi.fn(),
+    };
+    handlers = new OpenApiHandlers(mockClient as unknown as AppStoreConnectClient, catalog);
+  });
+
+  it('should list tags when called without a query', async () => {
+    const result = await handlers.searchApiOperations();
+
+    expect(result.tags).toContainEqual(expect.objectContaining({ tag: 'Apps' }));
+  });
+
+  it('should execute GET operations through the paginated client', async () => {
+    mockClient.getPaginated.mockResolvedValue({ data: [] });
+
+    await handlers.callAppStoreConnectApi({
+      operationId: 'apps-get_collection',
+      queryParameters: { 'filter[bundleId]': 'com.example.app', limit: 10 },
+      allPages: true,
+    });
+
+    expect(mockClient.getPaginated).toHaveBeenCalledWith(
+      'https://api.appstoreconnect.apple.com/v1/apps',
+      { 'filter[bundleId]': 'com.example.app', limit: '10' },
+      { allPages: true, maxItems: undefined }
+    );
+  });
+
+  it('should send write operations with their body', async () => {
+    mockClient.request.mockResolvedValue('');
+    const body = { data: { type: 'apps', id: '123', attributes: { primaryLocale: 'en-US' } } };
+
+    const result = await handlers.callAppStoreConnectApi({
+      operationId: 'apps-update_instance',
+      pathParameters: { id: '123' },
+      body,
+    });
+
+    expect(mockClient.request).toHaveBeenCalledWith(
+      'PATCH',
+      'https://api.appstoreconnect.apple.com/v1/apps/123',
+      body,
+      {}
+    );
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for phased releases and manual release of approved versions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { LocalizationHandlers } from '../handlers/localizations.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const version = (appStoreState: string, phasedRelease?: Record<string, unknown>) => ({
+  data: { type: 'appStoreVersions', id: 'version-1', attributes: { versionString: '2.1', appStoreState } },
+  included: phasedRelease ? [{ type: 'appStoreVersionPhasedReleases', id: 'phased-1', attributes: phasedRelease }] : [],
+});
+
+function createHandlers(response: ReturnType<typeof version>) {
+  const client = createMockClient({
+    get: vi.fn().mockResolvedValue(response),
+    post: vi.fn().mockResolvedValue({ data: { type: 'appStoreVersionReleaseRequests', id: 'release-1' } }),
+    patch: vi.fn().mockResolvedValue({
+      data: { type: 'appStoreVersionPhasedReleases', id: 'phased-1', attributes: { phasedReleaseState: 'PAUSED', currentDayNumber: 4 } },
+    }),
+  });
+  return { handlers: new LocalizationHandlers(asClient(client)), client };
+}
+
+describe('LocalizationHandlers phased releases', () => {
+  it('should report the day and percentage of an active phased release', async () => {
+    const { handlers, client } = createHandlers(version('READY_FOR_SALE', {
+      phasedReleaseState: 'ACTIVE', startDate: '2024-05-01T00:00:00Z', currentDayNumber: 4, totalPauseDuration: 0,
+    }));
+
+    await expect(handlers.getPhasedRelease({ appStoreVersionId: 'version-1' })).resolves.toEqual({
+      appStoreVersionId: 'version-1',
+      versionString: '2.1',
+      appStoreState: 'READY_FOR_SALE',
+      phasedReleaseId: 'phased-1',
+      phasedReleaseState: 'ACTIVE',
+      startDate: '2024-05-01T00:00:00Z',
+      currentDayNumber: 4,
+      totalPauseDuration: 0,
+      percentage: 10,
+    });
+    expect(client.get).toHaveBeenCalledWith('/appStoreVersions/version-1', { include: 'appStoreVersionPhasedRelease' });
+  });
+
+  it('should report versions released to everyone at once', async () => {
+    const { handlers } = createHandlers(version('READY_FOR_SALE'));
+
+    const status = await handlers.getPhasedRelease({ appStoreVersionId: 'version-1' });
+
+    expect(status.phasedReleaseId).toBeUndefined();
+    expect(status.percentage).toBeNull();
+  });
+
+  it('should pause the version\'s phased release', async () => {
+    const { handlers, client } = createHandlers(version('READY_FOR_SALE', { phasedReleaseState: 'ACTIVE', currentDayNumber: 4 }));
+
+    const status = await handlers.updatePhasedRelease({ appStoreVersionId: 'version-1', phasedReleaseState: 'PAUSED' });
+
+    expect(client.patch).toHaveBeenCalledWith('/appStoreVersionPhasedReleases/phased-1', {
+      data: { type: 'appStoreVersionPhasedReleases', id: 'phased-1', attributes: { phasedReleaseState: 'PAUSED' } },
+    });
+    expect(status).toMatchObject({ phasedReleaseState: 'PAUSED', percentage: 10 });
+  });
+
+  it('should reject updates to versions without a phased release', async () => {
+    const { handlers } = createHandlers(version('READY_FOR_SALE'));
+
+    await expect(handlers.updatePhasedRelease({ appStoreVersionId: 'version-1', phasedReleaseState: 'COMPLETE' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
+
+describe('LocalizationHandlers.releaseAppStoreVersion', () => {
+  it('should request the release of a version pending developer release', async () => {
+    const { handlers, client } = createHandlers(version('PENDING_DEVELOPER_RELEASE'));
+
+    await expect(handlers.releaseAppStoreVersion({ appStoreVersionId: 'version-1' })).resolves.toEqual({
+      success: true, appStoreVersionId: 'version-1', versionString: '2.1', releaseRequestId: 'release-1',
+    });
+    expect(client.post).toHaveBeenCalledWith('/appStoreVersionReleaseRequests', {
+      data: {
+        type: 'appStoreVersionReleaseRequests',
+        relationships: { appStoreVersion: { data: { type: 'appStoreVersions', id: 'version-1' } } },
+      },
+    });
+  });
+
+  it('should not release versions in other states', async () => {
+    const { handlers, client } = createHandlers(version('WAITING_FOR_REVIEW'));
+
+    await expect(handlers.releaseAppStoreVersion({ appStoreVersionId: 'version-1' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('WAITING_FOR_REVIEW') });
+    expect(client.post).not.toHaveBeenCalled();
+  });
+});
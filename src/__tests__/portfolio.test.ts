@@ -0,0 +1,121 @@
+/**
+ * Tests for currency conversion and the per-app portfolio summary
+ */
+
+import zlib from 'zlib';
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { convertAmounts, summarizePortfolio } from '../services/index.js';
+import { ExchangeRates } from '../types/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const rates: ExchangeRates = { source: 'test', asOf: '2024-01-01', base: 'USD', perUnit: { EUR: 1.1, JPY: 0.007 } };
+
+const HEADERS = ['SKU', 'Parent Identifier', 'Title', 'Product Type Identifier', 'Units', 'Developer Proceeds', 'Country Code', 'Currency of Proceeds', 'Apple Identifier'];
+
+const row = (sku: string, parent: string, title: string, type: string, units: number, proceeds: number, currency: string, appleId: string) =>
+  ({ sku, parentIdentifier: parent, title, productTypeIdentifier: type, units, developerProceeds: proceeds, countryCode: 'US', currencyOfProceeds: currency, appleIdentifier: appleId });
+
+const apps = [
+  { id: '111', name: 'Puzzle', bundleId: 'com.example.puzzle', sku: 'puzzle' },
+  { id: '222', name: 'Racer', bundleId: 'com.example.racer', sku: 'racer' },
+];
+
+describe('convertAmounts', () => {
+  it('should sum amounts into one currency and list currencies without a rate', () => {
+    expect(convertAmounts({ USD: 10, EUR: 10, XXX: 5 }, 'EUR', [rates])).toEqual({ amount: 19.09, unconverted: ['XXX'] });
+  });
+});
+
+describe('summarizePortfolio', () => {
+  it('should attribute downloads, in-app purchases and refunds to apps and compare the periods', () => {
+    const current = [
+      row('puzzle', '', 'Puzzle', '1F', 20, 0, 'USD', '111'),
+      row('puzzle', '', 'Puzzle', '7F', 50, 0, 'USD', '111'),
+      row('puzzle.coins', 'puzzle', 'Coins', 'IA1', 10, 1.5, 'EUR', '999'),
+      row('puzzle.coins', 'puzzle', 'Coins', 'IA1', -2, 1.5, 'EUR', '999'),
+      row('old', '', 'Old Game', '1F', 3, 0.7, 'USD', '333'),
+    ];
+    const previous = [
+      row('puzzle', '', 'Puzzle', '1F', 10, 0, 'USD', '111'),
+      row('puzzle.coins', 'puzzle', 'Coins', 'IA1', 4, 1.5, 'EUR', '999'),
+    ];
+
+    const summary = summarizePortfolio(apps, current, previous, { currency: 'USD', exchangeRates: [rates] });
+
+    expect(summary.apps.map(app => app.name)).toEqual(['Puzzle', 'Old Game', 'Racer']);
+    expect(summary.apps[0]).toMatchObject({
+      appId: '111',
+      current: { downloads: 20, updates: 50, inAppPurchases: 8, refunds: 2, proceeds: 13.2, refundedProceeds: 3.3 },
+      previous: { downloads: 10, inAppPurchases: 4, proceeds: 6.6 },
+      change: { downloads: 10, proceeds: 6.6 },
+      percentChange: { downloads: 100, proceeds: 100, refunds: null },
+    });
+    expect(summary.apps[1]).toMatchObject({ appId: '333', name: 'Old Game', current: { downloads: 3, proceeds: 2.1 } });
+    expect(summary.apps[2].current).toEqual({
+      downloads: 0, redownloads: 0, updates: 0, inAppPurchases: 0, refunds: 0, proceeds: 0, refundedProceeds: 0,
+    });
+    expect(summary.totals.current.proceeds).toBe(15.3);
+    expect(summary.unconvertedCurrencies).toEqual([]);
+  });
+});
+
+describe('AnalyticsHandlers.getPortfolioSummary', () => {
+  const report = (units: number) => zlib.gzipSync([
+    HEADERS,
+    ['puzzle', '', 'Puzzle', '1F', String(units), '0.70', 'US', 'USD', '111'],
+  ].map(cells => cells.join('\t')).join('\n'));
+
+  const notFound = () => new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, {
+    data: { errors: [{ status: '404', code: 'NOT_FOUND', title: 'Not found', detail: 'No report' }] },
+    status: 404,
+    statusText: 'Not Found',
+    headers: {},
+    config: { headers: new AxiosHeaders() },
+  });
+
+  function createHandlers() {
+    const reports: Record<string, Buffer> = { '2024-01-06': report(4), '2024-01-08': report(6), '2024-01-09': report(3) };
+    const client = createMockClient({
+      getPaginated: vi.fn().mockResolvedValue({
+        data: apps.map(({ id, ...attributes }) => ({ id, type: 'apps', attributes })),
+      }),
+      getBuffer: vi.fn(async (_url: string, params: Record<string, string> = {}) => {
+        const body = reports[params['filter[reportDate]']];
+        if (!body) {
+          throw notFound();
+        }
+        return body;
+      }),
+    });
+    return { handlers: new AnalyticsHandlers(asClient(client), { vendorNumber: '12345' }), client };
+  }
+
+  it('should compare a period with the one before it', async () => {
+    const { handlers, client } = createHandlers();
+
+    const summary = await handlers.getPortfolioSummary({ endDate: '2024-01-10', days: 3, currency: 'EUR' });
+
+    expect(summary.current).toEqual({ startDate: '2024-01-08', endDate: '2024-01-10' });
+    expect(summary.previous).toEqual({ startDate: '2024-01-05', endDate: '2024-01-07' });
+    expect(summary.apps[0]).toMatchObject({
+      name: 'Puzzle',
+      current: { downloads: 9 },
+      previous: { downloads: 4 },
+      percentChange: { downloads: 125 },
+    });
+    expect(summary.currency).toBe('EUR');
+    expect(summary.exchangeRates).toEqual([{ source: 'static', asOf: '2024-06-30' }]);
+    expect(summary.coverage).toMatchObject({ days: 6, downloaded: 3 });
+    // Six days of sales, and the financial reports of January and December for exchange rates
+    expect(client.getBuffer).toHaveBeenCalledTimes(8);
+  });
+
+  it('should reject currencies without an exchange rate', async () => {
+    const { handlers } = createHandlers();
+
+    await expect(handlers.getPortfolioSummary({ currency: 'XXX' })).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
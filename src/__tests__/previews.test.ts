@@ -0,0 +1,264 @@
+/**
+ * Tests for reading video metadata, checking app previews and uploading them from disk
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { PreviewHandlers } from '../handlers/previews.js';
+import { checkPreviewFile, parseMovieBox, readVideoMetadata, PreviewError } from '../services/index.js';
+import { AppPreviewUpdateRequest } from '../types/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const box = (type: string, ...content: Buffer[]) => {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+};
+
+function mvhd(seconds: number, timescale = 600) {
+  const content = Buffer.alloc(100);
+  content.writeUInt32BE(timescale, 12);
+  content.writeUInt32BE(seconds * timescale, 16);
+  return box('mvhd', content);
+}
+
+function tkhd(width: number, height: number, rotated = false) {
+  const content = Buffer.alloc(84);
+  // Identity matrix, or a quarter turn
+  const [a, b, c, d] = rotated ? [0, 0x10000, -0x10000, 0] : [0x10000, 0, 0, 0x10000];
+  content.writeInt32BE(a, 40);
+  content.writeInt32BE(b, 44);
+  content.writeInt32BE(c, 52);
+  content.writeInt32BE(d, 56);
+  content.writeUInt32BE(0x40000000, 72);
+  content.writeUInt32BE(width * 0x10000, 76);
+  content.writeUInt32BE(height * 0x10000, 80);
+  return box('tkhd', content);
+}
+
+const hdlr = (handler: string) => box('hdlr', Buffer.alloc(8), Buffer.from(handler, 'latin1'), Buffer.alloc(12));
+
+const stsd = (codec: string) => box('stsd', Buffer.from([0, 0, 0, 0, 0, 0, 0, 1]), box(codec, Buffer.alloc(8)));
+
+function movie(options: { seconds: number; width: number; height: number; codec?: string; rotated?: boolean }) {
+  const { seconds, width, height, codec = 'avc1', rotated } = options;
+  return box('moov',
+    mvhd(seconds),
+    box('trak', tkhd(0, 0), box('mdia', hdlr('soun'))),
+    box('trak', tkhd(width, height, rotated), box('mdia', hdlr('vide'), box('minf', box('stbl', stsd(codec))))),
+  );
+}
+
+let tempDir: string;
+
+// A video file with its media data before the movie box, as cameras write them
+function videoFile(name: string, options: Parameters<typeof movie>[0]): string {
+  const file = path.join(tempDir, name);
+  fs.writeFileSync(file, Buffer.concat([box('ftyp', Buffer.from('isom')), box('mdat', Buffer.alloc(4096, 7)), movie(options)]));
+  return file;
+}
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-previews-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('video metadata', () => {
+  it('should read the duration, size and codec of the video track', () => {
+    expect(parseMovieBox(movie({ seconds: 20, width: 886, height: 1920 }).subarray(8)))
+      .toEqual({ durationSeconds: 20, width: 886, height: 1920, codec: 'avc1' });
+  });
+
+  it('should report the displayed size of rotated videos', async () => {
+    const file = videoFile('rotated.mov', { seconds: 25, width: 1920, height: 886, codec: 'apch', rotated: true });
+
+    await expect(readVideoMetadata(file)).resolves.toEqual({ durationSeconds: 25, width: 886, height: 1920, codec: 'apch' });
+  });
+
+  it('should reject files without a movie box', async () => {
+    const file = path.join(tempDir, 'not-a-video.mp4');
+    fs.writeFileSync(file, 'hello world, this is text');
+
+    await expect(readVideoMetadata(file)).rejects.toThrow('no movie box');
+  });
+});
+
+describe('checkPreviewFile', () => {
+  it('should accept a video that fits its preview type', async () => {
+    const file = videoFile('fits.mp4', { seconds: 20, width: 1920, height: 886 });
+
+    await expect(checkPreviewFile(file, 'IPHONE_67', '00:00:05:00')).resolves.toMatchObject({
+      fileName: 'fits.mp4',
+      mimeType: 'video/mp4',
+      durationSeconds: 20,
+      width: 1920,
+      height: 886,
+    });
+  });
+
+  it('should list every problem with a video', async () => {
+    const file = videoFile('wrong.mov', { seconds: 45, width: 1080, height: 1920, codec: 'hvc1' });
+
+    const check = checkPreviewFile(file, 'IPHONE_67', '00:00:50:00');
+
+    await expect(check).rejects.toThrow(PreviewError);
+    await expect(check).rejects.toThrow(
+      'wrong.mov lasts 45.0s; previews last 15 to 30 seconds; is 1080x1920; IPHONE_67 previews are 886x1920 or 1920x886; ' +
+      'uses the hvc1 codec; previews must be H.264 or ProRes 422 HQ; poster frame 00:00:50:00 is after the end of the video'
+    );
+  });
+
+  it('should only take landscape videos for Mac and Apple TV', async () => {
+    const file = videoFile('portrait-tv.mov', { seconds: 20, width: 1080, height: 1920 });
+
+    await expect(checkPreviewFile(file, 'APPLE_TV')).rejects.toThrow('APPLE_TV previews are 1920x1080');
+  });
+});
+
+describe('PreviewHandlers', () => {
+  function createHandlers(existingPreviews = 0) {
+    const client = createMockClient({
+      getPaginated: vi.fn().mockResolvedValue({
+        data: [{ type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { locale: 'en-US' } }],
+      }),
+      get: vi.fn().mockResolvedValue({
+        data: [{
+          type: 'appPreviewSets',
+          id: 'set-en',
+          attributes: { previewType: 'IPHONE_67' },
+          relationships: { appPreviews: { data: Array.from({ length: existingPreviews }, (_, i) => ({ type: 'appPreviews', id: `old-${i}` })) } },
+        }],
+        included: Array.from({ length: existingPreviews }, (_, i) => ({
+          type: 'appPreviews',
+          id: `old-${i}`,
+          attributes: {
+            fileName: `old-${i}.mov`,
+            previewFrameTimeCode: '00:00:03:00',
+            previewImage: { templateUrl: 'https://cdn/poster/{w}x{h}bb.{f}', width: 886, height: 1920 },
+            assetDeliveryState: { state: 'COMPLETE' },
+          },
+        })),
+      }),
+      post: vi.fn().mockResolvedValue({
+        data: {
+          type: 'appPreviews',
+          id: 'preview-1',
+          attributes: {
+            uploadOperations: [
+              { method: 'PUT', url: 'https://upload/1', offset: 0, length: 1000 },
+              { method: 'PUT', url: 'https://upload/2', offset: 1000, length: 100000 },
+            ],
+          },
+        },
+      }),
+      patch: vi.fn(async (url: string, body: AppPreviewUpdateRequest) => ({
+        data: { type: 'appPreviews', id: url.split('/').pop(), attributes: { ...body.data.attributes, assetDeliveryState: { state: 'UPLOAD_COMPLETE' } } },
+      })),
+      delete: vi.fn().mockResolvedValue(undefined),
+      uploadPart: vi.fn().mockResolvedValue(undefined),
+    });
+    return { handlers: new PreviewHandlers(asClient(client)), client };
+  }
+
+  it('should upload a video part by part from disk and commit it with its checksum', async () => {
+    const { handlers, client } = createHandlers(1);
+    const file = videoFile('upload.mov', { seconds: 20, width: 886, height: 1920 });
+    const data = fs.readFileSync(file);
+
+    const summary = await handlers.uploadAppPreviews({
+      appStoreVersionId: 'version-1',
+      previews: [{ locale: 'en-US', previewType: 'IPHONE_67', filePath: file, previewFrameTimeCode: '00:00:05:00' }],
+    });
+
+    expect(client.post).toHaveBeenCalledWith('/appPreviews', {
+      data: {
+        type: 'appPreviews',
+        attributes: { fileName: 'upload.mov', fileSize: data.length, mimeType: 'video/quicktime', previewFrameTimeCode: '00:00:05:00' },
+        relationships: { appPreviewSet: { data: { type: 'appPreviewSets', id: 'set-en' } } },
+      },
+    });
+    expect(Buffer.concat(client.uploadPart.mock.calls.map(([, part]) => part))).toEqual(data);
+    expect(client.patch).toHaveBeenCalledWith('/appPreviews/preview-1', {
+      data: {
+        type: 'appPreviews',
+        id: 'preview-1',
+        attributes: { uploaded: true, sourceFileChecksum: createHash('md5').update(data).digest('hex') },
+      },
+    });
+    expect(summary).toMatchObject({
+      uploaded: 1,
+      results: [{ previewSetId: 'set-en', previewId: 'preview-1', durationSeconds: 20, assetDeliveryState: { state: 'UPLOAD_COMPLETE' } }],
+    });
+  });
+
+  it('should check every video before uploading any', async () => {
+    const { handlers, client } = createHandlers();
+    const good = videoFile('good.mov', { seconds: 20, width: 886, height: 1920 });
+    const short = videoFile('short.mov', { seconds: 5, width: 886, height: 1920 });
+
+    const upload = handlers.uploadAppPreviews({
+      appStoreVersionId: 'version-1',
+      previews: [
+        { locale: 'en-US', previewType: 'IPHONE_67', filePath: good },
+        { locale: 'en-US', previewType: 'IPHONE_67', filePath: short },
+      ],
+    });
+
+    await expect(upload).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(upload).rejects.toThrow('short.mov lasts 5.0s');
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should not upload into a full set', async () => {
+    const { handlers, client } = createHandlers(3);
+    const file = videoFile('fourth.mov', { seconds: 20, width: 886, height: 1920 });
+
+    const summary = await handlers.uploadAppPreviews({
+      appStoreVersionId: 'version-1',
+      previews: [{ locale: 'en-US', previewType: 'IPHONE_67', filePath: file }],
+    });
+
+    expect(summary.results[0].error).toBe('The IPHONE_67 set for en-US already holds 3 previews');
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should list previews with their poster frames', async () => {
+    const { handlers } = createHandlers(1);
+
+    const listing = await handlers.getVersionPreviews({ appStoreVersionId: 'version-1' });
+
+    expect(listing.sets).toEqual([{
+      previewSetId: 'set-en',
+      locale: 'en-US',
+      localizationId: 'loc-en',
+      previewType: 'IPHONE_67',
+      previews: [{
+        previewId: 'old-0',
+        fileName: 'old-0.mov',
+        previewFrameTimeCode: '00:00:03:00',
+        posterFrameUrl: 'https://cdn/poster/886x1920bb.jpg',
+        assetDeliveryState: 'COMPLETE',
+      }],
+    }]);
+  });
+
+  it('should set the poster frame', async () => {
+    const { handlers, client } = createHandlers();
+
+    const preview = await handlers.setPreviewPosterFrame({ appPreviewId: 'preview-1', previewFrameTimeCode: '00:00:08:12' });
+
+    expect(client.patch).toHaveBeenCalledWith('/appPreviews/preview-1', {
+      data: { type: 'appPreviews', id: 'preview-1', attributes: { previewFrameTimeCode: '00:00:08:12' } },
+    });
+    expect(preview.previewFrameTimeCode).toBe('00:00:08:12');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for account profiles: loading them from the environment or a file, and
+ * serving each tool call with the named profile's client and handlers
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { loadProfiles, ConfigurationError } from '../config.js';
+import { createToolRegistry, ProfileContexts } from '../tools/index.js';
+
+let tempDir: string;
+let keyPath: string;
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-profiles-'));
+  keyPath = path.join(tempDir, 'AuthKey.p8');
+  fs.writeFileSync(keyPath, 'not a real key');
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('loadProfiles', () => {
+  it('should keep the unprefixed variables as the default profile', () => {
+    const { defaultProfile, profiles } = loadProfiles({
+      APP_STORE_CONNECT_KEY_ID: 'KEY',
+      APP_STORE_CONNECT_ISSUER_ID: 'ISSUER',
+      APP_STORE_CONNECT_P8_PATH: keyPath,
+    });
+
+    expect(defaultProfile).toBe('default');
+    expect(profiles).toEqual({
+      default: { keyId: 'KEY', issuerId: 'ISSUER', privateKeyPath: keyPath, vendorNumber: undefined },
+    });
+  });
+
+  it('should read prefixed profile variables', () => {
+    const { defaultProfile, profiles } = loadProfiles({
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_KEY_ID: 'KEY_A',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_ISSUER_ID: 'ISSUER_A',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_P8_PATH: keyPath,
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_VENDOR_NUMBER: '111',
+      APP_STORE_CONNECT_PROFILE_AGENCY_KEY_ID: 'KEY_B',
+      APP_STORE_CONNECT_PROFILE_AGENCY_ISSUER_ID: 'ISSUER_B',
+      APP_STORE_CONNECT_PROFILE_AGENCY_P8_PATH: keyPath,
+      APP_STORE_CONNECT_DEFAULT_PROFILE: 'agency',
+    });
+
+    expect(defaultProfile).toBe('agency');
+    expect(profiles['client-a']).toEqual({ keyId: 'KEY_A', issuerId: 'ISSUER_A', privateKeyPath: keyPath, vendorNumber: '111' });
+    expect(profiles.agency.vendorNumber).toBeUndefined();
+  });
+
+  it('should read profiles from a file, resolving key paths against it', () => {
+    const file = path.join(tempDir, 'profiles.json');
+    fs.writeFileSync(file, JSON.stringify({
+      defaultProfile: 'team-b',
+      profiles: {
+        'team-a': { keyId: 'KEY_A', issuerId: 'ISSUER_A', privateKeyPath: 'AuthKey.p8' },
+        'team-b': { keyId: 'KEY_B', issuerId: 'ISSUER_B', privateKeyPath: keyPath, vendorNumber: '222' },
+      },
+    }));
+
+    const { defaultProfile, profiles } = loadProfiles({ APP_STORE_CONNECT_PROFILES_FILE: file });
+
+    expect(defaultProfile).toBe('team-b');
+    expect(Object.keys(profiles)).toEqual(['team-a', 'team-b']);
+    expect(profiles['team-a'].privateKeyPath).toBe(keyPath);
+  });
+
+  it('should read the requests tokens are limited to', () => {
+    const { profiles } = loadProfiles({
+      APP_STORE_CONNECT_KEY_ID: 'KEY',
+      APP_STORE_CONNECT_ISSUER_ID: 'ISSUER',
+      APP_STORE_CONNECT_P8_PATH: keyPath,
+      APP_STORE_CONNECT_TOKEN_SCOPE: 'GET /v1/apps; GET /v1/salesReports?filter[frequency]=DAILY',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_KEY_ID: 'KEY_A',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_ISSUER_ID: 'ISSUER_A',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_P8_PATH: keyPath,
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_TOKEN_SCOPE: 'GET /v1/builds',
+    });
+
+    expect(profiles.default.tokenScope).toEqual(['GET /v1/apps', 'GET /v1/salesReports?filter[frequency]=DAILY']);
+    expect(profiles['client-a'].tokenScope).toEqual(['GET /v1/builds']);
+    expect(() => loadProfiles({
+      APP_STORE_CONNECT_KEY_ID: 'KEY',
+      APP_STORE_CONNECT_ISSUER_ID: 'ISSUER',
+      APP_STORE_CONNECT_P8_PATH: keyPath,
+      APP_STORE_CONNECT_TOKEN_SCOPE: 'apps',
+    })).toThrow('APP_STORE_CONNECT_TOKEN_SCOPE has invalid entries: apps');
+  });
+
+  it('should name what is missing from an incomplete profile', () => {
+    expect(() => loadProfiles({
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_KEY_ID: 'KEY_A',
+      APP_STORE_CONNECT_PROFILE_CLIENT_A_P8_PATH: keyPath,
+    })).toThrow(/profile "client-a"[\s\S]*APP_STORE_CONNECT_PROFILE_CLIENT_A_ISSUER_ID/);
+  });
+
+  it('should require at least one profile and a configured default', () => {
+    expect(() => loadProfiles({})).toThrow(ConfigurationError);
+    expect(() => loadProfiles({
+      APP_STORE_CONNECT_KEY_ID: 'KEY',
+      APP_STORE_CONNECT_ISSUER_ID: 'ISSUER',
+      APP_STORE_CONNECT_P8_PATH: keyPath,
+      APP_STORE_CONNECT_DEFAULT_PROFILE: 'missing',
+    })).toThrow(/Default profile "missing" is not configured/);
+  });
+});
+
+describe('ProfileContexts', () => {
+  const profiles = {
+    defaultProfile: 'team-a',
+    profiles: {
+      'team-a': { keyId: 'KEY_A', issuerId: 'ISSUER_A', privateKeyPath: keyPath },
+      'team-b': { keyId: 'KEY_B', issuerId: 'ISSUER_B', privateKeyPath: keyPath, vendorNumber: '222' },
+    },
+  };
+
+  function createContexts() {
+    const createContext = vi.fn((config: { keyId: string }) => ({
+      client: {} as any,
+      config: config as any,
+      handlers: { apps: { listApps: vi.fn().mockResolvedValue({ keyId: config.keyId }) } } as any,
+    }));
+    return { contexts: new ProfileContexts(profiles, createContext), createContext };
+  }
+
+  it('should create each profile context once, on first use', () => {
+    const { contexts, createContext } = createContexts();
+
+    expect(contexts.resolve().profile).toBe('team-a');
+    expect(contexts.resolve('team-b').config.keyId).toBe('KEY_B');
+    contexts.resolve('team-b');
+
+    expect(createContext).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject unknown profiles', () => {
+    const { contexts } = createContexts();
+
+    expect(() => contexts.resolve('team-c')).toThrow(expect.objectContaining({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('Configured profiles are: team-a, team-b'),
+    }));
+  });
+
+  it('should offer a profile argument and report tools any profile enables', () => {
+    const { contexts } = createContexts();
+    const tools = createToolRegistry().list(profiles.profiles['team-a'], contexts);
+
+    expect(tools.find(tool => tool.name === 'list_apps')?.inputSchema.properties?.profile)
+      .toMatchObject({ enum: ['team-a', 'team-b'] });
+    expect(tools.map(tool => tool.name)).toContain('download_sales_report');
+  });
+
+  it('should dispatch calls to the named profile', async () => {
+    const { contexts } = createContexts();
+    const registry = createToolRegistry();
+
+    const result = await registry.call('list_apps', {}, contexts.resolve('team-b'));
+
+    expect(result.structuredContent).toEqual({ keyId: 'KEY_B' });
+    await expect(registry.call('download_sales_report', {}, contexts.resolve('team-a'))).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound,
+      message: expect.stringContaining('(profile: team-a)'),
+    });
+  });
+
+  it('should list profiles without their keys', async () => {
+    const { contexts } = createContexts();
+
+    const result = await createToolRegistry().call('list_profiles', {}, contexts.resolve('team-b'));
+
+    expect(result.structuredContent).toEqual({
+      defaultProfile: 'team-a',
+      activeProfile: 'team-b',
+      profiles: [
+        { name: 'team-a', keyId: 'KEY_A', issuerId: 'ISSUER_A', isDefault: true },
+        { name: 'team-b', keyId: 'KEY_B', issuerId: 'ISSUER_B', vendorNumber: '222', isDefault: false },
+      ],
+    });
+  });
+});
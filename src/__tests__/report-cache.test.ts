@@ -0,0 +1,184 @@
+/**
+ * Tests for the on-disk report cache and the sales time series built on it
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { ReportCache, isReportSettled, aggregateSalesTimeseries, reportDatesInRange } from '../services/index.js';
+import { getReportCacheDir } from '../config.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const HEADERS = ['SKU', 'Title', 'Units', 'Developer Proceeds', 'Country Code', 'Currency of Proceeds'];
+
+const dailyReport = (rows: string[][]) => zlib.gzipSync([HEADERS, ...rows].map(row => row.join('\t')).join('\n'));
+
+const notFound = () => new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, {
+  data: { errors: [{ status: '404', code: 'NOT_FOUND', title: 'Not found', detail: 'No report' }] },
+  status: 404,
+  statusText: 'Not Found',
+  headers: {},
+  config: { headers: new AxiosHeaders() },
+});
+
+const reports: Record<string, Buffer> = {
+  '2024-01-01': dailyReport([
+    ['sku.puzzle', 'Puzzle', '10', '0.70', 'US', 'USD'],
+    ['sku.puzzle', 'Puzzle', '4', '0.60', 'DE', 'EUR'],
+  ]),
+  '2024-01-03': dailyReport([
+    ['sku.racer', 'Racer', '2', '1.40', 'US', 'USD'],
+    ['sku.puzzle', 'Puzzle', '1', '0.70', 'US', 'USD'],
+  ]),
+};
+
+let cacheDir: string;
+
+beforeEach(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-report-cache-'));
+});
+
+afterEach(() => {
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+function createHandlers(cache?: ReportCache) {
+  const getBuffer = vi.fn(async (_url: string, params: Record<string, string> = {}) => {
+    const body = reports[params['filter[reportDate]']];
+    if (!body) {
+      throw notFound();
+    }
+    return body;
+  });
+  return { handlers: new AnalyticsHandlers(asClient(createMockClient({ getBuffer })), { vendorNumber: '12345' }, cache), getBuffer };
+}
+
+describe('ReportCache', () => {
+  it('should store reports and missing reports under their key', async () => {
+    const cache = new ReportCache(cacheDir);
+
+    await cache.set(['sales', '12345', 'SALES', '2024-01-01'], 'Units\n1');
+    await cache.set(['sales', '12345', 'SALES', '2024-01-02'], null);
+
+    expect((await cache.get(['sales', '12345', 'SALES', '2024-01-01']))?.body).toBe('Units\n1');
+    expect((await cache.get(['sales', '12345', 'SALES', '2024-01-02']))?.body).toBeNull();
+    expect(await cache.get(['sales', '12345', 'SALES', '2024-01-03'])).toBeUndefined();
+    expect(fs.existsSync(path.join(cacheDir, 'sales', '12345', 'SALES', '2024-01-01.json'))).toBe(true);
+  });
+
+  it('should keep key parts from leaving the cache directory', async () => {
+    const cache = new ReportCache(cacheDir);
+
+    await cache.set(['..', 'a/b'], 'x');
+
+    expect(fs.readdirSync(cacheDir)).toEqual(['_']);
+    expect((await cache.get(['..', 'a/b']))?.body).toBe('x');
+  });
+});
+
+describe('isReportSettled', () => {
+  const now = new Date('2024-03-20T12:00:00Z');
+
+  it('should settle days a week after they end and months after 45 days', () => {
+    expect(isReportSettled('2024-03-12', now)).toBe(true);
+    expect(isReportSettled('2024-03-14', now)).toBe(false);
+    expect(isReportSettled('2024-01', now)).toBe(true);
+    expect(isReportSettled('2024-02', now)).toBe(false);
+    expect(isReportSettled('2023', now)).toBe(true);
+  });
+});
+
+describe('aggregateSalesTimeseries', () => {
+  it('should sum units and proceeds by the grouped dimensions', () => {
+    const rows = (units: number, country: string) => [{ title: 'Puzzle', units, developerProceeds: 0.5, countryCode: country, currencyOfProceeds: 'USD' }];
+
+    const { points, totals } = aggregateSalesTimeseries('SALES', [
+      { date: '2024-01-01', rows: [...rows(2, 'US'), ...rows(5, 'DE')] },
+      { date: '2024-01-02', rows: rows(4, 'US') },
+    ], ['country']);
+
+    expect(points).toEqual([
+      { country: 'US', units: 6, proceeds: { USD: 3 } },
+      { country: 'DE', units: 5, proceeds: { USD: 2.5 } },
+    ]);
+    expect(totals).toEqual({ units: 11, proceeds: { USD: 5.5 } });
+  });
+
+  it('should list every date of a range', () => {
+    expect(reportDatesInRange('2024-02-28', '2024-03-01')).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+  });
+});
+
+describe('AnalyticsHandlers.querySalesTimeseries', () => {
+  it('should backfill missing days and answer repeated queries from the cache', async () => {
+    const cache = new ReportCache(cacheDir);
+    const { handlers, getBuffer } = createHandlers(cache);
+    const query = { startDate: '2024-01-01', endDate: '2024-01-03', groupBy: ['date' as const, 'country' as const] };
+
+    const first = await handlers.querySalesTimeseries(query);
+
+    expect(first.points).toEqual([
+      { date: '2024-01-01', country: 'US', units: 10, proceeds: { USD: 7 } },
+      { date: '2024-01-01', country: 'DE', units: 4, proceeds: { EUR: 2.4 } },
+      { date: '2024-01-03', country: 'US', units: 3, proceeds: { USD: 3.5 } },
+    ]);
+    expect(first.totals).toEqual({ units: 17, proceeds: { USD: 10.5, EUR: 2.4 } });
+    expect(first.coverage).toEqual({ days: 3, fromCache: 0, downloaded: 2, daysWithoutReport: ['2024-01-02'] });
+    expect(getBuffer).toHaveBeenCalledWith('/salesReports', expect.objectContaining({
+      'filter[frequency]': 'DAILY',
+      'filter[reportDate]': '2024-01-01',
+    }));
+
+    getBuffer.mockClear();
+    const second = await handlers.querySalesTimeseries(query);
+
+    expect(getBuffer).not.toHaveBeenCalled();
+    expect(second.points).toEqual(first.points);
+    expect(second.coverage).toMatchObject({ fromCache: 3, downloaded: 0, daysWithoutReport: ['2024-01-02'] });
+  });
+
+  it('should not cache a missing report until its day is settled', async () => {
+    const cache = new ReportCache(cacheDir);
+    const { handlers, getBuffer } = createHandlers(cache);
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    await handlers.querySalesTimeseries({ days: 1 });
+    await handlers.querySalesTimeseries({ days: 1 });
+
+    expect(getBuffer).toHaveBeenCalledTimes(2);
+    expect(getBuffer).toHaveBeenLastCalledWith('/salesReports', expect.objectContaining({ 'filter[reportDate]': yesterday }));
+  });
+
+  it('should serve single report downloads from the cache', async () => {
+    const { handlers, getBuffer } = createHandlers(new ReportCache(cacheDir));
+    const args = { reportDate: '2024-01-03', frequency: 'DAILY' as const };
+
+    await handlers.downloadSalesReport(args);
+    const report = await handlers.downloadSalesReport(args);
+
+    expect(getBuffer).toHaveBeenCalledTimes(1);
+    expect(report.totals).toMatchObject({ units: 3, proceeds: { USD: 3.5 } });
+  });
+
+  it('should reject ranges that are reversed or too long', async () => {
+    const { handlers } = createHandlers();
+
+    await expect(handlers.querySalesTimeseries({ startDate: '2024-01-02', endDate: '2024-01-01' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(handlers.querySalesTimeseries({ startDate: '2023-01-01', endDate: '2024-12-31' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+});
+
+describe('getReportCacheDir', () => {
+  it('should default to the user cache directory and allow turning the cache off', () => {
+    expect(getReportCacheDir({})).toBe(path.join(os.homedir(), '.cache', 'appstore-connect-mcp-server', 'reports'));
+    expect(getReportCacheDir({ APP_STORE_CONNECT_REPORT_CACHE_DIR: '/var/cache/asc' })).toBe('/var/cache/asc');
+    expect(getReportCacheDir({ APP_STORE_CONNECT_REPORT_CACHE_DIR: 'off' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for App Review submissions and their pre-flight checks
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ReviewSubmissionHandlers } from '../handlers/reviewSubmissions.js';
+import { checkVersionForReview } from '../services/index.js';
+import { AppStoreVersionResponse } from '../types/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+type VersionState = NonNullable<AppStoreVersionResponse['data']['attributes']>['appStoreState'];
+
+function versionResponse(overrides: {
+  state?: VersionState;
+  build?: Record<string, unknown> | null;
+  localizations?: Array<Record<string, string>>;
+  reviewDetail?: Record<string, unknown> | null;
+} = {}): AppStoreVersionResponse {
+  const {
+    state = 'PREPARE_FOR_SUBMISSION',
+    build = { version: '42', processingState: 'VALID', expired: false, usesNonExemptEncryption: false },
+    localizations = [{ locale: 'en-US', description: 'A puzzle game', keywords: 'puzzle', supportUrl: 'https://example.com', whatsNew: 'Fixes' }],
+    reviewDetail = { contactFirstName: 'Sam', contactLastName: 'Lee', contactPhone: '+1 555 0100', contactEmail: 'sam@example.com', demoAccountRequired: false },
+  } = overrides;
+
+  return {
+    data: {
+      type: 'appStoreVersions',
+      id: 'version-1',
+      attributes: { versionString: '2.0', platform: 'IOS', appStoreState: state, copyright: '2024 Example' },
+      relationships: build ? { build: { data: { type: 'builds', id: 'build-1' } } } : {},
+    },
+    included: [
+      ...(build ? [{ type: 'builds' as const, id: 'build-1', attributes: build }] : []),
+      ...localizations.map((attributes, index) => ({ type: 'appStoreVersionLocalizations' as const, id: `loc-${index}`, attributes })),
+      ...(reviewDetail ? [{ type: 'appStoreReviewDetails' as const, id: 'detail-1', attributes: reviewDetail }] : []),
+    ],
+    links: { self: '' },
+  } as AppStoreVersionResponse;
+}
+
+describe('checkVersionForReview', () => {
+  it('should pass a complete version', () => {
+    expect(checkVersionForReview(versionResponse())).toEqual({
+      appStoreVersionId: 'version-1',
+      versionString: '2.0',
+      platform: 'IOS',
+      appStoreState: 'PREPARE_FOR_SUBMISSION',
+      buildId: 'build-1',
+      ready: true,
+      issues: [],
+    });
+  });
+
+  it('should report every missing piece at once', () => {
+    const result = checkVersionForReview(versionResponse({
+      state: 'READY_FOR_SALE',
+      build: { version: '42', processingState: 'PROCESSING' },
+      localizations: [{ locale: 'de-DE', description: 'Ein Spiel', keywords: '', supportUrl: 'https://example.com' }],
+      reviewDetail: { contactFirstName: 'Sam', contactLastName: 'Lee', contactPhone: '', contactEmail: 'sam@example.com', demoAccountRequired: true, demoAccountName: 'demo' },
+    }));
+
+    expect(result.ready).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ check: 'version', severity: 'error', message: expect.stringContaining('READY_FOR_SALE') }),
+      expect.objectContaining({ check: 'build', message: expect.stringContaining('PROCESSING') }),
+      expect.objectContaining({ check: 'build', message: expect.stringContaining('export compliance') }),
+      { check: 'localizations', severity: 'error', message: 'keywords is missing', locale: 'de-DE' },
+      expect.objectContaining({ check: 'localizations', severity: 'warning', locale: 'de-DE' }),
+      { check: 'reviewDetail', severity: 'error', message: 'contactPhone is missing' },
+      expect.objectContaining({ check: 'reviewDetail', message: expect.stringContaining('demo account') }),
+    ]);
+  });
+
+  it('should require a build and App Review information', () => {
+    const result = checkVersionForReview(versionResponse({ build: null, reviewDetail: null }));
+
+    expect(result.issues.map(issue => issue.check)).toEqual(['build', 'reviewDetail']);
+  });
+});
+
+describe('ReviewSubmissionHandlers.submitReviewSubmission', () => {
+  function createHandlers(version: AppStoreVersionResponse, submission: { itemRelationships?: boolean; versionForReview?: boolean } = {}) {
+    const { itemRelationships = true, versionForReview = false } = submission;
+    const client = createMockClient({
+      get: vi.fn(async (url: string) => url.startsWith('/appStoreVersions/') ? version : {
+        data: {
+          type: 'reviewSubmissions',
+          id: 'sub-1',
+          relationships: {
+            items: { data: [{ type: 'reviewSubmissionItems', id: 'item-1' }] },
+            ...(versionForReview && { appStoreVersionForReview: { data: { type: 'appStoreVersions', id: 'version-1' } } }),
+          },
+        },
+        included: [{
+          type: 'reviewSubmissionItems',
+          id: 'item-1',
+          attributes: { state: 'READY_FOR_REVIEW' },
+          ...(itemRelationships && { relationships: { appStoreVersion: { data: { type: 'appStoreVersions', id: 'version-1' } } } }),
+        }],
+      }),
+      patch: vi.fn().mockResolvedValue({ data: { type: 'reviewSubmissions', id: 'sub-1', attributes: { state: 'WAITING_FOR_REVIEW' } } }),
+    });
+    return { handlers: new ReviewSubmissionHandlers(asClient(client)), client };
+  }
+
+  it('should check the versions in the submission before submitting it', async () => {
+    const { handlers, client } = createHandlers(versionResponse());
+
+    const result = await handlers.submitReviewSubmission({ reviewSubmissionId: 'sub-1' });
+
+    expect(client.get).toHaveBeenCalledWith('/appStoreVersions/version-1', expect.objectContaining({
+      include: 'build,appStoreVersionLocalizations,appStoreReviewDetail',
+    }));
+    expect(client.patch).toHaveBeenCalledWith('/reviewSubmissions/sub-1', {
+      data: { type: 'reviewSubmissions', id: 'sub-1', attributes: { submitted: true } },
+    });
+    expect(result.preflight?.[0].ready).toBe(true);
+  });
+
+  it('should not submit an incomplete version unless checks are skipped', async () => {
+    const { handlers, client } = createHandlers(versionResponse({ build: null }));
+
+    await expect(handlers.submitReviewSubmission({ reviewSubmissionId: 'sub-1' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('2.0: No build is attached') });
+    expect(client.patch).not.toHaveBeenCalled();
+
+    await handlers.submitReviewSubmission({ reviewSubmissionId: 'sub-1', skipChecks: true });
+    expect(client.patch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check the version for review when the items carry no relationships', async () => {
+    const { handlers, client } = createHandlers(versionResponse({ build: null }), { itemRelationships: false, versionForReview: true });
+
+    await expect(handlers.submitReviewSubmission({ reviewSubmissionId: 'sub-1' }))
+      .rejects.toThrow('2.0: No build is attached');
+    expect(client.get).toHaveBeenCalledWith('/appStoreVersions/version-1', expect.anything());
+    expect(client.patch).not.toHaveBeenCalled();
+  });
+
+  it('should not submit unchecked when no version can be found', async () => {
+    const { handlers, client } = createHandlers(versionResponse(), { itemRelationships: false });
+
+    await expect(handlers.submitReviewSubmission({ reviewSubmissionId: 'sub-1' }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams, message: expect.stringContaining('has no App Store version to check') });
+    expect(client.patch).not.toHaveBeenCalled();
+  });
+});
+
+describe('ReviewSubmissionHandlers.addReviewSubmissionItem', () => {
+  it('should relate the item by its kind', async () => {
+    const client = createMockClient({ post: vi.fn().mockResolvedValue({}) });
+    const handlers = new ReviewSubmissionHandlers(asClient(client));
+
+    await handlers.addReviewSubmissionItem({ reviewSubmissionId: 'sub-1', itemType: 'appEvent', itemId: 'event-1' });
+
+    expect(client.post).toHaveBeenCalledWith('/reviewSubmissionItems', {
+      data: {
+        type: 'reviewSubmissionItems',
+        relationships: {
+          reviewSubmission: { data: { type: 'reviewSubmissions', id: 'sub-1' } },
+          appEvent: { data: { type: 'appEvents', id: 'event-1' } },
+        },
+      },
+    });
+  });
+});
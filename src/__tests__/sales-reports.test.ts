@@ -0,0 +1,137 @@
+/**
+ * Tests for downloading and parsing Sales and Trends reports
+ *
+ * Report bodies are built here as gzip-compressed TSV, the way Apple delivers them.
+ */
+
+import zlib from 'zlib';
+import { describe, it, expect, vi } from 'vitest';
+import { AnalyticsHandlers } from '../handlers/analytics.js';
+import { parseSalesReport } from '../services/index.js';
+import { toFieldName, convertReportValue, toCsv, parseReportRows } from '../utils/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+const tsv = (rows: string[][]) => rows.map(row => row.join('\t')).join('\n') + '\n';
+const gzip = (rows: string[][]) => zlib.gzipSync(tsv(rows));
+
+const SALES_HEADERS = [
+  'Provider', 'Provider Country', 'SKU', 'Developer', 'Title', 'Version', 'Product Type Identifier',
+  'Units', 'Developer Proceeds', 'Begin Date', 'End Date', 'Customer Currency', 'Country Code',
+  'Currency of Proceeds', 'Apple Identifier', 'Customer Price',
+];
+
+const salesRow = (title: string, units: string, proceeds: string, country: string, currency: string) => [
+  'APPLE', 'US', `sku.${title.toLowerCase()}`, 'Example Inc', title, '1.0', '1F',
+  units, proceeds, '01/01/2024', '01/31/2024', currency, country, currency, '123456789', '0.99',
+];
+
+const salesReport = gzip([
+  SALES_HEADERS,
+  salesRow('Puzzle', '10', '0.70', 'US', 'USD'),
+  salesRow('Puzzle', '5', '0.60', 'DE', 'EUR'),
+  salesRow('Racer', '3', '1.40', 'US', 'USD'),
+  salesRow('Racer', '-1', '1.40', 'US', 'USD'),
+]);
+
+const options = { reportSubType: 'SUMMARY', frequency: 'MONTHLY', reportDate: '2024-01', version: '1_0' } as const;
+
+describe('report helpers', () => {
+  it('should turn headers into camelCase field names', () => {
+    expect(toFieldName('Currency of Proceeds')).toBe('currencyOfProceeds');
+    expect(toFieldName('Download Date (PST)')).toBe('downloadDatePst');
+    expect(toFieldName('Pre-Order Start Date')).toBe('preOrderStartDate');
+  });
+
+  it('should type values and normalise dates', () => {
+    expect(convertReportValue('12', 'integer')).toBe(12);
+    expect(convertReportValue('-0.35', 'decimal')).toBe(-0.35);
+    expect(convertReportValue('01/31/2024', 'date')).toBe('2024-01-31');
+    expect(convertReportValue('2024-01-31', 'date')).toBe('2024-01-31');
+    expect(convertReportValue('', 'integer')).toBeNull();
+  });
+
+  it('should quote CSV values where needed', () => {
+    const { columns, rows } = parseReportRows(tsv([['Title', 'Units'], ['Puzzle, "Deluxe"', '2']]), { Units: 'integer' });
+
+    expect(toCsv(columns, rows)).toBe('Title,Units\n"Puzzle, ""Deluxe""",2');
+  });
+});
+
+describe('parseSalesReport', () => {
+  it('should return typed rows for a gzip-compressed sales summary', () => {
+    const report = parseSalesReport(salesReport, { reportType: 'SALES', ...options });
+
+    expect(report.columns).toContain('currencyOfProceeds');
+    expect(report.rows).toHaveLength(4);
+    expect(report.rows?.[0]).toMatchObject({
+      title: 'Puzzle',
+      units: 10,
+      developerProceeds: 0.7,
+      beginDate: '2024-01-01',
+      appleIdentifier: '123456789',
+    });
+    expect(report.csv).toBeUndefined();
+  });
+
+  it('should total units and proceeds by product, country and currency', () => {
+    const { totals } = parseSalesReport(salesReport, { reportType: 'SALES', ...options });
+
+    expect(totals).toMatchObject({
+      rowCount: 4,
+      units: 17,
+      proceeds: { USD: 9.8, EUR: 3 },
+      byProduct: {
+        Puzzle: { units: 15, proceeds: { USD: 7, EUR: 3 } },
+        Racer: { units: 2, proceeds: { USD: 2.8 } },
+      },
+      byCountry: { US: { units: 12, proceeds: { USD: 9.8 } }, DE: { units: 5 } },
+      byCurrency: { USD: { units: 12 }, EUR: { units: 5 } },
+    });
+  });
+
+  it('should return CSV instead of rows when asked', () => {
+    const report = parseSalesReport(salesReport, { reportType: 'SALES', ...options, format: 'csv' });
+
+    expect(report.rows).toBeUndefined();
+    expect(report.csv?.split('\n')[0]).toBe(SALES_HEADERS.join(','));
+    expect(report.csv?.split('\n')[1]).toContain('Puzzle,1.0,1F,10,0.7,2024-01-01');
+  });
+
+  it('should parse subscription event reports', () => {
+    const body = gzip([
+      ['Event Date', 'Event', 'App Name', 'Subscription Name', 'Country', 'Quantity'],
+      ['2024-01-05', 'Subscribe', 'Puzzle', 'Puzzle Pro', 'US', '4'],
+      ['2024-01-05', 'Cancel', 'Puzzle', 'Puzzle Pro', 'GB', '1'],
+    ]);
+
+    const report = parseSalesReport(body, { ...options, reportType: 'SUBSCRIPTION_EVENT', frequency: 'DAILY', version: '1_3' });
+
+    expect(report.rows?.[0]).toMatchObject({ eventDate: '2024-01-05', event: 'Subscribe', quantity: 4 });
+    expect(report.totals).toMatchObject({ units: 5, byProduct: { 'Puzzle Pro': { units: 5 } } });
+    expect(report.totals.byCurrency).toBeUndefined();
+  });
+});
+
+describe('AnalyticsHandlers.downloadSalesReport', () => {
+  it('should request the default sub-type and version for the report type', async () => {
+    const getBuffer = vi.fn().mockResolvedValue(gzip([
+      ['Event Date', 'Subscription Name', 'Developer Proceeds', 'Proceeds Currency', 'Country', 'Units'],
+      ['2024-01-05', 'Puzzle Pro', '3.50', 'USD', 'US', '1'],
+      ['2024-01-05', 'Puzzle Pro', '3.50', 'USD', 'US', '-1'],
+      ['2024-01-05', 'Puzzle Pro', '2.80', 'EUR', 'FR', '1'],
+    ]));
+    const handlers = new AnalyticsHandlers(asClient(createMockClient({ getBuffer })), { vendorNumber: '12345' });
+
+    const report = await handlers.downloadSalesReport({ reportType: 'SUBSCRIBER', frequency: 'DAILY', reportDate: '2024-01-05' });
+
+    expect(getBuffer).toHaveBeenCalledWith('/salesReports', {
+      'filter[reportDate]': '2024-01-05',
+      'filter[reportType]': 'SUBSCRIBER',
+      'filter[reportSubType]': 'DETAILED',
+      'filter[frequency]': 'DAILY',
+      'filter[vendorNumber]': '12345',
+      'filter[version]': '1_3',
+    });
+    expect(report.totals).toMatchObject({ units: 1, proceeds: { USD: 0, EUR: 2.8 } });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Tests for preparing images as App Store screenshots and uploading them through
+ * Apple's reserve, upload and commit flow
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ScreenshotHandlers } from '../handlers/screenshots.js';
+import { md5Checksum, prepareScreenshot, ScreenshotError } from '../services/index.js';
+import { createMockClient, asClient } from './helpers/mock-client.js';
+
+// Test images are JSON files holding the metadata sharp would read; the processed
+// image lists the operations applied to it
+vi.mock('sharp', () => ({
+  default: (input: Buffer) => {
+    const operations: string[] = [];
+    const image = {
+      metadata: async () => {
+        try {
+          return JSON.parse(input.toString());
+        } catch {
+          throw new Error('Input buffer contains unsupported image format');
+        }
+      },
+      rotate: () => (operations.push('rotate'), image),
+      resize: (width: number, height: number, options: { fit: string }) =>
+        (operations.push(`resize ${width}x${height} ${options.fit}`), image),
+      flatten: () => (operations.push('flatten'), image),
+      png: () => (operations.push('png'), image),
+      jpeg: () => (operations.push('jpeg'), image),
+      toBuffer: async () => Buffer.from(operations.join(',')),
+    };
+    return image;
+  },
+}));
+
+let tempDir: string;
+
+function imageFile(name: string, metadata: Record<string, unknown>): string {
+  const file = path.join(tempDir, name);
+  fs.writeFileSync(file, JSON.stringify(metadata));
+  return file;
+}
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asc-screenshots-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('prepareScreenshot', () => {
+  it('should upload an image of the exact size unchanged', async () => {
+    const file = imageFile('home.png', { width: 1290, height: 2796, format: 'png' });
+
+    const screenshot = await prepareScreenshot(file, 'APP_IPHONE_67');
+
+    expect(screenshot).toMatchObject({ fileName: 'home.png', width: 1290, height: 2796, resized: false, flattened: false });
+    expect(screenshot.data).toEqual(fs.readFileSync(file));
+  });
+
+  it('should scale an image with the same aspect ratio and remove its transparency', async () => {
+    const file = imageFile('scaled.png', { width: 645, height: 1398, format: 'png', hasAlpha: true });
+
+    const screenshot = await prepareScreenshot(file, 'APP_IPHONE_67');
+
+    expect(screenshot).toMatchObject({ width: 1290, height: 2796, resized: true, flattened: true });
+    expect(screenshot.data.toString()).toBe('rotate,resize 1290x2796 cover,flatten,png');
+  });
+
+  it('should size landscape and EXIF-rotated images in their own orientation', async () => {
+    const landscape = imageFile('landscape.jpg', { width: 2796, height: 1290, format: 'jpeg' });
+    const rotated = imageFile('rotated.jpg', { width: 2796, height: 1290, format: 'jpeg', orientation: 6 });
+
+    expect(await prepareScreenshot(landscape, 'APP_IPHONE_67')).toMatchObject({ width: 2796, height: 1290, resized: false });
+    const screenshot = await prepareScreenshot(rotated, 'APP_IPHONE_67');
+    expect(screenshot).toMatchObject({ width: 1290, height: 2796, sourceWidth: 1290, sourceHeight: 2796, resized: false });
+    expect(screenshot.data.toString()).toBe('rotate,jpeg');
+  });
+
+  it('should reject a different aspect ratio unless told to crop or pad', async () => {
+    const file = imageFile('square.png', { width: 1000, height: 1000, format: 'png' });
+
+    await expect(prepareScreenshot(file, 'APP_IPHONE_67')).rejects.toThrow(ScreenshotError);
+    const padded = await prepareScreenshot(file, 'APP_IPHONE_67', 'contain');
+    expect(padded.data.toString()).toBe('rotate,resize 1290x2796 contain,png');
+  });
+
+  it('should convert other formats to PNG', async () => {
+    const file = imageFile('home.webp', { width: 1290, height: 2796, format: 'webp' });
+
+    const screenshot = await prepareScreenshot(file, 'APP_IPHONE_67');
+
+    expect(screenshot.fileName).toBe('home.png');
+    expect(screenshot.data.toString()).toBe('rotate,png');
+  });
+});
+
+describe('ScreenshotHandlers.uploadScreenshots', () => {
+  function createHandlers(existingScreenshots = 0) {
+    let reservations = 0;
+    const client = createMockClient({
+      getPaginated: vi.fn().mockResolvedValue({
+        data: [{ type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { locale: 'en-US' } }],
+      }),
+      get: vi.fn().mockResolvedValue({
+        data: existingScreenshots ? [{
+          type: 'appScreenshotSets',
+          id: 'set-existing',
+          relationships: {
+            appScreenshots: { data: Array.from({ length: existingScreenshots }, (_, i) => ({ type: 'appScreenshots', id: `old-${i}` })) },
+          },
+        }] : [],
+      }),
+      post: vi.fn(async (url: string) => url === '/appScreenshotSets'
+        ? { data: { type: 'appScreenshotSets', id: 'set-new' } }
+        : {
+          data: {
+            type: 'appScreenshots',
+            id: `shot-${++reservations}`,
+            attributes: {
+              uploadOperations: [
+                { method: 'PUT', url: 'https://upload/1', offset: 0, length: 10 },
+                { method: 'PUT', url: 'https://upload/2', offset: 10, length: 1000 },
+              ],
+            },
+          },
+        }),
+      patch: vi.fn(async (url: string) => ({
+        data: { type: 'appScreenshots', id: url.split('/').pop(), attributes: { assetDeliveryState: { state: 'UPLOAD_COMPLETE' } } },
+      })),
+      delete: vi.fn().mockResolvedValue(undefined),
+      uploadPart: vi.fn().mockResolvedValue(undefined),
+    });
+    return { handlers: new ScreenshotHandlers(asClient(client)), client };
+  }
+
+  it('should create the set, upload each part and commit with the checksum', async () => {
+    const { handlers, client } = createHandlers();
+    const file = imageFile('upload.png', { width: 1290, height: 2796, format: 'png' });
+    const data = fs.readFileSync(file);
+    const onProgress = vi.fn();
+
+    const summary = await handlers.uploadScreenshots({
+      appStoreVersionId: 'version-1',
+      sets: [{ locale: 'en-US', displayType: 'APP_IPHONE_67', filePaths: [file] }],
+    }, { onProgress });
+
+    expect(client.post).toHaveBeenCalledWith('/appScreenshotSets', {
+      data: {
+        type: 'appScreenshotSets',
+        attributes: { screenshotDisplayType: 'APP_IPHONE_67' },
+        relationships: { appStoreVersionLocalization: { data: { type: 'appStoreVersionLocalizations', id: 'loc-en' } } },
+      },
+    });
+    expect(client.post).toHaveBeenCalledWith('/appScreenshots', expect.objectContaining({
+      data: expect.objectContaining({ attributes: { fileName: 'upload.png', fileSize: data.length } }),
+    }));
+    expect(client.uploadPart.mock.calls.map(([, part]) => part)).toEqual([data.subarray(0, 10), data.subarray(10)]);
+    expect(client.patch).toHaveBeenCalledWith('/appScreenshots/shot-1', {
+      data: { type: 'appScreenshots', id: 'shot-1', attributes: { uploaded: true, sourceFileChecksum: md5Checksum(data) } },
+    });
+    expect(summary).toMatchObject({
+      uploaded: 1,
+      failed: 0,
+      results: [{ screenshotSetId: 'set-new', screenshotId: 'shot-1', assetDeliveryState: { state: 'UPLOAD_COMPLETE' } }],
+    });
+    expect(onProgress).toHaveBeenLastCalledWith({ progress: 1, total: 1, message: 'Screenshots uploaded' });
+  });
+
+  it('should check every file before uploading any', async () => {
+    const { handlers, client } = createHandlers();
+    const good = imageFile('good.png', { width: 1290, height: 2796, format: 'png' });
+    const square = imageFile('square.png', { width: 1000, height: 1000, format: 'png' });
+
+    const upload = handlers.uploadScreenshots({
+      appStoreVersionId: 'version-1',
+      sets: [
+        { locale: 'en-US', displayType: 'APP_IPHONE_67', filePaths: [good, square, path.join(tempDir, 'missing.png')] },
+        { locale: 'fr-FR', displayType: 'APP_IPHONE_67', filePaths: [good] },
+      ],
+    });
+
+    await expect(upload).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(upload).rejects.toThrow(/square\.png[\s\S]*missing\.png[\s\S]*fr-FR/);
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it('should remove the reservation of a failed upload and carry on', async () => {
+    const { handlers, client } = createHandlers(9);
+    client.uploadPart.mockRejectedValueOnce(new Error('Upload timed out'));
+    const files = ['a.png', 'b.png', 'c.png'].map(name => imageFile(name, { width: 1290, height: 2796, format: 'png' }));
+
+    const summary = await handlers.uploadScreenshots({
+      appStoreVersionId: 'version-1',
+      sets: [{ locale: 'en-US', displayType: 'APP_IPHONE_67', filePaths: files }],
+    });
+
+    expect(client.delete).toHaveBeenCalledWith('/appScreenshots/shot-1');
+    expect(summary.results.map(result => result.error)).toEqual([
+      'Upload timed out',
+      undefined,
+      'The APP_IPHONE_67 set for en-US already holds 10 screenshots',
+    ]);
+    expect(summary.results[0].screenshotId).toBeUndefined();
+    expect(summary).toMatchObject({ uploaded: 1, failed: 2 });
+  });
+});
+
+describe('ScreenshotHandlers screenshot sets', () => {
+  const screenshot = (id: string, fileName: string, state = 'COMPLETE') => ({
+    type: 'appScreenshots',
+    id,
+    attributes: {
+      fileName,
+      fileSize: 1000,
+      imageAsset: state === 'COMPLETE' ? { templateUrl: `https://cdn/${id}/{w}x{h}bb.{f}`, width: 1290, height: 2796 } : undefined,
+      assetDeliveryState: { state },
+    },
+  });
+  const screenshotSet = (id: string, screenshotIds: string[]) => ({
+    type: 'appScreenshotSets',
+    id,
+    attributes: { screenshotDisplayType: 'APP_IPHONE_67' },
+    relationships: { appScreenshots: { data: screenshotIds.map(screenshotId => ({ type: 'appScreenshots', id: screenshotId })) } },
+  });
+
+  function createHandlers(setsByLocalization: Record<string, Array<{ set: unknown; screenshots: unknown[] }>>) {
+    let reservations = 0;
+    const client = createMockClient({
+      getPaginated: vi.fn().mockResolvedValue({
+        data: [
+          { type: 'appStoreVersionLocalizations', id: 'loc-en', attributes: { locale: 'en-US' } },
+          { type: 'appStoreVersionLocalizations', id: 'loc-gb', attributes: { locale: 'en-GB' } },
+          { type: 'appStoreVersionLocalizations', id: 'loc-au', attributes: { locale: 'en-AU' } },
+        ],
+      }),
+      get: vi.fn(async (url: string) => {
+        if (url === '/appScreenshotSets/set-en') {
+          return { data: screenshotSet('set-en', ['a', 'b', 'c']) };
+        }
+        const localizationId = url.split('/')[2];
+        const sets = setsByLocalization[localizationId] ?? [];
+        return { data: sets.map(set => set.set), included: sets.flatMap(set => set.screenshots) };
+      }),
+      post: vi.fn(async (url: string) => url === '/appScreenshotSets'
+        ? { data: { type: 'appScreenshotSets', id: 'set-new' } }
+        : { data: { type: 'appScreenshots', id: `copy-${++reservations}`, attributes: { uploadOperations: [] } } }),
+      patch: vi.fn(async (url: string) => ({
+        data: { type: 'appScreenshots', id: url.split('/').pop(), attributes: { assetDeliveryState: { state: 'UPLOAD_COMPLETE' } } },
+      })),
+      delete: vi.fn().mockResolvedValue(undefined),
+      downloadBuffer: vi.fn(async (url: string) => Buffer.from(url)),
+      uploadPart: vi.fn().mockResolvedValue(undefined),
+    });
+    return { handlers: new ScreenshotHandlers(asClient(client)), client };
+  }
+
+  const englishSet = {
+    set: screenshotSet('set-en', ['b', 'a']),
+    screenshots: [screenshot('a', 'a.png'), screenshot('b', 'b.jpg')],
+  };
+
+  it('should list screenshots in display order with thumbnails', async () => {
+    const { handlers, client } = createHandlers({ 'loc-en': [englishSet] });
+
+    const listing = await handlers.getVersionScreenshots({ appStoreVersionId: 'version-1', locales: ['en-US'], includeThumbnails: true });
+
+    expect(listing.sets).toEqual([{
+      screenshotSetId: 'set-en',
+      locale: 'en-US',
+      localizationId: 'loc-en',
+      displayType: 'APP_IPHONE_67',
+      screenshots: [
+        expect.objectContaining({ screenshotId: 'b', fileName: 'b.jpg', assetDeliveryState: 'COMPLETE', thumbnailUrl: 'https://cdn/b/200x433bb.jpg' }),
+        expect.objectContaining({ screenshotId: 'a', fileName: 'a.png', width: 1290, height: 2796 }),
+      ],
+    }]);
+    expect(client.get).toHaveBeenCalledTimes(1);
+    expect(listing.thumbnails).toEqual([
+      { screenshotId: 'b', mimeType: 'image/jpeg', data: Buffer.from('https://cdn/b/200x433bb.jpg').toString('base64') },
+      { screenshotId: 'a', mimeType: 'image/jpeg', data: Buffer.from('https://cdn/a/200x433bb.jpg').toString('base64') },
+    ]);
+  });
+
+  it('should put the listed screenshots first and keep the others after them', async () => {
+    const { handlers, client } = createHandlers({});
+
+    await expect(handlers.reorderScreenshots({ screenshotSetId: 'set-en', screenshotIds: ['c', 'a'] }))
+      .resolves.toEqual({ screenshotSetId: 'set-en', screenshotIds: ['c', 'a', 'b'] });
+    expect(client.patch).toHaveBeenCalledWith('/appScreenshotSets/set-en/relationships/appScreenshots', {
+      data: [{ type: 'appScreenshots', id: 'c' }, { type: 'appScreenshots', id: 'a' }, { type: 'appScreenshots', id: 'b' }],
+    });
+
+    await expect(handlers.reorderScreenshots({ screenshotSetId: 'set-en', screenshotIds: ['x'] }))
+      .rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('should copy a set to other locales in order, replacing what they held', async () => {
+    const { handlers, client } = createHandlers({
+      'loc-en': [englishSet],
+      'loc-gb': [{ set: screenshotSet('set-gb', ['old']), screenshots: [screenshot('old', 'old.png')] }],
+    });
+
+    const summary = await handlers.copyScreenshotSet({
+      appStoreVersionId: 'version-1',
+      sourceLocale: 'en-US',
+      displayType: 'APP_IPHONE_67',
+      targetLocales: ['en-GB', 'en-AU'],
+      replace: true,
+    });
+
+    expect(client.downloadBuffer.mock.calls.map(([url]) => url)).toEqual(['https://cdn/b/1290x2796bb.jpg', 'https://cdn/a/1290x2796bb.png']);
+    expect(client.delete).toHaveBeenCalledWith('/appScreenshots/old');
+    expect(client.post).toHaveBeenCalledWith('/appScreenshotSets', expect.objectContaining({
+      data: expect.objectContaining({ relationships: { appStoreVersionLocalization: { data: { type: 'appStoreVersionLocalizations', id: 'loc-au' } } } }),
+    }));
+    expect(summary).toMatchObject({ copied: 4, failed: 0, removed: 1 });
+    expect(summary.results.map(result => [result.locale, result.screenshotSetId, result.sourceScreenshotId, result.screenshotId])).toEqual([
+      ['en-GB', 'set-gb', 'b', 'copy-1'],
+      ['en-GB', 'set-gb', 'a', 'copy-2'],
+      ['en-AU', 'set-new', 'b', 'copy-3'],
+      ['en-AU', 'set-new', 'a', 'copy-4'],
+    ]);
+  });
+
+  it('should report screenshots that are still processing instead of copying them', async () => {
+    const { handlers } = createHandlers({
+      'loc-en': [{ set: screenshotSet('set-en', ['a']), screenshots: [screenshot('a', 'a.png', 'UPLOAD_COMPLETE')] }],
+    });
+
+    const summary = await handlers.copyScreenshotSet({
+      appStoreVersionId: 'version-1', sourceLocale: 'en-US', displayType: 'APP_IPHONE_67', targetLocales: ['en-GB'],
+    });
+
+    expect(summary.results).toEqual([expect.objectContaining({ sourceScreenshotId: 'a', error: 'Not processed yet (UPLOAD_COMPLETE)' })]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for the tool registry
+ *
+ * Handlers are replaced with stubs, so no App Store Connect API calls are made.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { createToolRegistry, formatToolResult, ToolContext, ToolRegistry } from '../tools/index.js';
+
+const config = { keyId: 'KEY', issuerId: 'ISSUER', privateKeyPath: '/tmp/key.p8' };
+
+function createContext(handlers: Record<string, unknown>, overrides: Partial<ToolContext> = {}): ToolContext {
+  return {
+    client: { getRateLimitStatus: vi.fn(() => ({ retriedRequests: 0 })) } as any,
+    config,
+    handlers: handlers as any,
+    ...overrides,
+  };
+}
+
+describe('formatToolResult', () => {
+  it('should return objects as text and structured content', () => {
+    const result = formatToolResult({ data: [{ id: '1' }] });
+
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify({ data: [{ id: '1' }] }, null, 2) }]);
+    expect(result.structuredContent).toEqual({ data: [{ id: '1' }] });
+  });
+
+  it('should wrap non-object results for structured content', () => {
+    expect(formatToolResult(['a', 'b']).structuredContent).toEqual({ result: ['a', 'b'] });
+    expect(formatToolResult(undefined).structuredContent).toEqual({ result: null });
+  });
+
+  it('should pass through results that already have content', () => {
+    const image = { content: [{ type: 'image', data: 'AAAA', mimeType: 'image/png' }] };
+
+    expect(formatToolResult(image)).toBe(image);
+  });
+});
+
+describe('createToolRegistry', () => {
+  const registry = createToolRegistry();
+
+  it('should offer pagination options on every list tool', () => {
+    const localTools = ['list_schemes', 'list_profiles'];
+    const listTools = registry.list(config).filter(tool => tool.name.startsWith('list_') && !localTools.includes(tool.name));
+
+    expect(listTools.length).toBeGreaterThan(10);
+    for (const tool of listTools) {
+      expect(tool.inputSchema.properties, tool.name).toHaveProperty('allPages');
+    }
+  });
+
+  it('should only list report tools when a vendor number is configured', () => {
+    const withoutVendor = registry.list(config).map(tool => tool.name);
+    const withVendor = registry.list({ ...config, vendorNumber: '12345' });
+
+    expect(withoutVendor).not.toContain('download_sales_report');
+    expect(withVendor.find(tool => tool.name === 'download_sales_report')?.inputSchema.properties?.vendorNumber)
+      .toMatchObject({ default: '12345' });
+  });
+
+  it('should reject disabled and unknown tools', async () => {
+    const context = createContext({});
+
+    await expect(registry.call('download_sales_report', {}, context)).rejects.toMatchObject({
+      code: ErrorCode.MethodNotFound,
+      message: expect.stringContaining('APP_STORE_CONNECT_VENDOR_NUMBER'),
+    });
+    await expect(registry.call('no_such_tool', {}, context)).rejects.toMatchObject({ code: ErrorCode.MethodNotFound });
+  });
+
+  it('should dispatch to the domain handler and format the result', async () => {
+    const listApps = vi.fn().mockResolvedValue({ data: [] });
+    const args = { limit: 5 };
+
+    const result = await registry.call('list_apps', args, createContext({ apps: { listApps } }));
+
+    expect(listApps).toHaveBeenCalledWith(args);
+    expect(result.structuredContent).toEqual({ data: [] });
+  });
+
+  it('should keep image content for downloaded beta screenshots', async () => {
+    const submission = { data: { id: 'fb1' } };
+    const content = [{ type: 'image', data: 'AAAA', mimeType: 'image/jpeg' }];
+    const getBetaFeedbackScreenshot = vi.fn().mockResolvedValue({ toolResult: submission, content });
+
+    const result = await registry.call(
+      'get_beta_feedback_screenshot',
+      { feedbackId: 'fb1' },
+      createContext({ beta: { getBetaFeedbackScreenshot } })
+    );
+
+    expect(result).toEqual({ content, structuredContent: submission });
+  });
+});
+
+describe('input validation', () => {
+  const registry = createToolRegistry();
+  const vendorConfig = { ...config, vendorNumber: '12345' };
+
+  async function invalidArgumentsMessage(tool: string, args: Record<string, unknown>, context = createContext({})) {
+    const error = await registry.call(tool, args, context).catch(e => e);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    return error.message as string;
+  }
+
+  it('should point at each offending field', async () => {
+    const message = await invalidArgumentsMessage('list_app_store_versions', {
+      limit: 500,
+      filter: { platform: 'WINDOWS' },
+    });
+
+    expect(message).toContain('Invalid arguments for list_app_store_versions');
+    expect(message).toContain('appId is required');
+    expect(message).toContain('limit must be <= 200');
+    expect(message).toContain('filter.platform must be one of: IOS, MAC_OS, TV_OS');
+  });
+
+  it('should reject values of the wrong type', async () => {
+    expect(await invalidArgumentsMessage('list_apps', { limit: '10' })).toContain('limit must be of type number, got string');
+  });
+
+  it('should check formats such as bundle identifiers and report dates', async () => {
+    expect(await invalidArgumentsMessage('create_bundle_id', {
+      identifier: 'not a bundle id',
+      name: 'Example',
+      platform: 'IOS',
+    })).toContain('identifier must be a valid bundle-id');
+
+    const context = createContext({}, { config: vendorConfig });
+    expect(await invalidArgumentsMessage('download_sales_report', { reportDate: '2024-01-15' }, context))
+      .toContain('reportDate must be a valid year-month');
+    expect(await invalidArgumentsMessage('download_sales_report', { frequency: 'DAILY', reportDate: '2024-01' }, context))
+      .toContain('reportDate must be a valid date');
+  });
+
+  it('should only allow a release date for scheduled releases', async () => {
+    const message = await invalidArgumentsMessage('create_app_store_version', {
+      appId: '123',
+      platform: 'IOS',
+      versionString: '1.2.3',
+      releaseType: 'MANUAL',
+      earliestReleaseDate: '2024-01-01T00:00:00Z',
+    });
+
+    expect(message).toContain('releaseType must be "SCHEDULED"');
+  });
+
+  it('should pass valid arguments, including falsy values, to the handler', async () => {
+    const listCiBuildActions = vi.fn().mockResolvedValue({ data: [] });
+    const args = { buildRunId: 'run-1', failedOnly: false };
+
+    await registry.call('list_ci_build_actions', args, createContext({ xcodeCloud: { listCiBuildActions } }));
+
+    expect(listCiBuildActions).toHaveBeenCalledWith(args);
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('should refuse to register the same tool twice', () => {
+    const tool = { name: 'dup', description: 'Duplicate', inputSchema: { type: 'object' }, handler: () => null };
+
+    expect(() => new ToolRegistry().register(tool, tool)).toThrow(/already registered: dup/);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for the argument validation helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateRequired, validateSchema } from '../utils/index.js';
+
+describe('validateRequired', () => {
+  it('should accept 0 and false as values', () => {
+    expect(() => validateRequired({ count: 0, enabled: false }, ['count', 'enabled'])).not.toThrow();
+  });
+
+  it('should reject missing, null and empty values', () => {
+    expect(() => validateRequired({ a: null, b: '' }, ['a', 'b', 'c'])).toThrow('Missing required parameters: a, b, c');
+  });
+});
+
+describe('validateSchema formats', () => {
+  const check = (format: string, value: string) => validateSchema(value, { type: 'string', format }).length === 0;
+
+  it('should validate bundle identifiers', () => {
+    expect(check('bundle-id', 'com.example.app')).toBe(true);
+    expect(check('bundle-id', 'com.example.*')).toBe(true);
+    expect(check('bundle-id', 'app')).toBe(false);
+    expect(check('bundle-id', 'com.example app')).toBe(false);
+  });
+
+  it('should validate year-month dates', () => {
+    expect(check('year-month', '2024-01')).toBe(true);
+    expect(check('year-month', '2024-13')).toBe(false);
+    expect(check('year-month', '2024-01-01')).toBe(false);
+  });
+});
+
+describe('validateSchema conditionals', () => {
+  const schema = {
+    type: 'object',
+    if: { required: ['until'] },
+    then: { properties: { mode: { const: 'SCHEDULED' } }, required: ['mode'] },
+  };
+
+  it('should apply `then` only when `if` matches', () => {
+    expect(validateSchema({ mode: 'MANUAL' }, schema)).toEqual([]);
+    expect(validateSchema({ until: 'x' }, schema)).toEqual([{ path: 'mode', message: 'is required' }]);
+    expect(validateSchema({ until: 'x', mode: 'SCHEDULED' }, schema)).toEqual([]);
+  });
+});
@@ -14,6 +14,7 @@ vi.mock('../services/appstore-client.js', () => {
   return {
     AppStoreConnectClient: vi.fn().mockImplementation(() => ({
       get: vi.fn(),
+      getPaginated: vi.fn(),
       post: vi.fn(),
       delete: vi.fn(),
     })),
@@ -164,6 +165,7 @@ describe('XcodeCloudHandlers', () => {
   let handlers: XcodeCloudHandlers;
   let mockClient: {
     get: Mock;
+    getPaginated: Mock;
     post: Mock;
     delete: Mock;
   };
@@ -172,6 +174,8 @@ describe('XcodeCloudHandlers', () => {
     vi.clearAllMocks();
     mockClient = {
       get: vi.fn(),
+      // Single-page behaviour: delegate to get so URL/param assertions stay on one mock
+      getPaginated: vi.fn((url: string, params?: Record<string, any>) => mockClient.get(url, params)),
       post: vi.fn(),
       delete: vi.fn(),
     };
@@ -626,6 +630,7 @@ describe('XcodeCloudHandlers - Validation', () => {
   let handlers: XcodeCloudHandlers;
   let mockClient: {
     get: Mock;
+    getPaginated: Mock;
     post: Mock;
     delete: Mock;
   };
@@ -634,6 +639,8 @@ describe('XcodeCloudHandlers - Validation', () => {
     vi.clearAllMocks();
     mockClient = {
       get: vi.fn(),
+      // Single-page behaviour: delegate to get so URL/param assertions stay on one mock
+      getPaginated: vi.fn((url: string, params?: Record<string, any>) => mockClient.get(url, params)),
       post: vi.fn(),
       delete: vi.fn(),
     };
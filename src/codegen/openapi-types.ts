@@ -0,0 +1,131 @@
+/**
+ * TypeScript type generator for the App Store Connect OpenAPI specification
+ *
+ * Turns every schema in `components.schemas` of 3.2.json into an exported type:
+ * - string enums become union types
+ * - object schemas become interfaces (required properties are non-optional)
+ * - `$ref`s become references to the named type, `oneOf` becomes a union
+ *
+ * The output is deterministic so it can be committed and checked for drift.
+ * Run `npm run generate:types` to regenerate src/types/generated/app-store-connect.ts.
+ */
+
+import { JsonSchema } from '../utils/index.js';
+
+export interface OpenApiSchemaDocument {
+  info?: { title?: string; version?: string };
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const INDENT = '  ';
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+function propertyKey(name: string): string {
+  return isIdentifier(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function refName(ref: string): string {
+  return ref.replace('#/components/schemas/', '');
+}
+
+function needsParens(type: string): boolean {
+  return type.includes(' | ') || type.includes(' & ');
+}
+
+/**
+ * Renders a schema as a TypeScript type expression
+ */
+function renderType(schema: JsonSchema, depth: number): string {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf ?? schema.anyOf)!.map(subschema => renderType(subschema, depth)).join(' | ');
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.map(subschema => renderType(subschema, depth)).join(' & ');
+  }
+
+  if (schema.enum) {
+    return schema.enum.map(literal).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array': {
+      const items = schema.items ? renderType(schema.items, depth) : 'unknown';
+      return needsParens(items) || items.includes('\n') ? `Array<${items}>` : `${items}[]`;
+    }
+    case 'object':
+      return renderObject(schema, depth);
+    default:
+      return 'unknown';
+  }
+}
+
+function renderObject(schema: JsonSchema, depth: number): string {
+  const properties = Object.entries(schema.properties ?? {});
+
+  if (properties.length === 0) {
+    if (typeof schema.additionalProperties === 'object') {
+      return `Record<string, ${renderType(schema.additionalProperties, depth)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  const required = new Set(schema.required ?? []);
+  const pad = INDENT.repeat(depth + 1);
+  const lines = properties.map(([name, propertySchema]) => {
+    const deprecated = propertySchema.deprecated ? `${pad}/** @deprecated */\n` : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${deprecated}${pad}${propertyKey(name)}${optional}: ${renderType(propertySchema, depth + 1)};`;
+  });
+
+  return `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function renderDeclaration(name: string, schema: JsonSchema): string {
+  const doc = schema.deprecated ? `/** @deprecated */\n` : '';
+
+  if (schema.type === 'object' && schema.properties && !schema.oneOf && !schema.anyOf && !schema.allOf) {
+    return `${doc}export interface ${name} ${renderObject(schema, 0)}`;
+  }
+
+  return `${doc}export type ${name} = ${renderType(schema, 0)};`;
+}
+
+/**
+ * Generates the TypeScript source for every schema in the spec, sorted by name
+ */
+export function generateTypes(spec: OpenApiSchemaDocument): string {
+  const header = [
+    '/**',
+    ` * ${spec.info?.title ?? 'App Store Connect API'} types (OpenAPI spec version ${spec.info?.version ?? 'unknown'})`,
+    ' *',
+    ' * GENERATED FILE - DO NOT EDIT.',
+    ' * Generated from 3.2.json by src/codegen/openapi-types.ts; run `npm run generate:types` to update.',
+    ' */',
+    '',
+  ].join('\n');
+
+  const declarations = Object.keys(spec.components.schemas)
+    .sort()
+    .map(name => renderDeclaration(name, spec.components.schemas[name]));
+
+  return `${header}\n${declarations.join('\n\n')}\n`;
+}
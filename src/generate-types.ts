@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+
+/**
+ * Regenerates src/types/generated/app-store-connect.ts from the bundled 3.2.json
+ *
+ * Usage:
+ *   npm run generate:types
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { moduleRoot } from './config.js';
+import { generateTypes } from './codegen/openapi-types.js';
+
+const specPath = path.join(moduleRoot, '3.2.json');
+const outputPath = path.join(moduleRoot, 'src', 'types', 'generated', 'app-store-connect.ts');
+
+const spec = JSON.parse(fs.readFileSync(specPath, 'utf-8'));
+const source = generateTypes(spec);
+
+fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+fs.writeFileSync(outputPath, source);
+
+console.log(`Generated ${Object.keys(spec.components.schemas).length} types into ${path.relative(moduleRoot, outputPath)}`);
@@ -1,4 +1,22 @@
-import { AppStoreConnectClient } from '../services/index.js';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import axios from 'axios';
+import {
+  AppStoreConnectClient,
+  parseSalesReport,
+  parseFinanceReport,
+  reconcileFinanceReports,
+  SALES_REPORT_DEFAULTS,
+  FINANCE_REGION_CODES,
+  CONSOLIDATED_REGION_CODE,
+  mergeReportSegments,
+  aggregateSalesTimeseries,
+  reportDatesInRange,
+  ReportCache,
+  isReportSettled,
+  summarizePortfolio,
+  STATIC_EXCHANGE_RATES,
+  hasExchangeRate
+} from '../services/index.js';
 import { 
   AnalyticsReportRequest,
   AnalyticsReportRequestResponse,
@@ -6,18 +24,55 @@ import {
   ListAnalyticsReportSegmentsResponse,
   AnalyticsAccessType,
   AnalyticsReportCategory,
+  AnalyticsReportGranularity,
+  AnalyticsReportData,
+  ListAnalyticsReportRequestsResponse,
+  ListAnalyticsReportInstancesResponse,
   SalesReportResponse,
   FinanceReportResponse,
   SalesReportType,
   SalesReportSubType,
   SalesReportFrequency,
   SalesReportFilters,
-  FinanceReportFilters
+  FinanceReportFilters,
+  FinanceReportType,
+  FinanceReconciliation,
+  ReportOutputFormat,
+  ReportRow,
+  SalesTimeseries,
+  SalesTimeseriesDimension,
+  PortfolioSummary,
+  ListAppsResponse,
+  ExchangeRates,
+  PaginationOptions
 } from '../types/index.js';
-import { validateRequired, sanitizeLimit, buildFilterParams } from '../utils/index.js';
+import { validateRequired, sanitizeLimit, buildFilterParams, toCsv, decompressReport } from '../utils/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most daily sales reports one call reads
+const MAX_SALES_RANGE_DAYS = 366;
+
+const isNotFound = (error: unknown) => axios.isAxiosError(error) && error.response?.status === 404;
+
+const toDateString = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+const shiftDate = (date: string, days: number) => toDateString(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS);
+
+const shiftMonth = (month: string, months: number) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + months, 1)).toISOString().slice(0, 7);
+};
+
+type CurrencyConversion = { currency: string; exchangeRates: ExchangeRates[] };
 
 export class AnalyticsHandlers {
-  constructor(private client: AppStoreConnectClient, private config?: { vendorNumber?: string }) {}
+  constructor(
+    private client: AppStoreConnectClient,
+    private config?: { vendorNumber?: string },
+    private cache?: ReportCache,
+    private fallbackExchangeRates: ExchangeRates = STATIC_EXCHANGE_RATES
+  ) {}
 
   async createAnalyticsReportRequest(args: {
     appId: string;
@@ -53,8 +108,8 @@ export class AnalyticsHandlers {
     filter?: {
       category?: AnalyticsReportCategory;
     };
-  }): Promise<ListAnalyticsReportsResponse> {
-    const { reportRequestId, limit = 100, filter } = args;
+  } & PaginationOptions): Promise<ListAnalyticsReportsResponse> {
+    const { reportRequestId, limit = 100, filter, allPages, maxItems } = args;
     
     validateRequired(args, ['reportRequestId']);
 
@@ -64,20 +119,24 @@ export class AnalyticsHandlers {
 
     Object.assign(params, buildFilterParams(filter));
 
-    return this.client.get<ListAnalyticsReportsResponse>(`/analyticsReportRequests/${reportRequestId}/reports`, params);
+    return this.client.getPaginated<ListAnalyticsReportsResponse>(
+      `/analyticsReportRequests/${reportRequestId}/reports`,
+      params,
+      { allPages, maxItems }
+    );
   }
 
   async listAnalyticsReportSegments(args: {
     reportId: string;
     limit?: number;
-  }): Promise<ListAnalyticsReportSegmentsResponse> {
-    const { reportId, limit = 100 } = args;
+  } & PaginationOptions): Promise<ListAnalyticsReportSegmentsResponse> {
+    const { reportId, limit = 100, allPages, maxItems } = args;
     
     validateRequired(args, ['reportId']);
 
-    return this.client.get<ListAnalyticsReportSegmentsResponse>(`/analyticsReports/${reportId}/segments`, {
+    return this.client.getPaginated<ListAnalyticsReportSegmentsResponse>(`/analyticsReports/${reportId}/segments`, {
       limit: sanitizeLimit(limit)
-    });
+    }, { allPages, maxItems });
   }
 
   async downloadAnalyticsReportSegment(args: {
@@ -90,57 +149,488 @@ export class AnalyticsHandlers {
     return this.client.downloadFromUrl(segmentUrl);
   }
 
+  /**
+   * Fetches the rows of an analytics report for an app in one call
+   *
+   * Finds the app's ONGOING report request (creating it if allowed), the report with the
+   * given name, and its instances for the granularity whose processing date falls in the
+   * range, then downloads, decompresses and merges every segment of those instances.
+   */
+  async getAnalyticsReportData(args: {
+    appId: string;
+    reportName: string;
+    category?: AnalyticsReportCategory;
+    granularity?: AnalyticsReportGranularity;
+    startDate?: string;
+    endDate?: string;
+    createIfMissing?: boolean;
+    maxRows?: number;
+    format?: ReportOutputFormat;
+  }): Promise<AnalyticsReportData> {
+    const {
+      appId,
+      reportName,
+      category,
+      granularity = "DAILY",
+      startDate,
+      endDate,
+      createIfMissing = true,
+      maxRows = 1000,
+      format = "json"
+    } = args;
+
+    validateRequired(args, ['appId', 'reportName']);
+
+    const empty = { appId, granularity, startDate, endDate, instances: [], columns: [], rowCount: 0, truncated: false };
+
+    const requests = await this.client.getPaginated<ListAnalyticsReportRequestsResponse>(
+      `/apps/${appId}/analyticsReportRequests`,
+      { 'filter[accessType]': 'ONGOING', limit: 200 },
+      { allPages: true }
+    );
+    const activeRequest = requests.data.find(request => !request.attributes.stoppedDueToInactivity);
+
+    if (!activeRequest) {
+      if (!createIfMissing) {
+        throw new McpError(ErrorCode.InvalidParams, `App ${appId} has no active ONGOING analytics report request`);
+      }
+      const created = await this.createAnalyticsReportRequest({ appId, accessType: "ONGOING" });
+      return {
+        ...empty,
+        reportRequestId: created.data.id,
+        requestCreated: true,
+        message: 'Created an ONGOING analytics report request. Apple generates the first reports within a day or two; call again later.'
+      };
+    }
+
+    const reports = await this.client.getPaginated<ListAnalyticsReportsResponse>(
+      `/analyticsReportRequests/${activeRequest.id}/reports`,
+      { limit: 200, ...buildFilterParams({ category }) },
+      { allPages: true }
+    );
+    const report = reports.data.find(candidate => candidate.attributes.name.toLowerCase() === reportName.toLowerCase());
+    if (!report) {
+      const available = reports.data.map(candidate => candidate.attributes.name);
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No analytics report named "${reportName}". Available reports: ${available.join(', ') || 'none yet'}`
+      );
+    }
+
+    const instances = await this.client.getPaginated<ListAnalyticsReportInstancesResponse>(
+      `/analyticsReports/${report.id}/instances`,
+      { 'filter[granularity]': granularity, limit: 200 },
+      { allPages: true }
+    );
+    const inRange = instances.data
+      .filter(({ attributes: { processingDate } }) =>
+        (!startDate || processingDate >= startDate) && (!endDate || processingDate <= endDate))
+      .sort((a, b) => a.attributes.processingDate.localeCompare(b.attributes.processingDate));
+
+    const segmentBodies: string[] = [];
+    const instanceSummaries: AnalyticsReportData['instances'] = [];
+    for (const instance of inRange) {
+      const cacheKey = ['analytics', report.id, granularity, instance.attributes.processingDate, instance.id];
+      let segments = (await this.cache?.get<string[]>(cacheKey))?.body;
+      if (!segments?.length) {
+        const list = await this.client.getPaginated<ListAnalyticsReportSegmentsResponse>(
+          `/analyticsReportInstances/${instance.id}/segments`,
+          { limit: 200 },
+          { allPages: true }
+        );
+        segments = [];
+        for (const segment of list.data) {
+          segments.push(decompressReport(await this.client.downloadBuffer(segment.attributes.url)));
+        }
+        // Apple may not have added an instance's segments yet, so only keep it once it has some
+        if (segments.length > 0) {
+          await this.cache?.set(cacheKey, segments);
+        }
+      }
+      segmentBodies.push(...segments);
+      instanceSummaries.push({
+        id: instance.id,
+        processingDate: instance.attributes.processingDate,
+        segments: segments.length
+      });
+    }
+
+    const { columns, rows } = mergeReportSegments(segmentBodies);
+    const returnedRows = rows.slice(0, maxRows);
+
+    return {
+      ...empty,
+      reportRequestId: activeRequest.id,
+      requestCreated: false,
+      report: { id: report.id, name: report.attributes.name, category: report.attributes.category },
+      instances: instanceSummaries,
+      columns,
+      rowCount: rows.length,
+      truncated: rows.length > returnedRows.length,
+      ...(format === "csv" ? { csv: toCsv(columns, returnedRows) } : { rows: returnedRows })
+    };
+  }
+
   async downloadSalesReport(args: {
     vendorNumber?: string;
     reportType?: SalesReportType;
     reportSubType?: SalesReportSubType;
     frequency?: SalesReportFrequency;
     reportDate: string;
+    version?: string;
+    format?: ReportOutputFormat;
+    currency?: string;
   }): Promise<SalesReportResponse> {
     const { 
       vendorNumber = this.config?.vendorNumber, 
       reportType = "SALES", 
-      reportSubType = "SUMMARY", 
       frequency = "MONTHLY", 
-      reportDate 
+      reportDate,
+      format,
+      currency
+    } = args;
+    const {
+      reportSubType = SALES_REPORT_DEFAULTS[reportType].reportSubType,
+      version = SALES_REPORT_DEFAULTS[reportType].version
     } = args;
     
-    if (!vendorNumber) {
-      throw new Error('Vendor number is required. Please provide it as an argument or set APP_STORE_CONNECT_VENDOR_NUMBER environment variable.');
-    }
-    
-    validateRequired({ reportDate }, ['reportDate']);
+    this.requireVendorNumber(vendorNumber);
+    validateRequired(args, ['reportDate']);
 
     const filters: SalesReportFilters = {
       reportDate,
       reportType,
       reportSubType,
       frequency,
-      vendorNumber
+      vendorNumber,
+      version
     };
 
-    return this.client.get<SalesReportResponse>('/salesReports', buildFilterParams(filters));
+    const { body } = await this.fetchReportBody('/salesReports', filters, this.salesReportCacheKey(filters));
+    const conversion = currency ? await this.currencyConversion(vendorNumber, reportDate, currency) : undefined;
+
+    return parseSalesReport(body!, { reportType, reportSubType, frequency, reportDate, version, format, conversion });
+  }
+
+  /**
+   * Sums daily sales reports over a date range, e.g. units by country for the last 90 days
+   *
+   * Each day is read from the report cache; days missing from it are downloaded, one at a
+   * time to spare the rate limit, and cached, so repeated and overlapping queries only
+   * download the days they have not seen. Days Apple has no report for (no sales, or not
+   * published yet) count as empty.
+   */
+  async querySalesTimeseries(args: {
+    vendorNumber?: string;
+    reportType?: SalesReportType;
+    reportSubType?: SalesReportSubType;
+    version?: string;
+    startDate?: string;
+    endDate?: string;
+    days?: number;
+    groupBy?: SalesTimeseriesDimension[];
+    currency?: string;
+  }): Promise<SalesTimeseries> {
+    const { vendorNumber = this.config?.vendorNumber, reportType = "SALES", groupBy = ["date"], currency } = args;
+    const {
+      reportSubType = SALES_REPORT_DEFAULTS[reportType].reportSubType,
+      version = SALES_REPORT_DEFAULTS[reportType].version
+    } = args;
+
+    this.requireVendorNumber(vendorNumber);
+    const dates = this.reportDates(args, 30, MAX_SALES_RANGE_DAYS);
+
+    const conversion = currency ? await this.currencyConversion(vendorNumber, dates[dates.length - 1], currency) : undefined;
+    const { reports, coverage } = await this.loadDailySalesReports(
+      { reportType, reportSubType, frequency: "DAILY", vendorNumber, version },
+      dates
+    );
+
+    return {
+      reportType,
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      groupBy,
+      ...aggregateSalesTimeseries(reportType, reports, groupBy, conversion),
+      coverage
+    };
+  }
+
+  /**
+   * Compares each app's downloads, proceeds and refunds over a period with the period before it
+   *
+   * Daily SALES reports are read through the report cache, as by querySalesTimeseries,
+   * and attributed to the apps list_apps returns. Proceeds are converted into one
+   * currency, see currencyConversion.
+   */
+  async getPortfolioSummary(args: {
+    vendorNumber?: string;
+    startDate?: string;
+    endDate?: string;
+    days?: number;
+    currency?: string;
+  }): Promise<PortfolioSummary> {
+    const { vendorNumber = this.config?.vendorNumber, currency = "USD" } = args;
+
+    this.requireVendorNumber(vendorNumber);
+
+    // Both periods together may span at most the longest range
+    const current = this.reportDates(args, 7, Math.floor(MAX_SALES_RANGE_DAYS / 2));
+    const previous = reportDatesInRange(shiftDate(current[0], -current.length), shiftDate(current[0], -1));
+    const { exchangeRates } = await this.currencyConversion(vendorNumber, current[current.length - 1], currency);
+
+    const apps = await this.client.getPaginated<ListAppsResponse>(
+      '/apps',
+      { 'fields[apps]': 'name,bundleId,sku', limit: 200 },
+      { allPages: true }
+    );
+    const { reports, coverage } = await this.loadDailySalesReports(
+      { reportType: "SALES", ...SALES_REPORT_DEFAULTS.SALES, frequency: "DAILY", vendorNumber },
+      [...previous, ...current]
+    );
+    const rowsFrom = (dates: string[]) => reports.filter(report => dates.includes(report.date)).flatMap(report => report.rows);
+
+    const summary = summarizePortfolio(
+      apps.data.map(app => ({ id: app.id, name: app.attributes?.name, bundleId: app.attributes?.bundleId, sku: app.attributes?.sku })),
+      rowsFrom(current),
+      rowsFrom(previous),
+      { currency, exchangeRates }
+    );
+
+    return {
+      currency,
+      current: { startDate: current[0], endDate: current[current.length - 1] },
+      previous: { startDate: previous[0], endDate: previous[previous.length - 1] },
+      ...summary,
+      exchangeRates: exchangeRates.map(({ source, asOf }) => ({ source, asOf })),
+      coverage
+    };
   }
 
   async downloadFinanceReport(args: {
     vendorNumber?: string;
     reportDate: string;
     regionCode: string;
+    reportType?: FinanceReportType;
+    format?: ReportOutputFormat;
+    currency?: string;
   }): Promise<FinanceReportResponse> {
-    const { vendorNumber = this.config?.vendorNumber, reportDate, regionCode } = args;
+    const { vendorNumber = this.config?.vendorNumber, reportDate, regionCode, reportType = "FINANCIAL", format, currency } = args;
     
-    if (!vendorNumber) {
-      throw new Error('Vendor number is required. Please provide it as an argument or set APP_STORE_CONNECT_VENDOR_NUMBER environment variable.');
-    }
-    
-    validateRequired({ reportDate, regionCode }, ['reportDate', 'regionCode']);
+    this.requireVendorNumber(vendorNumber);
+    validateRequired(args, ['reportDate', 'regionCode']);
 
-    const filters: FinanceReportFilters = {
+    // The consolidated report states its own rates, which parseFinanceReport tries first
+    const conversion = !currency ? undefined : regionCode === CONSOLIDATED_REGION_CODE
+      ? { currency, exchangeRates: [this.fallbackExchangeRates] }
+      : await this.currencyConversion(vendorNumber, reportDate, currency);
+
+    return this.fetchFinanceReport({ vendorNumber, reportDate, regionCode, reportType }, format, false, conversion);
+  }
+
+  /**
+   * Downloads the financial report of every region for a fiscal month and summarises the payouts
+   *
+   * Regions without earnings have no report (Apple answers 404) and are listed in
+   * `regionsWithoutReport`. Reports are fetched one at a time to spare the rate limit.
+   */
+  async reconcileFinanceMonth(args: {
+    vendorNumber?: string;
+    reportDate: string;
+    regionCodes?: string[];
+    includeConsolidated?: boolean;
+  }): Promise<FinanceReconciliation> {
+    const {
+      vendorNumber = this.config?.vendorNumber,
       reportDate,
-      regionCode,
-      vendorNumber
-    };
+      regionCodes = FINANCE_REGION_CODES,
+      includeConsolidated = true
+    } = args;
+
+    this.requireVendorNumber(vendorNumber);
+    validateRequired(args, ['reportDate']);
+
+    const fetchRegion = (regionCode: string) => this.fetchFinanceReport(
+      { vendorNumber, reportDate, regionCode, reportType: "FINANCIAL" },
+      undefined,
+      true
+    );
+
+    const reports: FinanceReportResponse[] = [];
+    const regionsWithoutReport: string[] = [];
+    for (const regionCode of regionCodes) {
+      const report = await fetchRegion(regionCode);
+      if (report) {
+        reports.push(report);
+      } else {
+        regionsWithoutReport.push(regionCode);
+      }
+    }
+
+    const consolidated = includeConsolidated ? await fetchRegion(CONSOLIDATED_REGION_CODE) : undefined;
+
+    return reconcileFinanceReports(reportDate, reports, regionsWithoutReport, consolidated);
+  }
+
+  // With `optional`, a region without a report resolves to undefined
+  private async fetchFinanceReport(
+    filters: FinanceReportFilters,
+    format?: ReportOutputFormat,
+    optional?: false,
+    conversion?: CurrencyConversion
+  ): Promise<FinanceReportResponse>;
+  private async fetchFinanceReport(filters: FinanceReportFilters, format: ReportOutputFormat | undefined, optional: true): Promise<FinanceReportResponse | undefined>;
+  private async fetchFinanceReport(
+    filters: FinanceReportFilters,
+    format?: ReportOutputFormat,
+    optional = false,
+    conversion?: CurrencyConversion
+  ): Promise<FinanceReportResponse | undefined> {
+    const { vendorNumber, reportType, regionCode, reportDate } = filters;
+    const cacheKey = ['finance', vendorNumber, reportType, regionCode, reportDate];
+    const { body } = await this.fetchReportBody('/financeReports', filters, cacheKey, optional);
+
+    return body === null ? undefined : parseFinanceReport(body, { reportType, regionCode, reportDate, format, conversion });
+  }
+
+  /**
+   * Picks the exchange rates for converting amounts of a report date into a currency
+   *
+   * Prefers the rates Apple states in the consolidated financial report of the date's
+   * fiscal month, or of the month before while that one is not published yet, then
+   * the fallback table.
+   * @throws McpError if no table has a rate for the currency
+   */
+  private async currencyConversion(vendorNumber: string, reportDate: string, currency: string): Promise<CurrencyConversion> {
+    const exchangeRates = [this.fallbackExchangeRates];
+
+    const month = /^\d{4}-\d{2}/.exec(reportDate)?.[0];
+    if (month) {
+      for (const candidate of [month, shiftMonth(month, -1)]) {
+        const report = await this.fetchFinanceReport(
+          { vendorNumber, reportDate: candidate, regionCode: CONSOLIDATED_REGION_CODE, reportType: "FINANCIAL" },
+          undefined,
+          true
+        ).catch(error => {
+          // Keys without the Finance role cannot read financial reports
+          if (axios.isAxiosError(error) && error.response?.status === 403) {
+            return undefined;
+          }
+          throw error;
+        });
+        if (report?.exchangeRates) {
+          exchangeRates.unshift(report.exchangeRates);
+          break;
+        }
+      }
+    }
+
+    if (!hasExchangeRate(currency, exchangeRates)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No exchange rate for ${currency}. Known currencies: ${Object.keys(this.fallbackExchangeRates.perUnit).join(', ')}`
+      );
+    }
+    return { currency, exchangeRates };
+  }
+
+  /**
+   * Lists the days of a range given as startDate and endDate, or as a number of days
+   * ending at endDate (default: yesterday, UTC)
+   */
+  private reportDates(args: { startDate?: string; endDate?: string; days?: number }, defaultDays: number, maxDays: number): string[] {
+    const { endDate = toDateString(Date.now() - DAY_MS), days = defaultDays } = args;
+    const { startDate = shiftDate(endDate, 1 - days) } = args;
+
+    const dates = reportDatesInRange(startDate, endDate);
+    if (dates.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `startDate ${startDate} is after endDate ${endDate}`);
+    }
+    if (dates.length > maxDays) {
+      throw new McpError(ErrorCode.InvalidParams, `The range covers ${dates.length} days; query at most ${maxDays} at a time`);
+    }
+    return dates;
+  }
+
+  /**
+   * Reads the daily sales report of each date through the report cache
+   *
+   * Days are downloaded one at a time to spare the rate limit. Days Apple has no report
+   * for (no sales, or not published yet) are listed in `coverage.daysWithoutReport`.
+   */
+  private async loadDailySalesReports(
+    filters: Omit<SalesReportFilters, 'reportDate'>,
+    dates: string[]
+  ): Promise<{ reports: Array<{ date: string; rows: ReportRow[] }>; coverage: SalesTimeseries['coverage'] }> {
+    const reports: Array<{ date: string; rows: ReportRow[] }> = [];
+    const coverage: SalesTimeseries['coverage'] = { days: dates.length, fromCache: 0, downloaded: 0, daysWithoutReport: [] };
+
+    for (const reportDate of dates) {
+      const dayFilters: SalesReportFilters = { ...filters, reportDate };
+      const { body, fromCache } = await this.fetchReportBody('/salesReports', dayFilters, this.salesReportCacheKey(dayFilters), true);
+
+      if (fromCache) {
+        coverage.fromCache++;
+      } else if (body !== null) {
+        coverage.downloaded++;
+      }
+
+      if (body === null) {
+        coverage.daysWithoutReport.push(reportDate);
+      } else {
+        const { reportType, reportSubType, frequency, version } = filters;
+        const { rows = [] } = parseSalesReport(body, { reportType, reportSubType, frequency, reportDate, version });
+        reports.push({ date: reportDate, rows });
+      }
+    }
 
-    return this.client.get<FinanceReportResponse>('/financeReports', buildFilterParams(filters));
+    return { reports, coverage };
+  }
+
+  private salesReportCacheKey(filters: SalesReportFilters): string[] {
+    const { vendorNumber, reportType, reportSubType, frequency, version, reportDate } = filters;
+    return ['sales', vendorNumber, reportType, reportSubType, frequency, version, reportDate];
+  }
+
+  /**
+   * Returns the decompressed text of a report, from the report cache when it holds it
+   *
+   * With `optional`, a report Apple does not have (404) resolves to null instead of
+   * throwing, and is cached as missing once its period is settled.
+   */
+  private async fetchReportBody(
+    path: string,
+    filters: SalesReportFilters | FinanceReportFilters,
+    cacheKey: string[],
+    optional = false
+  ): Promise<{ body: string | null; fromCache: boolean }> {
+    const cached = await this.cache?.get<string>(cacheKey);
+    if (cached && (cached.body !== null || optional)) {
+      return { body: cached.body, fromCache: true };
+    }
+
+    try {
+      const body = decompressReport(await this.client.getBuffer(path, buildFilterParams(filters)));
+      await this.cache?.set(cacheKey, body);
+      return { body, fromCache: false };
+    } catch (error) {
+      if (!optional || !isNotFound(error)) {
+        throw error;
+      }
+      if (isReportSettled(filters.reportDate)) {
+        await this.cache?.set(cacheKey, null);
+      }
+      return { body: null, fromCache: false };
+    }
+  }
+
+  // The vendor number may come from the arguments or the configuration, so it can't be a schema requirement
+  private requireVendorNumber(vendorNumber: string | undefined): asserts vendorNumber is string {
+    if (!vendorNumber) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Vendor number is required. Please provide it as an argument or set APP_STORE_CONNECT_VENDOR_NUMBER environment variable.'
+      );
+    }
   }
 }
\ No newline at end of file
@@ -1,6 +1,35 @@
-import { AppStoreConnectClient } from '../services/index.js';
-import { ListAppsResponse, AppInfoResponse, AppIncludeOptions } from '../types/index.js';
-import { validateRequired, sanitizeLimit } from '../utils/index.js';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { AppStoreConnectClient, summarizeCustomerReviews } from '../services/index.js';
+import {
+  App,
+  ListAppsResponse,
+  AppInfoResponse,
+  AppIncludeOptions,
+  PaginationOptions,
+  CustomerReview,
+  CustomerReviewFilter,
+  CustomerReviewResponseV1,
+  CustomerReviewResponseV1Response,
+  CustomerReviewSortOptions,
+  CustomerReviewSummary,
+  GetCustomerReviewResponse,
+  ListCustomerReviewsResponse
+} from '../types/index.js';
+import { validateRequired, sanitizeLimit, buildFilterParams } from '../utils/index.js';
+
+// Reviews are read newest first when summarising, up to this many by default
+const DEFAULT_SUMMARY_REVIEWS = 500;
+
+interface CustomerReviewScope {
+  appId?: string;
+  appStoreVersionId?: string;
+}
+
+// Day a review was written on, in UTC
+const reviewDay = (review: CustomerReview) => {
+  const createdDate = review.attributes?.createdDate;
+  return createdDate ? new Date(createdDate).toISOString().slice(0, 10) : undefined;
+};
 
 export class AppHandlers {
   constructor(private client: AppStoreConnectClient) {}
@@ -8,8 +37,8 @@ export class AppHandlers {
   async listApps(args: { 
     limit?: number;
     bundleId?: string;
-  } = {}): Promise<ListAppsResponse> {
-    const { limit = 100, bundleId } = args;
+  } & PaginationOptions = {}): Promise<ListAppsResponse> {
+    const { limit = 100, bundleId, allPages, maxItems } = args;
     
     const params: Record<string, any> = {
       limit: sanitizeLimit(limit)
@@ -19,7 +48,7 @@ export class AppHandlers {
       params['filter[bundleId]'] = bundleId;
     }
     
-    return this.client.get<ListAppsResponse>('/apps', params);
+    return this.client.getPaginated<ListAppsResponse>('/apps', params, { allPages, maxItems });
   }
 
   async getAppInfo(args: { 
@@ -38,7 +67,7 @@ export class AppHandlers {
     return this.client.get<AppInfoResponse>(`/apps/${appId}`, params);
   }
 
-  async findAppByBundleId(bundleId: string): Promise<{ id: string; attributes: { bundleId: string; name: string; sku: string; primaryLocale: string } } | null> {
+  async findAppByBundleId(bundleId: string): Promise<App | null> {
     const response = await this.listApps({ bundleId, limit: 1 });
     
     if (response.data && response.data.length > 0) {
@@ -47,4 +76,203 @@ export class AppHandlers {
     
     return null;
   }
-}
\ No newline at end of file
+
+  /**
+   * Lists the customer reviews of an app, or of one of its App Store versions
+   *
+   * The API filters by territory, rating and response; a date range is applied to
+   * reviews as they are read, following cursors until the range has been passed, and
+   * returns up to `limit` reviews (or `maxItems`, or all with `allPages`).
+   */
+  async listCustomerReviews(args: CustomerReviewScope & {
+    limit?: number;
+    sort?: CustomerReviewSortOptions;
+    filter?: CustomerReviewFilter;
+    includeResponse?: boolean;
+  } & PaginationOptions): Promise<ListCustomerReviewsResponse> {
+    const { limit = 100, filter = {}, includeResponse = true, allPages, maxItems } = args;
+    const { startDate, endDate } = filter;
+    const sort = args.sort ?? '-createdDate';
+
+    const params = this.customerReviewParams(limit, sort, filter, includeResponse);
+    const path = this.customerReviewsPath(args);
+
+    if (!startDate && !endDate) {
+      return this.client.getPaginated<ListCustomerReviewsResponse>(path, params, { allPages, maxItems });
+    }
+
+    if (sort !== 'createdDate' && sort !== '-createdDate') {
+      throw new McpError(ErrorCode.InvalidParams, 'A date range needs reviews sorted by createdDate or -createdDate');
+    }
+
+    const { reviews, responses, self, next } = await this.collectCustomerReviews(
+      path,
+      params,
+      filter,
+      allPages ? undefined : maxItems ?? sanitizeLimit(limit)
+    );
+
+    return {
+      data: reviews,
+      ...(responses.length > 0 && { included: responses }),
+      links: { self, next },
+    };
+  }
+
+  async getCustomerReview(args: {
+    reviewId: string;
+    includeResponse?: boolean;
+  }): Promise<GetCustomerReviewResponse> {
+    const { reviewId, includeResponse = true } = args;
+
+    validateRequired(args, ['reviewId']);
+
+    return this.client.get<GetCustomerReviewResponse>(
+      `/customerReviews/${reviewId}`,
+      includeResponse ? { include: 'response' } : {}
+    );
+  }
+
+  /**
+   * Publishes a developer response to a review
+   *
+   * A review has at most one response: posting again replaces the current one, which
+   * is how responses are edited.
+   */
+  async respondToCustomerReview(args: {
+    reviewId: string;
+    responseBody: string;
+  }): Promise<CustomerReviewResponseV1Response> {
+    const { reviewId, responseBody } = args;
+
+    validateRequired(args, ['reviewId', 'responseBody']);
+
+    return this.client.post<CustomerReviewResponseV1Response>('/customerReviewResponses', {
+      data: {
+        type: 'customerReviewResponses',
+        attributes: { responseBody },
+        relationships: {
+          review: { data: { type: 'customerReviews', id: reviewId } }
+        }
+      }
+    });
+  }
+
+  async deleteCustomerReviewResponse(args: {
+    responseId: string;
+  }): Promise<{ success: true; responseId: string }> {
+    const { responseId } = args;
+
+    validateRequired(args, ['responseId']);
+
+    await this.client.delete(`/customerReviewResponses/${responseId}`);
+    return { success: true, responseId };
+  }
+
+  /**
+   * Summarises the newest reviews matching a filter: rating distribution, averages by
+   * territory and recurring keywords
+   */
+  async summarizeCustomerReviews(args: CustomerReviewScope & {
+    filter?: CustomerReviewFilter;
+    maxReviews?: number;
+    keywordCount?: number;
+  }): Promise<CustomerReviewSummary & CustomerReviewScope> {
+    const { appId, appStoreVersionId, filter = {}, maxReviews = DEFAULT_SUMMARY_REVIEWS, keywordCount } = args;
+
+    const { reviews, truncated } = await this.collectCustomerReviews(
+      this.customerReviewsPath(args),
+      this.customerReviewParams(200, '-createdDate', filter, true),
+      filter,
+      maxReviews
+    );
+
+    return {
+      ...(appId ? { appId } : { appStoreVersionId }),
+      ...summarizeCustomerReviews(reviews, { keywordCount, truncated })
+    };
+  }
+
+  private customerReviewsPath({ appId, appStoreVersionId }: CustomerReviewScope): string {
+    if (!appId === !appStoreVersionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide either appId or appStoreVersionId');
+    }
+    return appId ? `/apps/${appId}/customerReviews` : `/appStoreVersions/${appStoreVersionId}/customerReviews`;
+  }
+
+  private customerReviewParams(
+    limit: number,
+    sort: CustomerReviewSortOptions,
+    filter: CustomerReviewFilter,
+    includeResponse: boolean
+  ): Record<string, any> {
+    const { territory, rating, hasResponse } = filter;
+
+    return {
+      limit: sanitizeLimit(limit),
+      sort,
+      ...buildFilterParams({
+        territory: territory?.length ? territory : undefined,
+        rating: rating?.length ? rating : undefined
+      }),
+      ...(hasResponse !== undefined && { 'exists[publishedResponse]': String(hasResponse) }),
+      ...(includeResponse && { include: 'response' })
+    };
+  }
+
+  /**
+   * Reads reviews sorted by date, keeping those in the filter's date range, until the
+   * range has been passed or `maxItems` reviews have been kept
+   *
+   * `truncated` tells that more reviews may match: the collection went on (from the
+   * `next` cursor) or the last page held more than `maxItems` allowed. In the latter
+   * case `next` is left out, as it would skip the reviews that were dropped.
+   */
+  private async collectCustomerReviews(
+    path: string,
+    params: Record<string, any>,
+    { startDate, endDate }: CustomerReviewFilter,
+    maxItems?: number
+  ): Promise<{ reviews: CustomerReview[]; responses: CustomerReviewResponseV1[]; self: string; next?: string; truncated: boolean }> {
+    const descending = params.sort === '-createdDate';
+    const reviews: CustomerReview[] = [];
+    const responses = new Map<string, CustomerReviewResponseV1>();
+
+    let page = await this.client.get<ListCustomerReviewsResponse>(path, params);
+    const self = page.links?.self;
+
+    for (;;) {
+      let passed = false;
+      for (const review of page.data ?? []) {
+        const day = reviewDay(review);
+        if (startDate && day && day < startDate) {
+          passed ||= descending;
+        } else if (endDate && day && day > endDate) {
+          passed ||= !descending;
+        } else {
+          reviews.push(review);
+        }
+      }
+      for (const response of page.included ?? []) {
+        responses.set(response.id, response);
+      }
+
+      const next = passed ? undefined : page.links?.next;
+      if (!next || (maxItems !== undefined && reviews.length >= maxItems)) {
+        const kept = reviews.slice(0, maxItems);
+        const keptResponses = new Set(kept.map(review => review.relationships?.response?.data?.id));
+        const dropped = kept.length < reviews.length;
+        return {
+          reviews: kept,
+          responses: Array.from(responses.values()).filter(response => keptResponses.has(response.id)),
+          self,
+          next: dropped ? undefined : next,
+          truncated: next !== undefined || dropped,
+        };
+      }
+
+      // Cursor links are absolute URLs that already carry every query parameter
+      page = await this.client.get<ListCustomerReviewsResponse>(next);
+    }
+  }
+}
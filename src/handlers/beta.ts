@@ -6,7 +6,8 @@ import {
   RemoveTesterRequest,
   ListBetaFeedbackScreenshotSubmissionsRequest,
   ListBetaFeedbackScreenshotSubmissionsResponse,
-  BetaFeedbackScreenshotSubmissionResponse
+  BetaFeedbackScreenshotSubmissionResponse,
+  PaginationOptions
 } from '../types/index.js';
 import { validateRequired, sanitizeLimit } from '../utils/index.js';
 import { AppHandlers } from './apps.js';
@@ -18,26 +19,26 @@ export class BetaHandlers {
     this.appHandlers = new AppHandlers(client);
   }
 
-  async listBetaGroups(args: { limit?: number } = {}): Promise<ListBetaGroupsResponse> {
-    const { limit = 100 } = args;
+  async listBetaGroups(args: { limit?: number } & PaginationOptions = {}): Promise<ListBetaGroupsResponse> {
+    const { limit = 100, allPages, maxItems } = args;
     
-    return this.client.get<ListBetaGroupsResponse>('/betaGroups', {
+    return this.client.getPaginated<ListBetaGroupsResponse>('/betaGroups', {
       limit: sanitizeLimit(limit),
       include: 'app,betaTesters'
-    });
+    }, { allPages, maxItems });
   }
 
   async listGroupTesters(args: { 
     groupId: string; 
     limit?: number;
-  }): Promise<ListBetaTestersResponse> {
-    const { groupId, limit = 100 } = args;
+  } & PaginationOptions): Promise<ListBetaTestersResponse> {
+    const { groupId, limit = 100, allPages, maxItems } = args;
     
     validateRequired(args, ['groupId']);
 
-    return this.client.get<ListBetaTestersResponse>(`/betaGroups/${groupId}/betaTesters`, {
+    return this.client.getPaginated<ListBetaTestersResponse>(`/betaGroups/${groupId}/betaTesters`, {
       limit: sanitizeLimit(limit)
-    });
+    }, { allPages, maxItems });
   }
 
   async addTesterToGroup(args: {
@@ -108,7 +109,9 @@ export class BetaHandlers {
       limit = 50,
       sort = "-createdDate",
       includeBuilds = false,
-      includeTesters = false
+      includeTesters = false,
+      allPages,
+      maxItems
     } = args;
     
     // Require either appId or bundleId
@@ -163,9 +166,10 @@ export class BetaHandlers {
     // Add field selections for better performance
     params['fields[betaFeedbackScreenshotSubmissions]'] = 'createdDate,comment,email,deviceModel,osVersion,locale,timeZone,architecture,connectionType,pairedAppleWatch,appUptimeInMilliseconds,diskBytesAvailable,diskBytesTotal,batteryPercentage,screenWidthInPoints,screenHeightInPoints,appPlatform,devicePlatform,deviceFamily,buildBundleId,screenshots,build,tester';
 
-    return this.client.get<ListBetaFeedbackScreenshotSubmissionsResponse>(
+    return this.client.getPaginated<ListBetaFeedbackScreenshotSubmissionsResponse>(
       `/apps/${finalAppId}/betaFeedbackScreenshotSubmissions`, 
-      params
+      params,
+      { allPages, maxItems }
     );
   }
 
@@ -0,0 +1,222 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { AppStoreConnectClient } from '../services/index.js';
+import {
+  Build,
+  BuildFilters,
+  BuildIncludeOptions,
+  BuildProcessingResult,
+  BuildResponse,
+  BuildSortOptions,
+  BuildUpdateRequest,
+  ListBuildsResponse,
+  LongRunningOptions,
+  PaginationOptions
+} from '../types/index.js';
+import { validateRequired, sanitizeLimit, buildFilterParams, delay } from '../utils/index.js';
+import type * as Spec from '../types/generated/app-store-connect.js';
+
+const DEFAULT_BUILD_INCLUDES: BuildIncludeOptions[] = ['buildBetaDetail', 'preReleaseVersion', 'icons'];
+
+const FINISHED_PROCESSING_STATES = new Set(['VALID', 'FAILED', 'INVALID']);
+
+// Why a build cannot be used, by processing or TestFlight state. The API does not
+// say why processing failed; Apple sends that by email to the uploader.
+const BUILD_STATE_ISSUES: Record<string, string> = {
+  FAILED: 'Processing failed; the reasons are in the email App Store Connect sent about this build',
+  INVALID: 'The build is invalid; the reasons are in the email App Store Connect sent about this build',
+  PROCESSING_EXCEPTION: 'TestFlight processing raised an exception',
+  MISSING_EXPORT_COMPLIANCE: 'Export compliance is missing: set usesNonExemptEncryption for the build',
+  EXPIRED: 'The build has expired'
+};
+
+export class BuildHandlers {
+  constructor(private client: AppStoreConnectClient) {}
+
+  async listBuilds(args: {
+    limit?: number;
+    sort?: BuildSortOptions;
+    filter?: BuildFilters;
+    include?: BuildIncludeOptions[];
+  } & PaginationOptions = {}): Promise<ListBuildsResponse> {
+    const { limit = 100, sort = '-uploadedDate', filter = {}, include = ['preReleaseVersion'], allPages, maxItems } = args;
+    const { appId, version, preReleaseVersion, platform, processingState, expired, appStoreVersionId } = filter;
+
+    const params: Record<string, any> = {
+      limit: sanitizeLimit(limit),
+      sort,
+      ...buildFilterParams({
+        app: appId,
+        version,
+        'preReleaseVersion.version': preReleaseVersion,
+        'preReleaseVersion.platform': platform,
+        processingState: processingState?.length ? processingState : undefined,
+        expired,
+        appStoreVersion: appStoreVersionId
+      })
+    };
+
+    if (include.length) {
+      params.include = include.join(',');
+    }
+
+    return this.client.getPaginated<ListBuildsResponse>('/builds', params, { allPages, maxItems });
+  }
+
+  async getBuild(args: {
+    buildId: string;
+    include?: BuildIncludeOptions[];
+  }): Promise<BuildResponse> {
+    const { buildId, include = DEFAULT_BUILD_INCLUDES } = args;
+
+    validateRequired(args, ['buildId']);
+
+    const params: Record<string, any> = {};
+    if (include.length) {
+      params.include = include.join(',');
+    }
+
+    return this.client.get<BuildResponse>(`/builds/${buildId}`, params);
+  }
+
+  /**
+   * Expires a build, so testers can no longer install it; this cannot be undone
+   */
+  async expireBuild(args: {
+    buildId: string;
+  }): Promise<BuildResponse> {
+    const { buildId } = args;
+
+    validateRequired(args, ['buildId']);
+
+    const requestData: BuildUpdateRequest = {
+      data: {
+        type: 'builds',
+        id: buildId,
+        attributes: { expired: true }
+      }
+    };
+
+    return this.client.patch<BuildResponse>(`/builds/${buildId}`, requestData);
+  }
+
+  /**
+   * Selects the build an App Store version will be submitted with
+   */
+  async attachBuildToVersion(args: {
+    appStoreVersionId: string;
+    buildId: string;
+  }): Promise<{ success: true; appStoreVersionId: string; buildId: string }> {
+    const { appStoreVersionId, buildId } = args;
+
+    validateRequired(args, ['appStoreVersionId', 'buildId']);
+
+    await this.client.patch(`/appStoreVersions/${appStoreVersionId}/relationships/build`, {
+      data: { type: 'builds', id: buildId }
+    });
+
+    return { success: true, appStoreVersionId, buildId };
+  }
+
+  /**
+   * Clears an App Store version's build, e.g. to replace it before submitting
+   *
+   * The spec only describes setting the relationship; clearing it sends `data: null`,
+   * as JSON:API does for empty to-one relationships.
+   */
+  async detachBuildFromVersion(args: {
+    appStoreVersionId: string;
+  }): Promise<{ success: true; appStoreVersionId: string }> {
+    const { appStoreVersionId } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    await this.client.patch(`/appStoreVersions/${appStoreVersionId}/relationships/build`, { data: null });
+
+    return { success: true, appStoreVersionId };
+  }
+
+  /**
+   * Polls a build until processing ends, the timeout passes or the call is cancelled
+   *
+   * A build is named by ID, or by app and build number; in the latter case it may not
+   * exist yet right after an upload, and is looked for on every poll. Reaching the
+   * timeout is not an error: the result reports the last state seen.
+   * @throws The abort signal's reason if the call is cancelled
+   */
+  async waitForBuildProcessing(args: {
+    buildId?: string;
+    appId?: string;
+    version?: string;
+    preReleaseVersion?: string;
+    platform?: Spec.Platform;
+    timeoutSeconds?: number;
+    pollIntervalSeconds?: number;
+  }, options: LongRunningOptions = {}): Promise<BuildProcessingResult> {
+    const { appId, version, preReleaseVersion, platform, timeoutSeconds = 1800, pollIntervalSeconds = 30 } = args;
+    const { signal, onProgress } = options;
+
+    if (!args.buildId && !(appId && version)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide buildId, or appId and version (the build number)');
+    }
+
+    const started = Date.now();
+    const elapsedSeconds = () => Math.round((Date.now() - started) / 1000);
+    let buildId = args.buildId;
+
+    for (let polls = 1; ; polls++) {
+      const { build, betaDetail } = await this.findBuild(buildId, { appId, version, preReleaseVersion, platform });
+      buildId = build?.id;
+
+      const processingState = build?.attributes?.processingState ?? 'NOT_FOUND';
+      const finished = FINISHED_PROCESSING_STATES.has(processingState);
+      const timedOut = !finished && Date.now() - started >= timeoutSeconds * 1000;
+
+      if (finished || timedOut) {
+        const { internalBuildState, externalBuildState } = betaDetail?.attributes ?? {};
+        const states = [processingState, internalBuildState, externalBuildState];
+        const issues = Array.from(new Set(states.flatMap(state => state && BUILD_STATE_ISSUES[state] ? [BUILD_STATE_ISSUES[state]] : [])));
+
+        return {
+          ...(buildId && { buildId }),
+          version: build?.attributes?.version ?? version,
+          processingState,
+          finished,
+          timedOut,
+          elapsedSeconds: elapsedSeconds(),
+          polls,
+          ...(internalBuildState && { internalBuildState }),
+          ...(externalBuildState && { externalBuildState }),
+          issues,
+          ...(build && { build })
+        };
+      }
+
+      const name = build?.attributes?.version ?? version;
+      await onProgress?.({
+        progress: elapsedSeconds(),
+        total: timeoutSeconds,
+        message: processingState === 'NOT_FOUND'
+          ? `Waiting for build ${name} to appear`
+          : `Build ${name} is ${processingState}`
+      });
+
+      const remainingMs = timeoutSeconds * 1000 - (Date.now() - started);
+      await delay(Math.min(pollIntervalSeconds * 1000, remainingMs), signal);
+    }
+  }
+
+  private async findBuild(
+    buildId: string | undefined,
+    filter: Pick<BuildFilters, 'appId' | 'version' | 'preReleaseVersion' | 'platform'>
+  ): Promise<{ build?: Build; betaDetail?: Spec.BuildBetaDetail }> {
+    const response = buildId
+      ? await this.getBuild({ buildId, include: ['buildBetaDetail'] })
+      : await this.listBuilds({ filter, limit: 1, include: ['buildBetaDetail'] });
+    const build = Array.isArray(response.data) ? response.data[0] : response.data;
+    const betaDetail = response.included?.find(
+      (resource): resource is Spec.BuildBetaDetail => resource.type === 'buildBetaDetails'
+    );
+
+    return { build, betaDetail };
+  }
+}
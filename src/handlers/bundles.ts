@@ -6,7 +6,8 @@ import {
   EnableCapabilityRequest,
   BundlePlatform,
   CapabilityType,
-  CapabilitySetting
+  CapabilitySetting,
+  PaginationOptions
 } from '../types/index.js';
 import { validateRequired, sanitizeLimit, buildFilterParams, buildFieldParams } from '../utils/index.js';
 
@@ -48,8 +49,8 @@ export class BundleHandlers {
       seedId?: string;
     };
     include?: string[];
-  } = {}): Promise<ListBundleIdsResponse> {
-    const { limit = 100, sort, filter, include } = args;
+  } & PaginationOptions = {}): Promise<ListBundleIdsResponse> {
+    const { limit = 100, sort, filter, include, allPages, maxItems } = args;
     
     const params: Record<string, any> = {
       limit: sanitizeLimit(limit)
@@ -65,7 +66,7 @@ export class BundleHandlers {
       params.include = include.join(',');
     }
 
-    return this.client.get<ListBundleIdsResponse>('/bundleIds', params);
+    return this.client.getPaginated<ListBundleIdsResponse>('/bundleIds', params, { allPages, maxItems });
   }
 
   async getBundleIdInfo(args: {
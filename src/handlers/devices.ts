@@ -3,7 +3,8 @@ import {
   ListDevicesResponse,
   DeviceFilters,
   DeviceSortOptions,
-  DeviceFieldOptions
+  DeviceFieldOptions,
+  PaginationOptions
 } from '../types/index.js';
 import { sanitizeLimit, buildFilterParams, buildFieldParams } from '../utils/index.js';
 
@@ -17,8 +18,8 @@ export class DeviceHandlers {
     fields?: {
       devices?: DeviceFieldOptions[];
     };
-  } = {}): Promise<ListDevicesResponse> {
-    const { limit = 100, sort, filter, fields } = args;
+  } & PaginationOptions = {}): Promise<ListDevicesResponse> {
+    const { limit = 100, sort, filter, fields, allPages, maxItems } = args;
     
     const params: Record<string, any> = {
       limit: sanitizeLimit(limit)
@@ -31,6 +32,6 @@ export class DeviceHandlers {
     Object.assign(params, buildFilterParams(filter));
     Object.assign(params, buildFieldParams(fields));
 
-    return this.client.get<ListDevicesResponse>('/devices', params);
+    return this.client.getPaginated<ListDevicesResponse>('/devices', params, { allPages, maxItems });
   }
 }
\ No newline at end of file
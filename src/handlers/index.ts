@@ -1,9 +1,14 @@
 export { AppHandlers } from './apps.js';
 export { BetaHandlers } from './beta.js';
+export { BuildHandlers } from './builds.js';
 export { BundleHandlers } from './bundles.js';
 export { DeviceHandlers } from './devices.js';
 export { UserHandlers } from './users.js';
 export { AnalyticsHandlers } from './analytics.js';
 export { XcodeHandlers } from './xcode.js';
 export { LocalizationHandlers } from './localizations.js';
-export { XcodeCloudHandlers } from './xcodeCloud.js';
\ No newline at end of file
+export { ReviewSubmissionHandlers } from './reviewSubmissions.js';
+export { ScreenshotHandlers } from './screenshots.js';
+export { PreviewHandlers } from './previews.js';
+export { XcodeCloudHandlers } from './xcodeCloud.js';
+export { OpenApiHandlers } from './openapi.js';
@@ -1,15 +1,54 @@
-import { AppStoreConnectClient } from '../services/index.js';
+import fs from 'fs/promises';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AppStoreConnectClient,
+  LOCALIZATION_FIELDS,
+  loadVersionLocalizations,
+  LOCALIZATION_FIELD_LIMITS,
+  parseLocalizationFile,
+  writeLocalizationFile
+} from '../services/index.js';
 import { 
   ListAppStoreVersionLocalizationsResponse, 
   AppStoreVersionLocalizationResponse,
+  AppStoreVersionLocalizationCreateRequest,
   AppStoreVersionLocalizationUpdateRequest,
   AppStoreVersionLocalizationField,
+  LocalizationExport,
+  LocalizationFileFormat,
+  LocalizationImportChange,
+  LocalizationImportResult,
+  LocalizationTexts,
+  LongRunningOptions,
   ListAppStoreVersionsResponse,
   AppStoreVersionCreateRequest,
-  AppStoreVersionResponse
+  AppStoreVersionResponse,
+  AppStoreVersionPhasedRelease,
+  AppStoreVersionPhasedReleaseResponse,
+  AppStoreVersionReleaseRequestResponse,
+  PhasedReleaseState,
+  PhasedReleaseStatus,
+  PaginationOptions
 } from '../types/index.js';
 import { validateRequired, sanitizeLimit } from '../utils/index.js';
 
+// Share of users with automatic updates that a phased release reaches on each of its seven days
+const PHASED_RELEASE_PERCENTAGES = [1, 2, 5, 10, 20, 50, 100];
+
+function phasedReleasePercentage(phasedRelease: AppStoreVersionPhasedRelease | undefined): number | null {
+  const { phasedReleaseState, currentDayNumber } = phasedRelease?.attributes ?? {};
+  if (!phasedRelease) {
+    return null;
+  }
+  if (phasedReleaseState === 'COMPLETE') {
+    return 100;
+  }
+  if (phasedReleaseState === 'INACTIVE' || !currentDayNumber) {
+    return 0;
+  }
+  return PHASED_RELEASE_PERCENTAGES[Math.min(currentDayNumber, PHASED_RELEASE_PERCENTAGES.length) - 1];
+}
+
 export class LocalizationHandlers {
   constructor(private client: AppStoreConnectClient) {}
 
@@ -21,8 +60,8 @@ export class LocalizationHandlers {
       versionString?: string;
       appStoreState?: string;
     };
-  }): Promise<ListAppStoreVersionsResponse> {
-    const { appId, limit = 100, filter } = args;
+  } & PaginationOptions): Promise<ListAppStoreVersionsResponse> {
+    const { appId, limit = 100, filter, allPages, maxItems } = args;
     
     validateRequired(args, ['appId']);
     
@@ -43,28 +82,29 @@ export class LocalizationHandlers {
       params['filter[appStoreState]'] = filter.appStoreState;
     }
     
-    return this.client.get<ListAppStoreVersionsResponse>(
+    return this.client.getPaginated<ListAppStoreVersionsResponse>(
       '/appStoreVersions',
-      params
+      params,
+      { allPages, maxItems }
     );
   }
 
   async listAppStoreVersionLocalizations(args: {
     appStoreVersionId: string;
     limit?: number;
-  }): Promise<ListAppStoreVersionLocalizationsResponse> {
-    const { appStoreVersionId, limit = 100 } = args;
+  } & PaginationOptions): Promise<ListAppStoreVersionLocalizationsResponse> {
+    const { appStoreVersionId, limit = 100, allPages, maxItems } = args;
     
     validateRequired(args, ['appStoreVersionId']);
     
     const params: Record<string, any> = {
-      limit: sanitizeLimit(limit),
-      'filter[appStoreVersion]': appStoreVersionId
+      limit: sanitizeLimit(limit)
     };
     
-    return this.client.get<ListAppStoreVersionLocalizationsResponse>(
-      '/appStoreVersionLocalizations',
-      params
+    return this.client.getPaginated<ListAppStoreVersionLocalizationsResponse>(
+      `/appStoreVersions/${appStoreVersionId}/appStoreVersionLocalizations`,
+      params,
+      { allPages, maxItems }
     );
   }
 
@@ -87,17 +127,7 @@ export class LocalizationHandlers {
   }): Promise<AppStoreVersionLocalizationResponse> {
     const { localizationId, field, value } = args;
     
-    validateRequired(args, ['localizationId', 'field', 'value']);
-    
-    // Validate field
-    const validFields: AppStoreVersionLocalizationField[] = [
-      'description', 'keywords', 'marketingUrl', 
-      'promotionalText', 'supportUrl', 'whatsNew'
-    ];
-    
-    if (!validFields.includes(field)) {
-      throw new Error(`Invalid field: ${field}. Must be one of: ${validFields.join(', ')}`);
-    }
+    validateRequired(args, ['localizationId', 'field']);
     
     const requestData: AppStoreVersionLocalizationUpdateRequest = {
       data: {
@@ -136,23 +166,6 @@ export class LocalizationHandlers {
     
     validateRequired(args, ['appId', 'platform', 'versionString']);
     
-    // Validate version string format
-    const versionRegex = /^\d+\.\d+(\.\d+)?$/;
-    if (!versionRegex.test(versionString)) {
-      throw new Error('Version string must be in format X.Y or X.Y.Z (e.g., 1.0 or 1.0.0)');
-    }
-    
-    // Validate release date if provided
-    if (earliestReleaseDate) {
-      const date = new Date(earliestReleaseDate);
-      if (isNaN(date.getTime())) {
-        throw new Error('Invalid release date format. Use ISO 8601 format (e.g., 2024-01-01T00:00:00Z)');
-      }
-      if (releaseType !== 'SCHEDULED') {
-        throw new Error('earliestReleaseDate can only be set when releaseType is SCHEDULED');
-      }
-    }
-    
     const requestData: AppStoreVersionCreateRequest = {
       data: {
         type: 'appStoreVersions',
@@ -187,4 +200,274 @@ export class LocalizationHandlers {
       requestData
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Reports a version's phased release: its state, day and the share of users it reaches
+   */
+  async getPhasedRelease(args: {
+    appStoreVersionId: string;
+  }): Promise<PhasedReleaseStatus> {
+    const { appStoreVersionId } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    const { data: version, included = [] } = await this.client.get<AppStoreVersionResponse>(
+      `/appStoreVersions/${appStoreVersionId}`,
+      { include: 'appStoreVersionPhasedRelease' }
+    );
+    const phasedRelease = included.find(
+      (resource): resource is AppStoreVersionPhasedRelease => resource.type === 'appStoreVersionPhasedReleases'
+    );
+
+    return {
+      appStoreVersionId,
+      versionString: version.attributes?.versionString,
+      appStoreState: version.attributes?.appStoreState,
+      ...(phasedRelease && { phasedReleaseId: phasedRelease.id, ...phasedRelease.attributes }),
+      percentage: phasedReleasePercentage(phasedRelease)
+    };
+  }
+
+  /**
+   * Releases a version over seven days instead of to everyone at once
+   *
+   * Created INACTIVE, the phased release starts when the version is released.
+   */
+  async createPhasedRelease(args: {
+    appStoreVersionId: string;
+    phasedReleaseState?: 'INACTIVE' | 'ACTIVE';
+  }): Promise<AppStoreVersionPhasedReleaseResponse> {
+    const { appStoreVersionId, phasedReleaseState } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    return this.client.post<AppStoreVersionPhasedReleaseResponse>('/appStoreVersionPhasedReleases', {
+      data: {
+        type: 'appStoreVersionPhasedReleases',
+        ...(phasedReleaseState && { attributes: { phasedReleaseState } }),
+        relationships: {
+          appStoreVersion: { data: { type: 'appStoreVersions', id: appStoreVersionId } }
+        }
+      }
+    });
+  }
+
+  /**
+   * Pauses (PAUSED), resumes (ACTIVE) or completes (COMPLETE) a version's phased release
+   * @throws McpError (InvalidParams) if the version has no phased release
+   */
+  async updatePhasedRelease(args: {
+    appStoreVersionId: string;
+    phasedReleaseState: Exclude<PhasedReleaseState, 'INACTIVE'>;
+  }): Promise<PhasedReleaseStatus> {
+    const { appStoreVersionId, phasedReleaseState } = args;
+
+    validateRequired(args, ['appStoreVersionId', 'phasedReleaseState']);
+
+    const status = await this.getPhasedRelease({ appStoreVersionId });
+    if (!status.phasedReleaseId) {
+      throw new McpError(ErrorCode.InvalidParams, `App Store version ${appStoreVersionId} has no phased release`);
+    }
+
+    const { data: phasedRelease } = await this.client.patch<AppStoreVersionPhasedReleaseResponse>(
+      `/appStoreVersionPhasedReleases/${status.phasedReleaseId}`,
+      {
+        data: {
+          type: 'appStoreVersionPhasedReleases',
+          id: status.phasedReleaseId,
+          attributes: { phasedReleaseState }
+        }
+      }
+    );
+
+    return { ...status, ...phasedRelease.attributes, percentage: phasedReleasePercentage(phasedRelease) };
+  }
+
+  /**
+   * Releases an approved version that is waiting for the developer to release it
+   * @throws McpError (InvalidParams) if the version is not PENDING_DEVELOPER_RELEASE
+   */
+  async releaseAppStoreVersion(args: {
+    appStoreVersionId: string;
+  }): Promise<{ success: true; appStoreVersionId: string; versionString?: string; releaseRequestId: string }> {
+    const { appStoreVersionId } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    const { data: version } = await this.client.get<AppStoreVersionResponse>(`/appStoreVersions/${appStoreVersionId}`);
+    const { versionString, appStoreState } = version.attributes ?? {};
+    if (appStoreState !== 'PENDING_DEVELOPER_RELEASE') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Version ${versionString ?? appStoreVersionId} is ${appStoreState}; only PENDING_DEVELOPER_RELEASE versions can be released`
+      );
+    }
+
+    const { data: releaseRequest } = await this.client.post<AppStoreVersionReleaseRequestResponse>(
+      '/appStoreVersionReleaseRequests',
+      {
+        data: {
+          type: 'appStoreVersionReleaseRequests',
+          relationships: {
+            appStoreVersion: { data: { type: 'appStoreVersions', id: appStoreVersionId } }
+          }
+        }
+      }
+    );
+
+    return { success: true, appStoreVersionId, versionString, releaseRequestId: releaseRequest.id };
+  }
+
+  /**
+   * Writes the texts of all a version's locales to a CSV, JSON or XLIFF file
+   *
+   * The file is returned, or written to filePath. XLIFF files carry sourceLocale's
+   * texts (default: en-US if the version has it) as the source of every other locale.
+   * @throws McpError (InvalidParams) if the version has no sourceLocale localization
+   */
+  async exportVersionLocalizations(args: {
+    appStoreVersionId: string;
+    format: LocalizationFileFormat;
+    filePath?: string;
+    sourceLocale?: string;
+  }): Promise<LocalizationExport> {
+    const { appStoreVersionId, format, filePath, sourceLocale } = args;
+
+    validateRequired(args, ['appStoreVersionId', 'format']);
+
+    const localizations = await loadVersionLocalizations(this.client, appStoreVersionId);
+    const texts: Record<string, LocalizationTexts> = {};
+    for (const [locale, { attributes }] of localizations) {
+      texts[locale] = Object.fromEntries(
+        LOCALIZATION_FIELDS.flatMap(field => attributes?.[field] ? [[field, attributes[field]]] : [])
+      );
+    }
+
+    const locales = Object.keys(texts).sort();
+    if (sourceLocale && !texts[sourceLocale]) {
+      throw new McpError(ErrorCode.InvalidParams, `The version has no localization for ${sourceLocale}`);
+    }
+    const content = writeLocalizationFile(texts, format, {
+      sourceLocale: sourceLocale ?? (texts['en-US'] ? 'en-US' : locales[0]),
+      original: `appStoreVersions/${appStoreVersionId}`
+    });
+
+    if (filePath) {
+      await fs.writeFile(filePath, content, 'utf-8');
+      return { appStoreVersionId, format, locales, filePath };
+    }
+    return { appStoreVersionId, format, locales, content };
+  }
+
+  /**
+   * Applies a CSV, JSON or XLIFF file of localized texts to a version
+   *
+   * Without apply, only reports what would change. Every locale is checked first; then
+   * each one gets a single PATCH with all its changed fields, or is created if missing.
+   * Empty fields are left unchanged, and locales with nothing but empty fields are not created.
+   * A locale that fails is reported and the rest carry on; cancelling stops before the next one.
+   * @throws McpError (InvalidParams) if the file is malformed, a text is too long or a
+   * locale is missing and createMissingLocales is off
+   */
+  async importVersionLocalizations(args: {
+    appStoreVersionId: string;
+    format: LocalizationFileFormat;
+    content?: string;
+    filePath?: string;
+    apply?: boolean;
+    createMissingLocales?: boolean;
+  }, options: LongRunningOptions = {}): Promise<LocalizationImportResult> {
+    const { appStoreVersionId, format, filePath, apply = false, createMissingLocales = true } = args;
+    const { signal, onProgress } = options;
+
+    validateRequired(args, ['appStoreVersionId', 'format']);
+    if ((args.content === undefined) === (filePath === undefined)) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide either content or filePath');
+    }
+
+    const content = args.content ?? await fs.readFile(filePath!, 'utf-8');
+    const texts = parseLocalizationFile(content, format);
+    const localizations = await loadVersionLocalizations(this.client, appStoreVersionId);
+
+    const problems: string[] = [];
+    const plan: LocalizationImportChange[] = [];
+    for (const locale of Object.keys(texts).sort()) {
+      const existing = localizations.get(locale);
+      if (!existing && !createMissingLocales) {
+        problems.push(`${locale}: the version has no localization for this locale`);
+        continue;
+      }
+      for (const [field, value] of Object.entries(texts[locale]) as Array<[AppStoreVersionLocalizationField, string]>) {
+        const limit = LOCALIZATION_FIELD_LIMITS[field];
+        if (limit && Array.from(value).length > limit) {
+          problems.push(`${locale} ${field}: ${Array.from(value).length} characters; at most ${limit} are allowed`);
+        }
+      }
+
+      const changes = LOCALIZATION_FIELDS.flatMap(field => {
+        const to = texts[locale][field];
+        const from = existing?.attributes?.[field] ?? undefined;
+        return to !== undefined && to !== from ? [{ field, ...(from !== undefined && { from }), to }] : [];
+      });
+      if (!existing && changes.length === 0) {
+        continue; // An empty localization would only need filling in by hand
+      }
+      plan.push({
+        locale,
+        action: !existing ? 'create' : changes.length > 0 ? 'update' : 'unchanged',
+        ...(existing && { localizationId: existing.id }),
+        changes
+      });
+    }
+    if (problems.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No localizations were imported:\n- ${problems.join('\n- ')}`);
+    }
+
+    const pending = plan.filter(change => change.action !== 'unchanged');
+    if (apply) {
+      for (const [index, change] of pending.entries()) {
+        signal?.throwIfAborted();
+        await onProgress?.({ progress: index, total: pending.length, message: `${change.action === 'create' ? 'Creating' : 'Updating'} ${change.locale}` });
+        const attributes = Object.fromEntries(change.changes.map(({ field, to }) => [field, to]));
+        try {
+          if (change.action === 'create') {
+            const requestData: AppStoreVersionLocalizationCreateRequest = {
+              data: {
+                type: 'appStoreVersionLocalizations',
+                attributes: { locale: change.locale, ...attributes },
+                relationships: {
+                  appStoreVersion: { data: { type: 'appStoreVersions', id: appStoreVersionId } }
+                }
+              }
+            };
+            const { data: created } = await this.client.post<AppStoreVersionLocalizationResponse>('/appStoreVersionLocalizations', requestData);
+            change.localizationId = created.id;
+          } else {
+            const requestData: AppStoreVersionLocalizationUpdateRequest = {
+              data: { type: 'appStoreVersionLocalizations', id: change.localizationId!, attributes }
+            };
+            await this.client.patch<AppStoreVersionLocalizationResponse>(`/appStoreVersionLocalizations/${change.localizationId}`, requestData);
+          }
+        } catch (error: any) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          change.error = error.message;
+        }
+      }
+      await onProgress?.({ progress: pending.length, total: pending.length, message: 'Localizations imported' });
+    }
+
+    const done = (action: LocalizationImportChange['action']) =>
+      apply ? pending.filter(change => change.action === action && !change.error).length : 0;
+    return {
+      appStoreVersionId,
+      applied: apply,
+      created: done('create'),
+      updated: done('update'),
+      unchanged: plan.length - pending.length,
+      failed: pending.filter(change => change.error).length,
+      locales: plan
+    };
+  }
+}
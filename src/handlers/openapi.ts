@@ -0,0 +1,103 @@
+/**
+ * Generic App Store Connect API Handlers
+ *
+ * Exposes every operation in Apple's bundled OpenAPI specification (3.2.json) so
+ * endpoints without a hand-written tool can still be discovered and called:
+ * - Search operations by keyword, tag and HTTP method
+ * - Call any operation by operationId, with path/query/body validated against the spec
+ */
+
+import { AppStoreConnectClient, OpenApiCatalog, ApiOperation, ApiOperationMethod } from '../services/index.js';
+import { PaginationOptions } from '../types/index.js';
+import { validateRequired } from '../utils/index.js';
+
+export class OpenApiHandlers {
+  constructor(private client: AppStoreConnectClient, private catalog: OpenApiCatalog = new OpenApiCatalog()) {}
+
+  /**
+   * Search the OpenAPI spec for operations
+   *
+   * Without a query or tag this returns the list of tags, as a starting point for discovery.
+   */
+  async searchApiOperations(args: {
+    query?: string;
+    tag?: string;
+    method?: ApiOperationMethod;
+    includeDeprecated?: boolean;
+    includeDetails?: boolean;
+    limit?: number;
+  } = {}): Promise<any> {
+    const { query, tag, method, includeDeprecated = false, includeDetails = false, limit = 20 } = args;
+
+    if (!query && !tag) {
+      return {
+        message: 'Provide a query and/or tag to search operations. Available tags:',
+        tags: this.catalog.listTags()
+      };
+    }
+
+    const matches = this.catalog.searchOperations({ query, tag, method, includeDeprecated });
+
+    return {
+      total: matches.length,
+      operations: matches.slice(0, limit).map(operation => this.describeOperation(operation, includeDetails))
+    };
+  }
+
+  /**
+   * Call any App Store Connect API operation by its operationId
+   */
+  async callAppStoreConnectApi(args: {
+    operationId: string;
+    pathParameters?: Record<string, unknown>;
+    queryParameters?: Record<string, unknown>;
+    body?: unknown;
+  } & PaginationOptions): Promise<any> {
+    const { operationId, pathParameters, queryParameters, body, allPages, maxItems } = args;
+
+    validateRequired(args, ['operationId']);
+
+    const call = this.catalog.prepareCall(operationId, { pathParameters, queryParameters, body });
+
+    if (call.method === 'GET') {
+      return this.client.getPaginated(call.url, call.params, { allPages, maxItems });
+    }
+
+    const response = await this.client.request(call.method, call.url, call.body, call.params);
+
+    // DELETE and some relationship updates return 204 No Content
+    return response === '' || response === undefined
+      ? { success: true, message: `${call.method} ${operationId} completed` }
+      : response;
+  }
+
+  private describeOperation(operation: ApiOperation, includeDetails: boolean) {
+    const summary = {
+      operationId: operation.operationId,
+      method: operation.method,
+      path: operation.path,
+      tags: operation.tags,
+      ...(operation.deprecated && { deprecated: true }),
+      pathParameters: operation.parameters.filter(p => p.in === 'path').map(p => p.name),
+      queryParameters: operation.parameters.filter(p => p.in === 'query').map(p => p.name),
+      hasRequestBody: Boolean(operation.requestBody)
+    };
+
+    if (!includeDetails) {
+      return summary;
+    }
+
+    return {
+      ...summary,
+      queryParameters: operation.parameters
+        .filter(p => p.in === 'query')
+        .map(p => ({ name: p.name, required: p.required, description: p.description, schema: p.schema })),
+      ...(operation.requestBody && {
+        requestBody: {
+          required: operation.requestBody.required,
+          schema: this.catalog.expandSchema(operation.requestBody.schema)
+        }
+      })
+    };
+  }
+}
@@ -0,0 +1,325 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AppStoreConnectClient,
+  loadVersionLocalizationIds,
+  PreviewError,
+  checkPreviewFile,
+  imageAssetUrl,
+  md5FileChecksum,
+  uploadFileParts
+} from '../services/index.js';
+import {
+  AppPreview,
+  AppPreviewResponse,
+  AppPreviewUpdateRequest,
+  CheckedPreview,
+  ListPreviewSetsResponse,
+  LongRunningOptions,
+  PreviewSet,
+  PreviewSetListing,
+  PreviewSetResponse,
+  PreviewSetSummary,
+  PreviewSummary,
+  PreviewType,
+  PreviewUpload,
+  PreviewUploadResult,
+  PreviewUploadSummary
+} from '../types/index.js';
+import { validateRequired } from '../utils/index.js';
+
+// App previews a set can hold, per App Store Connect
+const MAX_PREVIEWS_PER_SET = 3;
+
+/**
+ * A preview set with its previews, in display order
+ */
+interface LoadedPreviewSet {
+  set: PreviewSet;
+  previews: AppPreview[];
+}
+
+function summarizePreview(preview: AppPreview): PreviewSummary {
+  const { fileName, fileSize, mimeType, previewFrameTimeCode, videoUrl, previewImage, assetDeliveryState } = preview.attributes ?? {};
+  const errors = assetDeliveryState?.errors?.map(error => error.description ?? error.code ?? 'Unknown error');
+  const posterFrameUrl = imageAssetUrl(previewImage, { format: 'jpg' });
+  return {
+    previewId: preview.id,
+    fileName,
+    fileSize,
+    mimeType,
+    previewFrameTimeCode,
+    videoUrl,
+    ...(posterFrameUrl && { posterFrameUrl }),
+    assetDeliveryState: assetDeliveryState?.state,
+    ...(errors?.length && { errors })
+  };
+}
+
+export class PreviewHandlers {
+  constructor(private client: AppStoreConnectClient) {}
+
+  /**
+   * Lists a version's app preview sets by locale, with each set's previews in display order
+   */
+  async getVersionPreviews(args: {
+    appStoreVersionId: string;
+    locales?: string[];
+    previewType?: PreviewType;
+  }): Promise<PreviewSetListing> {
+    const { appStoreVersionId, locales, previewType } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    const localizationIds = await loadVersionLocalizationIds(this.client, appStoreVersionId);
+    const unknown = (locales ?? []).filter(locale => !localizationIds.has(locale));
+    if (unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `The version has no localization for ${unknown.join(', ')}`);
+    }
+
+    const sets: PreviewSetSummary[] = [];
+    for (const [locale, localizationId] of localizationIds) {
+      if (locales?.length && !locales.includes(locale)) {
+        continue;
+      }
+      for (const { set, previews } of await this.loadPreviewSets(localizationId, previewType)) {
+        sets.push({
+          previewSetId: set.id,
+          locale,
+          localizationId,
+          previewType: set.attributes?.previewType,
+          previews: previews.map(summarizePreview)
+        });
+      }
+    }
+
+    return { appStoreVersionId, sets };
+  }
+
+  /**
+   * Uploads local videos as app previews of an App Store version
+   *
+   * Every video's format, length and size is checked before anything is uploaded. Uploads
+   * then run one file at a time, read from disk part by part; a file that fails is
+   * reported and its reservation removed, and the rest carry on.
+   * @throws McpError (InvalidParams) if a locale or video is invalid
+   */
+  async uploadAppPreviews(args: {
+    appStoreVersionId: string;
+    previews: PreviewUpload[];
+  }, options: LongRunningOptions = {}): Promise<PreviewUploadSummary> {
+    const { appStoreVersionId, previews } = args;
+    const { signal, onProgress } = options;
+
+    validateRequired(args, ['appStoreVersionId', 'previews']);
+
+    const localizationIds = await loadVersionLocalizationIds(this.client, appStoreVersionId);
+
+    const problems: string[] = [];
+    const checked: Array<{ upload: PreviewUpload; localizationId: string; video: CheckedPreview }> = [];
+    for (const upload of previews) {
+      const localizationId = localizationIds.get(upload.locale);
+      if (!localizationId) {
+        problems.push(`${upload.locale}: the version has no localization for this locale`);
+        continue;
+      }
+      try {
+        checked.push({ upload, localizationId, video: await checkPreviewFile(upload.filePath, upload.previewType, upload.previewFrameTimeCode) });
+      } catch (error) {
+        if (!(error instanceof PreviewError)) {
+          throw error;
+        }
+        problems.push(`${upload.locale} ${upload.previewType}: ${error.message}`);
+      }
+    }
+    if (problems.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No previews were uploaded:\n- ${problems.join('\n- ')}`);
+    }
+
+    const sets = new Map<string, { set: PreviewSet; previews: number }>();
+    const results: PreviewUploadResult[] = [];
+    for (const { upload, localizationId, video } of checked) {
+      const { locale, previewType, previewFrameTimeCode } = upload;
+      const key = `${localizationId}:${previewType}`;
+      let target = sets.get(key);
+      if (!target) {
+        const [existing] = await this.loadPreviewSets(localizationId, previewType);
+        target = existing
+          ? { set: existing.set, previews: existing.previews.length }
+          : { set: await this.createPreviewSet(localizationId, previewType), previews: 0 };
+        sets.set(key, target);
+      }
+
+      const result: PreviewUploadResult = {
+        filePath: video.filePath,
+        locale,
+        previewType,
+        previewSetId: target.set.id,
+        fileName: video.fileName,
+        durationSeconds: Math.round(video.durationSeconds * 10) / 10,
+        width: video.width,
+        height: video.height
+      };
+      results.push(result);
+
+      if (target.previews >= MAX_PREVIEWS_PER_SET) {
+        result.error = `The ${previewType} set for ${locale} already holds ${MAX_PREVIEWS_PER_SET} previews`;
+        continue;
+      }
+
+      await onProgress?.({ progress: results.length - 1, total: checked.length, message: `Uploading ${video.fileName} (${locale}, ${previewType})` });
+      try {
+        const uploaded = await this.uploadPreview(target.set.id, video, previewFrameTimeCode, signal);
+        result.previewId = uploaded.id;
+        result.assetDeliveryState = uploaded.attributes?.assetDeliveryState;
+        target.previews++;
+      } catch (error: any) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        result.error = error.message;
+      }
+    }
+    await onProgress?.({ progress: checked.length, total: checked.length, message: 'Previews uploaded' });
+
+    const failed = results.filter(result => result.error).length;
+    return { appStoreVersionId, uploaded: results.length - failed, failed, results };
+  }
+
+  /**
+   * Sets the frame of a preview shown before it plays (its poster frame)
+   */
+  async setPreviewPosterFrame(args: {
+    appPreviewId: string;
+    previewFrameTimeCode: string;
+  }): Promise<PreviewSummary> {
+    const { appPreviewId, previewFrameTimeCode } = args;
+
+    validateRequired(args, ['appPreviewId', 'previewFrameTimeCode']);
+
+    const requestData: AppPreviewUpdateRequest = {
+      data: {
+        type: 'appPreviews',
+        id: appPreviewId,
+        attributes: { previewFrameTimeCode }
+      }
+    };
+    const { data: preview } = await this.client.patch<AppPreviewResponse>(`/appPreviews/${appPreviewId}`, requestData);
+
+    return summarizePreview(preview);
+  }
+
+  /**
+   * Deletes previews one by one, reporting those that could not be deleted
+   */
+  async deleteAppPreviews(args: {
+    appPreviewIds: string[];
+  }): Promise<{ deleted: string[]; failed: Array<{ appPreviewId: string; error: string }> }> {
+    const { appPreviewIds } = args;
+
+    validateRequired(args, ['appPreviewIds']);
+
+    const deleted: string[] = [];
+    const failed: Array<{ appPreviewId: string; error: string }> = [];
+    for (const appPreviewId of appPreviewIds) {
+      try {
+        await this.client.delete(`/appPreviews/${appPreviewId}`);
+        deleted.push(appPreviewId);
+      } catch (error: any) {
+        failed.push({ appPreviewId, error: error.message });
+      }
+    }
+
+    return { deleted, failed };
+  }
+
+  /**
+   * Deletes a preview set together with its previews
+   */
+  async deleteAppPreviewSet(args: {
+    appPreviewSetId: string;
+  }): Promise<{ success: true; appPreviewSetId: string }> {
+    const { appPreviewSetId } = args;
+
+    validateRequired(args, ['appPreviewSetId']);
+
+    await this.client.delete(`/appPreviewSets/${appPreviewSetId}`);
+
+    return { success: true, appPreviewSetId };
+  }
+
+  private async loadPreviewSets(localizationId: string, previewType?: PreviewType): Promise<LoadedPreviewSet[]> {
+    const params: Record<string, any> = { include: 'appPreviews', 'limit[appPreviews]': MAX_PREVIEWS_PER_SET };
+    if (previewType) {
+      params['filter[previewType]'] = previewType;
+    }
+
+    const { data, included = [] } = await this.client.get<ListPreviewSetsResponse>(
+      `/appStoreVersionLocalizations/${localizationId}/appPreviewSets`,
+      params
+    );
+    const previews = new Map(
+      included
+        .filter((resource): resource is AppPreview => resource.type === 'appPreviews')
+        .map(preview => [preview.id, preview])
+    );
+    return data.map(set => ({
+      set,
+      previews: (set.relationships?.appPreviews?.data ?? [])
+        .map(({ id }) => previews.get(id) ?? { type: 'appPreviews' as const, id })
+    }));
+  }
+
+  private async createPreviewSet(localizationId: string, previewType: PreviewType): Promise<PreviewSet> {
+    const { data: created } = await this.client.post<PreviewSetResponse>('/appPreviewSets', {
+      data: {
+        type: 'appPreviewSets',
+        attributes: { previewType },
+        relationships: {
+          appStoreVersionLocalization: { data: { type: 'appStoreVersionLocalizations', id: localizationId } }
+        }
+      }
+    });
+    return created;
+  }
+
+  /**
+   * Reserves, uploads and commits one preview, removing the reservation if a step fails
+   */
+  private async uploadPreview(
+    previewSetId: string,
+    video: CheckedPreview,
+    previewFrameTimeCode: string | undefined,
+    signal?: AbortSignal
+  ): Promise<AppPreview> {
+    const { data: reservation } = await this.client.post<AppPreviewResponse>('/appPreviews', {
+      data: {
+        type: 'appPreviews',
+        attributes: {
+          fileName: video.fileName,
+          fileSize: video.fileSize,
+          mimeType: video.mimeType,
+          ...(previewFrameTimeCode && { previewFrameTimeCode })
+        },
+        relationships: {
+          appPreviewSet: { data: { type: 'appPreviewSets', id: previewSetId } }
+        }
+      }
+    });
+
+    try {
+      await uploadFileParts(this.client, reservation.attributes?.uploadOperations ?? [], video.filePath, signal);
+      const requestData: AppPreviewUpdateRequest = {
+        data: {
+          type: 'appPreviews',
+          id: reservation.id,
+          attributes: { uploaded: true, sourceFileChecksum: await md5FileChecksum(video.filePath) }
+        }
+      };
+      const { data: committed } = await this.client.patch<AppPreviewResponse>(`/appPreviews/${reservation.id}`, requestData);
+      return committed;
+    } catch (error) {
+      await this.client.delete(`/appPreviews/${reservation.id}`).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { AppStoreConnectClient, checkVersionForReview } from '../services/index.js';
+import {
+  AppStoreVersionResponse,
+  ListReviewSubmissionsResponse,
+  PaginationOptions,
+  ReviewSubmissionItemCreateRequest,
+  ReviewSubmissionItemKind,
+  ReviewSubmissionItemResponse,
+  ReviewSubmissionPreflight,
+  ReviewSubmissionResponse,
+  ReviewSubmissionState
+} from '../types/index.js';
+import { validateRequired, sanitizeLimit, buildFilterParams } from '../utils/index.js';
+
+type Platform = 'IOS' | 'MAC_OS' | 'TV_OS' | 'VISION_OS';
+
+// Resource type of each kind of submission item
+const ITEM_TYPES: Record<ReviewSubmissionItemKind, string> = {
+  appStoreVersion: 'appStoreVersions',
+  appCustomProductPageVersion: 'appCustomProductPageVersions',
+  appEvent: 'appEvents'
+};
+
+export class ReviewSubmissionHandlers {
+  constructor(private client: AppStoreConnectClient) {}
+
+  async listReviewSubmissions(args: {
+    appId: string;
+    platform?: Platform;
+    state?: ReviewSubmissionState[];
+    limit?: number;
+  } & PaginationOptions): Promise<ListReviewSubmissionsResponse> {
+    const { appId, platform, state, limit = 100, allPages, maxItems } = args;
+
+    validateRequired(args, ['appId']);
+
+    const params: Record<string, any> = {
+      limit: sanitizeLimit(limit),
+      ...buildFilterParams({ app: appId, platform, state: state?.length ? state : undefined }),
+      include: 'items,appStoreVersionForReview'
+    };
+
+    return this.client.getPaginated<ListReviewSubmissionsResponse>('/reviewSubmissions', params, { allPages, maxItems });
+  }
+
+  /**
+   * Gets a submission with its items, whose states tell how review went for each
+   */
+  async getReviewSubmission(args: {
+    reviewSubmissionId: string;
+  }): Promise<ReviewSubmissionResponse> {
+    const { reviewSubmissionId } = args;
+
+    validateRequired(args, ['reviewSubmissionId']);
+
+    return this.client.get<ReviewSubmissionResponse>(`/reviewSubmissions/${reviewSubmissionId}`, {
+      include: 'items,appStoreVersionForReview',
+      'limit[items]': 50
+    });
+  }
+
+  async createReviewSubmission(args: {
+    appId: string;
+    platform: Platform;
+  }): Promise<ReviewSubmissionResponse> {
+    const { appId, platform } = args;
+
+    validateRequired(args, ['appId', 'platform']);
+
+    return this.client.post<ReviewSubmissionResponse>('/reviewSubmissions', {
+      data: {
+        type: 'reviewSubmissions',
+        attributes: { platform },
+        relationships: {
+          app: { data: { type: 'apps', id: appId } }
+        }
+      }
+    });
+  }
+
+  /**
+   * Adds an App Store version, custom product page version or in-app event to a submission
+   */
+  async addReviewSubmissionItem(args: {
+    reviewSubmissionId: string;
+    itemType: ReviewSubmissionItemKind;
+    itemId: string;
+  }): Promise<ReviewSubmissionItemResponse> {
+    const { reviewSubmissionId, itemType, itemId } = args;
+
+    validateRequired(args, ['reviewSubmissionId', 'itemType', 'itemId']);
+
+    if (!(itemType in ITEM_TYPES)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid itemType: ${itemType}. Valid values are: ${Object.keys(ITEM_TYPES).join(', ')}`
+      );
+    }
+
+    const requestData = {
+      data: {
+        type: 'reviewSubmissionItems',
+        relationships: {
+          reviewSubmission: { data: { type: 'reviewSubmissions', id: reviewSubmissionId } },
+          [itemType]: { data: { type: ITEM_TYPES[itemType], id: itemId } }
+        }
+      }
+    } as ReviewSubmissionItemCreateRequest;
+
+    return this.client.post<ReviewSubmissionItemResponse>('/reviewSubmissionItems', requestData);
+  }
+
+  /**
+   * Checks that a version's build, localizations and App Review information are complete
+   */
+  async checkAppStoreVersionForReview(args: {
+    appStoreVersionId: string;
+  }): Promise<ReviewSubmissionPreflight> {
+    const { appStoreVersionId } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    const version = await this.client.get<AppStoreVersionResponse>(`/appStoreVersions/${appStoreVersionId}`, {
+      include: 'build,appStoreVersionLocalizations,appStoreReviewDetail',
+      'limit[appStoreVersionLocalizations]': 50
+    });
+
+    return checkVersionForReview(version);
+  }
+
+  /**
+   * Submits a submission for review
+   *
+   * Every App Store version in the submission is checked first; if any check fails the
+   * submission is left untouched and the problems are reported, unless `skipChecks`.
+   * A submission with no version to check (such as one of in-app events only) needs `skipChecks`.
+   * @throws McpError (InvalidParams) if the submission is empty, has no version to check or a
+   * version is incomplete
+   */
+  async submitReviewSubmission(args: {
+    reviewSubmissionId: string;
+    skipChecks?: boolean;
+  }): Promise<ReviewSubmissionResponse & { preflight?: ReviewSubmissionPreflight[] }> {
+    const { reviewSubmissionId, skipChecks = false } = args;
+
+    const submission = await this.getReviewSubmission({ reviewSubmissionId });
+    const items = submission.data.relationships?.items?.data ?? [];
+    if (items.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Review submission ${reviewSubmissionId} has no items to submit`);
+    }
+
+    let preflight: ReviewSubmissionPreflight[] | undefined;
+    if (!skipChecks) {
+      // Items do not always carry their relationships, so the version for review counts too
+      const versionIds = new Set<string>();
+      const versionForReview = submission.data.relationships?.appStoreVersionForReview?.data?.id;
+      if (versionForReview) {
+        versionIds.add(versionForReview);
+      }
+      for (const resource of submission.included ?? []) {
+        const versionId = resource.type === 'appStoreVersions'
+          ? resource.id
+          : resource.type === 'reviewSubmissionItems' && resource.attributes?.state !== 'REMOVED'
+            ? resource.relationships?.appStoreVersion?.data?.id
+            : undefined;
+        if (versionId) {
+          versionIds.add(versionId);
+        }
+      }
+      if (versionIds.size === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Review submission ${reviewSubmissionId} has no App Store version to check; pass skipChecks to submit it anyway`
+        );
+      }
+
+      preflight = [];
+      for (const appStoreVersionId of versionIds) {
+        preflight.push(await this.checkAppStoreVersionForReview({ appStoreVersionId }));
+      }
+
+      const failed = preflight.filter(result => !result.ready);
+      if (failed.length > 0) {
+        const problems = failed.flatMap(result => result.issues
+          .filter(issue => issue.severity === 'error')
+          .map(issue => `${result.versionString ?? result.appStoreVersionId}${issue.locale ? ` (${issue.locale})` : ''}: ${issue.message}`));
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Review submission ${reviewSubmissionId} is not ready:\n- ${problems.join('\n- ')}`
+        );
+      }
+    }
+
+    const response = await this.updateReviewSubmission(reviewSubmissionId, { submitted: true });
+    return preflight ? { ...response, preflight } : response;
+  }
+
+  /**
+   * Cancels a submission that is waiting for or in review
+   */
+  async cancelReviewSubmission(args: {
+    reviewSubmissionId: string;
+  }): Promise<ReviewSubmissionResponse> {
+    const { reviewSubmissionId } = args;
+
+    validateRequired(args, ['reviewSubmissionId']);
+
+    return this.updateReviewSubmission(reviewSubmissionId, { canceled: true });
+  }
+
+  private async updateReviewSubmission(
+    reviewSubmissionId: string,
+    attributes: { submitted?: boolean; canceled?: boolean }
+  ): Promise<ReviewSubmissionResponse> {
+    return this.client.patch<ReviewSubmissionResponse>(`/reviewSubmissions/${reviewSubmissionId}`, {
+      data: {
+        type: 'reviewSubmissions',
+        id: reviewSubmissionId,
+        attributes
+      }
+    });
+  }
+}
@@ -0,0 +1,451 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import {
+  AppStoreConnectClient,
+  loadVersionLocalizationIds,
+  ScreenshotError,
+  imageAssetUrl,
+  md5Checksum,
+  prepareScreenshot,
+  uploadAssetParts
+} from '../services/index.js';
+import {
+  AppScreenshot,
+  AppScreenshotResponse,
+  ListScreenshotSetsResponse,
+  LongRunningOptions,
+  PreparedScreenshot,
+  ScreenshotCopyResult,
+  ScreenshotCopySummary,
+  ScreenshotDisplayType,
+  ScreenshotResizeMode,
+  ScreenshotSet,
+  ScreenshotSetListing,
+  ScreenshotSetResponse,
+  ScreenshotSetScreenshotsLinkagesRequest,
+  ScreenshotSetSummary,
+  ScreenshotSummary,
+  ScreenshotThumbnail,
+  ScreenshotUploadResult,
+  ScreenshotUploadSet,
+  ScreenshotUploadSummary
+} from '../types/index.js';
+import { validateRequired } from '../utils/index.js';
+
+// Screenshots a set can hold, per App Store Connect
+const MAX_SCREENSHOTS_PER_SET = 10;
+
+// Thumbnails returned by one listing, to keep the result a reasonable size
+const MAX_THUMBNAILS = 30;
+
+/**
+ * A screenshot set with its screenshots, in display order
+ */
+interface LoadedScreenshotSet {
+  set: ScreenshotSet;
+  screenshots: AppScreenshot[];
+}
+
+function orderedScreenshots(set: ScreenshotSet, included: Array<{ type: string; id: string }> = []): AppScreenshot[] {
+  const screenshots = new Map(
+    included
+      .filter((resource): resource is AppScreenshot => resource.type === 'appScreenshots')
+      .map(screenshot => [screenshot.id, screenshot])
+  );
+  return (set.relationships?.appScreenshots?.data ?? [])
+    .map(({ id }) => screenshots.get(id) ?? { type: 'appScreenshots' as const, id });
+}
+
+function summarizeScreenshot(screenshot: AppScreenshot, thumbnailWidth: number): ScreenshotSummary {
+  const { fileName, fileSize, imageAsset, assetDeliveryState } = screenshot.attributes ?? {};
+  const errors = assetDeliveryState?.errors?.map(error => error.description ?? error.code ?? 'Unknown error');
+  const thumbnailUrl = imageAssetUrl(imageAsset, { width: thumbnailWidth, format: 'jpg' });
+  return {
+    screenshotId: screenshot.id,
+    fileName,
+    fileSize,
+    width: imageAsset?.width,
+    height: imageAsset?.height,
+    assetDeliveryState: assetDeliveryState?.state,
+    ...(errors?.length && { errors }),
+    ...(thumbnailUrl && { thumbnailUrl })
+  };
+}
+
+export class ScreenshotHandlers {
+  constructor(private client: AppStoreConnectClient) {}
+
+  /**
+   * Lists a version's screenshot sets by locale, optionally with thumbnails of each screenshot
+   */
+  async getVersionScreenshots(args: {
+    appStoreVersionId: string;
+    locales?: string[];
+    displayType?: ScreenshotDisplayType;
+    includeThumbnails?: boolean;
+    thumbnailWidth?: number;
+  }): Promise<ScreenshotSetListing> {
+    const { appStoreVersionId, locales, displayType, includeThumbnails = false, thumbnailWidth = 200 } = args;
+
+    validateRequired(args, ['appStoreVersionId']);
+
+    const localizationIds = await loadVersionLocalizationIds(this.client, appStoreVersionId);
+    const unknown = (locales ?? []).filter(locale => !localizationIds.has(locale));
+    if (unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `The version has no localization for ${unknown.join(', ')}`);
+    }
+
+    const sets: ScreenshotSetSummary[] = [];
+    for (const [locale, localizationId] of localizationIds) {
+      if (locales?.length && !locales.includes(locale)) {
+        continue;
+      }
+      for (const { set, screenshots } of await this.loadScreenshotSets(localizationId, displayType)) {
+        sets.push({
+          screenshotSetId: set.id,
+          locale,
+          localizationId,
+          displayType: set.attributes?.screenshotDisplayType,
+          screenshots: screenshots.map(screenshot => summarizeScreenshot(screenshot, thumbnailWidth))
+        });
+      }
+    }
+
+    if (!includeThumbnails) {
+      return { appStoreVersionId, sets };
+    }
+
+    const thumbnails: ScreenshotThumbnail[] = [];
+    const screenshots = sets.flatMap(set => set.screenshots).filter(screenshot => screenshot.thumbnailUrl);
+    for (const screenshot of screenshots.slice(0, MAX_THUMBNAILS)) {
+      try {
+        const data = await this.client.downloadBuffer(screenshot.thumbnailUrl!);
+        thumbnails.push({ screenshotId: screenshot.screenshotId, mimeType: 'image/jpeg', data: data.toString('base64') });
+      } catch (error: any) {
+        console.error(`Failed to download thumbnail of screenshot ${screenshot.screenshotId}:`, error.message);
+      }
+    }
+    return { appStoreVersionId, sets, thumbnails };
+  }
+
+  /**
+   * Sets the display order of a set's screenshots
+   *
+   * Screenshots left out of `screenshotIds` keep their relative order after the ones listed.
+   * @throws McpError (InvalidParams) if a screenshot is not in the set
+   */
+  async reorderScreenshots(args: {
+    screenshotSetId: string;
+    screenshotIds: string[];
+  }): Promise<{ screenshotSetId: string; screenshotIds: string[] }> {
+    const { screenshotSetId, screenshotIds } = args;
+
+    validateRequired(args, ['screenshotSetId', 'screenshotIds']);
+
+    const { set, screenshots } = await this.getScreenshotSet(screenshotSetId);
+    const current = screenshots.map(screenshot => screenshot.id);
+    const foreign = screenshotIds.filter(id => !current.includes(id));
+    if (foreign.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Screenshot set ${set.id} does not hold ${foreign.join(', ')}; it holds ${current.join(', ') || 'no screenshots'}`
+      );
+    }
+
+    const order = Array.from(new Set([...screenshotIds, ...current]));
+    const requestData: ScreenshotSetScreenshotsLinkagesRequest = {
+      data: order.map(id => ({ type: 'appScreenshots', id }))
+    };
+    await this.client.patch(`/appScreenshotSets/${screenshotSetId}/relationships/appScreenshots`, requestData);
+
+    return { screenshotSetId, screenshotIds: order };
+  }
+
+  /**
+   * Deletes screenshots one by one, reporting those that could not be deleted
+   */
+  async deleteScreenshots(args: {
+    screenshotIds: string[];
+  }): Promise<{ deleted: string[]; failed: Array<{ screenshotId: string; error: string }> }> {
+    const { screenshotIds } = args;
+
+    validateRequired(args, ['screenshotIds']);
+
+    const deleted: string[] = [];
+    const failed: Array<{ screenshotId: string; error: string }> = [];
+    for (const screenshotId of screenshotIds) {
+      try {
+        await this.client.delete(`/appScreenshots/${screenshotId}`);
+        deleted.push(screenshotId);
+      } catch (error: any) {
+        failed.push({ screenshotId, error: error.message });
+      }
+    }
+
+    return { deleted, failed };
+  }
+
+  /**
+   * Deletes a screenshot set together with its screenshots
+   */
+  async deleteScreenshotSet(args: {
+    screenshotSetId: string;
+  }): Promise<{ success: true; screenshotSetId: string }> {
+    const { screenshotSetId } = args;
+
+    validateRequired(args, ['screenshotSetId']);
+
+    await this.client.delete(`/appScreenshotSets/${screenshotSetId}`);
+
+    return { success: true, screenshotSetId };
+  }
+
+  /**
+   * Copies one locale's screenshots of a display type to other locales of the same version
+   *
+   * The processed images are downloaded from App Store Connect and uploaded again, in
+   * the same order. Screenshots are added after those a target set already holds,
+   * unless `replace` clears the target sets first.
+   * @throws McpError (InvalidParams) if a locale is unknown or the source set is empty
+   */
+  async copyScreenshotSet(args: {
+    appStoreVersionId: string;
+    sourceLocale: string;
+    displayType: ScreenshotDisplayType;
+    targetLocales: string[];
+    replace?: boolean;
+  }, options: LongRunningOptions = {}): Promise<ScreenshotCopySummary> {
+    const { appStoreVersionId, sourceLocale, displayType, targetLocales, replace = false } = args;
+    const { signal, onProgress } = options;
+
+    validateRequired(args, ['appStoreVersionId', 'sourceLocale', 'displayType', 'targetLocales']);
+
+    const localizationIds = await loadVersionLocalizationIds(this.client, appStoreVersionId);
+    const unknown = [sourceLocale, ...targetLocales].filter(locale => !localizationIds.has(locale));
+    if (unknown.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `The version has no localization for ${unknown.join(', ')}`);
+    }
+
+    const [source] = await this.loadScreenshotSets(localizationIds.get(sourceLocale)!, displayType);
+    if (!source?.screenshots.length) {
+      throw new McpError(ErrorCode.InvalidParams, `${sourceLocale} has no ${displayType} screenshots to copy`);
+    }
+
+    // Download each image once, at full size, before changing any target set
+    const images: Array<{ screenshot: AppScreenshot; fileName: string; data?: Buffer; error?: string }> = [];
+    for (const screenshot of source.screenshots) {
+      const { fileName = `${screenshot.id}.png`, imageAsset, assetDeliveryState } = screenshot.attributes ?? {};
+      const url = imageAssetUrl(imageAsset, { format: /\.jpe?g$/i.test(fileName) ? 'jpg' : 'png' });
+      if (!url) {
+        images.push({ screenshot, fileName, error: `Not processed yet (${assetDeliveryState?.state ?? 'unknown state'})` });
+        continue;
+      }
+      images.push({ screenshot, fileName, data: await this.client.downloadBuffer(url) });
+    }
+
+    const total = images.length * targetLocales.length;
+    const results: ScreenshotCopyResult[] = [];
+    let removed = 0;
+    for (const locale of targetLocales) {
+      const localizationId = localizationIds.get(locale)!;
+      const [existing] = await this.loadScreenshotSets(localizationId, displayType);
+      const set = existing?.set ?? await this.createScreenshotSet(localizationId, displayType);
+      let inSet = existing?.screenshots.length ?? 0;
+
+      if (replace && existing?.screenshots.length) {
+        const { deleted } = await this.deleteScreenshots({ screenshotIds: existing.screenshots.map(screenshot => screenshot.id) });
+        removed += deleted.length;
+        inSet -= deleted.length;
+      }
+
+      for (const { screenshot, fileName, data, error } of images) {
+        const result: ScreenshotCopyResult = { locale, sourceScreenshotId: screenshot.id, fileName, screenshotSetId: set.id };
+        results.push(result);
+        if (!data) {
+          result.error = error;
+          continue;
+        }
+        if (inSet >= MAX_SCREENSHOTS_PER_SET) {
+          result.error = `The ${displayType} set for ${locale} already holds ${MAX_SCREENSHOTS_PER_SET} screenshots`;
+          continue;
+        }
+
+        await onProgress?.({ progress: results.length - 1, total, message: `Copying ${fileName} to ${locale}` });
+        try {
+          const uploaded = await this.uploadScreenshot(set.id, { fileName, data }, signal);
+          result.screenshotId = uploaded.id;
+          result.assetDeliveryState = uploaded.attributes?.assetDeliveryState;
+          inSet++;
+        } catch (uploadError: any) {
+          if (signal?.aborted) {
+            throw uploadError;
+          }
+          result.error = uploadError.message;
+        }
+      }
+    }
+    await onProgress?.({ progress: total, total, message: 'Screenshots copied' });
+
+    const failed = results.filter(result => result.error).length;
+    return { appStoreVersionId, sourceLocale, displayType, copied: results.length - failed, failed, removed, results };
+  }
+
+  /**
+   * Uploads local images as screenshots of an App Store version, by locale and display type
+   *
+   * Every image is read and checked before anything is uploaded, so a wrong size or
+   * path fails the call without changing the version. Uploads then run one file at a
+   * time; a file that fails is reported and its reservation removed, and the rest
+   * carry on. Screenshots are added after those already in a set.
+   * @throws McpError (InvalidParams) if a locale, display type or image is invalid
+   */
+  async uploadScreenshots(args: {
+    appStoreVersionId: string;
+    sets: ScreenshotUploadSet[];
+    resizeMode?: ScreenshotResizeMode;
+  }, options: LongRunningOptions = {}): Promise<ScreenshotUploadSummary> {
+    const { appStoreVersionId, sets, resizeMode = 'strict' } = args;
+    const { signal, onProgress } = options;
+
+    validateRequired(args, ['appStoreVersionId', 'sets']);
+
+    const localizationIds = await loadVersionLocalizationIds(this.client, appStoreVersionId);
+
+    const problems: string[] = [];
+    const prepared: Array<{ set: ScreenshotUploadSet; localizationId: string; screenshots: PreparedScreenshot[] }> = [];
+    for (const set of sets) {
+      const localizationId = localizationIds.get(set.locale);
+      if (!localizationId) {
+        problems.push(`${set.locale}: the version has no localization for this locale`);
+        continue;
+      }
+      const screenshots: PreparedScreenshot[] = [];
+      for (const filePath of set.filePaths) {
+        try {
+          screenshots.push(await prepareScreenshot(filePath, set.displayType, resizeMode));
+        } catch (error) {
+          if (!(error instanceof ScreenshotError)) {
+            throw error;
+          }
+          problems.push(`${set.locale} ${set.displayType}: ${error.message}`);
+        }
+      }
+      prepared.push({ set, localizationId, screenshots });
+    }
+    if (problems.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `No screenshots were uploaded:\n- ${problems.join('\n- ')}`);
+    }
+
+    const total = prepared.reduce((count, { screenshots }) => count + screenshots.length, 0);
+    const results: ScreenshotUploadResult[] = [];
+    for (const { set, localizationId, screenshots } of prepared) {
+      const { locale, displayType } = set;
+      const [existing] = await this.loadScreenshotSets(localizationId, displayType);
+      const screenshotSet = existing?.set ?? await this.createScreenshotSet(localizationId, displayType);
+      let inSet = existing?.screenshots.length ?? 0;
+
+      for (const screenshot of screenshots) {
+        const result: ScreenshotUploadResult = {
+          filePath: screenshot.filePath,
+          locale,
+          displayType,
+          screenshotSetId: screenshotSet.id,
+          fileName: screenshot.fileName,
+          width: screenshot.width,
+          height: screenshot.height,
+          resized: screenshot.resized
+        };
+        results.push(result);
+
+        if (inSet >= MAX_SCREENSHOTS_PER_SET) {
+          result.error = `The ${displayType} set for ${locale} already holds ${MAX_SCREENSHOTS_PER_SET} screenshots`;
+          continue;
+        }
+
+        await onProgress?.({ progress: results.length - 1, total, message: `Uploading ${screenshot.fileName} (${locale}, ${displayType})` });
+        try {
+          const uploaded = await this.uploadScreenshot(screenshotSet.id, screenshot, signal);
+          result.screenshotId = uploaded.id;
+          result.assetDeliveryState = uploaded.attributes?.assetDeliveryState;
+          inSet++;
+        } catch (error: any) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          result.error = error.message;
+        }
+      }
+    }
+    await onProgress?.({ progress: total, total, message: 'Screenshots uploaded' });
+
+    const failed = results.filter(result => result.error).length;
+    return { appStoreVersionId, uploaded: results.length - failed, failed, results };
+  }
+
+  private async loadScreenshotSets(localizationId: string, displayType?: ScreenshotDisplayType): Promise<LoadedScreenshotSet[]> {
+    const params: Record<string, any> = { include: 'appScreenshots', 'limit[appScreenshots]': MAX_SCREENSHOTS_PER_SET };
+    if (displayType) {
+      params['filter[screenshotDisplayType]'] = displayType;
+    }
+
+    const { data, included } = await this.client.get<ListScreenshotSetsResponse>(
+      `/appStoreVersionLocalizations/${localizationId}/appScreenshotSets`,
+      params
+    );
+    return data.map(set => ({ set, screenshots: orderedScreenshots(set, included) }));
+  }
+
+  private async getScreenshotSet(screenshotSetId: string): Promise<LoadedScreenshotSet> {
+    const { data: set, included } = await this.client.get<ScreenshotSetResponse>(`/appScreenshotSets/${screenshotSetId}`, {
+      include: 'appScreenshots',
+      'limit[appScreenshots]': MAX_SCREENSHOTS_PER_SET
+    });
+    return { set, screenshots: orderedScreenshots(set, included) };
+  }
+
+  private async createScreenshotSet(localizationId: string, displayType: ScreenshotDisplayType): Promise<ScreenshotSet> {
+    const { data: created } = await this.client.post<ScreenshotSetResponse>('/appScreenshotSets', {
+      data: {
+        type: 'appScreenshotSets',
+        attributes: { screenshotDisplayType: displayType },
+        relationships: {
+          appStoreVersionLocalization: { data: { type: 'appStoreVersionLocalizations', id: localizationId } }
+        }
+      }
+    });
+    return created;
+  }
+
+  /**
+   * Reserves, uploads and commits one screenshot, removing the reservation if a step fails
+   */
+  private async uploadScreenshot(
+    screenshotSetId: string,
+    image: { fileName: string; data: Buffer },
+    signal?: AbortSignal
+  ): Promise<AppScreenshot> {
+    const { data: reservation } = await this.client.post<AppScreenshotResponse>('/appScreenshots', {
+      data: {
+        type: 'appScreenshots',
+        attributes: { fileName: image.fileName, fileSize: image.data.length },
+        relationships: {
+          appScreenshotSet: { data: { type: 'appScreenshotSets', id: screenshotSetId } }
+        }
+      }
+    });
+
+    try {
+      await uploadAssetParts(this.client, reservation.attributes?.uploadOperations ?? [], image.data, signal);
+      const { data: committed } = await this.client.patch<AppScreenshotResponse>(`/appScreenshots/${reservation.id}`, {
+        data: {
+          type: 'appScreenshots',
+          id: reservation.id,
+          attributes: { uploaded: true, sourceFileChecksum: md5Checksum(image.data) }
+        }
+      });
+      return committed;
+    } catch (error) {
+      await this.client.delete(`/appScreenshots/${reservation.id}`).catch(() => undefined);
+      throw error;
+    }
+  }
+}
@@ -3,7 +3,8 @@ import {
   ListUsersResponse,
   UserFilters,
   UserSortOptions,
-  UserIncludeOptions
+  UserIncludeOptions,
+  PaginationOptions
 } from '../types/index.js';
 import { sanitizeLimit, buildFilterParams } from '../utils/index.js';
 
@@ -15,8 +16,8 @@ export class UserHandlers {
     sort?: UserSortOptions;
     filter?: UserFilters;
     include?: UserIncludeOptions[];
-  } = {}): Promise<ListUsersResponse> {
-    const { limit = 100, sort, filter, include } = args;
+  } & PaginationOptions = {}): Promise<ListUsersResponse> {
+    const { limit = 100, sort, filter, include, allPages, maxItems } = args;
     
     const params: Record<string, any> = {
       limit: sanitizeLimit(limit)
@@ -32,6 +33,6 @@ export class UserHandlers {
       params.include = include.join(',');
     }
 
-    return this.client.get<ListUsersResponse>('/users', params);
+    return this.client.getPaginated<ListUsersResponse>('/users', params, { allPages, maxItems });
   }
 }
\ No newline at end of file
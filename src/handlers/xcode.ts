@@ -52,17 +52,10 @@ export class XcodeHandlers {
       const schemes = this.parseXcodebuildOutput(stdout);
       
       return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              projectPath,
-              projectType: isWorkspace ? 'workspace' : 'project',
-              schemes,
-              totalSchemes: schemes.length
-            }, null, 2)
-          }
-        ]
+        projectPath,
+        projectType: isWorkspace ? 'workspace' : 'project',
+        schemes,
+        totalSchemes: schemes.length
       };
     } catch (error: any) {
       throw new Error(`Failed to list schemes: ${error.message}`);
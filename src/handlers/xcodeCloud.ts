@@ -31,6 +31,7 @@ import {
   CiBuildRunCreateRequest,
   CiBuildRunExecutionProgress,
   CiBuildRunCompletionStatus,
+  PaginationOptions,
 } from '../types/index.js';
 import { validateRequired, sanitizeLimit, buildFilterParams } from '../utils/index.js';
 
@@ -48,8 +49,8 @@ export class XcodeCloudHandlers {
     limit?: number;
     include?: Array<'primaryRepositories' | 'app' | 'bundleId'>;
     filterProductType?: 'APP' | 'FRAMEWORK';
-  } = {}): Promise<ListCiProductsResponse> {
-    const { limit = 100, include, filterProductType } = args;
+  } & PaginationOptions = {}): Promise<ListCiProductsResponse> {
+    const { limit = 100, include, filterProductType, allPages, maxItems } = args;
 
     const params: Record<string, any> = {
       limit: sanitizeLimit(limit),
@@ -63,7 +64,7 @@ export class XcodeCloudHandlers {
       params['filter[productType]'] = filterProductType;
     }
 
-    return this.client.get<ListCiProductsResponse>('/ciProducts', params);
+    return this.client.getPaginated<ListCiProductsResponse>('/ciProducts', params, { allPages, maxItems });
   }
 
   /**
@@ -96,14 +97,15 @@ export class XcodeCloudHandlers {
   async listCiWorkflows(args: {
     productId: string;
     limit?: number;
-  }): Promise<ListCiWorkflowsResponse> {
-    const { productId, limit = 100 } = args;
+  } & PaginationOptions): Promise<ListCiWorkflowsResponse> {
+    const { productId, limit = 100, allPages, maxItems } = args;
 
     validateRequired(args, ['productId']);
 
-    return this.client.get<ListCiWorkflowsResponse>(
+    return this.client.getPaginated<ListCiWorkflowsResponse>(
       `/ciProducts/${productId}/workflows`,
-      { limit: sanitizeLimit(limit) }
+      { limit: sanitizeLimit(limit) },
+      { allPages, maxItems }
     );
   }
 
@@ -142,7 +144,7 @@ export class XcodeCloudHandlers {
     filterCompletionStatus?: CiBuildRunCompletionStatus;
     include?: Array<'builds' | 'workflow' | 'product' | 'sourceBranchOrTag' | 'destinationBranch' | 'pullRequest'>;
     sort?: 'number' | '-number' | 'createdDate' | '-createdDate';
-  }): Promise<ListCiBuildRunsResponse> {
+  } & PaginationOptions): Promise<ListCiBuildRunsResponse> {
     const {
       workflowId,
       productId,
@@ -151,6 +153,8 @@ export class XcodeCloudHandlers {
       filterCompletionStatus,
       include,
       sort,
+      allPages,
+      maxItems,
     } = args;
 
     // Must provide either workflowId or productId
@@ -183,7 +187,7 @@ export class XcodeCloudHandlers {
       ? `/ciWorkflows/${workflowId}/buildRuns`
       : `/ciProducts/${productId}/buildRuns`;
 
-    return this.client.get<ListCiBuildRunsResponse>(endpoint, params);
+    return this.client.getPaginated<ListCiBuildRunsResponse>(endpoint, params, { allPages, maxItems });
   }
 
   /**
@@ -294,14 +298,15 @@ export class XcodeCloudHandlers {
     buildRunId: string;
     limit?: number;
     errorsOnly?: boolean;
-  }): Promise<ListCiBuildActionsResponse> {
-    const { buildRunId, limit = 100, errorsOnly = false } = args;
+  } & PaginationOptions): Promise<ListCiBuildActionsResponse> {
+    const { buildRunId, limit = 100, errorsOnly = false, allPages, maxItems } = args;
 
     validateRequired(args, ['buildRunId']);
 
-    const response = await this.client.get<ListCiBuildActionsResponse>(
+    const response = await this.client.getPaginated<ListCiBuildActionsResponse>(
       `/ciBuildRuns/${buildRunId}/actions`,
-      { limit: sanitizeLimit(limit) }
+      { limit: sanitizeLimit(limit) },
+      { allPages, maxItems }
     );
 
     // Filter to only failed/errored actions if errorsOnly is true
@@ -347,14 +352,15 @@ export class XcodeCloudHandlers {
     buildActionId: string;
     limit?: number;
     errorsOnly?: boolean;
-  }): Promise<ListCiIssuesResponse> {
-    const { buildActionId, limit = 100, errorsOnly = false } = args;
+  } & PaginationOptions): Promise<ListCiIssuesResponse> {
+    const { buildActionId, limit = 100, errorsOnly = false, allPages, maxItems } = args;
 
     validateRequired(args, ['buildActionId']);
 
-    const response = await this.client.get<ListCiIssuesResponse>(
+    const response = await this.client.getPaginated<ListCiIssuesResponse>(
       `/ciBuildActions/${buildActionId}/issues`,
-      { limit: sanitizeLimit(limit) }
+      { limit: sanitizeLimit(limit) },
+      { allPages, maxItems }
     );
 
     // Filter to only errors if errorsOnly is true (exclude warnings, analyzer warnings, and test failures)
@@ -378,14 +384,15 @@ export class XcodeCloudHandlers {
     buildActionId: string;
     limit?: number;
     errorsOnly?: boolean;
-  }): Promise<ListCiTestResultsResponse> {
-    const { buildActionId, limit = 100, errorsOnly = false } = args;
+  } & PaginationOptions): Promise<ListCiTestResultsResponse> {
+    const { buildActionId, limit = 100, errorsOnly = false, allPages, maxItems } = args;
 
     validateRequired(args, ['buildActionId']);
 
-    const response = await this.client.get<ListCiTestResultsResponse>(
+    const response = await this.client.getPaginated<ListCiTestResultsResponse>(
       `/ciBuildActions/${buildActionId}/testResults`,
-      { limit: sanitizeLimit(limit) }
+      { limit: sanitizeLimit(limit) },
+      { allPages, maxItems }
     );
 
     // Filter to only failed tests if errorsOnly is true
@@ -408,14 +415,15 @@ export class XcodeCloudHandlers {
   async listCiArtifacts(args: {
     buildActionId: string;
     limit?: number;
-  }): Promise<ListCiArtifactsResponse> {
-    const { buildActionId, limit = 100 } = args;
+  } & PaginationOptions): Promise<ListCiArtifactsResponse> {
+    const { buildActionId, limit = 100, allPages, maxItems } = args;
 
     validateRequired(args, ['buildActionId']);
 
-    return this.client.get<ListCiArtifactsResponse>(
+    return this.client.getPaginated<ListCiArtifactsResponse>(
       `/ciBuildActions/${buildActionId}/artifacts`,
-      { limit: sanitizeLimit(limit) }
+      { limit: sanitizeLimit(limit) },
+      { allPages, maxItems }
     );
   }
 
@@ -451,8 +459,8 @@ export class XcodeCloudHandlers {
     repositoryId: string;
     limit?: number;
     filterKind?: 'BRANCH' | 'TAG';
-  }): Promise<ListScmGitReferencesResponse> {
-    const { repositoryId, limit = 100, filterKind } = args;
+  } & PaginationOptions): Promise<ListScmGitReferencesResponse> {
+    const { repositoryId, limit = 100, filterKind, allPages, maxItems } = args;
 
     validateRequired(args, ['repositoryId']);
 
@@ -464,9 +472,10 @@ export class XcodeCloudHandlers {
       params['filter[kind]'] = filterKind;
     }
 
-    return this.client.get<ListScmGitReferencesResponse>(
+    return this.client.getPaginated<ListScmGitReferencesResponse>(
       `/scmRepositories/${repositoryId}/gitReferences`,
-      params
+      params,
+      { allPages, maxItems }
     );
   }
 
@@ -0,0 +1,33 @@
+/**
+ * Merging of Analytics Reports segments
+ *
+ * An analytics report instance is delivered as one or more gzip-compressed TSV
+ * segments. Their layout is not documented per report, so columns are typed by
+ * inspecting the values.
+ */
+
+import { ReportColumn, ReportRow } from '../types/index.js';
+import { buildReportRows, decompressReport, inferColumnTypes, parseTsv } from '../utils/index.js';
+
+/**
+ * Parses and concatenates report segments into one set of typed rows
+ *
+ * Segments normally share a header line; if they do not, the columns are the union of
+ * all headers, in order of first appearance, and missing values are null.
+ */
+export function mergeReportSegments(segments: Array<Buffer | string>): { columns: ReportColumn[]; rows: ReportRow[] } {
+  const parsed = segments.map(segment => parseTsv(decompressReport(segment)))
+    .filter(segment => segment.headers.some(Boolean));
+
+  const headers: string[] = [];
+  for (const segment of parsed) {
+    headers.push(...segment.headers.filter(header => !headers.includes(header)));
+  }
+
+  const records = parsed.flatMap(segment => {
+    const positions = headers.map(header => segment.headers.indexOf(header));
+    return segment.records.map(record => positions.map(position => position >= 0 ? record[position] ?? '' : ''));
+  });
+
+  return buildReportRows(headers, records, inferColumnTypes(headers, records));
+}
@@ -0,0 +1,109 @@
+import { AxiosError } from 'axios';
+import { ApiError, ApiErrorReport } from '../types/index.js';
+
+/**
+ * Suggested corrections for common App Store Connect error codes
+ *
+ * Codes are hierarchical (e.g. ENTITY_ERROR.ATTRIBUTE.INVALID.TOO_LONG), so a code
+ * without its own hint falls back to the hint of its closest parent.
+ */
+export const API_ERROR_HINTS: Record<string, string> = {
+  'ENTITY_ERROR': 'The request body was rejected. Check the field named by `pointer` against the operation schema (search_api_operations with includeDetails shows it).',
+  'ENTITY_ERROR.ATTRIBUTE.INVALID': 'An attribute value is not allowed. Fix the attribute at `pointer`: check its format, length and allowed values.',
+  'ENTITY_ERROR.ATTRIBUTE.REQUIRED': 'A required attribute is missing. Add the attribute named by `pointer` and retry.',
+  'ENTITY_ERROR.ATTRIBUTE.UNKNOWN': 'The attribute at `pointer` does not exist on this resource. Remove it or check its spelling.',
+  'ENTITY_ERROR.RELATIONSHIP.INVALID': 'A relationship points at a resource that does not exist or cannot be linked. Check the ID at `pointer`.',
+  'ENTITY_ERROR.RELATIONSHIP.REQUIRED': 'A required relationship is missing. Add the relationship named by `pointer`.',
+  'ENTITY_ERROR.INCLUDED': 'The included resources in the body are invalid. Check the entries at `pointer`.',
+  'ENTITY_ERROR.NOT_FOUND': 'The resource does not exist, or your API key cannot see it. List the parent collection to find a valid ID.',
+  'ENTITY_ERROR.ATTRIBUTE.INVALID.DUPLICATE': 'Another resource already uses this value. Choose a different value or update the existing resource.',
+  'PARAMETER_ERROR': 'A query parameter is invalid. Check the parameter named by `parameter` against the allowed values.',
+  'PARAMETER_ERROR.INVALID': 'A query parameter value is not allowed. Check `parameter`: filters and includes only accept the values the endpoint documents.',
+  'PARAMETER_ERROR.ILLEGAL': 'This parameter is not supported on this endpoint. Remove `parameter` from the request.',
+  'PARAMETER_ERROR.REQUIRED': 'A required query parameter is missing. Add the parameter named by `parameter`.',
+  'NOT_FOUND': 'The resource does not exist, or your API key cannot see it. Double-check the ID, or list the collection to find it.',
+  'PATH_ERROR': 'The URL does not match an App Store Connect endpoint. Check the resource type and ID in the path.',
+  'FORBIDDEN_ERROR': 'Your API key does not have permission for this action. Use a key with a role that allows it (Admin or App Manager for most writes), or ask an Account Holder to grant access.',
+  'FORBIDDEN_ERROR.INCORRECT_ROLE': 'Your API key role cannot perform this action. Sales and finance reports need the Finance or Sales role; most writes need Admin or App Manager.',
+  'FORBIDDEN.REQUIRED_AGREEMENTS_MISSING_OR_EXPIRED': 'An agreement must be accepted in App Store Connect (Business section) before this request can succeed.',
+  'NOT_AUTHORIZED': 'Authentication failed. Check the key ID, issuer ID and private key, and that the key has not been revoked.',
+  'STATE_ERROR': 'The resource is not in a state that allows this action (for example, a version already submitted for review). Check its current state first.',
+  'CONFLICT_ERROR': 'The request conflicts with the current state of the resource. Fetch the latest state and retry.',
+  'RATE_LIMIT_EXCEEDED': 'The hourly API quota has been used up. Wait before retrying; get_rate_limit_status shows the remaining quota.',
+};
+
+// Response headers Apple uses to identify a request
+const REQUEST_ID_HEADERS = ['x-request-id', 'x-apple-request-uuid'];
+
+/**
+ * Returns the hint for an error code, falling back to its closest parent code
+ */
+export function getApiErrorHint(code: string): string | undefined {
+  for (let candidate = code; candidate; candidate = candidate.slice(0, Math.max(candidate.lastIndexOf('.'), 0))) {
+    if (API_ERROR_HINTS[candidate]) {
+      return API_ERROR_HINTS[candidate];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads Apple's error list from a response body, which may be JSON, a string or a buffer
+ */
+function parseApiErrors(body: unknown): ApiError[] {
+  let parsed = body;
+
+  if (typeof body === 'string' || Buffer.isBuffer(body) || body instanceof ArrayBuffer) {
+    try {
+      const text = typeof body === 'string' ? body : Buffer.from(body as Uint8Array).toString('utf-8');
+      parsed = JSON.parse(text);
+    } catch {
+      return [];
+    }
+  }
+
+  const errors = (parsed as { errors?: unknown })?.errors;
+  return Array.isArray(errors) ? errors.filter(error => typeof error?.code === 'string') : [];
+}
+
+/**
+ * Translates a failed axios request into a report listing every App Store Connect error
+ */
+export function translateApiError(error: AxiosError): ApiErrorReport {
+  const response = error.response;
+  const apiErrors = parseApiErrors(response?.data);
+
+  const errors = apiErrors.map(apiError => {
+    const hint = getApiErrorHint(apiError.code);
+    return {
+      code: apiError.code,
+      title: apiError.title,
+      detail: apiError.detail,
+      status: apiError.status,
+      ...(apiError.source?.pointer && { pointer: apiError.source.pointer }),
+      ...(apiError.source?.parameter && { parameter: apiError.source.parameter }),
+      ...(apiError.id && { id: apiError.id }),
+      ...(apiError.meta && { meta: apiError.meta }),
+      ...(hint && { hint }),
+    };
+  });
+
+  const headerRequestId = REQUEST_ID_HEADERS.map(header => response?.headers?.[header]).find(Boolean);
+  const requestId = headerRequestId ? String(headerRequestId) : apiErrors.find(apiError => apiError.id)?.id;
+
+  const first = errors[0];
+  const location = first?.pointer ?? first?.parameter;
+  const message = first
+    ? `App Store Connect API error ${response?.status ?? ''} ${first.code}: ${first.detail}${location ? ` (at ${location})` : ''}` +
+      (errors.length > 1 ? ` and ${errors.length - 1} more` : '')
+    : `App Store Connect API request failed: ${error.message}`;
+
+  return {
+    message: message.replace(/ {2,}/g, ' '),
+    ...(response && { status: response.status }),
+    ...(error.config?.method && { method: error.config.method.toUpperCase() }),
+    ...(error.config?.url && { url: error.config.url }),
+    ...(requestId && { requestId }),
+    errors,
+  };
+}
@@ -1,54 +1,264 @@
-import axios, { AxiosInstance } from 'axios';
-import { AuthService } from './auth.js';
-import { AppStoreConnectConfig } from '../types/index.js';
+import axios, { AxiosInstance, AxiosResponseHeaders, RawAxiosResponseHeaders, ResponseType } from 'axios';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AuthService, TokenOptions } from './auth.js';
+import { AppStoreConnectConfig, BaseApiResponse, PaginationOptions, RateLimitStatus, UploadOperation } from '../types/index.js';
 import { getConfig } from '../config.js';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  parseRateLimitHeader,
+  parseRetryAfter,
+  computeBackoffDelay,
+} from './rate-limit.js';
 
 /**
  * App Store Connect API base URL
  */
 const APP_STORE_CONNECT_API_BASE = 'https://api.appstoreconnect.apple.com/v1';
 
+export interface RequestOptions {
+  responseType?: ResponseType; // Defaults to JSON
+  accept?: string; // Accept header, for endpoints that do not return JSON
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+// Methods whose repetition has no further effect, so a server error can be retried
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT'];
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
 /**
  * AppStoreConnectClient provides HTTP methods for interacting with the App Store Connect API
  *
- * All requests are authenticated using JWT Bearer tokens generated by AuthService.
- * A fresh token is generated for each request to ensure validity.
+ * All requests are authenticated using JWT Bearer tokens generated by AuthService,
+ * which reuses each token until shortly before it expires. A profile's `tokenScope`
+ * limits every token to the listed requests; since Apple rejects a scoped token for any
+ * other request, such requests fail before they are sent.
+ *
+ * Throttled requests, and reads that fail with a transient server error, are retried
+ * according to the client's RetryPolicy, and the quota reported in Apple's `X-Rate-Limit` header
+ * is tracked so it can be surfaced through getRateLimitStatus().
  */
 export class AppStoreConnectClient {
   private axiosInstance: AxiosInstance;
   private authService: AuthService;
+  private tokenOptions: TokenOptions;
+  private retryPolicy: RetryPolicy;
+  private rateLimitStatus: RateLimitStatus = { retriedRequests: 0 };
 
-  constructor(config?: AppStoreConnectConfig) {
+  constructor(config?: AppStoreConnectConfig, retryPolicy: Partial<RetryPolicy> = {}) {
     // Use provided config or get from centralized config
     const resolvedConfig = config ?? getConfig();
     this.authService = new AuthService(resolvedConfig);
+    this.tokenOptions = { scope: resolvedConfig.tokenScope };
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy };
 
     this.axiosInstance = axios.create({
       baseURL: APP_STORE_CONNECT_API_BASE,
     });
   }
 
-  async request<T = any>(method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH', url: string, data?: any, params?: Record<string, any>): Promise<T> {
-    const token = await this.authService.generateToken();
-    
-    const response = await this.axiosInstance.request<T>({
-      method,
-      url,
-      data,
-      params,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
+  async request<T = any>(
+    method: HttpMethod,
+    url: string,
+    data?: any,
+    params?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    this.checkTokenScope(method, url);
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this.authService.generateToken(this.tokenOptions);
+
+      try {
+        const response = await this.axiosInstance.request<T>({
+          method,
+          url,
+          data,
+          params,
+          responseType: options.responseType,
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+            ...(options.accept && { 'Accept': options.accept })
+          }
+        });
+
+        this.recordRateLimit(response.headers);
+        return response.data;
+      } catch (error) {
+        if (!axios.isAxiosError(error) || !error.response) {
+          throw error;
+        }
+
+        this.recordRateLimit(error.response.headers);
+
+        // A rejected token must not be reused from the cache by later requests. A scoped
+        // token is also rejected for requests its scope does not cover, and signing a new
+        // one with the same scope would not help.
+        if (error.response.status === 401 && !this.tokenOptions.scope) {
+          this.authService.clearTokenCache();
+        }
+
+        const delay = this.getRetryDelay(method, error.response.status, error.response.headers, attempt);
+        if (delay === undefined) {
+          throw error;
+        }
+
+        this.rateLimitStatus.retriedRequests++;
+        console.error(
+          `App Store Connect API returned ${error.response.status} for ${method} ${url}; ` +
+          `retrying in ${delay}ms (attempt ${attempt + 1} of ${this.retryPolicy.maxRetries})`
+        );
+        await sleep(delay);
       }
-    });
+    }
+  }
+
+  /**
+   * Refuses a request the profile's token scope does not cover
+   *
+   * Scope entries are compared by method and path; a query in an entry is left to Apple.
+   * @throws McpError (InvalidRequest) naming the request
+   */
+  private checkTokenScope(method: HttpMethod, url: string): void {
+    const { scope } = this.tokenOptions;
+    if (!scope) {
+      return;
+    }
 
-    return response.data;
+    // Cursor links are absolute; other URLs are relative to the versioned base URL
+    const path = /^https?:\/\//.test(url)
+      ? new URL(url).pathname
+      : new URL(APP_STORE_CONNECT_API_BASE).pathname + url.split('?')[0];
+    const request = `${method} ${path}`;
+    if (!scope.some(entry => entry.split('?')[0] === request)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${request} is outside the profile's token scope (${scope.join('; ')}), so App Store Connect would reject it`
+      );
+    }
+  }
+
+  /**
+   * Returns the most recent quota reported by App Store Connect
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    return { ...this.rateLimitStatus };
+  }
+
+  private recordRateLimit(headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined): void {
+    const quota = parseRateLimitHeader(headers?.['x-rate-limit']);
+    if (quota) {
+      Object.assign(this.rateLimitStatus, quota, { lastUpdated: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Decides whether a failed request should be retried
+   * @returns The delay in milliseconds before the next attempt, or undefined to give up
+   */
+  private getRetryDelay(
+    method: HttpMethod,
+    status: number,
+    headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined,
+    attempt: number
+  ): number | undefined {
+    const { maxRetries, maxDelayMs, retryableStatuses, idempotentRetryableStatuses } = this.retryPolicy;
+    const retryable = retryableStatuses.includes(status) ||
+      (IDEMPOTENT_METHODS.includes(method) && idempotentRetryableStatuses.includes(status));
+
+    if (attempt >= maxRetries || !retryable) {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= maxDelayMs ? retryAfter : undefined;
+    }
+
+    return computeBackoffDelay(attempt, this.retryPolicy);
   }
 
   async get<T = any>(url: string, params?: Record<string, any>): Promise<T> {
     return this.request<T>('GET', url, undefined, params);
   }
 
+  /**
+   * Fetches a binary response body, such as a gzip-compressed sales or finance report
+   */
+  async getBuffer(url: string, params?: Record<string, any>, accept = 'application/a-gzip'): Promise<Buffer> {
+    const data = await this.request<ArrayBuffer>('GET', url, undefined, params, { responseType: 'arraybuffer', accept });
+    return Buffer.from(data);
+  }
+
+  /**
+   * Fetches a list endpoint, optionally following `links.next` cursors
+   *
+   * Without `allPages` or `maxItems` this behaves exactly like `get`. Otherwise every
+   * page's `data` and `included` arrays are merged (included resources are de-duplicated
+   * by type and id) until the collection is exhausted or `maxItems` is reached. The merged
+   * response keeps the cursor after the last fetched page in `links.next` and reports
+   * `meta.paging.total` as returned by the API.
+   *
+   * When `maxItems` ends inside the last fetched page, the items after it are dropped.
+   * That cursor would skip them, so `links.next` is left out and `meta.truncated` is set.
+   */
+  async getPaginated<T extends BaseApiResponse<any[]> & { included?: any[] }>(
+    url: string,
+    params?: Record<string, any>,
+    options: PaginationOptions = {}
+  ): Promise<T> {
+    const { allPages = false, maxItems } = options;
+
+    if (!allPages && !maxItems) {
+      return this.get<T>(url, params);
+    }
+
+    const firstPage = await this.get<T>(url, params);
+    const data: any[] = [...(firstPage.data ?? [])];
+    const included = new Map<string, any>();
+    const addIncluded = (page: T) => {
+      for (const resource of page.included ?? []) {
+        included.set(`${resource.type}:${resource.id}`, resource);
+      }
+    };
+    addIncluded(firstPage);
+
+    const hasRoom = () => maxItems === undefined || data.length < maxItems;
+    let next = firstPage.links?.next;
+
+    while (next && hasRoom()) {
+      // Cursor links are absolute URLs that already carry every query parameter
+      const page = await this.get<T>(next);
+      data.push(...(page.data ?? []));
+      addIncluded(page);
+      next = page.links?.next;
+    }
+
+    const items = maxItems !== undefined ? data.slice(0, maxItems) : data;
+    const truncated = items.length < data.length;
+
+    return {
+      ...firstPage,
+      data: items,
+      ...(included.size > 0 && { included: Array.from(included.values()) }),
+      links: {
+        ...firstPage.links,
+        next: truncated ? undefined : next,
+      },
+      meta: {
+        ...firstPage.meta,
+        paging: {
+          total: firstPage.meta?.paging?.total ?? items.length,
+          limit: firstPage.meta?.paging?.limit ?? items.length,
+        },
+        ...(truncated && { truncated }),
+      },
+    };
+  }
+
   async post<T = any>(url: string, data: any): Promise<T> {
     return this.request<T>('POST', url, data);
   }
@@ -65,8 +275,37 @@ export class AppStoreConnectClient {
     return this.request<T>('PATCH', url, data);
   }
 
+  /**
+   * Downloads a file from a pre-signed URL, such as an analytics report segment
+   *
+   * The URL carries its own credentials, so no bearer token is sent.
+   */
+  async downloadBuffer(url: string): Promise<Buffer> {
+    const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+    return Buffer.from(response.data);
+  }
+
+  /**
+   * Sends one part of an asset (screenshot, preview) as an upload operation describes
+   *
+   * Upload URLs are pre-signed, so only the operation's own headers are sent.
+   */
+  async uploadPart(operation: UploadOperation, data: Buffer, signal?: AbortSignal): Promise<void> {
+    const headers = Object.fromEntries(
+      (operation.requestHeaders ?? []).map(({ name, value }) => [name ?? '', value ?? ''])
+    );
+    await axios.request({
+      method: operation.method ?? 'PUT',
+      url: operation.url,
+      headers,
+      data,
+      signal,
+      maxBodyLength: Infinity,
+    });
+  }
+
   async downloadFromUrl(url: string): Promise<any> {
-    const token = await this.authService.generateToken();
+    const token = await this.authService.generateToken(this.tokenOptions);
     
     const response = await axios.get(url, {
       headers: {
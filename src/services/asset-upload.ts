@@ -0,0 +1,70 @@
+/**
+ * Apple's asset upload flow, shared by screenshots and app previews
+ *
+ * An asset is first reserved with its name and size; the reservation answers with
+ * upload operations, each naming a byte range and a pre-signed URL to send it to.
+ * Once every part is sent the asset is committed with the MD5 checksum of the file,
+ * and App Store Connect processes it asynchronously (see its assetDeliveryState).
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import { AppStoreConnectClient } from './appstore-client.js';
+import { UploadOperation } from '../types/index.js';
+
+export function md5Checksum(data: Buffer): string {
+  return createHash('md5').update(data).digest('hex');
+}
+
+/**
+ * Sends the byte range of `data` each operation asks for, one part at a time
+ */
+export async function uploadAssetParts(
+  client: AppStoreConnectClient,
+  operations: UploadOperation[],
+  data: Buffer,
+  signal?: AbortSignal
+): Promise<void> {
+  for (const operation of operations) {
+    signal?.throwIfAborted();
+    const offset = operation.offset ?? 0;
+    const length = operation.length ?? data.length - offset;
+    await client.uploadPart(operation, data.subarray(offset, offset + length), signal);
+  }
+}
+
+/**
+ * MD5 checksum of a file, read as a stream so large videos are not loaded whole
+ */
+export async function md5FileChecksum(filePath: string): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Sends the byte range of a file each operation asks for, reading one part at a time
+ */
+export async function uploadFileParts(
+  client: AppStoreConnectClient,
+  operations: UploadOperation[],
+  filePath: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const { size } = await file.stat();
+    for (const operation of operations) {
+      signal?.throwIfAborted();
+      const offset = operation.offset ?? 0;
+      const part = Buffer.alloc(operation.length ?? size - offset);
+      const { bytesRead } = await file.read(part, 0, part.length, offset);
+      await client.uploadPart(operation, part.subarray(0, bytesRead), signal);
+    }
+  } finally {
+    await file.close();
+  }
+}
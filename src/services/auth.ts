@@ -3,6 +3,20 @@ import fs from 'fs/promises';
 import { AppStoreConnectConfig } from '../types/index.js';
 import { getConfig, ConfigurationError } from '../config.js';
 
+// Apple accepts tokens valid for up to 20 minutes
+const TOKEN_LIFETIME_SECONDS = 20 * 60;
+
+// Cached tokens are replaced this long before they expire, so none expires in flight
+const TOKEN_REFRESH_MARGIN_SECONDS = 60;
+
+export interface TokenOptions {
+  /**
+   * Requests the token may be used for, e.g. `GET /v1/apps?filter[platform]=IOS`.
+   * Apple rejects a scoped token for any other request.
+   */
+  scope?: string[];
+}
+
 /**
  * AuthService handles JWT Bearer token generation for App Store Connect API
  *
@@ -15,10 +29,15 @@ import { getConfig, ConfigurationError } from '../config.js';
  * - issuer: Issuer ID from App Store Connect
  * - keyid: Key ID from App Store Connect API Keys
  * - expiry: 20 minutes from generation time
+ * - scope (optional): The requests the token is limited to
+ *
+ * Tokens are cached per scope and reused until shortly before they expire. The private
+ * key is taken from the configuration (`privateKey`) or read once from `privateKeyPath`.
  */
 export class AuthService {
   private config: AppStoreConnectConfig;
   private cachedPrivateKey: string | null = null;
+  private cachedTokens = new Map<string, { token: string; expiresAt: number }>();
 
   constructor(config?: AppStoreConnectConfig) {
     // Use provided config or get from centralized config
@@ -26,37 +45,67 @@ export class AuthService {
   }
 
   /**
-   * Generates a JWT Bearer token for App Store Connect API authentication
-   * @returns Promise<string> The signed JWT token
+   * Returns a JWT Bearer token for App Store Connect API authentication
+   * @returns Promise<string> The signed JWT token, reused from the cache while it is fresh
    * @throws Error if private key cannot be read or token generation fails
    */
-  async generateToken(): Promise<string> {
-    // Cache the private key to avoid repeated file I/O
-    if (!this.cachedPrivateKey) {
-      this.cachedPrivateKey = await fs.readFile(this.config.privateKeyPath, 'utf-8');
+  async generateToken(options: TokenOptions = {}): Promise<string> {
+    const scope = options.scope?.length ? options.scope : undefined;
+    const cacheKey = scope?.join('\n') ?? '';
+    const now = Math.floor(Date.now() / 1000);
+
+    const cached = this.cachedTokens.get(cacheKey);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_SECONDS > now) {
+      return cached.token;
     }
 
-    const token = jwt.sign({}, this.cachedPrivateKey, {
+    const privateKey = await this.getPrivateKey();
+    const expiresAt = now + TOKEN_LIFETIME_SECONDS;
+
+    const token = jwt.sign({ iat: now, exp: expiresAt, ...(scope && { scope }) }, privateKey, {
       algorithm: 'ES256',
-      expiresIn: '20m', // App Store Connect tokens can be valid for up to 20 minutes
       audience: 'appstoreconnect-v1',
       keyid: this.config.keyId,
       issuer: this.config.issuerId,
     });
 
+    this.cachedTokens.set(cacheKey, { token, expiresAt });
     return token;
   }
 
+  /**
+   * Discards cached tokens, e.g. after Apple rejects one
+   */
+  clearTokenCache(): void {
+    this.cachedTokens.clear();
+  }
+
+  private async getPrivateKey(): Promise<string> {
+    if (this.config.privateKey) {
+      return this.config.privateKey;
+    }
+
+    if (!this.config.privateKeyPath) {
+      throw new ConfigurationError('No App Store Connect private key configured: set privateKey or privateKeyPath');
+    }
+
+    // Cache the private key to avoid repeated file I/O
+    if (!this.cachedPrivateKey) {
+      this.cachedPrivateKey = await fs.readFile(this.config.privateKeyPath, 'utf-8');
+    }
+    return this.cachedPrivateKey;
+  }
+
   /**
    * @deprecated Use getConfig() from config.ts for validation at startup
    * This method is kept for backwards compatibility
    */
   validateConfig(): void {
-    if (!this.config.keyId || !this.config.issuerId || !this.config.privateKeyPath) {
+    if (!this.config.keyId || !this.config.issuerId || !(this.config.privateKeyPath || this.config.privateKey)) {
       throw new ConfigurationError(
         "Missing required environment variables. Please set: " +
         "APP_STORE_CONNECT_KEY_ID, APP_STORE_CONNECT_ISSUER_ID, APP_STORE_CONNECT_P8_PATH"
       );
     }
   }
-}
\ No newline at end of file
+}
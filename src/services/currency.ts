@@ -0,0 +1,153 @@
+/**
+ * Conversion of report amounts into one currency
+ *
+ * Sales and finance reports state amounts in many currencies. Amounts are converted
+ * with a list of exchange rate tables in order of preference: normally the rates Apple
+ * applied in the fiscal month's financial report, then an offline table for currencies
+ * (or months) the report does not cover. A conversion only uses rates from one table.
+ */
+
+import { ConvertedTotals, ExchangeRates, ReportTotalsEntry } from '../types/index.js';
+import { roundAmount } from '../utils/index.js';
+
+/**
+ * Approximate rates for the currencies Apple reports proceeds in
+ *
+ * Good enough to rank and compare apps, not for accounting.
+ */
+export const STATIC_EXCHANGE_RATES: ExchangeRates = {
+  source: 'static',
+  asOf: '2024-06-30',
+  base: 'USD',
+  perUnit: {
+    USD: 1,
+    EUR: 1.07,
+    GBP: 1.26,
+    JPY: 0.0062,
+    AUD: 0.67,
+    CAD: 0.73,
+    CHF: 1.11,
+    CNY: 0.138,
+    DKK: 0.144,
+    HKD: 0.128,
+    INR: 0.012,
+    IDR: 0.000061,
+    ILS: 0.266,
+    KRW: 0.00073,
+    MXN: 0.055,
+    NOK: 0.094,
+    NZD: 0.61,
+    PLN: 0.249,
+    RUB: 0.0117,
+    SAR: 0.267,
+    SEK: 0.094,
+    SGD: 0.738,
+    THB: 0.0272,
+    TRY: 0.0305,
+    TWD: 0.0308,
+    ZAR: 0.055,
+    BRL: 0.18,
+    AED: 0.272,
+    BGN: 0.548,
+    CLP: 0.00106,
+    COP: 0.00024,
+    CZK: 0.0428,
+    EGP: 0.0208,
+    HUF: 0.0027,
+    KZT: 0.00212,
+    MYR: 0.212,
+    NGN: 0.00067,
+    PEN: 0.261,
+    PHP: 0.017,
+    PKR: 0.0036,
+    QAR: 0.275,
+    RON: 0.215,
+    TZS: 0.00038,
+    VND: 0.000039,
+  },
+};
+
+const rateOf = (rates: ExchangeRates, currency: string) =>
+  currency === rates.base ? 1 : rates.perUnit[currency];
+
+/**
+ * Tells whether any of the tables can convert into the currency
+ */
+export function hasExchangeRate(currency: string, tables: ExchangeRates[]): boolean {
+  return tables.some(rates => rateOf(rates, currency) !== undefined);
+}
+
+/**
+ * Converts an amount between currencies with the first table that knows both, or
+ * returns undefined if none does
+ */
+export function convertAmount(amount: number, from: string, to: string, tables: ExchangeRates[] = [STATIC_EXCHANGE_RATES]): number | undefined {
+  if (from === to) {
+    return amount;
+  }
+
+  for (const rates of tables) {
+    const fromRate = rateOf(rates, from);
+    const toRate = rateOf(rates, to);
+    if (fromRate !== undefined && toRate !== undefined) {
+      return amount * fromRate / toRate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Sums amounts keyed by currency into one currency
+ *
+ * Currencies without a rate are left out of the total and listed in `unconverted`.
+ */
+export function convertAmounts(
+  amounts: ReportTotalsEntry['proceeds'],
+  to: string,
+  tables: ExchangeRates[] = [STATIC_EXCHANGE_RATES]
+): { amount: number; unconverted: string[] } {
+  let amount = 0;
+  const unconverted: string[] = [];
+
+  for (const [currency, value] of Object.entries(amounts)) {
+    const converted = convertAmount(value, currency, to, tables);
+    if (converted === undefined) {
+      unconverted.push(currency);
+    } else {
+      amount += converted;
+    }
+  }
+
+  return { amount: roundAmount(amount), unconverted };
+}
+
+type GroupedTotals = ReportTotalsEntry & Partial<Record<'byProduct' | 'byCountry' | 'byRegion', Record<string, ReportTotalsEntry>>>;
+
+/**
+ * Converts the proceeds of report totals, overall and by product, country and region
+ */
+export function convertReportTotals(totals: GroupedTotals, currency: string, tables: ExchangeRates[]): ConvertedTotals {
+  const unconverted = new Set<string>();
+  const convert = (entry: ReportTotalsEntry) => {
+    const { amount, unconverted: missing } = convertAmounts(entry.proceeds, currency, tables);
+    missing.forEach(code => unconverted.add(code));
+    return amount;
+  };
+  const convertGroup = (group: Record<string, ReportTotalsEntry>) =>
+    Object.fromEntries(Object.entries(group).map(([key, entry]) => [key, convert(entry)]));
+
+  const proceeds = convert(totals);
+  const byProduct = totals.byProduct && convertGroup(totals.byProduct);
+  const byCountry = totals.byCountry && convertGroup(totals.byCountry);
+  const byRegion = totals.byRegion && convertGroup(totals.byRegion);
+
+  return {
+    currency,
+    proceeds,
+    ...(byProduct && { byProduct }),
+    ...(byCountry && { byCountry }),
+    ...(byRegion && { byRegion }),
+    exchangeRates: tables.map(({ source, asOf }) => ({ source, asOf })),
+    unconvertedCurrencies: Array.from(unconverted).sort(),
+  };
+}
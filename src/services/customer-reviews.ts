@@ -0,0 +1,123 @@
+/**
+ * Summaries of customer reviews
+ *
+ * Reviews are reduced to a rating distribution, averages by territory and the words
+ * that recur across reviews. Keywords are counted once per review, so one long rant
+ * does not outweigh several short complaints, and each carries the average rating of
+ * the reviews that use it, which tells praise ("love") from problems ("crash").
+ */
+
+import { CustomerReview, CustomerReviewRatings, CustomerReviewSummary } from '../types/index.js';
+import { roundAmount } from '../utils/index.js';
+
+// Words too common in reviews to say anything about them
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'also', 'am', 'an', 'and', 'any', 'app', 'apps', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'cannot', 'could', 'did', 'do', 'does',
+  'doing', 'don\'t', 'even', 'every', 'for', 'from', 'get', 'gets', 'got', 'had', 'has', 'have', 'having',
+  'he', 'her', 'here', 'him', 'his', 'how', 'i', 'i\'m', 'i\'ve', 'if', 'in', 'into', 'is', 'it', 'it\'s',
+  'its', 'just', 'let', 'like', 'me', 'more', 'most', 'much', 'my', 'no', 'not', 'now', 'of', 'on', 'one',
+  'only', 'or', 'other', 'our', 'out', 'over', 'really', 'same', 'she', 'should', 'so', 'some', 'still',
+  'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'time', 'to', 'too', 'up', 'use', 'using', 'very', 'was', 'way', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+]);
+
+const MIN_KEYWORD_LENGTH = 3;
+
+/**
+ * Splits review text into the distinct, lower-cased words worth counting
+ */
+export function reviewKeywords(text: string): Set<string> {
+  const words = new Set<string>();
+  for (const token of text.toLowerCase().split(/[^\p{L}\p{N}']+/u)) {
+    const word = token.replace(/^'+|'+$/g, '');
+    if (word.length >= MIN_KEYWORD_LENGTH && !STOPWORDS.has(word) && !/^\d+$/.test(word)) {
+      words.add(word);
+    }
+  }
+  return words;
+}
+
+class RatingTally {
+  reviews = 0;
+  private ratingSum = 0;
+  private rated = 0;
+
+  add(rating: number | undefined): void {
+    this.reviews++;
+    if (rating !== undefined) {
+      this.ratingSum += rating;
+      this.rated++;
+    }
+  }
+
+  toRatings(): CustomerReviewRatings {
+    return { reviews: this.reviews, averageRating: this.rated ? roundAmount(this.ratingSum / this.rated) : null };
+  }
+}
+
+/**
+ * Summarises reviews, listing up to `keywordCount` words found in two or more of them
+ */
+export function summarizeCustomerReviews(
+  reviews: CustomerReview[],
+  options: { keywordCount?: number; truncated?: boolean } = {}
+): CustomerReviewSummary {
+  const { keywordCount = 20, truncated = false } = options;
+  const overall = new RatingTally();
+  const ratingDistribution: CustomerReviewSummary['ratingDistribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const byTerritory = new Map<string, RatingTally>();
+  const keywords = new Map<string, RatingTally>();
+  const tallyOf = (tallies: Map<string, RatingTally>, key: string) => {
+    let tally = tallies.get(key);
+    if (!tally) {
+      tally = new RatingTally();
+      tallies.set(key, tally);
+    }
+    return tally;
+  };
+
+  let withResponse = 0;
+  let firstReviewDate: string | undefined;
+  let lastReviewDate: string | undefined;
+
+  for (const review of reviews) {
+    const { rating, title = '', body = '', territory, createdDate } = review.attributes ?? {};
+
+    overall.add(rating);
+    if (rating !== undefined && String(rating) in ratingDistribution) {
+      ratingDistribution[String(rating) as keyof typeof ratingDistribution]++;
+    }
+    tallyOf(byTerritory, territory ?? 'Unknown').add(rating);
+    for (const word of reviewKeywords(`${title} ${body}`)) {
+      tallyOf(keywords, word).add(rating);
+    }
+
+    if (review.relationships?.response?.data) {
+      withResponse++;
+    }
+    if (createdDate) {
+      firstReviewDate = !firstReviewDate || createdDate < firstReviewDate ? createdDate : firstReviewDate;
+      lastReviewDate = !lastReviewDate || createdDate > lastReviewDate ? createdDate : lastReviewDate;
+    }
+  }
+
+  return {
+    ...overall.toRatings(),
+    ratingDistribution,
+    withResponse,
+    ...(firstReviewDate && { firstReviewDate, lastReviewDate }),
+    byTerritory: Object.fromEntries(
+      Array.from(byTerritory.entries())
+        .sort(([, a], [, b]) => b.reviews - a.reviews)
+        .map(([territory, tally]) => [territory, tally.toRatings()])
+    ),
+    keywords: Array.from(keywords.entries())
+      .filter(([, tally]) => tally.reviews >= 2)
+      .sort(([wordA, a], [wordB, b]) => b.reviews - a.reviews || wordA.localeCompare(wordB))
+      .slice(0, keywordCount)
+      .map(([keyword, tally]) => ({ keyword, ...tally.toRatings() })),
+    truncated,
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Parsing and reconciliation of Payments and Financial Reports
+ *
+ * A FINANCIAL report covers one region for a fiscal month, except for region ZZ,
+ * which consolidates every region into one file. The FINANCE_DETAIL report (region
+ * Z1) lists each transaction. All of them are tab-separated line items, possibly
+ * preceded by title lines and followed by summary lines such as `Total_Amount`.
+ * Reports with an `Exchange Rate` column also state the rates Apple converted each
+ * currency into the bank account currency at.
+ */
+
+import {
+  ExchangeRates,
+  FinanceReconciliation,
+  FinanceReportResponse,
+  FinanceReportRow,
+  FinanceReportTotals,
+  FinanceReportType,
+  ReportColumnType,
+  ReportOutputFormat,
+  ReportRow,
+  ReportValue,
+} from '../types/index.js';
+import {
+  addToTotals,
+  buildReportRows,
+  convertReportValue,
+  decompressReport,
+  roundAmount,
+  splitTsvLines,
+  toCsv,
+  totalsEntry,
+} from '../utils/index.js';
+import { convertReportTotals } from './currency.js';
+
+export const CONSOLIDATED_REGION_CODE = 'ZZ';
+export const FINANCE_DETAIL_REGION_CODE = 'Z1';
+
+/**
+ * Region codes Apple issues separate financial reports for, one per payout currency
+ */
+export const FINANCE_REGION_CODES = [
+  'AE', 'AU', 'BG', 'BR', 'CA', 'CH', 'CL', 'CN', 'CO', 'CZ', 'DK', 'EG', 'EU', 'GB', 'HK', 'HU',
+  'ID', 'IL', 'IN', 'JP', 'KR', 'KZ', 'LL', 'MX', 'MY', 'NG', 'NO', 'NZ', 'PE', 'PH', 'PK', 'PL',
+  'QA', 'RO', 'RU', 'SA', 'SE', 'SG', 'TH', 'TR', 'TW', 'TZ', 'US', 'VN', 'WW', 'ZA',
+];
+
+// Column types for both report types; unlisted columns are strings
+const COLUMN_TYPES: Record<string, ReportColumnType> = {
+  'Start Date': 'date',
+  'End Date': 'date',
+  'Transaction Date': 'date',
+  'Settlement Date': 'date',
+  'Quantity': 'integer',
+  'Partner Share': 'decimal',
+  'Extended Partner Share': 'decimal',
+  'Customer Price': 'decimal',
+  'Exchange Rate': 'decimal',
+};
+
+// Differences below this are rounding, not missing money
+const AMOUNT_TOLERANCE = 0.01;
+
+const isLineItemHeader = (cells: string[]) =>
+  cells.includes('Partner Share') || cells.includes('Extended Partner Share') || cells.includes('Exchange Rate');
+
+// Summary lines have a label and a value, e.g. "Total_Amount\t1234.56"
+const isSummaryLine = (cells: string[]) => cells[0].startsWith('Total_') || cells.length <= 2;
+
+const numberOrUndefined = (value: ReportValue | undefined) => typeof value === 'number' ? value : undefined;
+
+const text = (value: ReportValue | undefined) => value === null || value === undefined ? '' : String(value);
+
+// Currency named at the end of a label, e.g. "Americas (USD)"
+const CURRENCY_IN_LABEL = /\(([A-Z]{3})\)\s*$/;
+
+/**
+ * Collects the exchange rates a finance report states, if it has an `Exchange Rate` column
+ *
+ * Each rate converts one unit of the row's currency into the bank account currency.
+ */
+export function extractFinanceExchangeRates(rows: ReportRow[], reportDate: string): ExchangeRates | undefined {
+  const perUnit: Record<string, number> = {};
+  let base: string | undefined;
+
+  for (const row of rows) {
+    const rate = numberOrUndefined(row.exchangeRate);
+    const currency = text(row.partnerShareCurrency) || CURRENCY_IN_LABEL.exec(text(row.countryOrRegionCurrency))?.[1];
+    const bankCurrency = text(row.bankAccountCurrency);
+
+    if (rate && rate > 0 && currency && bankCurrency && (!base || bankCurrency === base)) {
+      base = bankCurrency;
+      perUnit[currency] = rate;
+    }
+  }
+
+  return base ? { source: 'finance-report', asOf: reportDate, base, perUnit } : undefined;
+}
+
+/**
+ * Sums earnings (extended partner share) over line items, overall and by region, product, country and currency
+ */
+export function computeFinanceReportTotals(regionCode: string, rows: ReportRow[]): FinanceReportTotals {
+  const totals: FinanceReportTotals = {
+    rowCount: rows.length,
+    units: 0,
+    proceeds: {},
+    byRegion: {},
+    byProduct: {},
+    byCountry: {},
+    byCurrency: {},
+  };
+
+  for (const row of rows) {
+    const units = numberOrUndefined(row.quantity) ?? 0;
+    const partnerShare = numberOrUndefined(row.partnerShare);
+    const earnings = numberOrUndefined(row.extendedPartnerShare)
+      ?? (partnerShare !== undefined ? partnerShare * units : undefined);
+    const currency = row.partnerShareCurrency ? String(row.partnerShareCurrency) : undefined;
+    const product = [row.title, row.vendorIdentifier, row.sku, row.appleIdentifier]
+      .find(value => value !== null && value !== undefined && value !== '') ?? 'Unknown';
+    const region = row.region ? String(row.region) : regionCode;
+
+    addToTotals(totals, units, currency, earnings);
+    addToTotals(totalsEntry(totals.byRegion, region), units, currency, earnings);
+    addToTotals(totalsEntry(totals.byProduct, String(product)), units, currency, earnings);
+    addToTotals(totalsEntry(totals.byCountry, String(row.countryOfSale ?? 'Unknown')), units, currency, earnings);
+    if (currency) {
+      addToTotals(totalsEntry(totals.byCurrency, currency), units, currency, earnings);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Decompresses and parses a downloaded finance report
+ */
+export function parseFinanceReport(
+  body: Buffer | string,
+  options: {
+    reportType: FinanceReportType;
+    regionCode: string;
+    reportDate: string;
+    format?: ReportOutputFormat;
+    conversion?: { currency: string; exchangeRates: ExchangeRates[] }; // The report's own rates are tried first
+  }
+): FinanceReportResponse {
+  const { format = 'json', conversion, ...report } = options;
+  const lines = splitTsvLines(decompressReport(body));
+
+  const headerIndex = lines.findIndex(isLineItemHeader);
+  const headers = headerIndex >= 0 ? lines[headerIndex] : [];
+  const following = headerIndex >= 0 ? lines.slice(headerIndex + 1) : [];
+  const summaryIndex = following.findIndex(isSummaryLine);
+  const records = summaryIndex >= 0 ? following.slice(0, summaryIndex) : following;
+
+  const summary: Record<string, ReportValue> = {};
+  for (const [label, value] of summaryIndex >= 0 ? following.slice(summaryIndex) : []) {
+    summary[label] = convertReportValue(value, 'decimal');
+  }
+
+  const { columns, rows } = buildReportRows(headers, records, COLUMN_TYPES);
+  const totals = computeFinanceReportTotals(report.regionCode, rows);
+  const exchangeRates = extractFinanceExchangeRates(rows, report.reportDate);
+
+  return {
+    ...report,
+    columns: columns.map(column => column.field),
+    ...(format === 'csv'
+      ? { csv: toCsv(columns, rows) }
+      : { rows: rows as FinanceReportRow[] }),
+    summary,
+    totals,
+    ...(exchangeRates && { exchangeRates }),
+    ...(conversion && {
+      converted: convertReportTotals(
+        totals,
+        conversion.currency,
+        exchangeRates ? [exchangeRates, ...conversion.exchangeRates] : conversion.exchangeRates
+      )
+    }),
+  };
+}
+
+/**
+ * Builds a payout summary for a fiscal month from its per-region reports
+ *
+ * Each region's earnings are checked against the `Total_Amount` Apple states in the
+ * report, and, when the consolidated (ZZ) report is given, the per-currency sums of the
+ * regions are checked against it.
+ */
+export function reconcileFinanceReports(
+  reportDate: string,
+  reports: FinanceReportResponse[],
+  regionsWithoutReport: string[],
+  consolidated?: FinanceReportResponse
+): FinanceReconciliation {
+  const byCurrency: FinanceReconciliation['byCurrency'] = {};
+
+  const regions = reports.map(report => {
+    const { rowCount, units, proceeds: earnings } = report.totals;
+    const currencies = Object.keys(earnings);
+    const reportedAmount = numberOrUndefined(report.summary.Total_Amount);
+
+    for (const currency of currencies) {
+      const entry = byCurrency[currency] ??= { units: 0, earnings: 0, regions: [] };
+      entry.units += report.totals.byCurrency[currency]?.units ?? 0;
+      entry.earnings = roundAmount(entry.earnings + earnings[currency]);
+      entry.regions.push(report.regionCode);
+    }
+
+    return {
+      regionCode: report.regionCode,
+      rowCount,
+      units,
+      earnings,
+      ...(reportedAmount !== undefined && {
+        reportedAmount,
+        ...(currencies.length === 1 && {
+          matchesReportedAmount: Math.abs(earnings[currencies[0]] - reportedAmount) < AMOUNT_TOLERANCE
+        }),
+      }),
+    };
+  });
+
+  const reconciliation: FinanceReconciliation = { reportDate, regions, regionsWithoutReport, byCurrency };
+
+  if (consolidated) {
+    const consolidatedEarnings = consolidated.totals.proceeds;
+    const currencies = new Set([...Object.keys(byCurrency), ...Object.keys(consolidatedEarnings)]);
+
+    reconciliation.consolidated = {
+      earnings: consolidatedEarnings,
+      discrepancies: Array.from(currencies)
+        .map(currency => {
+          const fromRegions = byCurrency[currency]?.earnings ?? 0;
+          const fromConsolidated = consolidatedEarnings[currency] ?? 0;
+          return {
+            currency,
+            regions: fromRegions,
+            consolidated: fromConsolidated,
+            difference: roundAmount(fromConsolidated - fromRegions),
+          };
+        })
+        .filter(discrepancy => Math.abs(discrepancy.difference) >= AMOUNT_TOLERANCE),
+    };
+  }
+
+  return reconciliation;
+}
@@ -1,2 +1,38 @@
 export { AuthService } from './auth.js';
-export { AppStoreConnectClient } from './appstore-client.js';
\ No newline at end of file
+export { AppStoreConnectClient } from './appstore-client.js';
+export { DEFAULT_RETRY_POLICY } from './rate-limit.js';
+export type { RetryPolicy } from './rate-limit.js';
+export { OpenApiCatalog } from './openapi.js';
+export type { ApiOperation, ApiOperationMethod, ApiParameter, PreparedApiCall } from './openapi.js';
+export { translateApiError, getApiErrorHint, API_ERROR_HINTS } from './api-errors.js';
+export { parseSalesReport, computeSalesReportTotals, salesRowMeasures, SALES_REPORT_DEFAULTS } from './sales-reports.js';
+export { aggregateSalesTimeseries, reportDatesInRange } from './sales-timeseries.js';
+export {
+  parseFinanceReport,
+  computeFinanceReportTotals,
+  reconcileFinanceReports,
+  extractFinanceExchangeRates,
+  FINANCE_REGION_CODES,
+  CONSOLIDATED_REGION_CODE,
+  FINANCE_DETAIL_REGION_CODE,
+} from './finance-reports.js';
+export { mergeReportSegments } from './analytics-reports.js';
+export { ReportCache, isReportSettled } from './report-cache.js';
+export type { ReportCacheEntry } from './report-cache.js';
+export { convertAmount, convertAmounts, convertReportTotals, hasExchangeRate, STATIC_EXCHANGE_RATES } from './currency.js';
+export { summarizePortfolio } from './portfolio.js';
+export type { PortfolioApp } from './portfolio.js';
+export { summarizeCustomerReviews, reviewKeywords } from './customer-reviews.js';
+export { checkVersionForReview, SUBMITTABLE_VERSION_STATES } from './review-preflight.js';
+export { loadVersionLocalizations, loadVersionLocalizationIds } from './version-localizations.js';
+export { md5Checksum, md5FileChecksum, uploadAssetParts, uploadFileParts } from './asset-upload.js';
+export { prepareScreenshot, screenshotTargetSize, imageAssetUrl, ScreenshotError } from './screenshots.js';
+export { checkPreviewFile, previewResolutions, timeCodeSeconds, PreviewError } from './previews.js';
+export { readVideoMetadata, parseMovieBox } from './video-metadata.js';
+export {
+  writeLocalizationFile,
+  parseLocalizationFile,
+  parseCsv,
+  LOCALIZATION_FIELDS,
+  LOCALIZATION_FIELD_LIMITS,
+} from './localization-files.js';
@@ -0,0 +1,241 @@
+/**
+ * Reading and writing App Store version localizations as CSV, JSON or XLIFF files
+ *
+ * CSV has a row per locale and a column per field; JSON maps each locale to its
+ * fields. XLIFF (1.2) is for translators: one <file> per locale, whose trans-units
+ * carry the source locale's text and the translation, so only translations are read
+ * back. In every format an absent or empty field means "leave unchanged".
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AppStoreVersionLocalizationField, LocalizationFileFormat, LocalizationTexts } from '../types/index.js';
+import { escapeCsv } from '../utils/index.js';
+
+// Fields in the order they are written
+export const LOCALIZATION_FIELDS: AppStoreVersionLocalizationField[] = [
+  'description',
+  'keywords',
+  'whatsNew',
+  'promotionalText',
+  'marketingUrl',
+  'supportUrl',
+];
+
+// Longest text App Store Connect accepts for each field, in characters
+export const LOCALIZATION_FIELD_LIMITS: Partial<Record<AppStoreVersionLocalizationField, number>> = {
+  description: 4000,
+  keywords: 100,
+  whatsNew: 4000,
+  promotionalText: 170,
+};
+
+const isField = (name: string): name is AppStoreVersionLocalizationField =>
+  (LOCALIZATION_FIELDS as string[]).includes(name);
+
+const invalidFile = (format: LocalizationFileFormat, message: string) =>
+  new McpError(ErrorCode.InvalidParams, `Invalid ${format.toUpperCase()} localization file: ${message}`);
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(text.trim());
+  if (cdata) {
+    return cdata[1];
+  }
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+const xmlAttribute = (attributes: string, name: string) =>
+  new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+
+/**
+ * Splits CSV text into records, honouring quoted fields with commas, quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(fields => fields.some(value => value !== ''));
+}
+
+/**
+ * Writes the texts of each locale in a localization file format
+ *
+ * XLIFF needs a source locale, whose texts become the source of every other locale's
+ * trans-units; the source locale gets no file of its own.
+ */
+export function writeLocalizationFile(
+  texts: Record<string, LocalizationTexts>,
+  format: LocalizationFileFormat,
+  options: { sourceLocale?: string; original?: string } = {}
+): string {
+  const locales = Object.keys(texts).sort();
+
+  if (format === 'json') {
+    return JSON.stringify(
+      Object.fromEntries(locales.map(locale => [
+        locale,
+        Object.fromEntries(LOCALIZATION_FIELDS.map(field => [field, texts[locale][field] ?? '']))
+      ])),
+      null,
+      2
+    );
+  }
+
+  if (format === 'csv') {
+    return [
+      ['locale', ...LOCALIZATION_FIELDS].join(','),
+      ...locales.map(locale => [locale, ...LOCALIZATION_FIELDS.map(field => texts[locale][field] ?? '')].map(escapeCsv).join(',')),
+    ].join('\n');
+  }
+
+  const { sourceLocale = locales[0], original = 'appStoreVersionLocalizations' } = options;
+  const source = texts[sourceLocale] ?? {};
+  const files = locales.filter(locale => locale !== sourceLocale).map(locale => {
+    const units = LOCALIZATION_FIELDS.map(field => {
+      const target = texts[locale][field];
+      return [
+        `      <trans-unit id="${field}" xml:space="preserve">`,
+        `        <source>${escapeXml(source[field] ?? '')}</source>`,
+        ...(target ? [`        <target>${escapeXml(target)}</target>`] : []),
+        '      </trans-unit>',
+      ].join('\n');
+    });
+    return [
+      `  <file original="${escapeXml(original)}" source-language="${escapeXml(sourceLocale)}" target-language="${escapeXml(locale)}" datatype="plaintext">`,
+      '    <body>',
+      ...units,
+      '    </body>',
+      '  </file>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    ...files,
+    '</xliff>',
+  ].join('\n');
+}
+
+/**
+ * Reads the texts of each locale from a localization file, leaving out empty fields
+ * @throws McpError (InvalidParams) if the file is malformed or names an unknown field
+ */
+export function parseLocalizationFile(content: string, format: LocalizationFileFormat): Record<string, LocalizationTexts> {
+  const texts: Record<string, LocalizationTexts> = {};
+  const set = (locale: string, field: string, value: unknown) => {
+    if (!isField(field)) {
+      throw invalidFile(format, `unknown field "${field}" for ${locale}; fields are ${LOCALIZATION_FIELDS.join(', ')}`);
+    }
+    if (typeof value !== 'string') {
+      throw invalidFile(format, `${locale} ${field} must be text`);
+    }
+    texts[locale] ??= {};
+    if (value !== '') {
+      texts[locale][field] = value;
+    }
+  };
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error: any) {
+      throw invalidFile(format, error.message);
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw invalidFile(format, 'expected an object of locales');
+    }
+    for (const [locale, fields] of Object.entries(data)) {
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        throw invalidFile(format, `${locale} must be an object of fields`);
+      }
+      texts[locale] ??= {};
+      for (const [field, value] of Object.entries(fields)) {
+        set(locale, field, value ?? '');
+      }
+    }
+    return texts;
+  }
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    const localeColumn = header?.indexOf('locale') ?? -1;
+    if (localeColumn === -1) {
+      throw invalidFile(format, 'the first line must name the columns, including "locale"');
+    }
+    for (const row of rows) {
+      const locale = row[localeColumn]?.trim();
+      if (!locale) {
+        throw invalidFile(format, `a row has no locale: ${row.join(',').slice(0, 80)}`);
+      }
+      texts[locale] ??= {};
+      header.forEach((column, index) => {
+        if (index !== localeColumn) {
+          set(locale, column.trim(), row[index] ?? '');
+        }
+      });
+    }
+    return texts;
+  }
+
+  const files = Array.from(content.matchAll(/<file\b([^>]*)>([\s\S]*?)<\/file>/g));
+  if (files.length === 0) {
+    throw invalidFile(format, 'no <file> elements');
+  }
+  for (const [, attributes, body] of files) {
+    const locale = xmlAttribute(attributes, 'target-language');
+    if (!locale) {
+      throw invalidFile(format, 'a <file> has no target-language');
+    }
+    texts[locale] ??= {};
+    for (const [, unitAttributes, unit] of body.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+      const field = xmlAttribute(unitAttributes, 'id') ?? '';
+      const target = /<target\b[^>]*>([\s\S]*?)<\/target>/.exec(unit);
+      set(locale, field, target ? unescapeXml(target[1]) : '');
+    }
+  }
+  return texts;
+}
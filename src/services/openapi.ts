@@ -0,0 +1,277 @@
+import fs from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { moduleRoot } from '../config.js';
+import { JsonSchema, validateSchema, formatSchemaErrors } from '../utils/index.js';
+
+/**
+ * Path to Apple's App Store Connect OpenAPI specification bundled with the package
+ */
+const DEFAULT_SPEC_PATH = path.join(moduleRoot, '3.2.json');
+
+const HTTP_METHODS = ['get', 'post', 'patch', 'delete'] as const;
+
+export type ApiOperationMethod = 'GET' | 'POST' | 'PATCH' | 'DELETE';
+
+export interface ApiParameter {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface ApiOperation {
+  operationId: string;
+  method: ApiOperationMethod;
+  path: string;
+  tags: string[];
+  deprecated: boolean;
+  parameters: ApiParameter[];
+  requestBody?: {
+    required: boolean;
+    schema: JsonSchema;
+  };
+}
+
+export interface PreparedApiCall {
+  method: ApiOperationMethod;
+  url: string;
+  params: Record<string, string>;
+  body?: unknown;
+}
+
+interface OpenApiSpec {
+  servers?: Array<{ url: string }>;
+  paths: Record<string, Record<string, any>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+/**
+ * OpenApiCatalog indexes the operations in the bundled App Store Connect OpenAPI spec
+ *
+ * The spec is several megabytes, so it is read lazily on first use and kept in memory
+ * afterwards. The catalog can search operations, describe their parameters and turn a
+ * set of arguments into a validated request for AppStoreConnectClient.
+ */
+export class OpenApiCatalog {
+  private spec: OpenApiSpec | null = null;
+  private operations: Map<string, ApiOperation> | null = null;
+
+  constructor(private specPath: string = DEFAULT_SPEC_PATH) {}
+
+  /**
+   * Base URL of the API (the spec's paths include the version prefix, e.g. /v1)
+   */
+  get serverUrl(): string {
+    return (this.load().servers?.[0]?.url ?? 'https://api.appstoreconnect.apple.com/').replace(/\/$/, '');
+  }
+
+  listOperations(): ApiOperation[] {
+    this.load();
+    return Array.from(this.operations!.values());
+  }
+
+  getOperation(operationId: string): ApiOperation | undefined {
+    this.load();
+    return this.operations!.get(operationId);
+  }
+
+  /**
+   * Lists every tag used by the spec, with the number of operations for each
+   */
+  listTags(): Array<{ tag: string; operations: number }> {
+    const counts = new Map<string, number>();
+    for (const operation of this.listOperations()) {
+      for (const tag of operation.tags) {
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    return Array.from(counts, ([tag, operations]) => ({ tag, operations })).sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Finds operations whose operationId, path or tags contain every keyword of the query
+   */
+  searchOperations(criteria: {
+    query?: string;
+    tag?: string;
+    method?: ApiOperationMethod;
+    includeDeprecated?: boolean;
+  }): ApiOperation[] {
+    const { query, tag, method, includeDeprecated = false } = criteria;
+    const keywords = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    return this.listOperations().filter(operation => {
+      if (!includeDeprecated && operation.deprecated) return false;
+      if (method && operation.method !== method) return false;
+      if (tag && !operation.tags.some(t => t.toLowerCase() === tag.toLowerCase())) return false;
+
+      const haystack = [operation.operationId, operation.path, ...operation.tags].join(' ').toLowerCase();
+      return keywords.every(keyword => haystack.includes(keyword));
+    });
+  }
+
+  /**
+   * Resolves a local `#/components/schemas/...` reference
+   */
+  resolveRef(ref: string): JsonSchema | undefined {
+    const name = ref.replace('#/components/schemas/', '');
+    return this.load().components.schemas[name];
+  }
+
+  /**
+   * Returns a schema with `$ref`s inlined up to the given depth, for presenting to an agent
+   */
+  expandSchema(schema: JsonSchema, depth = 4): JsonSchema {
+    if (schema.$ref) {
+      const resolved = this.resolveRef(schema.$ref);
+      if (!resolved || depth <= 0) return { $ref: schema.$ref };
+      return this.expandSchema(resolved, depth - 1);
+    }
+
+    const expanded: JsonSchema = { ...schema };
+    if (schema.properties) {
+      expanded.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, this.expandSchema(value, depth)])
+      );
+    }
+    if (schema.items) {
+      expanded.items = this.expandSchema(schema.items, depth);
+    }
+    for (const keyword of ['oneOf', 'anyOf', 'allOf'] as const) {
+      if (schema[keyword]) {
+        expanded[keyword] = schema[keyword]!.map(subschema => this.expandSchema(subschema, depth));
+      }
+    }
+    return expanded;
+  }
+
+  /**
+   * Validates arguments against an operation and builds the request to send
+   * @throws McpError (InvalidParams) listing every parameter or body violation
+   */
+  prepareCall(operationId: string, args: {
+    pathParameters?: Record<string, unknown>;
+    queryParameters?: Record<string, unknown>;
+    body?: unknown;
+  }): PreparedApiCall {
+    const operation = this.getOperation(operationId);
+    if (!operation) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown operationId: ${operationId}. Use search_api_operations to find valid operation IDs.`
+      );
+    }
+
+    const { pathParameters = {}, queryParameters = {}, body } = args;
+    const errors: string[] = [];
+    const resolveRef = (ref: string) => this.resolveRef(ref);
+
+    let url = operation.path;
+    const params: Record<string, string> = {};
+
+    for (const parameter of operation.parameters) {
+      const source = parameter.in === 'path' ? pathParameters : queryParameters;
+      const value = source[parameter.name];
+
+      if (value === undefined || value === null || value === '') {
+        if (parameter.required) {
+          errors.push(`${parameter.in} parameter '${parameter.name}' is required`);
+        }
+        continue;
+      }
+
+      // Accept comma-separated strings for array parameters, as agents often send them that way
+      const candidate = parameter.schema.type === 'array' && typeof value === 'string' ? value.split(',') : value;
+      const violations = validateSchema(candidate, parameter.schema, { resolveRef }, parameter.name);
+      if (violations.length > 0) {
+        errors.push(`${parameter.in} parameter ${formatSchemaErrors(violations)}`);
+        continue;
+      }
+
+      const serialized = Array.isArray(candidate) ? candidate.join(',') : String(candidate);
+      if (parameter.in === 'path') {
+        url = url.replace(`{${parameter.name}}`, encodeURIComponent(serialized));
+      } else {
+        params[parameter.name] = serialized;
+      }
+    }
+
+    const knownParameters = new Set(operation.parameters.map(parameter => `${parameter.in}:${parameter.name}`));
+    for (const name of Object.keys(pathParameters)) {
+      if (!knownParameters.has(`path:${name}`)) errors.push(`unknown path parameter '${name}'`);
+    }
+    for (const name of Object.keys(queryParameters)) {
+      if (!knownParameters.has(`query:${name}`)) errors.push(`unknown query parameter '${name}'`);
+    }
+
+    if (operation.requestBody) {
+      if (body === undefined) {
+        if (operation.requestBody.required) errors.push('request body is required');
+      } else {
+        const violations = validateSchema(body, operation.requestBody.schema, { resolveRef }, 'body');
+        if (violations.length > 0) errors.push(formatSchemaErrors(violations));
+      }
+    } else if (body !== undefined) {
+      errors.push(`${operation.method} ${operation.path} does not accept a request body`);
+    }
+
+    if (errors.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid arguments for ${operationId}: ${errors.join('; ')}`
+      );
+    }
+
+    return {
+      method: operation.method,
+      url: `${this.serverUrl}${url}`,
+      params,
+      ...(body !== undefined && { body }),
+    };
+  }
+
+  private load(): OpenApiSpec {
+    if (this.spec) {
+      return this.spec;
+    }
+
+    this.spec = JSON.parse(fs.readFileSync(this.specPath, 'utf-8')) as OpenApiSpec;
+    this.operations = new Map();
+
+    for (const [apiPath, pathItem] of Object.entries(this.spec.paths)) {
+      const sharedParameters: any[] = pathItem.parameters ?? [];
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!operation) continue;
+
+        const requestSchema = operation.requestBody?.content?.['application/json']?.schema;
+
+        this.operations.set(operation.operationId, {
+          operationId: operation.operationId,
+          method: method.toUpperCase() as ApiOperationMethod,
+          path: apiPath,
+          tags: operation.tags ?? [],
+          deprecated: operation.deprecated === true,
+          parameters: [...sharedParameters, ...(operation.parameters ?? [])].map((parameter: any) => ({
+            name: parameter.name,
+            in: parameter.in,
+            required: parameter.required === true,
+            description: parameter.description,
+            schema: parameter.schema ?? {},
+          })),
+          ...(requestSchema && {
+            requestBody: {
+              required: operation.requestBody.required === true,
+              schema: requestSchema,
+            },
+          }),
+        });
+      }
+    }
+
+    return this.spec;
+  }
+}
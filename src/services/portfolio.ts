@@ -0,0 +1,154 @@
+/**
+ * Per-app summary of sales across a vendor's apps
+ *
+ * Sales report rows name their product by Apple ID; in-app purchases name their app by
+ * the app's SKU in `parentIdentifier`. Rows are attributed to apps through those, and
+ * counted by product type: first downloads, redownloads, updates or in-app purchases.
+ */
+
+import {
+  ExchangeRates,
+  PortfolioAppSummary,
+  PortfolioEntry,
+  PortfolioMetrics,
+  ReportRow,
+  ReportTotalsEntry,
+} from '../types/index.js';
+import { addToTotals, roundAmount } from '../utils/index.js';
+import { convertAmounts } from './currency.js';
+import { salesRowMeasures } from './sales-reports.js';
+
+export interface PortfolioApp {
+  id: string;
+  name?: string;
+  bundleId?: string;
+  sku?: string;
+}
+
+// Product type identifiers, see "Product Type Identifiers" in Apple's Sales and Trends reference
+const FIRST_DOWNLOAD_TYPES = new Set(['1', '1F', '1T', 'F1', '1E', '1EP', '1EU', '1-B', 'F1-B']);
+const REDOWNLOAD_TYPES = new Set(['3', '3F', '3T', 'F3', '3-B', 'F3-B']);
+const UPDATE_TYPES = new Set(['7', '7F', '7T', 'F7']);
+const isInAppPurchase = (type: string) => type.startsWith('IA') || type.startsWith('FI');
+
+const METRICS: Array<keyof PortfolioMetrics> = [
+  'downloads', 'redownloads', 'updates', 'inAppPurchases', 'refunds', 'proceeds', 'refundedProceeds',
+];
+
+interface PeriodTally {
+  units: Record<'downloads' | 'redownloads' | 'updates' | 'inAppPurchases' | 'refunds', number>;
+  proceeds: ReportTotalsEntry;
+  refunded: ReportTotalsEntry;
+}
+
+const emptyTally = (): PeriodTally => ({
+  units: { downloads: 0, redownloads: 0, updates: 0, inAppPurchases: 0, refunds: 0 },
+  proceeds: { units: 0, proceeds: {} },
+  refunded: { units: 0, proceeds: {} },
+});
+
+const text = (value: ReportRow[string] | undefined) => value === null || value === undefined ? '' : String(value);
+
+function addRow(tally: PeriodTally, row: ReportRow): void {
+  const { units, currency, proceeds } = salesRowMeasures('SALES', row);
+  const type = text(row.productTypeIdentifier);
+
+  if (FIRST_DOWNLOAD_TYPES.has(type)) {
+    tally.units.downloads += units;
+  } else if (REDOWNLOAD_TYPES.has(type)) {
+    tally.units.redownloads += units;
+  } else if (UPDATE_TYPES.has(type)) {
+    tally.units.updates += units;
+  } else if (isInAppPurchase(type)) {
+    tally.units.inAppPurchases += units;
+  }
+
+  addToTotals(tally.proceeds, units, currency, proceeds);
+  if (units < 0) {
+    tally.units.refunds -= units;
+    addToTotals(tally.refunded, -units, currency, proceeds === undefined ? undefined : -proceeds);
+  }
+}
+
+function toMetrics(tally: PeriodTally, currency: string, exchangeRates: ExchangeRates[], unconverted: Set<string>): PortfolioMetrics {
+  const proceeds = convertAmounts(tally.proceeds.proceeds, currency, exchangeRates);
+  const refunded = convertAmounts(tally.refunded.proceeds, currency, exchangeRates);
+  [...proceeds.unconverted, ...refunded.unconverted].forEach(code => unconverted.add(code));
+
+  return { ...tally.units, proceeds: proceeds.amount, refundedProceeds: refunded.amount };
+}
+
+function compare(current: PortfolioMetrics, previous: PortfolioMetrics): PortfolioEntry {
+  const change = {} as PortfolioMetrics;
+  const percentChange = {} as PortfolioEntry['percentChange'];
+
+  for (const metric of METRICS) {
+    change[metric] = roundAmount(current[metric] - previous[metric]);
+    percentChange[metric] = previous[metric] === 0
+      ? null
+      : roundAmount(change[metric] / Math.abs(previous[metric]) * 100);
+  }
+
+  return { current, previous, change, percentChange };
+}
+
+/**
+ * Compares two periods of SALES report rows app by app
+ *
+ * Every listed app is included, even without sales; products whose app is not listed
+ * (e.g. a removed app) are summarised under their own title.
+ */
+export function summarizePortfolio(
+  apps: PortfolioApp[],
+  currentRows: ReportRow[],
+  previousRows: ReportRow[],
+  options: { currency: string; exchangeRates: ExchangeRates[] }
+): { apps: PortfolioAppSummary[]; totals: PortfolioEntry; unconvertedCurrencies: string[] } {
+  const byId = new Map(apps.map(app => [app.id, app]));
+  const bySku = new Map(apps.filter(app => app.sku).map(app => [app.sku!, app]));
+
+  const entries = new Map<string, { app: Omit<PortfolioAppSummary, keyof PortfolioEntry>; current: PeriodTally; previous: PeriodTally }>();
+  const entryFor = (key: string, app: Omit<PortfolioAppSummary, keyof PortfolioEntry>) => {
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { app, current: emptyTally(), previous: emptyTally() };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  for (const app of apps) {
+    entryFor(app.id, { appId: app.id, name: app.name ?? app.id, bundleId: app.bundleId, sku: app.sku });
+  }
+
+  const totals = { current: emptyTally(), previous: emptyTally() };
+  const attribute = (row: ReportRow, period: 'current' | 'previous') => {
+    const parent = text(row.parentIdentifier);
+    const appleId = text(row.appleIdentifier);
+    const app = parent ? bySku.get(parent) : byId.get(appleId);
+    const entry = app
+      ? entryFor(app.id, { appId: app.id, name: app.name ?? app.id, bundleId: app.bundleId, sku: app.sku })
+      : entryFor(`unlisted:${parent || appleId}`, parent
+        ? { name: parent, sku: parent }
+        : { ...(appleId && { appId: appleId }), name: text(row.title) || appleId || 'Unknown', sku: text(row.sku) || undefined });
+
+    addRow(entry[period], row);
+    addRow(totals[period], row);
+  };
+
+  currentRows.forEach(row => attribute(row, 'current'));
+  previousRows.forEach(row => attribute(row, 'previous'));
+
+  const unconverted = new Set<string>();
+  const metrics = (tally: PeriodTally) => toMetrics(tally, options.currency, options.exchangeRates, unconverted);
+
+  const summaries = Array.from(entries.values())
+    .map(({ app, current, previous }) => ({ ...app, ...compare(metrics(current), metrics(previous)) }))
+    .sort((a, b) => b.current.proceeds - a.current.proceeds || b.current.downloads - a.current.downloads);
+
+  return {
+    apps: summaries,
+    totals: compare(metrics(totals.current), metrics(totals.previous)),
+    unconvertedCurrencies: Array.from(unconverted).sort(),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Checks of local videos before they are uploaded as app previews
+ *
+ * App Store Connect only reports a wrong length, size or codec once the upload has
+ * been processed. Reading the video's own metadata lets every problem with every
+ * file be reported before anything is uploaded.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CheckedPreview,
+  LANDSCAPE_PREVIEW_RESOLUTIONS,
+  PREVIEW_LIMITS,
+  PREVIEW_RESOLUTIONS,
+  PreviewType,
+  VideoMetadata,
+} from '../types/index.js';
+import { readVideoMetadata } from './video-metadata.js';
+
+const MIME_TYPES: Record<string, string> = {
+  '.mov': 'video/quicktime',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/x-m4v',
+};
+
+// H.264 and ProRes 422 HQ
+const ACCEPTED_CODECS = new Set(['avc1', 'avc3', 'apch']);
+
+const TIME_CODE = /^(\d{2}):(\d{2}):(\d{2}):(\d{2})$/;
+
+/**
+ * A video that cannot be used as an app preview; the message names the file and every problem
+ */
+export class PreviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PreviewError';
+  }
+}
+
+/**
+ * Pixel sizes a preview type accepts, in both orientations where the device turns
+ */
+export function previewResolutions(previewType: PreviewType): Array<{ width: number; height: number }> {
+  const landscape = LANDSCAPE_PREVIEW_RESOLUTIONS[previewType];
+  if (landscape) {
+    return [landscape];
+  }
+  return (PREVIEW_RESOLUTIONS[previewType] ?? [])
+    .flatMap(({ width, height }) => [{ width, height }, { width: height, height: width }]);
+}
+
+/**
+ * Seconds into the video of a poster frame time code (HH:MM:SS:FF), ignoring the frame number
+ */
+export function timeCodeSeconds(timeCode: string): number | undefined {
+  const match = TIME_CODE.exec(timeCode);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : undefined;
+}
+
+/**
+ * Reads a video's metadata and checks its format, length and size for a preview type
+ * @throws PreviewError listing every problem found
+ */
+export async function checkPreviewFile(
+  filePath: string,
+  previewType: PreviewType,
+  previewFrameTimeCode?: string
+): Promise<CheckedPreview> {
+  const fileName = path.basename(filePath);
+  const mimeType = MIME_TYPES[path.extname(fileName).toLowerCase()];
+  const resolutions = previewResolutions(previewType);
+  if (resolutions.length === 0) {
+    throw new PreviewError(`${fileName}: no preview sizes are known for ${previewType}`);
+  }
+  if (!mimeType) {
+    throw new PreviewError(`${fileName}: app previews must be .mov, .mp4 or .m4v files`);
+  }
+
+  let fileSize: number;
+  let metadata: VideoMetadata;
+  try {
+    fileSize = (await fs.stat(filePath)).size;
+    metadata = await readVideoMetadata(filePath);
+  } catch (error: any) {
+    throw new PreviewError(`${fileName}: cannot read the video (${error.code ?? error.message})`);
+  }
+
+  const problems: string[] = [];
+  const { durationSeconds, width, height, codec } = metadata;
+  const { minDurationSeconds, maxDurationSeconds, maxFileBytes } = PREVIEW_LIMITS;
+  if (durationSeconds < minDurationSeconds || durationSeconds > maxDurationSeconds) {
+    problems.push(`lasts ${durationSeconds.toFixed(1)}s; previews last ${minDurationSeconds} to ${maxDurationSeconds} seconds`);
+  }
+  if (!resolutions.some(resolution => resolution.width === width && resolution.height === height)) {
+    problems.push(`is ${width}x${height}; ${previewType} previews are ${resolutions.map(({ width, height }) => `${width}x${height}`).join(' or ')}`);
+  }
+  if (codec && !ACCEPTED_CODECS.has(codec)) {
+    problems.push(`uses the ${codec} codec; previews must be H.264 or ProRes 422 HQ`);
+  }
+  if (fileSize > maxFileBytes) {
+    problems.push(`is ${Math.ceil(fileSize / 1024 / 1024)} MB; previews are at most ${maxFileBytes / 1024 / 1024} MB`);
+  }
+  if (previewFrameTimeCode !== undefined) {
+    const seconds = timeCodeSeconds(previewFrameTimeCode);
+    if (seconds === undefined) {
+      problems.push(`poster frame ${previewFrameTimeCode} is not a time code (HH:MM:SS:FF)`);
+    } else if (seconds > durationSeconds) {
+      problems.push(`poster frame ${previewFrameTimeCode} is after the end of the video`);
+    }
+  }
+  if (problems.length > 0) {
+    throw new PreviewError(`${fileName} ${problems.join('; ')}`);
+  }
+
+  return { filePath, fileName, fileSize, mimeType, ...metadata };
+}
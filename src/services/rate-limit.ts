@@ -0,0 +1,84 @@
+import { RateLimitStatus } from '../types/index.js';
+
+/**
+ * Retry policy applied by AppStoreConnectClient to throttled or failed requests
+ *
+ * Delays grow exponentially from `baseDelayMs` (doubling per attempt) and are capped at
+ * `maxDelayMs`. A `Retry-After` header from Apple takes precedence over the computed
+ * delay; when it asks for a longer wait than `maxDelayMs` the request is not retried,
+ * since the hourly quota will not recover within a single tool call.
+ *
+ * Throttled requests (`retryableStatuses`) never reached Apple's handlers, so any method is
+ * retried. A server error does not prove a write failed, so `idempotentRetryableStatuses`
+ * are only retried for methods that can safely run twice (GET, PUT).
+ */
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryableStatuses: number[];
+  idempotentRetryableStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryableStatuses: [429],
+  idempotentRetryableStatuses: [500, 503],
+};
+
+/**
+ * Parses Apple's `X-Rate-Limit` header
+ *
+ * The header looks like `user-hour-lim:3600;user-hour-rem:3599;`.
+ * Unknown or malformed entries are ignored.
+ */
+export function parseRateLimitHeader(header: string | undefined | null): Pick<RateLimitStatus, 'limit' | 'remaining'> | null {
+  if (!header) return null;
+
+  const status: Pick<RateLimitStatus, 'limit' | 'remaining'> = {};
+
+  for (const entry of String(header).split(';')) {
+    const [key, rawValue] = entry.split(':').map(part => part?.trim());
+    const value = Number(rawValue);
+    if (!key || !Number.isFinite(value)) continue;
+
+    if (key === 'user-hour-lim') {
+      status.limit = value;
+    } else if (key === 'user-hour-rem') {
+      status.remaining = value;
+    }
+  }
+
+  return status.limit === undefined && status.remaining === undefined ? null : status;
+}
+
+/**
+ * Parses a `Retry-After` header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(header: string | undefined | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Computes the exponential backoff delay for a retry attempt (0-based) with equal jitter:
+ * half of the capped exponential delay is fixed, the other half is random.
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const half = exponential / 2;
+  return Math.round(half + random() * half);
+}
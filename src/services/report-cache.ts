@@ -0,0 +1,83 @@
+/**
+ * On-disk cache of downloaded reports
+ *
+ * Sales, finance and analytics reports never change once Apple publishes them, so each
+ * downloaded report is kept as a JSON file under the cache directory, at a path built
+ * from its key (kind, vendor number or report, date), and read from there instead of
+ * being downloaded again. The decompressed text is stored rather than parsed rows, so
+ * parser changes apply to cached reports too.
+ *
+ * A report Apple answered 404 for (e.g. a day without sales) is cached as missing, but
+ * only once its period is settled: before that, the report may still be published.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface ReportCacheEntry<T> {
+  key: string[];
+  cachedAt: string; // ISO 8601
+  body: T | null; // null when Apple has no report for the key
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after a period ends during which Apple may still publish its report
+const DAILY_SETTLE_DAYS = 7;
+const MONTHLY_SETTLE_DAYS = 45; // Fiscal months end up to a week after calendar months
+
+/**
+ * Tells whether a missing report for a date (YYYY-MM-DD), month (YYYY-MM) or year
+ * (YYYY) is final, and so may be cached as missing
+ */
+export function isReportSettled(reportDate: string, now: Date = new Date()): boolean {
+  const [year, month, day] = reportDate.split('-').map(Number);
+  const periodEnd = day
+    ? Date.UTC(year, month - 1, day + 1)
+    : Date.UTC(month ? year : year + 1, month ?? 0, 1);
+  const settleDays = day ? DAILY_SETTLE_DAYS : MONTHLY_SETTLE_DAYS;
+
+  return now.getTime() >= periodEnd + settleDays * DAY_MS;
+}
+
+export class ReportCache {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Reads a cached report, or returns undefined if the key is not cached (or the file is unreadable)
+   */
+  async get<T>(key: string[]): Promise<ReportCacheEntry<T> | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a report, or null to record that Apple has none
+   *
+   * The file is written under a temporary name and renamed, so concurrent readers never
+   * see a partial report. Failing to write only costs a download later, so it is logged
+   * rather than thrown.
+   */
+  async set<T>(key: string[], body: T | null): Promise<void> {
+    const file = this.filePath(key);
+    const entry: ReportCacheEntry<T> = { key, cachedAt: new Date().toISOString(), body };
+    const temporary = `${file}.${process.pid}.tmp`;
+
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(temporary, JSON.stringify(entry));
+      await fs.rename(temporary, file);
+    } catch (error: any) {
+      console.error(`Failed to cache report ${key.join('/')}:`, error.message);
+    }
+  }
+
+  // Key parts become directories, with characters unsafe in file names replaced
+  private filePath(key: string[]): string {
+    const parts = key.map(part => part.replace(/[^A-Za-z0-9_.-]/g, '_').replace(/^\.+/, '_'));
+    return `${path.join(this.directory, ...parts)}.json`;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Pre-flight checks for App Store versions about to be submitted for review
+ *
+ * App Store Connect only rejects an incomplete submission once it has been submitted,
+ * one problem at a time. These checks look at the version, its build, localizations
+ * and App Review information together, so every gap can be fixed before submitting.
+ */
+
+import {
+  AppStoreVersionResponse,
+  ReviewSubmissionCheck,
+  ReviewSubmissionIssue,
+  ReviewSubmissionPreflight,
+} from '../types/index.js';
+import type * as Spec from '../types/generated/app-store-connect.js';
+
+// States in which a version's metadata can be edited and the version submitted
+export const SUBMITTABLE_VERSION_STATES: ReadonlySet<Spec.AppStoreVersionState> = new Set<Spec.AppStoreVersionState>([
+  'PREPARE_FOR_SUBMISSION',
+  'DEVELOPER_REJECTED',
+  'REJECTED',
+  'METADATA_REJECTED',
+  'INVALID_BINARY',
+]);
+
+const REQUIRED_LOCALIZATION_FIELDS = ['description', 'keywords', 'supportUrl'] as const;
+
+const REQUIRED_CONTACT_FIELDS = ['contactFirstName', 'contactLastName', 'contactPhone', 'contactEmail'] as const;
+
+const isBlank = (value: string | null | undefined) => !value || !value.trim();
+
+/**
+ * Checks a version fetched with its build, localizations and App Review details included
+ */
+export function checkVersionForReview(response: AppStoreVersionResponse): ReviewSubmissionPreflight {
+  const { data: version, included = [] } = response;
+  const { versionString, platform, appStoreState, copyright } = version.attributes ?? {};
+  const issues: ReviewSubmissionIssue[] = [];
+  const error = (check: ReviewSubmissionCheck, message: string, locale?: string) =>
+    issues.push({ check, severity: 'error', message, ...(locale && { locale }) });
+  const warning = (check: ReviewSubmissionCheck, message: string, locale?: string) =>
+    issues.push({ check, severity: 'warning', message, ...(locale && { locale }) });
+
+  if (appStoreState && !SUBMITTABLE_VERSION_STATES.has(appStoreState)) {
+    error('version', `Version is ${appStoreState}; only versions being prepared or rejected can be submitted`);
+  }
+  if (isBlank(copyright)) {
+    error('version', 'Copyright is missing');
+  }
+
+  const buildId = version.relationships?.build?.data?.id;
+  const build = included.find((resource): resource is Spec.Build => resource.type === 'builds' && resource.id === buildId);
+  if (!buildId) {
+    error('build', 'No build is attached to the version');
+  } else if (build) {
+    const { processingState, expired, usesNonExemptEncryption, version: buildNumber } = build.attributes ?? {};
+    const name = buildNumber ? `Build ${buildNumber}` : 'The build';
+    if (processingState && processingState !== 'VALID') {
+      error('build', `${name} is ${processingState}; only processed (VALID) builds can be submitted`);
+    }
+    if (expired) {
+      error('build', `${name} has expired`);
+    }
+    if (usesNonExemptEncryption === undefined || usesNonExemptEncryption === null) {
+      error('build', `${name} has no export compliance answer (usesNonExemptEncryption)`);
+    }
+  }
+
+  const localizations = included.filter(
+    (resource): resource is Spec.AppStoreVersionLocalization => resource.type === 'appStoreVersionLocalizations'
+  );
+  if (localizations.length === 0) {
+    error('localizations', 'The version has no localizations');
+  }
+  for (const localization of localizations) {
+    const attributes = localization.attributes ?? {};
+    const locale = attributes.locale ?? localization.id;
+    for (const field of REQUIRED_LOCALIZATION_FIELDS) {
+      if (isBlank(attributes[field])) {
+        error('localizations', `${field} is missing`, locale);
+      }
+    }
+    if (isBlank(attributes.whatsNew)) {
+      warning('localizations', "whatsNew is missing; it is required for every version but an app's first", locale);
+    }
+  }
+
+  const reviewDetail = included.find(
+    (resource): resource is Spec.AppStoreReviewDetail => resource.type === 'appStoreReviewDetails'
+  );
+  if (!reviewDetail) {
+    error('reviewDetail', 'The version has no App Review information (contact and demo account)');
+  } else {
+    const attributes = reviewDetail.attributes ?? {};
+    for (const field of REQUIRED_CONTACT_FIELDS) {
+      if (isBlank(attributes[field])) {
+        error('reviewDetail', `${field} is missing`);
+      }
+    }
+    if (attributes.demoAccountRequired && (isBlank(attributes.demoAccountName) || isBlank(attributes.demoAccountPassword))) {
+      error('reviewDetail', 'A demo account is required but its name or password is missing');
+    }
+  }
+
+  return {
+    appStoreVersionId: version.id,
+    versionString,
+    platform,
+    appStoreState,
+    ...(buildId && { buildId }),
+    ready: !issues.some(issue => issue.severity === 'error'),
+    issues,
+  };
+}
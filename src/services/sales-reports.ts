@@ -0,0 +1,201 @@
+/**
+ * Parsing of Sales and Trends reports
+ *
+ * Reports are parsed by their header line, so columns Apple adds in later report
+ * versions are kept (as strings). The tables below only list how known columns are
+ * typed and which columns the totals are computed from.
+ */
+
+import {
+  ExchangeRates,
+  ReportColumnType,
+  ReportOutputFormat,
+  ReportRow,
+  SalesReportFrequency,
+  SalesReportResponse,
+  SalesReportRows,
+  SalesReportSubType,
+  SalesReportTotals,
+  SalesReportType,
+} from '../types/index.js';
+import { addToTotals, decompressReport, parseReportRows, toCsv, totalsEntry } from '../utils/index.js';
+import { convertReportTotals } from './currency.js';
+
+/**
+ * Sub-type and version requested when the caller does not name one
+ */
+export const SALES_REPORT_DEFAULTS: Record<SalesReportType, { reportSubType: SalesReportSubType; version: string }> = {
+  SALES: { reportSubType: 'SUMMARY', version: '1_0' },
+  PRE_ORDER: { reportSubType: 'SUMMARY', version: '1_0' },
+  NEWSSTAND: { reportSubType: 'DETAILED', version: '1_0' },
+  SUBSCRIPTION: { reportSubType: 'SUMMARY', version: '1_3' },
+  SUBSCRIPTION_EVENT: { reportSubType: 'SUMMARY', version: '1_3' },
+  SUBSCRIBER: { reportSubType: 'DETAILED', version: '1_3' },
+};
+
+const SALES_COLUMNS: Record<string, ReportColumnType> = {
+  'Units': 'integer',
+  'Developer Proceeds': 'decimal',
+  'Customer Price': 'decimal',
+  'Begin Date': 'date',
+  'End Date': 'date',
+};
+
+const SUBSCRIPTION_PRICE_COLUMNS: Record<string, ReportColumnType> = {
+  'Customer Price': 'decimal',
+  'Developer Proceeds': 'decimal',
+};
+
+// Column types by report type; unlisted columns are strings
+const COLUMN_TYPES: Record<SalesReportType, Record<string, ReportColumnType>> = {
+  SALES: SALES_COLUMNS,
+  NEWSSTAND: {
+    ...SALES_COLUMNS,
+    'Download Date (PST)': 'date',
+    'Report Date (Local)': 'date',
+  },
+  PRE_ORDER: {
+    'Pre-Order Start Date': 'date',
+    'Pre-Order End Date': 'date',
+    'Start Date': 'date',
+    'End Date': 'date',
+    'Ordered': 'integer',
+    'Canceled': 'integer',
+    'Cumulative Ordered': 'integer',
+    'Cumulative Canceled': 'integer',
+  },
+  SUBSCRIPTION: {
+    ...SUBSCRIPTION_PRICE_COLUMNS,
+    'Active Standard Price Subscriptions': 'integer',
+    'Active Free Trial Introductory Offer Subscriptions': 'integer',
+    'Active Pay Up Front Introductory Offer Subscriptions': 'integer',
+    'Active Pay As You Go Introductory Offer Subscriptions': 'integer',
+    'Free Trial Promotional Offer Subscriptions': 'integer',
+    'Pay Up Front Promotional Offer Subscriptions': 'integer',
+    'Pay As You Go Promotional Offer Subscriptions': 'integer',
+    'Free Trial Offer Code Subscriptions': 'integer',
+    'Pay Up Front Offer Code Subscriptions': 'integer',
+    'Pay As You Go Offer Code Subscriptions': 'integer',
+    'Marketing Opt-Ins': 'integer',
+    'Billing Retry': 'integer',
+    'Grace Period': 'integer',
+    'Subscribers': 'integer',
+  },
+  SUBSCRIPTION_EVENT: {
+    'Event Date': 'date',
+    'Original Start Date': 'date',
+    'Consecutive Paid Periods': 'integer',
+    'Days Before Canceling': 'integer',
+    'Days Canceled': 'integer',
+    'Quantity': 'integer',
+    'Paid Service Days Recovered': 'integer',
+  },
+  SUBSCRIBER: {
+    ...SUBSCRIPTION_PRICE_COLUMNS,
+    'Event Date': 'date',
+    'Purchase Date': 'date',
+    'Units': 'integer',
+  },
+};
+
+interface TotalsColumns {
+  units: string;
+  proceeds?: string; // Proceeds per unit
+  currency?: string; // Currency of the proceeds
+  product: string[]; // First non-empty field names the product
+  country: string;
+}
+
+// Fields the totals are computed from, by report type
+const TOTALS_COLUMNS: Record<SalesReportType, TotalsColumns> = {
+  SALES: { units: 'units', proceeds: 'developerProceeds', currency: 'currencyOfProceeds', product: ['title', 'sku'], country: 'countryCode' },
+  NEWSSTAND: { units: 'units', proceeds: 'developerProceeds', currency: 'currencyOfProceeds', product: ['title', 'sku'], country: 'countryCode' },
+  PRE_ORDER: { units: 'ordered', product: ['title', 'sku'], country: 'countryCode' },
+  SUBSCRIPTION: { units: 'subscribers', currency: 'proceedsCurrency', product: ['subscriptionName', 'subscriptionAppleId'], country: 'country' },
+  SUBSCRIPTION_EVENT: { units: 'quantity', product: ['subscriptionName', 'subscriptionAppleId'], country: 'country' },
+  SUBSCRIBER: { units: 'units', proceeds: 'developerProceeds', currency: 'proceedsCurrency', product: ['subscriptionName', 'subscriptionAppleId'], country: 'country' },
+};
+
+/**
+ * Reads the units, proceeds, product and country of one report row
+ *
+ * Proceeds are per unit in Apple's reports, so a row's proceeds are proceeds × units
+ * (refunds have negative units).
+ */
+export function salesRowMeasures(reportType: SalesReportType, row: ReportRow): {
+  units: number;
+  currency?: string;
+  proceeds?: number;
+  product: string;
+  country: string;
+} {
+  const columns = TOTALS_COLUMNS[reportType];
+  const units = typeof row[columns.units] === 'number' ? row[columns.units] as number : 0;
+  const perUnit = columns.proceeds ? row[columns.proceeds] : undefined;
+  const product = columns.product.map(field => row[field]).find(value => value !== null && value !== '') ?? 'Unknown';
+
+  return {
+    units,
+    currency: columns.currency ? String(row[columns.currency] ?? '') || undefined : undefined,
+    proceeds: typeof perUnit === 'number' ? perUnit * units : undefined,
+    product: String(product),
+    country: String(row[columns.country] ?? 'Unknown'),
+  };
+}
+
+/**
+ * Sums units and proceeds over the rows of a report, overall and by product, country and currency
+ */
+export function computeSalesReportTotals(reportType: SalesReportType, rows: ReportRow[]): SalesReportTotals {
+  const totals: SalesReportTotals = {
+    rowCount: rows.length,
+    units: 0,
+    proceeds: {},
+    byProduct: {},
+    byCountry: {},
+    ...(TOTALS_COLUMNS[reportType].currency && { byCurrency: {} }),
+  };
+
+  for (const row of rows) {
+    const { units, currency, proceeds, product, country } = salesRowMeasures(reportType, row);
+
+    addToTotals(totals, units, currency, proceeds);
+    addToTotals(totalsEntry(totals.byProduct, product), units, currency, proceeds);
+    addToTotals(totalsEntry(totals.byCountry, country), units, currency, proceeds);
+    if (totals.byCurrency && currency) {
+      addToTotals(totalsEntry(totals.byCurrency, currency), units, currency, proceeds);
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Decompresses and parses a downloaded sales report
+ */
+export function parseSalesReport<T extends SalesReportType>(
+  body: Buffer | string,
+  options: {
+    reportType: T;
+    reportSubType: SalesReportSubType;
+    frequency: SalesReportFrequency;
+    reportDate: string;
+    version: string;
+    format?: ReportOutputFormat;
+    conversion?: { currency: string; exchangeRates: ExchangeRates[] };
+  }
+): SalesReportResponse<T> {
+  const { format = 'json', conversion, ...report } = options;
+  const { columns, rows } = parseReportRows(decompressReport(body), COLUMN_TYPES[report.reportType]);
+  const totals = computeSalesReportTotals(report.reportType, rows);
+
+  return {
+    ...report,
+    columns: columns.map(column => column.field),
+    ...(format === 'csv'
+      ? { csv: toCsv(columns, rows) }
+      : { rows: rows as SalesReportRows[T][] }),
+    totals,
+    ...(conversion && { converted: convertReportTotals(totals, conversion.currency, conversion.exchangeRates) }),
+  };
+}
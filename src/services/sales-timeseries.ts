@@ -0,0 +1,88 @@
+/**
+ * Aggregation of daily sales reports into time series
+ */
+
+import {
+  ExchangeRates,
+  ReportRow,
+  ReportTotalsEntry,
+  SalesReportType,
+  SalesTimeseries,
+  SalesTimeseriesDimension,
+  SalesTimeseriesPoint,
+} from '../types/index.js';
+import { addToTotals } from '../utils/index.js';
+import { convertAmounts } from './currency.js';
+import { salesRowMeasures } from './sales-reports.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lists the dates (YYYY-MM-DD) from start to end, inclusive
+ */
+export function reportDatesInRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  for (let time = Date.parse(`${startDate}T00:00:00Z`); time <= Date.parse(`${endDate}T00:00:00Z`); time += DAY_MS) {
+    dates.push(new Date(time).toISOString().slice(0, 10));
+  }
+  return dates;
+}
+
+/**
+ * Sums units and proceeds of daily reports by the given dimensions
+ *
+ * Points are ordered by date (when grouped by date), then by units, largest first.
+ * With a conversion, each point's proceeds are also summed into one currency.
+ */
+export function aggregateSalesTimeseries(
+  reportType: SalesReportType,
+  days: Array<{ date: string; rows: ReportRow[] }>,
+  groupBy: SalesTimeseriesDimension[],
+  conversion?: { currency: string; exchangeRates: ExchangeRates[] }
+): Pick<SalesTimeseries, 'points' | 'totals' | 'converted'> {
+  const points = new Map<string, SalesTimeseriesPoint>();
+  const totals: ReportTotalsEntry = { units: 0, proceeds: {} };
+
+  for (const { date, rows } of days) {
+    for (const row of rows) {
+      const { units, currency, proceeds, product, country } = salesRowMeasures(reportType, row);
+      const values: Record<SalesTimeseriesDimension, string> = { date, product, country, currency: currency ?? 'Unknown' };
+      const key = JSON.stringify(groupBy.map(dimension => values[dimension]));
+
+      let point = points.get(key);
+      if (!point) {
+        point = { ...Object.fromEntries(groupBy.map(dimension => [dimension, values[dimension]])), units: 0, proceeds: {} };
+        points.set(key, point);
+      }
+
+      addToTotals(point, units, currency, proceeds);
+      addToTotals(totals, units, currency, proceeds);
+    }
+  }
+
+  const sorted = Array.from(points.values())
+    .sort((a, b) => (a.date ?? '').localeCompare(b.date ?? '') || b.units - a.units);
+
+  if (!conversion) {
+    return { points: sorted, totals };
+  }
+
+  const { currency, exchangeRates } = conversion;
+  const unconverted = new Set<string>();
+  const convert = (entry: ReportTotalsEntry) => {
+    const { amount, unconverted: missing } = convertAmounts(entry.proceeds, currency, exchangeRates);
+    missing.forEach(code => unconverted.add(code));
+    return amount;
+  };
+
+  return {
+    points: sorted.map(point => ({ ...point, convertedProceeds: convert(point) })),
+    totals,
+    converted: {
+      currency,
+      proceeds: convert(totals),
+      exchangeRates: exchangeRates.map(({ source, asOf }) => ({ source, asOf })),
+      unconvertedCurrencies: Array.from(unconverted).sort(),
+    },
+  };
+}
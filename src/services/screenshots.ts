@@ -0,0 +1,143 @@
+/**
+ * Preparing local images for upload as App Store screenshots
+ *
+ * Each display type takes images of fixed pixel sizes, in portrait or landscape, with
+ * no transparency. Images are checked against the size of their display type and,
+ * where their aspect ratio allows (or the resize mode says how to crop or pad them),
+ * scaled to it. Images already in the right size and format are uploaded unchanged.
+ *
+ * sharp is loaded on first use, so a missing native build only affects these tools.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  ImageAsset,
+  PreparedScreenshot,
+  ScreenshotDisplayType,
+  ScreenshotResizeMode,
+  SCREENSHOT_DIMENSIONS,
+} from '../types/index.js';
+
+// Aspect ratios this close to the display type's are scaled even in strict mode
+const ASPECT_RATIO_TOLERANCE = 0.01;
+
+const WHITE = { r: 255, g: 255, b: 255, alpha: 1 };
+
+/**
+ * An image that cannot be used as a screenshot; the message names the file
+ */
+export class ScreenshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScreenshotError';
+  }
+}
+
+/**
+ * Pixel size an image must have for a display type, in the image's own orientation
+ */
+export function screenshotTargetSize(
+  displayType: ScreenshotDisplayType,
+  landscape: boolean
+): { width: number; height: number } | undefined {
+  const dimensions = SCREENSHOT_DIMENSIONS[displayType];
+  if (!dimensions) {
+    return undefined;
+  }
+  return landscape ? { width: dimensions.height, height: dimensions.width } : { ...dimensions };
+}
+
+/**
+ * URL of a processed image in a given width (scaling its height to match) and format
+ *
+ * App Store Connect serves images through a template URL with {w}, {h} and {f}
+ * placeholders; the full size is the asset's own width and height.
+ */
+export function imageAssetUrl(
+  asset: ImageAsset | undefined,
+  options: { width?: number; format?: 'png' | 'jpg' } = {}
+): string | undefined {
+  if (!asset?.templateUrl || !asset.width || !asset.height) {
+    return undefined;
+  }
+  const width = Math.min(options.width ?? asset.width, asset.width);
+  const height = Math.round(asset.height * width / asset.width);
+  return asset.templateUrl
+    .replace('{w}', String(width))
+    .replace('{h}', String(height))
+    .replace('{f}', options.format ?? 'png');
+}
+
+/**
+ * Reads an image and returns it in the size and format its display type requires
+ * @throws ScreenshotError if the file cannot be read, is not an image, or (in strict
+ *   mode) has the wrong aspect ratio
+ */
+export async function prepareScreenshot(
+  filePath: string,
+  displayType: ScreenshotDisplayType,
+  resizeMode: ScreenshotResizeMode = 'strict'
+): Promise<PreparedScreenshot> {
+  const baseName = path.basename(filePath);
+  if (!SCREENSHOT_DIMENSIONS[displayType]) {
+    throw new ScreenshotError(
+      `${baseName}: no screenshot size is known for ${displayType}; known display types are ${Object.keys(SCREENSHOT_DIMENSIONS).join(', ')}`
+    );
+  }
+
+  let source: Buffer;
+  try {
+    source = await fs.readFile(filePath);
+  } catch (error: any) {
+    throw new ScreenshotError(`${baseName}: cannot read ${filePath} (${error.code ?? error.message})`);
+  }
+
+  const { default: sharp } = await import('sharp');
+  let metadata: Awaited<ReturnType<ReturnType<typeof sharp>['metadata']>>;
+  try {
+    metadata = await sharp(source).metadata();
+  } catch (error: any) {
+    throw new ScreenshotError(`${baseName}: not a readable image (${error.message})`);
+  }
+  if (!metadata.width || !metadata.height) {
+    throw new ScreenshotError(`${baseName}: the image has no dimensions`);
+  }
+
+  // EXIF orientations 5 to 8 turn the image a quarter, swapping its sides
+  const orientation = metadata.orientation ?? 1;
+  const [sourceWidth, sourceHeight] = orientation >= 5
+    ? [metadata.height, metadata.width]
+    : [metadata.width, metadata.height];
+  const { width, height } = screenshotTargetSize(displayType, sourceWidth > sourceHeight)!;
+
+  const aspectRatio = width / height;
+  const aspectRatioMatches = Math.abs(sourceWidth / sourceHeight - aspectRatio) / aspectRatio <= ASPECT_RATIO_TOLERANCE;
+  if (!aspectRatioMatches && resizeMode === 'strict') {
+    throw new ScreenshotError(
+      `${baseName}: ${sourceWidth}x${sourceHeight} does not fit ${displayType}, which takes ${width}x${height}; ` +
+      'use resizeMode "cover" to crop or "contain" to pad it'
+    );
+  }
+
+  const format = metadata.format === 'jpeg' ? 'jpeg' : 'png';
+  const resized = sourceWidth !== width || sourceHeight !== height;
+  const flattened = Boolean(metadata.hasAlpha);
+  const fileName = metadata.format === format
+    ? baseName
+    : `${path.parse(baseName).name}.png`;
+
+  let data = source;
+  if (resized || flattened || orientation !== 1 || metadata.format !== format) {
+    let image = sharp(source).rotate();
+    if (resized) {
+      image = image.resize(width, height, { fit: resizeMode === 'contain' ? 'contain' : 'cover', background: WHITE });
+    }
+    if (flattened) {
+      image = image.flatten({ background: WHITE });
+    }
+    data = await (format === 'jpeg' ? image.jpeg({ quality: 95 }) : image.png()).toBuffer();
+  }
+
+  return { filePath, fileName, data, width, height, sourceWidth, sourceHeight, resized, flattened };
+}
@@ -0,0 +1,34 @@
+/**
+ * Looking up an App Store version's localizations by locale
+ */
+
+import { AppStoreConnectClient } from './appstore-client.js';
+import { AppStoreVersionLocalization, ListAppStoreVersionLocalizationsResponse } from '../types/index.js';
+
+/**
+ * Every localization of a version, by locale
+ */
+export async function loadVersionLocalizations(
+  client: AppStoreConnectClient,
+  appStoreVersionId: string
+): Promise<Map<string, AppStoreVersionLocalization>> {
+  const localizations = await client.getPaginated<ListAppStoreVersionLocalizationsResponse>(
+    `/appStoreVersions/${appStoreVersionId}/appStoreVersionLocalizations`,
+    { limit: 200 },
+    { allPages: true }
+  );
+  return new Map(localizations.data.flatMap(localization =>
+    localization.attributes?.locale ? [[localization.attributes.locale, localization] as const] : []
+  ));
+}
+
+/**
+ * IDs of a version's localizations, by locale
+ */
+export async function loadVersionLocalizationIds(
+  client: AppStoreConnectClient,
+  appStoreVersionId: string
+): Promise<Map<string, string>> {
+  const localizations = await loadVersionLocalizations(client, appStoreVersionId);
+  return new Map(Array.from(localizations, ([locale, localization]) => [locale, localization.id]));
+}
@@ -0,0 +1,142 @@
+/**
+ * Duration, size and codec of QuickTime and MPEG-4 videos (.mov, .mp4, .m4v)
+ *
+ * Both formats are trees of boxes (atoms): a 32-bit size and a four-character type,
+ * then the content. The movie header (moov/mvhd) holds the duration; each track's
+ * header (trak/tkhd) holds its display size and rotation matrix, and its sample
+ * description (stsd) the codec. Only the moov box is read, so large files are cheap.
+ */
+
+import fs from 'fs/promises';
+import { VideoMetadata } from '../types/index.js';
+
+// A moov box this big means the file is not a video (or is damaged)
+const MAX_MOVIE_BOX_BYTES = 64 * 1024 * 1024;
+
+interface Box {
+  type: string;
+  start: number; // Offset of the content
+  end: number;
+}
+
+function* childBoxes(buffer: Buffer, start = 0, end = buffer.length): Generator<Box> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Damaged ${type} box at offset ${offset}`);
+    }
+    yield { type, start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+function findBox(buffer: Buffer, parent: Box, path: string[]): Box | undefined {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = box && Array.from(childBoxes(buffer, box.start, box.end)).find(child => child.type === type);
+  }
+  return box;
+}
+
+/**
+ * Reads the metadata of a video from its moov box
+ * @throws Error if the data has no movie header or video track
+ */
+export function parseMovieBox(moov: Buffer): VideoMetadata {
+  const root: Box = { type: 'moov', start: 0, end: moov.length };
+
+  const mvhd = findBox(moov, root, ['mvhd']);
+  if (!mvhd) {
+    throw new Error('The movie has no header (mvhd)');
+  }
+  const mvhdVersion = moov.readUInt8(mvhd.start);
+  const timescale = moov.readUInt32BE(mvhd.start + (mvhdVersion === 1 ? 20 : 12));
+  const duration = mvhdVersion === 1
+    ? Number(moov.readBigUInt64BE(mvhd.start + 24))
+    : moov.readUInt32BE(mvhd.start + 16);
+
+  for (const trak of childBoxes(moov, root.start, root.end)) {
+    if (trak.type !== 'trak') {
+      continue;
+    }
+    const hdlr = findBox(moov, trak, ['mdia', 'hdlr']);
+    if (!hdlr || moov.toString('latin1', hdlr.start + 8, hdlr.start + 12) !== 'vide') {
+      continue;
+    }
+
+    const tkhd = findBox(moov, trak, ['tkhd']);
+    if (!tkhd) {
+      throw new Error('The video track has no header (tkhd)');
+    }
+    // Matrix, then width and height as 16.16 fixed-point numbers, close the header
+    const matrix = tkhd.end - 44;
+    const width = Math.round(moov.readUInt32BE(tkhd.end - 8) / 0x10000);
+    const height = Math.round(moov.readUInt32BE(tkhd.end - 4) / 0x10000);
+    // A quarter turn leaves the matrix's first element at zero
+    const rotated = moov.readInt32BE(matrix) === 0 && moov.readInt32BE(matrix + 4) !== 0;
+
+    const stsd = findBox(moov, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    const codec = stsd && stsd.end - stsd.start >= 16
+      ? moov.toString('latin1', stsd.start + 12, stsd.start + 16)
+      : undefined;
+
+    return {
+      durationSeconds: timescale ? duration / timescale : 0,
+      width: rotated ? height : width,
+      height: rotated ? width : height,
+      ...(codec && { codec })
+    };
+  }
+
+  throw new Error('The movie has no video track');
+}
+
+/**
+ * Reads the metadata of a video file without loading the media data
+ * @throws Error if the file is not a QuickTime or MPEG-4 video
+ */
+export async function readVideoMetadata(filePath: string): Promise<VideoMetadata> {
+  const file = await fs.open(filePath, 'r');
+  try {
+    const { size: fileSize } = await file.stat();
+    const header = Buffer.alloc(16);
+    let offset = 0;
+    while (offset + 8 <= fileSize) {
+      await file.read(header, 0, 16, offset);
+      let size = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      let headerSize = 8;
+      if (size === 1) {
+        size = Number(header.readBigUInt64BE(8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = fileSize - offset;
+      }
+      if (size < headerSize || !/^[\x20-\x7e]{4}$/.test(type)) {
+        break;
+      }
+
+      if (type === 'moov') {
+        if (size > MAX_MOVIE_BOX_BYTES) {
+          throw new Error(`The movie box is too large (${size} bytes)`);
+        }
+        const moov = Buffer.alloc(size - headerSize);
+        await file.read(moov, 0, moov.length, offset + headerSize);
+        return parseMovieBox(moov);
+      }
+      offset += size;
+    }
+    throw new Error('Not a QuickTime or MPEG-4 video (no movie box)');
+  } finally {
+    await file.close();
+  }
+}
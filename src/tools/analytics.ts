@@ -0,0 +1,413 @@
+/**
+ * Analytics, sales and finance report tools
+ */
+
+import { AppStoreConnectConfig } from '../types/index.js';
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+// Sales and finance report tools are only available when a vendor number is configured
+const hasVendorNumber = (config: AppStoreConnectConfig) => Boolean(config.vendorNumber);
+
+export const analyticsTools: ToolDefinition[] = [
+  {
+    name: "create_analytics_report_request",
+    description: "Create a new analytics report request for an app",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app to generate analytics reports for"
+        },
+        accessType: {
+          type: "string",
+          enum: ["ONGOING", "ONE_TIME_SNAPSHOT"],
+          description: "Access type for the analytics report (ONGOING for daily data, ONE_TIME_SNAPSHOT for historical data)",
+          default: "ONE_TIME_SNAPSHOT"
+        }
+      },
+      required: ["appId"]
+    },
+    handler: (args, { handlers }) => handlers.analytics.createAnalyticsReportRequest(args)
+  },
+  {
+    name: "list_analytics_reports",
+    description: "Get available analytics reports for a specific report request",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reportRequestId: {
+          type: "string",
+          description: "The ID of the analytics report request"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of reports to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        filter: {
+          type: "object",
+          properties: {
+            category: {
+              type: "string",
+              enum: ["APP_STORE_ENGAGEMENT", "APP_STORE_COMMERCE", "APP_USAGE", "FRAMEWORKS_USAGE", "PERFORMANCE"],
+              description: "Filter by report category"
+            }
+          }
+        }
+      },
+      required: ["reportRequestId"]
+    },
+    handler: (args, { handlers }) => handlers.analytics.listAnalyticsReports(args)
+  },
+  {
+    name: "list_analytics_report_segments",
+    description: "Get segments for a specific analytics report (contains download URLs)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reportId: {
+          type: "string",
+          description: "The ID of the analytics report"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of segments to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["reportId"]
+    },
+    handler: (args, { handlers }) => handlers.analytics.listAnalyticsReportSegments(args)
+  },
+  {
+    name: "download_analytics_report_segment",
+    description: "Download data from an analytics report segment URL",
+    inputSchema: {
+      type: "object",
+      properties: {
+        segmentUrl: {
+          type: "string",
+          format: "uri",
+          description: "The URL of the analytics report segment to download"
+        }
+      },
+      required: ["segmentUrl"]
+    },
+    handler: (args, { handlers }) => handlers.analytics.downloadAnalyticsReportSegment(args)
+  },
+  {
+    name: "get_analytics_report_data",
+    description: "Get the rows of an analytics report for an app in one call: finds (or creates) the app's ONGOING report request, picks the report instances in a date range, and downloads, decompresses and merges their segments",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app"
+        },
+        reportName: {
+          type: "string",
+          description: "Name of the report, e.g. 'App Store Discovery and Engagement Standard' or 'App Downloads Standard' (case-insensitive)"
+        },
+        category: {
+          type: "string",
+          enum: ["APP_STORE_ENGAGEMENT", "APP_STORE_COMMERCE", "APP_USAGE", "FRAMEWORKS_USAGE", "PERFORMANCE"],
+          description: "Only look for the report in this category"
+        },
+        granularity: {
+          type: "string",
+          enum: ["DAILY", "WEEKLY", "MONTHLY"],
+          description: "Granularity of the report instances",
+          default: "DAILY"
+        },
+        startDate: {
+          type: "string",
+          format: "date",
+          description: "First processing date to include (YYYY-MM-DD)"
+        },
+        endDate: {
+          type: "string",
+          format: "date",
+          description: "Last processing date to include (YYYY-MM-DD)"
+        },
+        createIfMissing: {
+          type: "boolean",
+          description: "Create an ONGOING report request if the app has none (its first reports take a day or two)",
+          default: true
+        },
+        maxRows: {
+          type: "number",
+          minimum: 1,
+          description: "Maximum number of rows to return (default: 1000); rowCount reports the full count",
+          default: 1000
+        },
+        format: {
+          type: "string",
+          enum: ["json", "csv"],
+          description: "Return the rows as typed JSON objects or as CSV text",
+          default: "json"
+        }
+      },
+      required: ["appId", "reportName"]
+    },
+    handler: (args, { handlers }) => handlers.analytics.getAnalyticsReportData(args)
+  },
+  {
+    name: "download_sales_report",
+    description: "Download a sales and trends report, parsed into typed rows (or CSV) with unit and proceeds totals by product, country and currency",
+    inputSchema: (config) => ({
+      type: "object",
+      properties: {
+        vendorNumber: {
+          type: "string",
+          description: "Your vendor number from App Store Connect (optional if set as environment variable)",
+          default: config.vendorNumber
+        },
+        reportType: {
+          type: "string",
+          enum: ["SALES", "SUBSCRIPTION", "SUBSCRIPTION_EVENT", "SUBSCRIBER", "PRE_ORDER", "NEWSSTAND"],
+          description: "Type of report to download. Subscription reports are only available DAILY.",
+          default: "SALES"
+        },
+        reportSubType: {
+          type: "string",
+          enum: ["SUMMARY", "DETAILED", "SUMMARY_INSTALL_TYPE", "SUMMARY_TERRITORY", "SUMMARY_CHANNEL"],
+          description: "Sub-type of the report (default: DETAILED for SUBSCRIBER and NEWSSTAND, SUMMARY otherwise)"
+        },
+        frequency: {
+          type: "string",
+          enum: ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"],
+          description: "Frequency of the report",
+          default: "MONTHLY"
+        },
+        reportDate: {
+          type: "string",
+          description: "Report date: YYYY-MM-DD for DAILY and WEEKLY, YYYY-MM for MONTHLY (e.g., '2024-01'), YYYY for YEARLY"
+        },
+        version: {
+          type: "string",
+          pattern: "^\\d+_\\d+$",
+          description: "Report format version (default: 1_3 for subscription reports, 1_0 otherwise)"
+        },
+        format: {
+          type: "string",
+          enum: ["json", "csv"],
+          description: "Return the rows as typed JSON objects or as CSV text",
+          default: "json"
+        },
+        currency: {
+          type: "string",
+          pattern: "^[A-Z]{3}$",
+          description: "Also total the proceeds in this currency (ISO 4217 code), at the exchange rates of Apple's financial report for the month where available"
+        }
+      },
+      required: ["reportDate"],
+      // The date format depends on the frequency, which defaults to MONTHLY
+      allOf: [
+        {
+          if: { properties: { frequency: { enum: ["DAILY", "WEEKLY"] } }, required: ["frequency"] },
+          then: { properties: { reportDate: { format: "date" } } }
+        },
+        {
+          if: { properties: { frequency: { const: "YEARLY" } }, required: ["frequency"] },
+          then: { properties: { reportDate: { pattern: "^\\d{4}$" } } }
+        },
+        {
+          if: { properties: { frequency: { const: "MONTHLY" } } },
+          then: { properties: { reportDate: { format: "year-month" } } }
+        }
+      ]
+    }),
+    handler: (args, { handlers }) => handlers.analytics.downloadSalesReport(args),
+    isEnabled: hasVendorNumber,
+    disabledMessage: "Sales reports are not available. Please set APP_STORE_CONNECT_VENDOR_NUMBER environment variable."
+  },
+  {
+    name: "query_sales_timeseries",
+    description: "Sum units and proceeds of daily sales reports over a date range, grouped by date, product, country and/or currency (e.g. units by country for the last 90 days). Days missing from the local report cache are downloaded and cached.",
+    inputSchema: (config) => ({
+      type: "object",
+      properties: {
+        vendorNumber: {
+          type: "string",
+          description: "Your vendor number from App Store Connect (optional if set as environment variable)",
+          default: config.vendorNumber
+        },
+        reportType: {
+          type: "string",
+          enum: ["SALES", "SUBSCRIPTION", "SUBSCRIPTION_EVENT", "SUBSCRIBER", "PRE_ORDER", "NEWSSTAND"],
+          description: "Type of daily report to aggregate",
+          default: "SALES"
+        },
+        reportSubType: {
+          type: "string",
+          enum: ["SUMMARY", "DETAILED", "SUMMARY_INSTALL_TYPE", "SUMMARY_TERRITORY", "SUMMARY_CHANNEL"],
+          description: "Sub-type of the reports (default: DETAILED for SUBSCRIBER and NEWSSTAND, SUMMARY otherwise)"
+        },
+        version: {
+          type: "string",
+          pattern: "^\\d+_\\d+$",
+          description: "Report format version (default: 1_3 for subscription reports, 1_0 otherwise)"
+        },
+        startDate: {
+          type: "string",
+          format: "date",
+          description: "First day of the range (YYYY-MM-DD); defaults to `days` before endDate"
+        },
+        endDate: {
+          type: "string",
+          format: "date",
+          description: "Last day of the range (YYYY-MM-DD); defaults to yesterday (UTC)"
+        },
+        days: {
+          type: "integer",
+          minimum: 1,
+          maximum: 366,
+          description: "Length of the range in days when startDate is not given",
+          default: 30
+        },
+        groupBy: {
+          type: "array",
+          items: { type: "string", enum: ["date", "product", "country", "currency"] },
+          description: "Dimensions to sum by; an empty list returns only the totals",
+          default: ["date"]
+        },
+        currency: {
+          type: "string",
+          pattern: "^[A-Z]{3}$",
+          description: "Also sum each point's proceeds in this currency (ISO 4217 code), at the exchange rates of Apple's financial report for the month where available"
+        }
+      }
+    }),
+    handler: (args, { handlers }) => handlers.analytics.querySalesTimeseries(args),
+    isEnabled: hasVendorNumber,
+    disabledMessage: "Sales reports are not available. Please set APP_STORE_CONNECT_VENDOR_NUMBER environment variable."
+  },
+  {
+    name: "get_portfolio_summary",
+    description: "Compare every app's downloads, in-app purchases, refunds and proceeds over a period (default: the last 7 days) with the period before it, with proceeds converted into one currency",
+    inputSchema: (config) => ({
+      type: "object",
+      properties: {
+        vendorNumber: {
+          type: "string",
+          description: "Your vendor number from App Store Connect (optional if set as environment variable)",
+          default: config.vendorNumber
+        },
+        startDate: {
+          type: "string",
+          format: "date",
+          description: "First day of the period (YYYY-MM-DD); defaults to `days` before endDate"
+        },
+        endDate: {
+          type: "string",
+          format: "date",
+          description: "Last day of the period (YYYY-MM-DD); defaults to yesterday (UTC)"
+        },
+        days: {
+          type: "integer",
+          minimum: 1,
+          maximum: 183,
+          description: "Length of the period in days when startDate is not given (e.g. 7 for week over week)",
+          default: 7
+        },
+        currency: {
+          type: "string",
+          pattern: "^[A-Z]{3}$",
+          description: "Currency to report proceeds in, at the exchange rates of Apple's financial report for the month where available",
+          default: "USD"
+        }
+      }
+    }),
+    handler: (args, { handlers }) => handlers.analytics.getPortfolioSummary(args),
+    isEnabled: hasVendorNumber,
+    disabledMessage: "Sales reports are not available. Please set APP_STORE_CONNECT_VENDOR_NUMBER environment variable."
+  },
+  {
+    name: "download_finance_report",
+    description: "Download a finance report for a fiscal month, parsed into line items (or CSV) with earnings totals by region, product, country and currency",
+    inputSchema: (config) => ({
+      type: "object",
+      properties: {
+        vendorNumber: {
+          type: "string",
+          description: "Your vendor number from App Store Connect (optional if set as environment variable)",
+          default: config.vendorNumber
+        },
+        reportDate: {
+          type: "string",
+          format: "year-month",
+          description: "Fiscal month in YYYY-MM format (e.g., '2024-01')"
+        },
+        regionCode: {
+          type: "string",
+          pattern: "^[A-Z0-9]{2}$",
+          description: "Region code (e.g., 'US', 'EU', 'WW' for rest of world, 'ZZ' for all regions consolidated, 'Z1' for FINANCE_DETAIL)"
+        },
+        reportType: {
+          type: "string",
+          enum: ["FINANCIAL", "FINANCE_DETAIL"],
+          description: "FINANCIAL for earnings by region, FINANCE_DETAIL for every transaction (region Z1 only)",
+          default: "FINANCIAL"
+        },
+        format: {
+          type: "string",
+          enum: ["json", "csv"],
+          description: "Return the line items as typed JSON objects or as CSV text",
+          default: "json"
+        },
+        currency: {
+          type: "string",
+          pattern: "^[A-Z]{3}$",
+          description: "Also total the earnings in this currency (ISO 4217 code), at the exchange rates the report states, or else those of the consolidated report for the month"
+        }
+      },
+      required: ["reportDate", "regionCode"],
+      if: { properties: { reportType: { const: "FINANCE_DETAIL" } }, required: ["reportType"] },
+      then: { properties: { regionCode: { const: "Z1" } } }
+    }),
+    handler: (args, { handlers }) => handlers.analytics.downloadFinanceReport(args),
+    isEnabled: hasVendorNumber,
+    disabledMessage: "Finance reports are not available. Please set APP_STORE_CONNECT_VENDOR_NUMBER environment variable."
+  },
+  {
+    name: "reconcile_finance_month",
+    description: "Download the financial reports of every region for a fiscal month and summarise the payouts by region and currency, checking each region against Apple's stated totals and the consolidated report",
+    inputSchema: (config) => ({
+      type: "object",
+      properties: {
+        vendorNumber: {
+          type: "string",
+          description: "Your vendor number from App Store Connect (optional if set as environment variable)",
+          default: config.vendorNumber
+        },
+        reportDate: {
+          type: "string",
+          format: "year-month",
+          description: "Fiscal month in YYYY-MM format (e.g., '2024-01')"
+        },
+        regionCodes: {
+          type: "array",
+          items: { type: "string", pattern: "^[A-Z0-9]{2}$" },
+          minItems: 1,
+          description: "Regions to include (default: every region Apple reports on)"
+        },
+        includeConsolidated: {
+          type: "boolean",
+          description: "Also download the consolidated (ZZ) report and compare it with the sum of the regions",
+          default: true
+        }
+      },
+      required: ["reportDate"]
+    }),
+    handler: (args, { handlers }) => handlers.analytics.reconcileFinanceMonth(args),
+    isEnabled: hasVendorNumber,
+    disabledMessage: "Finance reports are not available. Please set APP_STORE_CONNECT_VENDOR_NUMBER environment variable."
+  }
+];
@@ -0,0 +1,212 @@
+/**
+ * App management tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+// Selects the reviews of an app, or of one App Store version
+const reviewScopeProperties = {
+  appId: {
+    type: "string",
+    description: "The ID of the app whose reviews to read"
+  },
+  appStoreVersionId: {
+    type: "string",
+    description: "The ID of an App Store version, to read only the reviews of that version (instead of appId)"
+  }
+};
+
+const reviewScopeRequired = [{ required: ["appId"] }, { required: ["appStoreVersionId"] }];
+
+const reviewFilterSchema = {
+  type: "object",
+  properties: {
+    territory: {
+      type: "array",
+      items: { type: "string", pattern: "^[A-Z]{3}$" },
+      description: "Only reviews from these territories, as ISO 3166-1 alpha-3 codes (e.g., USA, GBR, JPN)"
+    },
+    rating: {
+      type: "array",
+      items: { type: "integer", minimum: 1, maximum: 5 },
+      description: "Only reviews with these star ratings"
+    },
+    hasResponse: {
+      type: "boolean",
+      description: "Only reviews with (true) or without (false) a published developer response"
+    },
+    startDate: {
+      type: "string",
+      format: "date",
+      description: "Only reviews written on or after this day (YYYY-MM-DD, UTC)"
+    },
+    endDate: {
+      type: "string",
+      format: "date",
+      description: "Only reviews written on or before this day (YYYY-MM-DD, UTC)"
+    }
+  },
+  additionalProperties: false
+};
+
+export const appTools: ToolDefinition[] = [
+  {
+    name: "list_apps",
+    description: "Get a list of all apps in App Store Connect",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of apps to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      }
+    },
+    handler: (args, { handlers }) => handlers.apps.listApps(args)
+  },
+  {
+    name: "get_app_info",
+    description: "Get detailed information about a specific app",
+    inputSchema: {
+      type: "object", 
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app to get information for"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: [
+              "appClips", "appInfos", "appStoreVersions", "availableTerritories",
+              "betaAppReviewDetail", "betaGroups", "betaLicenseAgreement", "builds",
+              "endUserLicenseAgreement", "gameCenterEnabledVersions", "inAppPurchases",
+              "preOrder", "prices", "reviewSubmissions"
+            ]
+          },
+          description: "Optional relationships to include in the response"
+        }
+      },
+      required: ["appId"]
+    },
+    handler: (args, { handlers }) => handlers.apps.getAppInfo(args)
+  },
+  {
+    name: "list_customer_reviews",
+    description: "List customer reviews of an app or App Store version, filtered by territory, rating, date range and whether they have a developer response",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewScopeProperties,
+        filter: reviewFilterSchema,
+        sort: {
+          type: "string",
+          enum: ["createdDate", "-createdDate", "rating", "-rating"],
+          description: "Sort order; a date range needs createdDate or -createdDate (default: -createdDate, newest first)"
+        },
+        includeResponse: {
+          type: "boolean",
+          description: "Include each review's developer response (default: true)",
+          default: true
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of reviews to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      oneOf: reviewScopeRequired
+    },
+    handler: (args, { handlers }) => handlers.apps.listCustomerReviews(args)
+  },
+  {
+    name: "get_customer_review",
+    description: "Get a customer review and its developer response",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reviewId: {
+          type: "string",
+          description: "The ID of the customer review"
+        },
+        includeResponse: {
+          type: "boolean",
+          description: "Include the developer response (default: true)",
+          default: true
+        }
+      },
+      required: ["reviewId"]
+    },
+    handler: (args, { handlers }) => handlers.apps.getCustomerReview(args)
+  },
+  {
+    name: "respond_to_customer_review",
+    description: "Publish a developer response to a customer review. A review has one response: responding again replaces (edits) it.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        reviewId: {
+          type: "string",
+          description: "The ID of the customer review"
+        },
+        responseBody: {
+          type: "string",
+          description: "The text of the response, shown publicly under the review",
+          minLength: 1,
+          maxLength: 5970
+        }
+      },
+      required: ["reviewId", "responseBody"]
+    },
+    handler: (args, { handlers }) => handlers.apps.respondToCustomerReview(args)
+  },
+  {
+    name: "delete_customer_review_response",
+    description: "Delete a developer response from a customer review",
+    inputSchema: {
+      type: "object",
+      properties: {
+        responseId: {
+          type: "string",
+          description: "The ID of the customer review response (see the review's response relationship)"
+        }
+      },
+      required: ["responseId"]
+    },
+    handler: (args, { handlers }) => handlers.apps.deleteCustomerReviewResponse(args)
+  },
+  {
+    name: "summarize_customer_reviews",
+    description: "Summarize the newest customer reviews of an app or App Store version: rating distribution, average rating by territory, response coverage and recurring keywords",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewScopeProperties,
+        filter: reviewFilterSchema,
+        maxReviews: {
+          type: "number",
+          description: "Maximum number of reviews to read, newest first (default: 500)",
+          minimum: 1,
+          maximum: 5000,
+          default: 500
+        },
+        keywordCount: {
+          type: "number",
+          description: "Maximum number of recurring keywords to list (default: 20)",
+          minimum: 0,
+          maximum: 100,
+          default: 20
+        }
+      },
+      oneOf: reviewScopeRequired
+    },
+    handler: (args, { handlers }) => handlers.apps.summarizeCustomerReviews(args)
+  }
+];
@@ -0,0 +1,197 @@
+/**
+ * TestFlight beta testing tools
+ */
+
+import { ToolDefinition, formatToolResult } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const betaTools: ToolDefinition[] = [
+  {
+    name: "list_beta_groups",
+    description: "Get a list of all beta groups (internal and external)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of groups to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      }
+    },
+    handler: (args, { handlers }) => handlers.beta.listBetaGroups(args)
+  },
+  {
+    name: "list_group_testers",
+    description: "Get a list of all testers in a specific beta group",
+    inputSchema: {
+      type: "object",
+      properties: {
+        groupId: {
+          type: "string",
+          description: "The ID of the beta group"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of testers to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["groupId"]
+    },
+    handler: (args, { handlers }) => handlers.beta.listGroupTesters(args)
+  },
+  {
+    name: "add_tester_to_group",
+    description: "Add a new tester to a beta group",
+    inputSchema: {
+      type: "object",
+      properties: {
+        groupId: {
+          type: "string",
+          description: "The ID of the beta group"
+        },
+        email: {
+          type: "string",
+          format: "email",
+          description: "Email address of the tester"
+        },
+        firstName: {
+          type: "string",
+          description: "First name of the tester"
+        },
+        lastName: {
+          type: "string",
+          description: "Last name of the tester"
+        }
+      },
+      required: ["groupId", "email", "firstName", "lastName"]
+    },
+    handler: (args, { handlers }) => handlers.beta.addTesterToGroup(args)
+  },
+  {
+    name: "remove_tester_from_group",
+    description: "Remove a tester from a beta group",
+    inputSchema: {
+      type: "object",
+      properties: {
+        groupId: {
+          type: "string",
+          description: "The ID of the beta group"
+        },
+        testerId: {
+          type: "string",
+          description: "The ID of the beta tester"
+        }
+      },
+      required: ["groupId", "testerId"]
+    },
+    handler: (args, { handlers }) => handlers.beta.removeTesterFromGroup(args)
+  },
+  {
+    name: "list_beta_feedback_screenshots",
+    description: "List all beta feedback screenshot submissions for an app. This includes feedback with screenshots, device information, and tester comments. You can identify the app using either appId or bundleId.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app to get feedback for (e.g., '6747745091')"
+        },
+        bundleId: {
+          type: "string",
+          format: "bundle-id",
+          description: "The bundle ID of the app (e.g., 'com.example.app'). Can be used instead of appId."
+        },
+        buildId: {
+          type: "string",
+          description: "Filter by specific build ID (optional)"
+        },
+        devicePlatform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+          description: "Filter by device platform (optional)"
+        },
+        appPlatform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+          description: "Filter by app platform (optional)"
+        },
+        deviceModel: {
+          type: "string",
+          description: "Filter by device model (e.g., 'iPhone15_2') (optional)"
+        },
+        osVersion: {
+          type: "string",
+          description: "Filter by OS version (e.g., '18.4.1') (optional)"
+        },
+        testerId: {
+          type: "string",
+          description: "Filter by specific tester ID (optional)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of feedback items to return (default: 50, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        sort: {
+          type: "string",
+          enum: ["createdDate", "-createdDate"],
+          description: "Sort order for results (default: -createdDate for newest first)"
+        },
+        includeBuilds: {
+          type: "boolean",
+          description: "Include build information in response (optional)",
+          default: false
+        },
+        includeTesters: {
+          type: "boolean",
+          description: "Include tester information in response (optional)",
+          default: false
+        }
+      },
+      required: []
+    },
+    handler: (args, { handlers }) => handlers.beta.listBetaFeedbackScreenshots(args)
+  },
+  {
+    name: "get_beta_feedback_screenshot",
+    description: "Get detailed information about a specific beta feedback screenshot submission. By default, downloads and returns the screenshot image.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        feedbackId: {
+          type: "string",
+          description: "The ID of the beta feedback screenshot submission"
+        },
+        includeBuilds: {
+          type: "boolean",
+          description: "Include build information in response (optional)",
+          default: false
+        },
+        includeTesters: {
+          type: "boolean",
+          description: "Include tester information in response (optional)",
+          default: false
+        },
+        downloadScreenshot: {
+          type: "boolean",
+          description: "Download and return the screenshot as an image (default: true)",
+          default: true
+        }
+      },
+      required: ["feedbackId"]
+    },
+    handler: (args, { handlers }) => handlers.beta.getBetaFeedbackScreenshot(args),
+    // With a downloaded screenshot the handler returns image content alongside the submission
+    format: (result) => result.content
+      ? { content: result.content, structuredContent: result.toolResult }
+      : formatToolResult(result)
+  }
+];
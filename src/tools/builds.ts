@@ -0,0 +1,196 @@
+/**
+ * Build tools
+ */
+
+import { ToolDefinition, longRunningOptions } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+const BUILD_INCLUDES = [
+  "app", "appEncryptionDeclaration", "appStoreVersion", "betaAppReviewSubmission",
+  "betaBuildLocalizations", "betaGroups", "buildBetaDetail", "buildBundles", "icons",
+  "individualTesters", "preReleaseVersion"
+];
+
+export const buildTools: ToolDefinition[] = [
+  {
+    name: "list_builds",
+    description: "List uploaded builds, newest first, e.g. to find the build ID to attach to an App Store version",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: {
+            appId: {
+              type: "string",
+              description: "Only builds of this app"
+            },
+            version: {
+              type: "string",
+              description: "Build number (CFBundleVersion), e.g. '42'"
+            },
+            preReleaseVersion: {
+              type: "string",
+              description: "Marketing version the build belongs to (CFBundleShortVersionString), e.g. '2.1.0'"
+            },
+            platform: {
+              type: "string",
+              enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+              description: "Only builds for this platform"
+            },
+            processingState: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["PROCESSING", "FAILED", "INVALID", "VALID"]
+              },
+              description: "Only builds in these processing states"
+            },
+            expired: {
+              type: "boolean",
+              description: "Only expired (true) or unexpired (false) builds"
+            },
+            appStoreVersionId: {
+              type: "string",
+              description: "Only the build attached to this App Store version"
+            }
+          },
+          additionalProperties: false
+        },
+        sort: {
+          type: "string",
+          enum: ["uploadedDate", "-uploadedDate", "version", "-version", "preReleaseVersion", "-preReleaseVersion"],
+          description: "Sort order (default: -uploadedDate, newest first)"
+        },
+        include: {
+          type: "array",
+          items: { type: "string", enum: BUILD_INCLUDES },
+          description: "Relationships to include (default: preReleaseVersion)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of builds to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      }
+    },
+    handler: (args, { handlers }) => handlers.builds.listBuilds(args)
+  },
+  {
+    name: "get_build",
+    description: "Get a build with its TestFlight details, marketing version and icons",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildId: {
+          type: "string",
+          description: "The ID of the build"
+        },
+        include: {
+          type: "array",
+          items: { type: "string", enum: BUILD_INCLUDES },
+          description: "Relationships to include (default: buildBetaDetail, preReleaseVersion, icons)"
+        }
+      },
+      required: ["buildId"]
+    },
+    handler: (args, { handlers }) => handlers.builds.getBuild(args)
+  },
+  {
+    name: "expire_build",
+    description: "Expire a build so testers can no longer install it. Expired builds cannot be restored or submitted.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildId: {
+          type: "string",
+          description: "The ID of the build to expire"
+        }
+      },
+      required: ["buildId"]
+    },
+    handler: (args, { handlers }) => handlers.builds.expireBuild(args)
+  },
+  {
+    name: "attach_build_to_version",
+    description: "Select the build an App Store version will be submitted with, replacing any build already attached",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the App Store version"
+        },
+        buildId: {
+          type: "string",
+          description: "The ID of a processed build of the same app, platform and marketing version"
+        }
+      },
+      required: ["appStoreVersionId", "buildId"]
+    },
+    handler: (args, { handlers }) => handlers.builds.attachBuildToVersion(args)
+  },
+  {
+    name: "detach_build_from_version",
+    description: "Remove the build from an App Store version that has not been submitted",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the App Store version"
+        }
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.builds.detachBuildFromVersion(args)
+  },
+  {
+    name: "wait_for_build_processing",
+    description: "Wait for an uploaded build to finish processing, polling its state and sending progress notifications, and return the final state with anything that keeps the build from being used",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildId: {
+          type: "string",
+          description: "The ID of the build"
+        },
+        appId: {
+          type: "string",
+          description: "The ID of the app, to find the build by its build number instead of its ID"
+        },
+        version: {
+          type: "string",
+          description: "Build number (CFBundleVersion), with appId"
+        },
+        preReleaseVersion: {
+          type: "string",
+          description: "Marketing version (CFBundleShortVersionString), to tell apart equal build numbers of different versions"
+        },
+        platform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+          description: "Platform of the build, with appId"
+        },
+        timeoutSeconds: {
+          type: "number",
+          description: "How long to wait before returning the current state (default: 1800)",
+          minimum: 0,
+          maximum: 7200,
+          default: 1800
+        },
+        pollIntervalSeconds: {
+          type: "number",
+          description: "Time between checks (default: 30)",
+          minimum: 5,
+          maximum: 600,
+          default: 30
+        }
+      },
+      anyOf: [{ required: ["buildId"] }, { required: ["appId", "version"] }]
+    },
+    handler: (args, { handlers, extra }) => handlers.builds.waitForBuildProcessing(args, longRunningOptions(extra))
+  }
+];
@@ -0,0 +1,184 @@
+/**
+ * Bundle ID and capability tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const bundleTools: ToolDefinition[] = [
+  {
+    name: "create_bundle_id",
+    description: "Register a new bundle ID for app development",
+    inputSchema: {
+      type: "object",
+      properties: {
+        identifier: {
+          type: "string",
+          format: "bundle-id",
+          description: "The bundle ID string (e.g., 'com.example.app')"
+        },
+        name: {
+          type: "string",
+          description: "A name for the bundle ID"
+        },
+        platform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS"],
+          description: "The platform for this bundle ID"
+        },
+        seedId: {
+          type: "string",
+          description: "Your team's seed ID (optional)"
+        }
+      },
+      required: ["identifier", "name", "platform"]
+    },
+    handler: (args, { handlers }) => handlers.bundles.createBundleId(args)
+  },
+  {
+    name: "list_bundle_ids",
+    description: "Find and list bundle IDs that are registered to your team",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of bundle IDs to return (default: 100, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        sort: {
+          type: "string",
+          description: "Sort order for the results",
+          enum: [
+            "name", "-name", "platform", "-platform", 
+            "identifier", "-identifier", "seedId", "-seedId", "id", "-id"
+          ]
+        },
+        filter: {
+          type: "object",
+          properties: {
+            identifier: { type: "string", description: "Filter by bundle identifier" },
+            name: { type: "string", description: "Filter by name" },
+            platform: { 
+              type: "string", 
+              description: "Filter by platform",
+              enum: ["IOS", "MAC_OS"]
+            },
+            seedId: { type: "string", description: "Filter by seed ID" }
+          }
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["profiles", "bundleIdCapabilities", "app"]
+          },
+          description: "Related resources to include in the response"
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.bundles.listBundleIds(args)
+  },
+  {
+    name: "get_bundle_id_info",
+    description: "Get detailed information about a specific bundle ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bundleIdId: {
+          type: "string",
+          description: "The ID of the bundle ID to get information for"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["profiles", "bundleIdCapabilities", "app"]
+          },
+          description: "Optional relationships to include in the response"
+        },
+        fields: {
+          type: "object",
+          properties: {
+            bundleIds: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["name", "platform", "identifier", "seedId"]
+              },
+              description: "Fields to include for the bundle ID"
+            }
+          },
+          description: "Specific fields to include in the response"
+        }
+      },
+      required: ["bundleIdId"]
+    },
+    handler: (args, { handlers }) => handlers.bundles.getBundleIdInfo(args)
+  },
+  {
+    name: "enable_bundle_capability",
+    description: "Enable a capability for a bundle ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        bundleIdId: {
+          type: "string",
+          description: "The ID of the bundle ID"
+        },
+        capabilityType: {
+          type: "string",
+          description: "The type of capability to enable",
+          enum: [
+            "ICLOUD", "IN_APP_PURCHASE", "GAME_CENTER", "PUSH_NOTIFICATIONS", "WALLET",
+            "INTER_APP_AUDIO", "MAPS", "ASSOCIATED_DOMAINS", "PERSONAL_VPN", "APP_GROUPS",
+            "HEALTHKIT", "HOMEKIT", "WIRELESS_ACCESSORY_CONFIGURATION", "APPLE_PAY",
+            "DATA_PROTECTION", "SIRIKIT", "NETWORK_EXTENSIONS", "MULTIPATH", "HOT_SPOT",
+            "NFC_TAG_READING", "CLASSKIT", "AUTOFILL_CREDENTIAL_PROVIDER", "ACCESS_WIFI_INFORMATION",
+            "NETWORK_CUSTOM_PROTOCOL", "COREMEDIA_HLS_LOW_LATENCY", "SYSTEM_EXTENSION_INSTALL",
+            "USER_MANAGEMENT", "APPLE_ID_AUTH"
+          ]
+        },
+        settings: {
+          type: "array",
+          description: "Optional capability settings",
+          items: {
+            type: "object",
+            properties: {
+              key: { type: "string", description: "The setting key" },
+              options: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    key: { type: "string" },
+                    enabled: { type: "boolean" }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      required: ["bundleIdId", "capabilityType"]
+    },
+    handler: (args, { handlers }) => handlers.bundles.enableBundleCapability(args)
+  },
+  {
+    name: "disable_bundle_capability",
+    description: "Disable a capability for a bundle ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        capabilityId: {
+          type: "string",
+          description: "The ID of the capability to disable"
+        }
+      },
+      required: ["capabilityId"]
+    },
+    handler: (args, { handlers }) => handlers.bundles.disableBundleCapability(args)
+  }
+];
@@ -0,0 +1,64 @@
+/**
+ * Device management tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const deviceTools: ToolDefinition[] = [
+  {
+    name: "list_devices",
+    description: "Get a list of all devices registered to your team",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of devices to return (default: 100, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        sort: {
+          type: "string",
+          description: "Sort order for the results",
+          enum: [
+            "id", "-id", "name", "-name", "platform", "-platform",
+            "status", "-status", "udid", "-udid"
+          ]
+        },
+        filter: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Filter by device name" },
+            platform: { 
+              type: "string", 
+              description: "Filter by platform",
+              enum: ["IOS", "MAC_OS"]
+            },
+            status: { 
+              type: "string", 
+              description: "Filter by status",
+              enum: ["ENABLED", "DISABLED"]
+            },
+            udid: { type: "string", description: "Filter by device UDID" }
+          }
+        },
+        fields: {
+          type: "object",
+          properties: {
+            devices: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["name", "platform", "udid", "deviceClass", "status", "model", "addedDate"]
+              },
+              description: "Fields to include for each device"
+            }
+          }
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.devices.listDevices(args)
+  }
+];
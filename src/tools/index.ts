@@ -0,0 +1,45 @@
+import { ToolRegistry } from './registry.js';
+import { appTools } from './apps.js';
+import { betaTools } from './beta.js';
+import { buildTools } from './builds.js';
+import { localizationTools } from './localizations.js';
+import { reviewSubmissionTools } from './reviewSubmissions.js';
+import { screenshotTools } from './screenshots.js';
+import { previewTools } from './previews.js';
+import { bundleTools } from './bundles.js';
+import { deviceTools } from './devices.js';
+import { userTools } from './users.js';
+import { analyticsTools } from './analytics.js';
+import { xcodeTools } from './xcode.js';
+import { xcodeCloudTools } from './xcodeCloud.js';
+import { openApiTools } from './openapi.js';
+import { statusTools } from './status.js';
+import { profileTools } from './profiles.js';
+
+export { ToolRegistry, formatToolResult, formatApiErrorResult } from './registry.js';
+export type { ToolDefinition, ToolContext, ToolHandlers } from './registry.js';
+export { ProfileContexts, createProfileContext } from './profiles.js';
+
+/**
+ * Creates a registry containing every tool the server exposes, in the order they are listed
+ */
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry().register(
+    ...appTools,
+    ...betaTools,
+    ...buildTools,
+    ...localizationTools,
+    ...reviewSubmissionTools,
+    ...screenshotTools,
+    ...previewTools,
+    ...bundleTools,
+    ...deviceTools,
+    ...userTools,
+    ...analyticsTools,
+    ...xcodeTools,
+    ...xcodeCloudTools,
+    ...openApiTools,
+    ...statusTools,
+    ...profileTools
+  );
+}
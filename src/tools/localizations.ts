@@ -0,0 +1,301 @@
+/**
+ * App Store version and localization tools
+ */
+
+import { ToolDefinition, longRunningOptions } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+const localizationFormatProperty = {
+  type: "string",
+  enum: ["csv", "json", "xliff"],
+  description: "File format: csv (a row per locale), json (an object per locale) or xliff (XLIFF 1.2, a file per locale for translation tools)"
+};
+
+const appStoreVersionIdSchema = {
+  type: "object",
+  properties: {
+    appStoreVersionId: {
+      type: "string",
+      description: "The ID of the app store version"
+    }
+  },
+  required: ["appStoreVersionId"]
+};
+
+export const localizationTools: ToolDefinition[] = [
+  {
+    name: "create_app_store_version",
+    description: "Create a new app store version for an app",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app"
+        },
+        platform: {
+          type: "string",
+          description: "The platform for this version",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"]
+        },
+        versionString: {
+          type: "string",
+          pattern: "^\\d+\\.\\d+(\\.\\d+)?$",
+          description: "Version string in format X.Y or X.Y.Z (e.g., '1.0' or '1.0.0')"
+        },
+        copyright: {
+          type: "string",
+          description: "Copyright text for this version (optional)"
+        },
+        releaseType: {
+          type: "string",
+          description: "How the app should be released",
+          enum: ["MANUAL", "AFTER_APPROVAL", "SCHEDULED"]
+        },
+        earliestReleaseDate: {
+          type: "string",
+          format: "date-time",
+          description: "Earliest release date in ISO 8601 format, e.g. 2024-01-01T00:00:00Z (only allowed when releaseType is SCHEDULED)"
+        },
+        buildId: {
+          type: "string",
+          description: "ID of the build to associate with this version (optional)"
+        }
+      },
+      required: ["appId", "platform", "versionString"],
+      if: { required: ["earliestReleaseDate"] },
+      then: { properties: { releaseType: { const: "SCHEDULED" } }, required: ["releaseType"] }
+    },
+    handler: (args, { handlers }) => handlers.localizations.createAppStoreVersion(args)
+  },
+  {
+    name: "list_app_store_versions",
+    description: "Get all app store versions for a specific app",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of versions to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        filter: {
+          type: "object",
+          properties: {
+            platform: {
+              type: "string",
+              description: "Filter by platform (IOS, MAC_OS, TV_OS)",
+              enum: ["IOS", "MAC_OS", "TV_OS"]
+            },
+            versionString: {
+              type: "string",
+              description: "Filter by version string (e.g., '1.0.0')"
+            },
+            appStoreState: {
+              type: "string",
+              description: "Filter by app store state",
+              enum: [
+                "DEVELOPER_REMOVED_FROM_SALE",
+                "DEVELOPER_REJECTED", 
+                "IN_REVIEW",
+                "INVALID_BINARY",
+                "METADATA_REJECTED",
+                "PENDING_APPLE_RELEASE",
+                "PENDING_CONTRACT",
+                "PENDING_DEVELOPER_RELEASE",
+                "PREPARE_FOR_SUBMISSION",
+                "PREORDER_READY_FOR_SALE",
+                "PROCESSING_FOR_APP_STORE",
+                "READY_FOR_SALE",
+                "REJECTED",
+                "REMOVED_FROM_SALE",
+                "WAITING_FOR_EXPORT_COMPLIANCE",
+                "WAITING_FOR_REVIEW",
+                "REPLACED_WITH_NEW_VERSION"
+              ]
+            }
+          },
+          description: "Optional filters for app store versions"
+        }
+      },
+      required: ["appId"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.listAppStoreVersions(args)
+  },
+  {
+    name: "list_app_store_version_localizations",
+    description: "Get all localizations for a specific app store version",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the app store version"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of localizations to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.listAppStoreVersionLocalizations(args)
+  },
+  {
+    name: "get_app_store_version_localization",
+    description: "Get detailed information about a specific app store version localization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        localizationId: {
+          type: "string",
+          description: "The ID of the app store version localization"
+        }
+      },
+      required: ["localizationId"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.getAppStoreVersionLocalization(args)
+  },
+  {
+    name: "update_app_store_version_localization",
+    description: "Update a specific field in an app store version localization",
+    inputSchema: {
+      type: "object",
+      properties: {
+        localizationId: {
+          type: "string",
+          description: "The ID of the app store version localization to update"
+        },
+        field: {
+          type: "string",
+          enum: ["description", "keywords", "marketingUrl", "promotionalText", "supportUrl", "whatsNew"],
+          description: "The field to update"
+        },
+        value: {
+          type: "string",
+          description: "The new value for the field"
+        }
+      },
+      required: ["localizationId", "field", "value"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.updateAppStoreVersionLocalization(args)
+  },
+  {
+    name: "export_version_localizations",
+    description: "Export the description, keywords, what's new, promotional text and marketing and support URLs of all an app store version's locales as one CSV, JSON or XLIFF file, to edit and apply with import_version_localizations",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the app store version"
+        },
+        format: localizationFormatProperty,
+        filePath: {
+          type: "string",
+          description: "Write the file here instead of returning its content"
+        },
+        sourceLocale: {
+          type: "string",
+          description: "XLIFF only: locale whose texts are the source of the translations (default: en-US, if the version has it)"
+        }
+      },
+      required: ["appStoreVersionId", "format"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.exportVersionLocalizations(args)
+  },
+  {
+    name: "import_version_localizations",
+    description: "Apply a CSV, JSON or XLIFF file of localized texts (as written by export_version_localizations) to an app store version. Returns the changes per locale as a preview unless apply is true; then sends one update per changed locale and creates missing locales. Empty fields are left unchanged.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the app store version"
+        },
+        format: localizationFormatProperty,
+        content: {
+          type: "string",
+          description: "The file's content (or use filePath)"
+        },
+        filePath: {
+          type: "string",
+          description: "Path of the file to read (or use content)"
+        },
+        apply: {
+          type: "boolean",
+          description: "Make the changes (default: false, only preview them)"
+        },
+        createMissingLocales: {
+          type: "boolean",
+          description: "Create localizations for locales the version lacks (default: true)"
+        }
+      },
+      required: ["appStoreVersionId", "format"]
+    },
+    handler: (args, { handlers, extra }) => handlers.localizations.importVersionLocalizations(args, longRunningOptions(extra))
+  },
+  {
+    name: "get_phased_release",
+    description: "Get an app store version's phased release: its state, current day (1-7) and the percentage of users with automatic updates it reaches",
+    inputSchema: appStoreVersionIdSchema,
+    handler: (args, { handlers }) => handlers.localizations.getPhasedRelease(args)
+  },
+  {
+    name: "create_phased_release",
+    description: "Release an app store version gradually over seven days to users with automatic updates, instead of to everyone at once",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the app store version"
+        },
+        phasedReleaseState: {
+          type: "string",
+          enum: ["INACTIVE", "ACTIVE"],
+          description: "INACTIVE (default) starts the phased release when the version is released"
+        }
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.localizations.createPhasedRelease(args)
+  },
+  {
+    name: "pause_phased_release",
+    description: "Pause an app store version's phased release; it can be paused for up to 30 days in total",
+    inputSchema: appStoreVersionIdSchema,
+    handler: (args, { handlers }) =>
+      handlers.localizations.updatePhasedRelease({ ...args, phasedReleaseState: 'PAUSED' })
+  },
+  {
+    name: "resume_phased_release",
+    description: "Resume a paused phased release",
+    inputSchema: appStoreVersionIdSchema,
+    handler: (args, { handlers }) =>
+      handlers.localizations.updatePhasedRelease({ ...args, phasedReleaseState: 'ACTIVE' })
+  },
+  {
+    name: "complete_phased_release",
+    description: "End a phased release early, releasing the version to all users with automatic updates",
+    inputSchema: appStoreVersionIdSchema,
+    handler: (args, { handlers }) =>
+      handlers.localizations.updatePhasedRelease({ ...args, phasedReleaseState: 'COMPLETE' })
+  },
+  {
+    name: "release_app_store_version",
+    description: "Release an approved app store version that is waiting for manual release (PENDING_DEVELOPER_RELEASE)",
+    inputSchema: appStoreVersionIdSchema,
+    handler: (args, { handlers }) => handlers.localizations.releaseAppStoreVersion(args)
+  }
+];
@@ -0,0 +1,76 @@
+/**
+ * Generic API tools, driven by the bundled OpenAPI spec (3.2.json)
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const openApiTools: ToolDefinition[] = [
+  {
+    name: "search_api_operations",
+    description: "Search Apple's App Store Connect OpenAPI specification for operations by keyword, tag or HTTP method. Use this to find the operationId for call_app_store_connect_api when no dedicated tool exists. Call without query or tag to list all tags.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Space-separated keywords matched against operationId, path and tags (e.g., 'customerReviews response')"
+        },
+        tag: {
+          type: "string",
+          description: "Only return operations with this tag (e.g., 'Apps', 'Builds', 'CustomerReviews')"
+        },
+        method: {
+          type: "string",
+          enum: ["GET", "POST", "PATCH", "DELETE"],
+          description: "Only return operations using this HTTP method"
+        },
+        includeDetails: {
+          type: "boolean",
+          description: "Include query parameter schemas and the expanded request body schema (default: false)",
+          default: false
+        },
+        includeDeprecated: {
+          type: "boolean",
+          description: "Include deprecated operations (default: false)",
+          default: false
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of operations to return (default: 20)",
+          minimum: 1,
+          maximum: 200
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.openApi.searchApiOperations(args)
+  },
+  {
+    name: "call_app_store_connect_api",
+    description: "Call any App Store Connect API operation by operationId (see search_api_operations). Path parameters, query parameters and the request body are validated against Apple's OpenAPI specification before the request is sent.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        operationId: {
+          type: "string",
+          description: "The operationId from the OpenAPI spec (e.g., 'apps-customerReviews-get_to_many_related')"
+        },
+        pathParameters: {
+          type: "object",
+          description: "Values for the path placeholders (e.g., { \"id\": \"123456789\" })"
+        },
+        queryParameters: {
+          type: "object",
+          description: "Query parameters keyed by their exact name (e.g., { \"filter[rating]\": [\"1\", \"2\"], \"limit\": 50 })"
+        },
+        body: {
+          type: "object",
+          description: "JSON:API request body for POST and PATCH operations"
+        },
+        ...paginationProperties
+      },
+      required: ["operationId"]
+    },
+    handler: (args, { handlers }) => handlers.openApi.callAppStoreConnectApi(args)
+  }
+];
@@ -0,0 +1,129 @@
+/**
+ * App preview tools
+ */
+
+import { ToolDefinition, longRunningOptions } from './registry.js';
+import { LANDSCAPE_PREVIEW_RESOLUTIONS, PREVIEW_RESOLUTIONS } from '../types/index.js';
+
+const previewTypeProperty = {
+  type: "string",
+  enum: [...Object.keys(PREVIEW_RESOLUTIONS), ...Object.keys(LANDSCAPE_PREVIEW_RESOLUTIONS)],
+  description: "Preview type (device size), e.g. IPHONE_67 for 6.7\" iPhones"
+};
+
+const previewFrameTimeCodeProperty = {
+  type: "string",
+  pattern: "^\\d{2}:\\d{2}:\\d{2}:\\d{2}$",
+  description: "Time code (HH:MM:SS:FF) of the poster frame shown before the preview plays, e.g. '00:00:05:00'"
+};
+
+export const previewTools: ToolDefinition[] = [
+  {
+    name: "get_version_previews",
+    description: "List an App Store version's app preview sets per locale and preview type, with each set's previews in display order, their poster frame and processing state",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the App Store version"
+        },
+        locales: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only these locales, e.g. ['en-US', 'de-DE'] (default: all)"
+        },
+        previewType: {
+          ...previewTypeProperty,
+          description: "Only sets of this preview type"
+        }
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.previews.getVersionPreviews(args)
+  },
+  {
+    name: "upload_app_previews",
+    description: "Upload local videos (.mov, .mp4 or .m4v) as app previews of a version, per locale and preview type. Each video's length (15-30 seconds), resolution and codec are checked from its metadata before anything is uploaded; preview sets are created as needed. Reports each file's asset delivery state; App Store Connect processes previews asynchronously.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the App Store version"
+        },
+        previews: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              locale: {
+                type: "string",
+                description: "Locale of an existing version localization, e.g. 'en-US'"
+              },
+              previewType: previewTypeProperty,
+              filePath: {
+                type: "string",
+                description: "Path of the video file"
+              },
+              previewFrameTimeCode: previewFrameTimeCodeProperty
+            },
+            required: ["locale", "previewType", "filePath"]
+          },
+          description: "Videos to upload, in display order within each set"
+        }
+      },
+      required: ["appStoreVersionId", "previews"]
+    },
+    handler: (args, { handlers, extra }) => handlers.previews.uploadAppPreviews(args, longRunningOptions(extra))
+  },
+  {
+    name: "set_preview_poster_frame",
+    description: "Set the poster frame of an app preview: the frame shown before the video plays",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appPreviewId: {
+          type: "string",
+          description: "The ID of the app preview"
+        },
+        previewFrameTimeCode: previewFrameTimeCodeProperty
+      },
+      required: ["appPreviewId", "previewFrameTimeCode"]
+    },
+    handler: (args, { handlers }) => handlers.previews.setPreviewPosterFrame(args)
+  },
+  {
+    name: "delete_app_previews",
+    description: "Delete app previews from their sets",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appPreviewIds: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          description: "IDs of the app previews to delete"
+        }
+      },
+      required: ["appPreviewIds"]
+    },
+    handler: (args, { handlers }) => handlers.previews.deleteAppPreviews(args)
+  },
+  {
+    name: "delete_app_preview_set",
+    description: "Delete an app preview set together with all its previews",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appPreviewSetId: {
+          type: "string",
+          description: "The ID of the app preview set"
+        }
+      },
+      required: ["appPreviewSetId"]
+    },
+    handler: (args, { handlers }) => handlers.previews.deleteAppPreviewSet(args)
+  }
+];
@@ -0,0 +1,156 @@
+/**
+ * Account profiles
+ *
+ * A server can act for several App Store Connect accounts (e.g. one per developer
+ * team). Each profile gets its own API client, and therefore its own AuthService and
+ * rate-limit tracking, created the first time a tool call names it.
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { AppStoreConnectClient, ReportCache } from '../services/index.js';
+import {
+  AppHandlers,
+  BetaHandlers,
+  BuildHandlers,
+  BundleHandlers,
+  DeviceHandlers,
+  UserHandlers,
+  AnalyticsHandlers,
+  XcodeHandlers,
+  LocalizationHandlers,
+  ReviewSubmissionHandlers,
+  ScreenshotHandlers,
+  PreviewHandlers,
+  XcodeCloudHandlers,
+  OpenApiHandlers
+} from '../handlers/index.js';
+import { AppStoreConnectConfig, AppStoreConnectProfiles } from '../types/index.js';
+import { DEFAULT_PROFILE_NAME, getFallbackExchangeRates, getReportCacheDir } from '../config.js';
+import { JsonSchema } from '../utils/index.js';
+import { ToolContext, ToolDefinition } from './registry.js';
+
+type ProfileContext = Pick<ToolContext, 'client' | 'config' | 'handlers'>;
+
+/**
+ * Creates the API client and domain handlers for one account
+ */
+export function createProfileContext(config: AppStoreConnectConfig): ProfileContext {
+  const client = new AppStoreConnectClient(config);
+  const reportCacheDir = getReportCacheDir();
+  const reportCache = reportCacheDir ? new ReportCache(reportCacheDir) : undefined;
+  return {
+    client,
+    config,
+    handlers: {
+      apps: new AppHandlers(client),
+      beta: new BetaHandlers(client),
+      builds: new BuildHandlers(client),
+      bundles: new BundleHandlers(client),
+      devices: new DeviceHandlers(client),
+      users: new UserHandlers(client),
+      analytics: new AnalyticsHandlers(client, config, reportCache, getFallbackExchangeRates()),
+      xcode: new XcodeHandlers(),
+      localizations: new LocalizationHandlers(client),
+      reviewSubmissions: new ReviewSubmissionHandlers(client),
+      screenshots: new ScreenshotHandlers(client),
+      previews: new PreviewHandlers(client),
+      xcodeCloud: new XcodeCloudHandlers(client),
+      openApi: new OpenApiHandlers(client)
+    }
+  };
+}
+
+export class ProfileContexts {
+  private contexts = new Map<string, ProfileContext>();
+
+  constructor(
+    private profiles: AppStoreConnectProfiles,
+    private createContext: (config: AppStoreConnectConfig) => ProfileContext = createProfileContext
+  ) {}
+
+  get defaultProfile(): string {
+    return this.profiles.defaultProfile;
+  }
+
+  get names(): string[] {
+    return Object.keys(this.profiles.profiles);
+  }
+
+  get configs(): AppStoreConnectConfig[] {
+    return Object.values(this.profiles.profiles);
+  }
+
+  /**
+   * Returns the tool context for a profile, or for the default profile when none is named
+   * @throws McpError (InvalidParams) if the profile is not configured
+   */
+  resolve(profile?: unknown): ToolContext {
+    const name = profile ?? this.profiles.defaultProfile;
+    if (typeof name !== 'string' || !Object.hasOwn(this.profiles.profiles, name)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown profile: ${String(name)}. Configured profiles are: ${this.names.join(', ')}`
+      );
+    }
+
+    let context = this.contexts.get(name);
+    if (!context) {
+      context = this.createContext(this.profiles.profiles[name]);
+      this.contexts.set(name, context);
+    }
+
+    return { ...context, profile: name, profiles: this };
+  }
+
+  /**
+   * Describes each profile without exposing its private key
+   */
+  describe(): Array<{ name: string; keyId: string; issuerId: string; vendorNumber?: string; isDefault: boolean }> {
+    return Object.entries(this.profiles.profiles).map(([name, config]) => ({
+      name,
+      keyId: config.keyId,
+      issuerId: config.issuerId,
+      ...(config.vendorNumber && { vendorNumber: config.vendorNumber }),
+      isDefault: name === this.profiles.defaultProfile
+    }));
+  }
+}
+
+/**
+ * Adds the optional `profile` argument to a tool's input schema
+ */
+export function withProfileArgument(schema: JsonSchema, profiles: ProfileContexts): JsonSchema {
+  return {
+    ...schema,
+    properties: {
+      ...schema.properties,
+      profile: {
+        type: "string",
+        enum: profiles.names,
+        description: `Account profile to act as (default: ${profiles.defaultProfile}). Use list_profiles to see each profile's team.`
+      }
+    }
+  };
+}
+
+export const profileTools: ToolDefinition[] = [
+  {
+    name: "list_profiles",
+    description: "List the App Store Connect accounts this server can act for. Pass a profile's name as the `profile` argument of any tool to use that account.",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: (_args, { profiles, profile = DEFAULT_PROFILE_NAME, config }) => ({
+      defaultProfile: profiles?.defaultProfile ?? profile,
+      activeProfile: profile,
+      profiles: profiles?.describe() ?? [{
+        name: profile,
+        keyId: config.keyId,
+        issuerId: config.issuerId,
+        ...(config.vendorNumber && { vendorNumber: config.vendorNumber }),
+        isDefault: true
+      }]
+    })
+  }
+];
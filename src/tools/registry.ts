@@ -0,0 +1,213 @@
+/**
+ * Tool registry
+ *
+ * Each tool is declared once, in the module for its domain, with its name, input
+ * schema, handler and (optionally) output formatter. The server lists and dispatches
+ * tools through the registry, which enforces each tool's input schema before its
+ * handler runs, so every tool returns the same result shape: the data as JSON text
+ * for display plus `structuredContent` for clients that read it.
+ */
+
+import { McpError, ErrorCode, CallToolResult, ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import axios from 'axios';
+import { AppStoreConnectClient, translateApiError } from '../services/index.js';
+import {
+  AppHandlers,
+  BetaHandlers,
+  BuildHandlers,
+  BundleHandlers,
+  DeviceHandlers,
+  UserHandlers,
+  AnalyticsHandlers,
+  XcodeHandlers,
+  LocalizationHandlers,
+  ReviewSubmissionHandlers,
+  ScreenshotHandlers,
+  PreviewHandlers,
+  XcodeCloudHandlers,
+  OpenApiHandlers
+} from '../handlers/index.js';
+import { AppStoreConnectConfig, ApiErrorReport, LongRunningOptions } from '../types/index.js';
+import { JsonSchema, validateSchema, formatSchemaErrors } from '../utils/index.js';
+import { ProfileContexts, withProfileArgument } from './profiles.js';
+
+export interface ToolHandlers {
+  apps: AppHandlers;
+  beta: BetaHandlers;
+  builds: BuildHandlers;
+  bundles: BundleHandlers;
+  devices: DeviceHandlers;
+  users: UserHandlers;
+  analytics: AnalyticsHandlers;
+  xcode: XcodeHandlers;
+  localizations: LocalizationHandlers;
+  reviewSubmissions: ReviewSubmissionHandlers;
+  screenshots: ScreenshotHandlers;
+  previews: PreviewHandlers;
+  xcodeCloud: XcodeCloudHandlers;
+  openApi: OpenApiHandlers;
+}
+
+/**
+ * Everything a tool handler may need to serve a call
+ */
+export interface ToolContext {
+  client: AppStoreConnectClient;
+  config: AppStoreConnectConfig;
+  handlers: ToolHandlers;
+  profile?: string; // Name of the account profile serving the call
+  profiles?: ProfileContexts; // Every configured profile, when the server has them
+  extra?: RequestHandlerExtra<ServerRequest, ServerNotification>; // MCP request context (abort signal, notifications)
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema | ((config: AppStoreConnectConfig) => JsonSchema);
+  handler: (args: any, context: ToolContext) => unknown;
+  format?: (result: any, args: any) => CallToolResult; // Defaults to formatToolResult
+  isEnabled?: (config: AppStoreConnectConfig) => boolean; // Hidden and rejected when false
+  disabledMessage?: string;
+}
+
+function isCallToolResult(value: unknown): value is CallToolResult {
+  return typeof value === 'object' && value !== null && Array.isArray((value as CallToolResult).content);
+}
+
+/**
+ * Formats handler output as a tool result
+ *
+ * Objects become `structuredContent` as-is; other values are wrapped in `{ result }`
+ * because structured content must be a JSON object. Results that already carry
+ * `content` (e.g. images) are passed through unchanged.
+ */
+export function formatToolResult(data: unknown): CallToolResult {
+  if (isCallToolResult(data)) {
+    return data;
+  }
+
+  const structuredContent = typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? data as Record<string, unknown>
+    : { result: data ?? null };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(data ?? null, null, 2)
+    }],
+    structuredContent
+  };
+}
+
+/**
+ * Formats a failed App Store Connect request as an error result the agent can act on
+ */
+export function formatApiErrorResult(report: ApiErrorReport): CallToolResult {
+  return {
+    isError: true,
+    content: [{
+      type: "text",
+      text: `${report.message}\n\n${JSON.stringify(report, null, 2)}`
+    }],
+    structuredContent: report as unknown as Record<string, unknown>
+  };
+}
+
+/**
+ * Connects a long-running handler to the MCP request: the call's abort signal, and
+ * progress notifications when the client asked for them with a progress token
+ */
+export function longRunningOptions(extra?: ToolContext['extra']): LongRunningOptions {
+  const progressToken = extra?._meta?.progressToken;
+
+  return {
+    signal: extra?.signal,
+    ...(progressToken !== undefined && {
+      onProgress: ({ progress, total, message }) => extra!.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message }
+      })
+    })
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register(...definitions: ToolDefinition[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool already registered: ${definition.name}`);
+      }
+      this.tools.set(definition.name, definition);
+    }
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * Lists the tools enabled for the given configuration, as advertised to clients
+   *
+   * With several profiles, a tool is listed if any profile enables it, and every tool
+   * accepts a `profile` argument naming the account to act as.
+   */
+  list(config: AppStoreConnectConfig, profiles?: ProfileContexts): Array<{ name: string; description: string; inputSchema: JsonSchema }> {
+    const configs = profiles?.configs ?? [config];
+    const multipleProfiles = profiles !== undefined && profiles.names.length > 1;
+
+    return Array.from(this.tools.values())
+      .filter(tool => !tool.isEnabled || configs.some(profileConfig => tool.isEnabled!(profileConfig)))
+      .map(tool => {
+        const inputSchema = this.resolveInputSchema(tool, config);
+        return {
+          name: tool.name,
+          description: tool.description,
+          inputSchema: multipleProfiles ? withProfileArgument(inputSchema, profiles) : inputSchema
+        };
+      });
+  }
+
+  resolveInputSchema(tool: ToolDefinition, config: AppStoreConnectConfig): JsonSchema {
+    return typeof tool.inputSchema === 'function' ? tool.inputSchema(config) : tool.inputSchema;
+  }
+
+  /**
+   * Validates the arguments against the tool's input schema, runs it and formats its result
+   * @throws McpError (MethodNotFound) for unknown or disabled tools
+   * @throws McpError (InvalidParams) listing every argument that violates the schema
+   *
+   * App Store Connect API failures are returned as error results (`isError`) rather than thrown.
+   */
+  async call(name: string, args: Record<string, unknown>, context: ToolContext): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    if (tool.isEnabled && !tool.isEnabled(context.config)) {
+      const forProfile = context.profiles && context.profiles.names.length > 1 ? ` (profile: ${context.profile})` : '';
+      throw new McpError(ErrorCode.MethodNotFound, `${tool.disabledMessage ?? `Tool is not available: ${name}`}${forProfile}`);
+    }
+
+    const violations = validateSchema(args, this.resolveInputSchema(tool, context.config));
+    if (violations.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}: ${formatSchemaErrors(violations)}`);
+    }
+
+    let result: unknown;
+    try {
+      result = await tool.handler(args, context);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        return formatApiErrorResult(translateApiError(error));
+      }
+      throw error;
+    }
+
+    return tool.format ? tool.format(result, args) : formatToolResult(result);
+  }
+}
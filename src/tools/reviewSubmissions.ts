@@ -0,0 +1,148 @@
+/**
+ * App Review submission tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+const reviewSubmissionIdProperty = {
+  reviewSubmissionId: {
+    type: "string",
+    description: "The ID of the review submission"
+  }
+};
+
+export const reviewSubmissionTools: ToolDefinition[] = [
+  {
+    name: "list_review_submissions",
+    description: "List an app's App Review submissions with their items and state",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app"
+        },
+        platform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+          description: "Only submissions for this platform"
+        },
+        state: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["READY_FOR_REVIEW", "WAITING_FOR_REVIEW", "IN_REVIEW", "UNRESOLVED_ISSUES", "CANCELING", "COMPLETING", "COMPLETE"]
+          },
+          description: "Only submissions in these states"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of submissions to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["appId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.listReviewSubmissions(args)
+  },
+  {
+    name: "get_review_submission",
+    description: "Get the status of an App Review submission and of each item in it",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewSubmissionIdProperty
+      },
+      required: ["reviewSubmissionId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.getReviewSubmission(args)
+  },
+  {
+    name: "create_review_submission",
+    description: "Create an App Review submission for an app and platform, to add items to and then submit",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appId: {
+          type: "string",
+          description: "The ID of the app"
+        },
+        platform: {
+          type: "string",
+          enum: ["IOS", "MAC_OS", "TV_OS", "VISION_OS"],
+          description: "The platform to submit for"
+        }
+      },
+      required: ["appId", "platform"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.createReviewSubmission(args)
+  },
+  {
+    name: "add_review_submission_item",
+    description: "Add an App Store version, custom product page version or in-app event to an App Review submission",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewSubmissionIdProperty,
+        itemType: {
+          type: "string",
+          enum: ["appStoreVersion", "appCustomProductPageVersion", "appEvent"],
+          description: "What kind of item to add"
+        },
+        itemId: {
+          type: "string",
+          description: "The ID of the App Store version, custom product page version or in-app event"
+        }
+      },
+      required: ["reviewSubmissionId", "itemType", "itemId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.addReviewSubmissionItem(args)
+  },
+  {
+    name: "check_app_store_version_for_review",
+    description: "Check that an App Store version is ready for review: submittable state, processed build with export compliance, complete localizations and App Review contact details",
+    inputSchema: {
+      type: "object",
+      properties: {
+        appStoreVersionId: {
+          type: "string",
+          description: "The ID of the App Store version"
+        }
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.checkAppStoreVersionForReview(args)
+  },
+  {
+    name: "submit_review_submission",
+    description: "Submit an App Review submission. The App Store versions in it are checked first, and nothing is submitted if a check fails or no version can be found to check.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewSubmissionIdProperty,
+        skipChecks: {
+          type: "boolean",
+          description: "Submit without checking the versions first, e.g. for a submission of in-app events only (default: false)",
+          default: false
+        }
+      },
+      required: ["reviewSubmissionId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.submitReviewSubmission(args)
+  },
+  {
+    name: "cancel_review_submission",
+    description: "Cancel an App Review submission that is waiting for or in review",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...reviewSubmissionIdProperty
+      },
+      required: ["reviewSubmissionId"]
+    },
+    handler: (args, { handlers }) => handlers.reviewSubmissions.cancelReviewSubmission(args)
+  }
+];
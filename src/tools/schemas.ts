@@ -0,0 +1,17 @@
+/**
+ * Input schema fragments shared by several tools
+ */
+
+// Schema properties for list tools that can follow `links.next` cursors
+export const paginationProperties = {
+  allPages: {
+    type: "boolean",
+    description: "Follow pagination cursors and return every item in the collection (default: false)",
+    default: false
+  },
+  maxItems: {
+    type: "number",
+    description: "Follow pagination cursors until this many items have been collected",
+    minimum: 1
+  }
+};
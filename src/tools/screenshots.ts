@@ -0,0 +1,196 @@
+/**
+ * App Store screenshot tools
+ */
+
+import { ToolDefinition, formatToolResult, longRunningOptions } from './registry.js';
+import { SCREENSHOT_DIMENSIONS } from '../types/index.js';
+
+const displayTypeProperty = {
+  type: "string",
+  enum: Object.keys(SCREENSHOT_DIMENSIONS),
+  description: "Display type of the screenshots, e.g. APP_IPHONE_67 for 6.7\" iPhones"
+};
+
+const appStoreVersionIdProperty = {
+  appStoreVersionId: {
+    type: "string",
+    description: "The ID of the App Store version"
+  }
+};
+
+export const screenshotTools: ToolDefinition[] = [
+  {
+    name: "get_version_screenshots",
+    description: "List an App Store version's screenshot sets per locale and display type, with each set's screenshots in display order and their processing state. Optionally returns thumbnails of the screenshots as images.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...appStoreVersionIdProperty,
+        locales: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only these locales, e.g. ['en-US', 'de-DE'] (default: all)"
+        },
+        displayType: {
+          ...displayTypeProperty,
+          description: "Only sets of this display type"
+        },
+        includeThumbnails: {
+          type: "boolean",
+          description: "Return thumbnails of the screenshots as images, up to 30 (default: false)"
+        },
+        thumbnailWidth: {
+          type: "number",
+          minimum: 50,
+          maximum: 1000,
+          description: "Width of the thumbnails in pixels (default: 200)"
+        }
+      },
+      required: ["appStoreVersionId"]
+    },
+    handler: (args, { handlers }) => handlers.screenshots.getVersionScreenshots(args),
+    // Thumbnails go out as image content, each after a line naming its screenshot
+    format: ({ thumbnails, ...listing }) => {
+      const result = formatToolResult(listing);
+      if (!thumbnails?.length) {
+        return result;
+      }
+      const screenshots = new Map<string, string>();
+      for (const set of listing.sets) {
+        set.screenshots.forEach((screenshot: { screenshotId: string; fileName?: string }, index: number) =>
+          screenshots.set(screenshot.screenshotId, `${set.locale} ${set.displayType} #${index + 1}: ${screenshot.fileName ?? screenshot.screenshotId}`));
+      }
+      return {
+        ...result,
+        content: [
+          ...result.content,
+          ...thumbnails.flatMap((thumbnail: { screenshotId: string; mimeType: string; data: string }) => [
+            { type: "text" as const, text: screenshots.get(thumbnail.screenshotId) ?? thumbnail.screenshotId },
+            { type: "image" as const, data: thumbnail.data, mimeType: thumbnail.mimeType }
+          ])
+        ]
+      };
+    }
+  },
+  {
+    name: "reorder_screenshots",
+    description: "Set the display order of the screenshots in a screenshot set. Screenshots not listed keep their order after the listed ones.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        screenshotSetId: {
+          type: "string",
+          description: "The ID of the screenshot set"
+        },
+        screenshotIds: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          maxItems: 10,
+          description: "Screenshot IDs in their new order"
+        }
+      },
+      required: ["screenshotSetId", "screenshotIds"]
+    },
+    handler: (args, { handlers }) => handlers.screenshots.reorderScreenshots(args)
+  },
+  {
+    name: "delete_screenshots",
+    description: "Delete screenshots from their sets",
+    inputSchema: {
+      type: "object",
+      properties: {
+        screenshotIds: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          description: "IDs of the screenshots to delete"
+        }
+      },
+      required: ["screenshotIds"]
+    },
+    handler: (args, { handlers }) => handlers.screenshots.deleteScreenshots(args)
+  },
+  {
+    name: "delete_screenshot_set",
+    description: "Delete a screenshot set together with all its screenshots",
+    inputSchema: {
+      type: "object",
+      properties: {
+        screenshotSetId: {
+          type: "string",
+          description: "The ID of the screenshot set"
+        }
+      },
+      required: ["screenshotSetId"]
+    },
+    handler: (args, { handlers }) => handlers.screenshots.deleteScreenshotSet(args)
+  },
+  {
+    name: "copy_screenshot_set",
+    description: "Copy one locale's screenshots of a display type to other locales of the same App Store version, keeping their order. The images are downloaded from App Store Connect and uploaded again; App Store Connect processes the copies asynchronously.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...appStoreVersionIdProperty,
+        sourceLocale: {
+          type: "string",
+          description: "Locale to copy from, e.g. 'en-US'"
+        },
+        displayType: displayTypeProperty,
+        targetLocales: {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          description: "Locales to copy to, e.g. ['en-GB', 'en-AU']"
+        },
+        replace: {
+          type: "boolean",
+          description: "Delete the screenshots the target sets already hold first (default: false, add after them)"
+        }
+      },
+      required: ["appStoreVersionId", "sourceLocale", "displayType", "targetLocales"]
+    },
+    handler: (args, { handlers, extra }) => handlers.screenshots.copyScreenshotSet(args, longRunningOptions(extra))
+  },
+  {
+    name: "upload_screenshots",
+    description: "Upload local image files as App Store screenshots of a version, per locale and display type. Images are checked against (and scaled to) the display type's required size and made opaque before upload; screenshot sets are created as needed and new screenshots go after existing ones. Reports each file's asset delivery state; App Store Connect processes uploads asynchronously.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...appStoreVersionIdProperty,
+        sets: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            properties: {
+              locale: {
+                type: "string",
+                description: "Locale of an existing version localization, e.g. 'en-US'"
+              },
+              displayType: displayTypeProperty,
+              filePaths: {
+                type: "array",
+                items: { type: "string" },
+                minItems: 1,
+                maxItems: 10,
+                description: "Paths of PNG or JPEG files, in display order"
+              }
+            },
+            required: ["locale", "displayType", "filePaths"]
+          },
+          description: "Screenshots to upload, grouped by locale and display type"
+        },
+        resizeMode: {
+          type: "string",
+          enum: ["strict", "cover", "contain"],
+          description: "How to handle images whose aspect ratio differs from the display type's: reject them (strict, default), scale and crop (cover) or scale and pad with white (contain)"
+        }
+      },
+      required: ["appStoreVersionId", "sets"]
+    },
+    handler: (args, { handlers, extra }) => handlers.screenshots.uploadScreenshots(args, longRunningOptions(extra))
+  }
+];
@@ -0,0 +1,17 @@
+/**
+ * API status tools
+ */
+
+import { ToolDefinition } from './registry.js';
+
+export const statusTools: ToolDefinition[] = [
+  {
+    name: "get_rate_limit_status",
+    description: "Get the remaining App Store Connect API quota for the current hour, as reported by the most recent API response",
+    inputSchema: {
+      type: "object",
+      properties: {}
+    },
+    handler: (_args, { client }) => client.getRateLimitStatus()
+  }
+];
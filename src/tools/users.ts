@@ -0,0 +1,62 @@
+/**
+ * User management tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const userTools: ToolDefinition[] = [
+  {
+    name: "list_users",
+    description: "Get a list of all users registered on your App Store Connect team",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of users to return (default: 100, max: 200)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        sort: {
+          type: "string",
+          description: "Sort order for the results",
+          enum: ["username", "-username", "lastName", "-lastName"]
+        },
+        filter: {
+          type: "object",
+          properties: {
+            username: { type: "string", description: "Filter by username" },
+            roles: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "ADMIN", "FINANCE", "ACCOUNT_HOLDER", "SALES", "MARKETING", "APP_MANAGER",
+                  "DEVELOPER", "ACCESS_TO_REPORTS", "CUSTOMER_SUPPORT", "IMAGE_MANAGER",
+                  "CREATE_APPS", "CLOUD_MANAGED_DEVELOPER_ID", "CLOUD_MANAGED_APP_DISTRIBUTION"
+                ]
+              },
+              description: "Filter by user roles"
+            },
+            visibleApps: {
+              type: "array",
+              items: { type: "string" },
+              description: "Filter by apps the user can see (app IDs)"
+            }
+          }
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["visibleApps"]
+          },
+          description: "Related resources to include in the response"
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.users.listUsers(args)
+  }
+];
@@ -0,0 +1,23 @@
+/**
+ * Local Xcode development tools
+ */
+
+import { ToolDefinition } from './registry.js';
+
+export const xcodeTools: ToolDefinition[] = [
+  {
+    name: "list_schemes",
+    description: "List all available schemes in an Xcode project or workspace",
+    inputSchema: {
+      type: "object",
+      properties: {
+        projectPath: {
+          type: "string",
+          description: "Path to the Xcode project (.xcodeproj) or workspace (.xcworkspace)"
+        }
+      },
+      required: ["projectPath"]
+    },
+    handler: (args, { handlers }) => handlers.xcode.listSchemes(args)
+  }
+];
@@ -0,0 +1,431 @@
+/**
+ * Xcode Cloud CI/CD tools
+ */
+
+import { ToolDefinition } from './registry.js';
+import { paginationProperties } from './schemas.js';
+
+export const xcodeCloudTools: ToolDefinition[] = [
+  {
+    name: "list_ci_products",
+    description: "List all Xcode Cloud products (apps/frameworks configured for CI/CD)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: {
+          type: "number",
+          description: "Maximum number of products to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["primaryRepositories", "app", "bundleId"]
+          },
+          description: "Related resources to include in the response"
+        },
+        filterProductType: {
+          type: "string",
+          enum: ["APP", "FRAMEWORK"],
+          description: "Filter by product type"
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiProducts(args)
+  },
+  {
+    name: "get_ci_product",
+    description: "Get detailed information about a specific Xcode Cloud product",
+    inputSchema: {
+      type: "object",
+      properties: {
+        productId: {
+          type: "string",
+          description: "The ID of the CI product"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["primaryRepositories", "app", "bundleId"]
+          },
+          description: "Related resources to include in the response"
+        }
+      },
+      required: ["productId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getCiProduct(args)
+  },
+  {
+    name: "list_ci_workflows",
+    description: "List all Xcode Cloud workflows for a product",
+    inputSchema: {
+      type: "object",
+      properties: {
+        productId: {
+          type: "string",
+          description: "The ID of the CI product"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of workflows to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["productId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiWorkflows(args)
+  },
+  {
+    name: "get_ci_workflow",
+    description: "Get detailed information about a specific Xcode Cloud workflow",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workflowId: {
+          type: "string",
+          description: "The ID of the CI workflow"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["product", "repository", "xcodeVersion", "macOsVersion"]
+          },
+          description: "Related resources to include in the response"
+        }
+      },
+      required: ["workflowId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getCiWorkflow(args)
+  },
+  {
+    name: "list_ci_build_runs",
+    description: "List Xcode Cloud build runs for a workflow or product",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workflowId: {
+          type: "string",
+          description: "The ID of the workflow (provide this OR productId)"
+        },
+        productId: {
+          type: "string",
+          description: "The ID of the product (provide this OR workflowId)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of build runs to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        filterExecutionProgress: {
+          type: "string",
+          enum: ["PENDING", "RUNNING", "COMPLETE"],
+          description: "Filter by execution progress"
+        },
+        filterCompletionStatus: {
+          type: "string",
+          enum: ["SUCCEEDED", "FAILED", "ERRORED", "CANCELED", "SKIPPED"],
+          description: "Filter by completion status"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["builds", "workflow", "product", "sourceBranchOrTag", "destinationBranch", "pullRequest"]
+          },
+          description: "Related resources to include in the response"
+        },
+        sort: {
+          type: "string",
+          enum: ["number", "-number", "createdDate", "-createdDate"],
+          description: "Sort order (prefix with - for descending)"
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiBuildRuns(args)
+  },
+  {
+    name: "get_ci_build_run",
+    description: "Get detailed information about a specific Xcode Cloud build run. Use errorsOnly to reduce context by returning only essential error summary data.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildRunId: {
+          type: "string",
+          description: "The ID of the build run"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["builds", "workflow", "product", "sourceBranchOrTag", "destinationBranch", "pullRequest"]
+          },
+          description: "Related resources to include in the response (ignored when errorsOnly is true)"
+        },
+        errorsOnly: {
+          type: "boolean",
+          description: "If true, return only essential build info and error counts (reduces context size). Default: false",
+          default: false
+        }
+      },
+      required: ["buildRunId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getCiBuildRun(args)
+  },
+  {
+    name: "start_ci_build_run",
+    description: "Start a new Xcode Cloud build run for a workflow",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workflowId: {
+          type: "string",
+          description: "The ID of the workflow to run"
+        },
+        gitReferenceId: {
+          type: "string",
+          description: "The ID of the git reference (branch/tag) to build (optional)"
+        },
+        clean: {
+          type: "boolean",
+          description: "Whether to perform a clean build (optional)"
+        }
+      },
+      required: ["workflowId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.startCiBuildRun(args)
+  },
+  {
+    name: "cancel_ci_build_run",
+    description: "Cancel a running Xcode Cloud build",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildRunId: {
+          type: "string",
+          description: "The ID of the build run to cancel"
+        }
+      },
+      required: ["buildRunId"]
+    },
+    handler: async (args, { handlers }) => {
+      await handlers.xcodeCloud.cancelCiBuildRun(args);
+      return { success: true, message: "Build run cancelled" };
+    }
+  },
+  {
+    name: "list_ci_build_actions",
+    description: "List all build actions (build, test, analyze, archive) for a build run. Use errorsOnly to reduce context by filtering to only failed/errored actions.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildRunId: {
+          type: "string",
+          description: "The ID of the build run"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of actions to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        errorsOnly: {
+          type: "boolean",
+          description: "If true, only return failed or errored actions (reduces context size). Default: false",
+          default: false
+        }
+      },
+      required: ["buildRunId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiBuildActions(args)
+  },
+  {
+    name: "get_ci_build_action",
+    description: "Get detailed information about a specific build action",
+    inputSchema: {
+      type: "object",
+      properties: {
+        actionId: {
+          type: "string",
+          description: "The ID of the build action"
+        },
+        include: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ["buildRun"]
+          },
+          description: "Related resources to include in the response"
+        }
+      },
+      required: ["actionId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getCiBuildAction(args)
+  },
+  {
+    name: "list_ci_issues",
+    description: "List all issues (errors, warnings, test failures) for a build action. Use errorsOnly to reduce context by filtering to only errors (excludes warnings).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildActionId: {
+          type: "string",
+          description: "The ID of the build action"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of issues to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        errorsOnly: {
+          type: "boolean",
+          description: "If true, only return errors and critical issues (excludes warnings to reduce context size). Default: false",
+          default: false
+        }
+      },
+      required: ["buildActionId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiIssues(args)
+  },
+  {
+    name: "list_ci_test_results",
+    description: "List all test results for a test action. Use errorsOnly to reduce context by filtering to only failed tests.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildActionId: {
+          type: "string",
+          description: "The ID of the test action"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of test results to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        errorsOnly: {
+          type: "boolean",
+          description: "If true, only return failed tests (reduces context size). Default: false",
+          default: false
+        }
+      },
+      required: ["buildActionId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiTestResults(args)
+  },
+  {
+    name: "list_ci_artifacts",
+    description: "List all artifacts (logs, archives) for a build action",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildActionId: {
+          type: "string",
+          description: "The ID of the build action"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of artifacts to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties
+      },
+      required: ["buildActionId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listCiArtifacts(args)
+  },
+  {
+    name: "download_ci_artifact",
+    description: "Get download URL for a build artifact",
+    inputSchema: {
+      type: "object",
+      properties: {
+        artifactId: {
+          type: "string",
+          description: "The ID of the artifact to download"
+        }
+      },
+      required: ["artifactId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.downloadCiArtifact(args)
+  },
+  {
+    name: "list_git_references",
+    description: "List git branches and tags for a repository",
+    inputSchema: {
+      type: "object",
+      properties: {
+        repositoryId: {
+          type: "string",
+          description: "The ID of the SCM repository"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of references to return (default: 100)",
+          minimum: 1,
+          maximum: 200
+        },
+        ...paginationProperties,
+        filterKind: {
+          type: "string",
+          enum: ["BRANCH", "TAG"],
+          description: "Filter by reference type (branch or tag)"
+        }
+      },
+      required: ["repositoryId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.listGitReferences(args)
+  },
+  {
+    name: "get_build_runs_summary",
+    description: "Get a summary of recent build runs with statistics (useful for CI/CD monitoring)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        workflowId: {
+          type: "string",
+          description: "The ID of the workflow (provide this OR productId)"
+        },
+        productId: {
+          type: "string",
+          description: "The ID of the product (provide this OR workflowId)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum number of build runs to include (default: 50)",
+          minimum: 1,
+          maximum: 200
+        }
+      }
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getBuildRunsSummary(args)
+  },
+  {
+    name: "get_build_failure_details",
+    description: "Get detailed failure information for a failed build run (useful for debugging)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        buildRunId: {
+          type: "string",
+          description: "The ID of the failed build run"
+        }
+      },
+      required: ["buildRunId"]
+    },
+    handler: (args, { handlers }) => handlers.xcodeCloud.getBuildFailureDetails(args)
+  }
+];
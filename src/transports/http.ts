@@ -0,0 +1,188 @@
+/**
+ * HTTP transport for the App Store Connect MCP Server
+ *
+ * Serves the MCP streamable HTTP transport and the legacy HTTP+SSE transport from a
+ * single Node.js HTTP server so one shared deployment (e.g. the Docker image) can
+ * serve a whole team:
+ * - POST/GET/DELETE /mcp: Streamable HTTP (one session per `Mcp-Session-Id`)
+ * - GET /sse + POST /messages?sessionId=...: Legacy SSE transport
+ * - GET /health: Unauthenticated liveness probe
+ *
+ * Every other request must carry `Authorization: Bearer <MCP_HTTP_AUTH_TOKEN>`.
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authToken: string;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  });
+}
+
+/**
+ * Checks the request's bearer token in constant time
+ */
+export function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const presented = Buffer.from(header.slice('Bearer '.length).trim());
+  const expected = Buffer.from(authToken);
+
+  return presented.length === expected.length && timingSafeEqual(presented, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Starts the HTTP transport
+ * @param createServer Factory returning a fresh, fully configured MCP Server; each session
+ *   needs its own Server instance because a Server is bound to a single transport
+ * @returns The listening Node.js HTTP server
+ */
+export async function startHttpServer(
+  createServer: () => Server,
+  options: HttpTransportOptions
+): Promise<http.Server> {
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === 'string') {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, transport);
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+      }
+    };
+
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSseConnect = async (res: ServerResponse): Promise<void> => {
+    const transport = new SSEServerTransport('/messages', res);
+    sseTransports.set(transport.sessionId, transport);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+    });
+
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, { status: 'ok' });
+        return;
+      }
+
+      if (!isAuthorized(req, options.authToken)) {
+        sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not Found' });
+      }
+    } catch (error: any) {
+      console.error('HTTP transport error:', error.message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error.message);
+      }
+    }
+  });
+
+  httpServer.on('close', () => {
+    for (const transport of [...streamableTransports.values(), ...sseTransports.values()]) {
+      transport.close().catch(() => {});
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
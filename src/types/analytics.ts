@@ -69,6 +69,51 @@ export interface AnalyticsReportSegment {
   };
 }
 
+export type AnalyticsReportGranularity = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface AnalyticsReportInstance {
+  id: string;
+  type: 'analyticsReportInstances';
+  attributes: {
+    granularity: AnalyticsReportGranularity;
+    processingDate: string; // YYYY-MM-DD
+  };
+}
+
+export interface AnalyticsReportRequestSummary {
+  id: string;
+  type: 'analyticsReportRequests';
+  attributes: {
+    accessType: AnalyticsAccessType;
+    stoppedDueToInactivity: boolean;
+  };
+}
+
+export interface ListAnalyticsReportRequestsResponse {
+  data: AnalyticsReportRequestSummary[];
+}
+
+export interface ListAnalyticsReportInstancesResponse {
+  data: AnalyticsReportInstance[];
+}
+
+export interface AnalyticsReportData {
+  appId: string;
+  reportRequestId: string;
+  requestCreated: boolean; // True when this call created the ONGOING request
+  message?: string;
+  report?: { id: string; name: string; category: AnalyticsReportCategory };
+  granularity: AnalyticsReportGranularity;
+  startDate?: string;
+  endDate?: string;
+  instances: Array<{ id: string; processingDate: string; segments: number }>;
+  columns: ReportColumn[]; // Schema of the merged rows
+  rowCount: number; // Rows in the segments, before maxRows is applied
+  truncated: boolean;
+  rows?: ReportRow[]; // With format "json"
+  csv?: string; // With format "csv"
+}
+
 export interface ListAnalyticsReportsResponse {
   data: AnalyticsReport[];
 }
@@ -78,16 +123,217 @@ export interface ListAnalyticsReportSegmentsResponse {
 }
 
 // Sales and Finance Reports Types
-export type SalesReportType = 'SALES';
-export type SalesReportSubType = 'SUMMARY' | 'DETAILED';
+export type SalesReportType = 'SALES' | 'PRE_ORDER' | 'NEWSSTAND' | 'SUBSCRIPTION' | 'SUBSCRIPTION_EVENT' | 'SUBSCRIBER';
+export type SalesReportSubType = 'SUMMARY' | 'DETAILED' | 'SUMMARY_INSTALL_TYPE' | 'SUMMARY_TERRITORY' | 'SUMMARY_CHANNEL';
 export type SalesReportFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type ReportOutputFormat = 'json' | 'csv';
+
+// Parsed report rows
+export type ReportColumnType = 'string' | 'integer' | 'decimal' | 'date';
+export type ReportValue = string | number | null;
+export type ReportRow = Record<string, ReportValue>;
+
+export interface ReportColumn {
+  header: string; // Column name as written in the report
+  field: string; // Property name in parsed rows
+  type: ReportColumnType;
+}
+
+// Rows list the columns every version of the report has; newer columns are kept as strings
+export interface SalesSummaryRow extends ReportRow {
+  sku: string;
+  title: string;
+  productTypeIdentifier: string;
+  units: number;
+  developerProceeds: number; // Per unit, in currencyOfProceeds
+  beginDate: string;
+  endDate: string;
+  customerCurrency: string;
+  countryCode: string;
+  currencyOfProceeds: string;
+  appleIdentifier: string;
+  customerPrice: number; // Per unit, in customerCurrency
+}
+
+export interface NewsstandRow extends ReportRow {
+  sku: string;
+  title: string;
+  units: number;
+  developerProceeds: number;
+  customerCurrency: string;
+  countryCode: string;
+  currencyOfProceeds: string;
+  appleIdentifier: string;
+  customerPrice: number;
+}
+
+export interface PreOrderRow extends ReportRow {
+  title: string;
+  sku: string;
+  ordered: number;
+  canceled: number;
+  cumulativeOrdered: number;
+  cumulativeCanceled: number;
+  countryCode: string;
+  appleIdentifier: string;
+}
+
+export interface SubscriptionRow extends ReportRow {
+  appName: string;
+  appAppleId: string;
+  subscriptionName: string;
+  subscriptionAppleId: string;
+  customerPrice: number;
+  customerCurrency: string;
+  developerProceeds: number;
+  proceedsCurrency: string;
+  country: string;
+  activeStandardPriceSubscriptions: number;
+  subscribers: number;
+}
+
+export interface SubscriptionEventRow extends ReportRow {
+  eventDate: string;
+  event: string;
+  appName: string;
+  appAppleId: string;
+  subscriptionName: string;
+  subscriptionAppleId: string;
+  country: string;
+  quantity: number;
+}
+
+export interface SubscriberRow extends ReportRow {
+  eventDate: string;
+  appName: string;
+  appAppleId: string;
+  subscriptionName: string;
+  subscriptionAppleId: string;
+  customerPrice: number;
+  customerCurrency: string;
+  developerProceeds: number; // Per unit, in proceedsCurrency
+  proceedsCurrency: string;
+  country: string;
+  subscriberId: string;
+  units: number;
+}
+
+export interface SalesReportRows {
+  SALES: SalesSummaryRow;
+  NEWSSTAND: NewsstandRow;
+  PRE_ORDER: PreOrderRow;
+  SUBSCRIPTION: SubscriptionRow;
+  SUBSCRIPTION_EVENT: SubscriptionEventRow;
+  SUBSCRIBER: SubscriberRow;
+}
+
+export interface ReportTotalsEntry {
+  units: number;
+  proceeds: Record<string, number>; // Keyed by currency
+}
+
+export interface SalesReportTotals extends ReportTotalsEntry {
+  rowCount: number;
+  byProduct: Record<string, ReportTotalsEntry>;
+  byCountry: Record<string, ReportTotalsEntry>;
+  byCurrency?: Record<string, ReportTotalsEntry>; // For reports that state a proceeds currency
+}
 
-export interface SalesReportResponse {
-  data: string; // CSV data
+export interface SalesReportResponse<T extends SalesReportType = SalesReportType> {
+  reportType: T;
+  reportSubType: SalesReportSubType;
+  frequency: SalesReportFrequency;
+  reportDate: string;
+  version: string;
+  columns: string[]; // Field names, in report order
+  rows?: SalesReportRows[T][]; // With format "json"
+  csv?: string; // With format "csv"
+  totals: SalesReportTotals;
+  converted?: ConvertedTotals; // With the `currency` option
+}
+
+export type FinanceReportType = 'FINANCIAL' | 'FINANCE_DETAIL';
+
+// Finance report line item; the detail report names some columns differently
+export interface FinanceReportRow extends ReportRow {
+  quantity: number;
+  partnerShare: number; // Per unit, in partnerShareCurrency
+  extendedPartnerShare: number; // quantity × partnerShare
+  partnerShareCurrency: string;
+  appleIdentifier: string;
+  title: string;
+  productTypeIdentifier: string;
+  countryOfSale: string;
+  customerPrice: number;
+  customerCurrency: string;
+}
+
+export interface FinanceReportTotals extends ReportTotalsEntry {
+  rowCount: number;
+  byRegion: Record<string, ReportTotalsEntry>;
+  byProduct: Record<string, ReportTotalsEntry>;
+  byCountry: Record<string, ReportTotalsEntry>;
+  byCurrency: Record<string, ReportTotalsEntry>;
 }
 
 export interface FinanceReportResponse {
-  data: string; // CSV data
+  reportType: FinanceReportType;
+  regionCode: string;
+  reportDate: string;
+  columns: string[]; // Field names, in report order
+  rows?: FinanceReportRow[]; // With format "json"
+  csv?: string; // With format "csv"
+  summary: Record<string, ReportValue>; // Trailing lines such as Total_Amount, as reported by Apple
+  totals: FinanceReportTotals; // Earnings (extended partner share) are in `proceeds`
+  exchangeRates?: ExchangeRates; // When the report states the rates Apple paid out at
+  converted?: ConvertedTotals; // With the `currency` option
+}
+
+export interface FinanceRegionPayout {
+  regionCode: string;
+  rowCount: number;
+  units: number;
+  earnings: Record<string, number>; // Keyed by currency
+  reportedAmount?: number; // Total_Amount line of the report
+  matchesReportedAmount?: boolean;
+}
+
+export interface FinanceReconciliation {
+  reportDate: string;
+  regions: FinanceRegionPayout[];
+  regionsWithoutReport: string[]; // Regions with no earnings this month
+  byCurrency: Record<string, { units: number; earnings: number; regions: string[] }>;
+  consolidated?: {
+    earnings: Record<string, number>; // From the ZZ consolidated report
+    discrepancies: Array<{ currency: string; regions: number; consolidated: number; difference: number }>;
+  };
+}
+
+export type SalesTimeseriesDimension = 'date' | 'product' | 'country' | 'currency';
+
+// Units and proceeds of one combination of the grouped dimensions
+export interface SalesTimeseriesPoint extends ReportTotalsEntry {
+  date?: string;
+  product?: string;
+  country?: string;
+  currency?: string;
+  convertedProceeds?: number; // With the `currency` option
+}
+
+export interface SalesTimeseries {
+  reportType: SalesReportType;
+  startDate: string;
+  endDate: string;
+  groupBy: SalesTimeseriesDimension[];
+  points: SalesTimeseriesPoint[];
+  totals: ReportTotalsEntry;
+  coverage: {
+    days: number;
+    fromCache: number; // Daily reports read from the report cache
+    downloaded: number; // Daily reports downloaded to fill the range
+    daysWithoutReport: string[]; // No sales that day, or the report is not published yet
+  };
+  converted?: Omit<ConvertedTotals, 'byProduct' | 'byCountry' | 'byRegion'>; // With the `currency` option
 }
 
 export interface SalesReportFilters {
@@ -96,10 +342,72 @@ export interface SalesReportFilters {
   reportSubType: SalesReportSubType;
   frequency: SalesReportFrequency;
   vendorNumber: string;
+  version: string;
 }
 
 export interface FinanceReportFilters {
   reportDate: string;
   regionCode: string;
+  reportType: FinanceReportType;
   vendorNumber: string;
-}
\ No newline at end of file
+}
+export interface PortfolioMetrics {
+  downloads: number; // First-time downloads, net of refunds
+  redownloads: number;
+  updates: number;
+  inAppPurchases: number;
+  refunds: number; // Units refunded
+  proceeds: number; // Net proceeds, in the summary currency
+  refundedProceeds: number; // In the summary currency
+}
+
+export interface PortfolioPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+export interface PortfolioEntry {
+  current: PortfolioMetrics;
+  previous: PortfolioMetrics;
+  change: PortfolioMetrics; // current - previous
+  percentChange: Record<keyof PortfolioMetrics, number | null>; // null when the previous value is 0
+}
+
+export interface PortfolioAppSummary extends PortfolioEntry {
+  appId?: string; // Missing for products whose app list_apps does not return
+  name: string;
+  bundleId?: string;
+  sku?: string;
+}
+
+export interface PortfolioSummary {
+  currency: string;
+  current: PortfolioPeriod;
+  previous: PortfolioPeriod;
+  apps: PortfolioAppSummary[]; // By current proceeds, largest first
+  totals: PortfolioEntry;
+  exchangeRates: ConvertedTotals['exchangeRates'];
+  unconvertedCurrencies: string[]; // Proceeds in these currencies are left out for lack of a rate
+  coverage: SalesTimeseries['coverage'];
+}
+
+/**
+ * A table of exchange rates into one base currency
+ */
+export interface ExchangeRates {
+  source: string; // Where the rates come from, e.g. "static" or "finance-report"
+  asOf: string; // Date (YYYY-MM-DD) or fiscal month (YYYY-MM) the rates apply to
+  base: string; // ISO 4217 code of the currency the rates convert into
+  perUnit: Record<string, number>; // Amount of the base currency one unit of each currency is worth
+}
+
+// Report proceeds converted into one currency
+export interface ConvertedTotals {
+  currency: string;
+  proceeds: number;
+  byProduct?: Record<string, number>;
+  byCountry?: Record<string, number>;
+  byRegion?: Record<string, number>;
+  exchangeRates: Array<{ source: string; asOf: string }>; // Tables consulted, in order of preference
+  unconvertedCurrencies: string[]; // Left out of the amounts for lack of a rate
+}
@@ -1,22 +1,10 @@
-export interface App {
-  id: string;
-  type: string;
-  attributes: {
-    name: string;
-    bundleId: string;
-    sku: string;
-    primaryLocale: string;
-  };
-}
+import type * as Spec from './generated/app-store-connect.js';
 
-export interface ListAppsResponse {
-  data: App[];
-}
+export type App = Spec.App;
 
-export interface AppInfoResponse {
-  data: App;
-  included?: any[];
-}
+export type ListAppsResponse = Spec.AppsResponse;
+
+export type AppInfoResponse = Spec.AppResponse;
 
 export type AppIncludeOptions = 
   | "appClips"
@@ -32,4 +20,47 @@ export type AppIncludeOptions =
   | "inAppPurchases"
   | "preOrder"
   | "prices"
-  | "reviewSubmissions";
\ No newline at end of file
+  | "reviewSubmissions";
+
+export type CustomerReview = Spec.CustomerReview;
+
+export type ListCustomerReviewsResponse = Spec.CustomerReviewsResponse;
+
+export type GetCustomerReviewResponse = Spec.CustomerReviewResponse;
+
+// A developer's public reply to a review; the spec calls these customerReviewResponses
+export type CustomerReviewResponseV1 = Spec.CustomerReviewResponseV1;
+
+export type CustomerReviewResponseV1Response = Spec.CustomerReviewResponseV1Response;
+
+export type CustomerReviewSortOptions = "createdDate" | "-createdDate" | "rating" | "-rating";
+
+export interface CustomerReviewFilter {
+  territory?: Spec.TerritoryCode[];
+  rating?: number[]; // 1 to 5
+  hasResponse?: boolean; // Only reviews with (true) or without (false) a published response
+  startDate?: string; // YYYY-MM-DD, compared with createdDate in UTC, inclusive
+  endDate?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface CustomerReviewRatings {
+  reviews: number;
+  averageRating: number | null;
+}
+
+export interface CustomerReviewKeyword extends CustomerReviewRatings {
+  keyword: string;
+}
+
+/**
+ * Rating distribution and recurring words across a set of reviews
+ */
+export interface CustomerReviewSummary extends CustomerReviewRatings {
+  ratingDistribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+  withResponse: number;
+  firstReviewDate?: string;
+  lastReviewDate?: string;
+  byTerritory: Record<string, CustomerReviewRatings>;
+  keywords: CustomerReviewKeyword[]; // Words found in at least two reviews, most frequent first
+  truncated: boolean; // More reviews match than were read
+}
@@ -1,63 +1,19 @@
-export interface BetaGroup {
-  id: string;
-  type: string;
-  attributes: {
-    name: string;
-    isInternalGroup: boolean;
-    publicLinkEnabled: boolean;
-    publicLinkId?: string;
-    publicLinkLimit?: number;
-    createdDate: string;
-  };
-}
+import type * as Spec from './generated/app-store-connect.js';
+import { PaginationOptions } from './common.js';
 
-export interface BetaTester {
-  id: string;
-  type: string;
-  attributes: {
-    firstName: string;
-    lastName: string;
-    email: string;
-    inviteType: string;
-    betaGroups?: BetaGroup[];
-  };
-}
+export type BetaGroup = Spec.BetaGroup;
 
-export interface ListBetaGroupsResponse {
-  data: BetaGroup[];
-}
+export type BetaTester = Spec.BetaTester;
 
-export interface ListBetaTestersResponse {
-  data: BetaTester[];
-}
+export type ListBetaGroupsResponse = Spec.BetaGroupsResponse;
 
-export interface AddTesterRequest {
-  data: {
-    type: "betaTesters";
-    attributes: {
-      email: string;
-      firstName: string;
-      lastName: string;
-    };
-    relationships: {
-      betaGroups: {
-        data: Array<{
-          id: string;
-          type: "betaGroups";
-        }>;
-      };
-    };
-  };
-}
+export type ListBetaTestersResponse = Spec.BetaTestersResponse;
 
-export interface RemoveTesterRequest {
-  data: Array<{
-    id: string;
-    type: "betaTesters";
-  }>;
-}
+export type AddTesterRequest = Spec.BetaTesterCreateRequest;
+
+export type RemoveTesterRequest = Spec.BetaGroupBetaTestersLinkagesRequest;
 
-// Beta Feedback Screenshot types
+// Beta feedback endpoints are newer than the bundled 3.2.json, so these stay hand-written
 export interface BetaFeedbackScreenshotImage {
   url: string;
   height: number;
@@ -85,7 +41,7 @@ export interface BetaFeedbackScreenshotSubmission {
     screenWidthInPoints?: number;
     screenHeightInPoints?: number;
     appPlatform?: string;
-    devicePlatform?: "IOS" | "MAC_OS" | "TV_OS" | "VISION_OS";
+    devicePlatform?: Spec.Platform;
     deviceFamily?: string;
     buildBundleId?: string;
     screenshots?: BetaFeedbackScreenshotImage[];
@@ -106,12 +62,12 @@ export interface BetaFeedbackScreenshotSubmission {
   };
 }
 
-export interface ListBetaFeedbackScreenshotSubmissionsRequest {
+export interface ListBetaFeedbackScreenshotSubmissionsRequest extends PaginationOptions {
   appId?: string;
   bundleId?: string;
   buildId?: string;
-  devicePlatform?: "IOS" | "MAC_OS" | "TV_OS" | "VISION_OS";
-  appPlatform?: "IOS" | "MAC_OS" | "TV_OS" | "VISION_OS";
+  devicePlatform?: Spec.Platform;
+  appPlatform?: Spec.Platform;
   deviceModel?: string;
   osVersion?: string;
   testerId?: string;
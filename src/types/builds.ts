@@ -0,0 +1,57 @@
+// Build Types
+import type * as Spec from './generated/app-store-connect.js';
+
+export type Build = Spec.Build;
+
+export type ListBuildsResponse = Spec.BuildsResponse;
+
+export type BuildResponse = Spec.BuildResponse;
+
+export type BuildUpdateRequest = Spec.BuildUpdateRequest;
+
+export type BuildProcessingState = NonNullable<NonNullable<Spec.Build['attributes']>['processingState']>;
+
+export interface BuildFilters {
+  appId?: string;
+  version?: string; // Build number (CFBundleVersion)
+  preReleaseVersion?: string; // Marketing version (CFBundleShortVersionString)
+  platform?: Spec.Platform;
+  processingState?: BuildProcessingState[];
+  expired?: boolean;
+  appStoreVersionId?: string; // Only the build attached to this App Store version
+}
+
+export type BuildSortOptions =
+  | "uploadedDate" | "-uploadedDate"
+  | "version" | "-version"
+  | "preReleaseVersion" | "-preReleaseVersion";
+
+export type BuildIncludeOptions =
+  | "app"
+  | "appEncryptionDeclaration"
+  | "appStoreVersion"
+  | "betaAppReviewSubmission"
+  | "betaBuildLocalizations"
+  | "betaGroups"
+  | "buildBetaDetail"
+  | "buildBundles"
+  | "icons"
+  | "individualTesters"
+  | "preReleaseVersion";
+
+/**
+ * Outcome of waiting for a build to finish processing
+ */
+export interface BuildProcessingResult {
+  buildId?: string;
+  version?: string;
+  processingState: BuildProcessingState | 'NOT_FOUND'; // NOT_FOUND: no build matched yet (still uploading)
+  finished: boolean; // Processing ended: the build is VALID, FAILED or INVALID
+  timedOut: boolean;
+  elapsedSeconds: number;
+  polls: number;
+  internalBuildState?: Spec.InternalBetaState;
+  externalBuildState?: Spec.ExternalBetaState;
+  issues: string[]; // What keeps the build from being tested or submitted
+  build?: Build;
+}
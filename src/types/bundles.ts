@@ -1,88 +1,17 @@
-export type BundlePlatform = "IOS" | "MAC_OS" | "UNIVERSAL";
+import type * as Spec from './generated/app-store-connect.js';
 
-export interface BundleId {
-  id: string;
-  type: string;
-  attributes: {
-    identifier: string;
-    name: string;
-    platform: BundlePlatform;
-    seedId?: string;
-  };
-}
+export type BundlePlatform = Spec.BundleIdPlatform;
 
-export interface CreateBundleIdRequest {
-  data: {
-    type: "bundleIds";
-    attributes: {
-      identifier: string;
-      name: string;
-      platform: BundlePlatform;
-      seedId?: string;
-    };
-  };
-}
+export type BundleId = Spec.BundleId;
 
-export interface ListBundleIdsResponse {
-  data: BundleId[];
-}
+export type CreateBundleIdRequest = Spec.BundleIdCreateRequest;
 
-export interface BundleIdResponse {
-  data: BundleId;
-}
+export type ListBundleIdsResponse = Spec.BundleIdsResponse;
 
-export type CapabilityType = 
-  | "ICLOUD"
-  | "IN_APP_PURCHASE"
-  | "GAME_CENTER"
-  | "PUSH_NOTIFICATIONS"
-  | "WALLET"
-  | "INTER_APP_AUDIO"
-  | "MAPS"
-  | "ASSOCIATED_DOMAINS"
-  | "PERSONAL_VPN"
-  | "APP_GROUPS"
-  | "HEALTHKIT"
-  | "HOMEKIT"
-  | "WIRELESS_ACCESSORY_CONFIGURATION"
-  | "APPLE_PAY"
-  | "DATA_PROTECTION"
-  | "SIRIKIT"
-  | "NETWORK_EXTENSIONS"
-  | "MULTIPATH"
-  | "HOT_SPOT"
-  | "NFC_TAG_READING"
-  | "CLASSKIT"
-  | "AUTOFILL_CREDENTIAL_PROVIDER"
-  | "ACCESS_WIFI_INFORMATION"
-  | "NETWORK_CUSTOM_PROTOCOL"
-  | "COREMEDIA_HLS_LOW_LATENCY"
-  | "SYSTEM_EXTENSION_INSTALL"
-  | "USER_MANAGEMENT"
-  | "APPLE_ID_AUTH";
+export type BundleIdResponse = Spec.BundleIdResponse;
 
-export interface CapabilitySetting {
-  key: string;
-  options: Array<{
-    key: string;
-    enabled: boolean;
-  }>;
-}
+export type CapabilityType = Spec.CapabilityType;
 
-export interface EnableCapabilityRequest {
-  data: {
-    type: "bundleIdCapabilities";
-    attributes: {
-      capabilityType: CapabilityType;
-      settings?: CapabilitySetting[];
-    };
-    relationships: {
-      bundleId: {
-        data: {
-          id: string;
-          type: "bundleIds";
-        };
-      };
-    };
-  };
-}
\ No newline at end of file
+export type CapabilitySetting = Spec.CapabilitySetting;
+
+export type EnableCapabilityRequest = Spec.BundleIdCapabilityCreateRequest;
@@ -1,10 +1,29 @@
 export interface AppStoreConnectConfig {
   keyId: string;
   issuerId: string;
-  privateKeyPath: string;
+  privateKeyPath?: string; // Path to the .p8 key file; one of privateKeyPath and privateKey is required
+  privateKey?: string; // PEM-encoded key, used instead of reading privateKeyPath
   vendorNumber?: string; // Optional vendor number for sales and finance reports
+  tokenScope?: string[]; // Requests tokens are limited to, e.g. 'GET /v1/apps'; Apple rejects any other
 }
 
+/**
+ * Named App Store Connect accounts served by one server
+ */
+export interface AppStoreConnectProfiles {
+  defaultProfile: string; // Used when a tool call does not name a profile
+  profiles: Record<string, AppStoreConnectConfig>;
+}
+
+export type TransportConfig =
+  | { transport: 'stdio' }
+  | {
+      transport: 'http';
+      host: string;
+      port: number;
+      authToken: string; // Bearer token required on every HTTP request
+    };
+
 export interface BaseApiResponse<T> {
   data: T;
   links?: {
@@ -15,14 +34,49 @@ export interface BaseApiResponse<T> {
   };
   meta?: {
     paging?: {
-      total: number;
+      total?: number;
       limit: number;
     };
   };
 }
 
+/**
+ * Progress of a long-running tool call, sent to the client as an MCP progress notification
+ */
+export interface ProgressUpdate {
+  progress: number; // Increases with every update
+  total?: number; // Value of `progress` once done, when known
+  message?: string;
+}
+
+/**
+ * Lets a long-running handler report progress and stop when the call is cancelled
+ */
+export interface LongRunningOptions {
+  signal?: AbortSignal;
+  onProgress?: (update: ProgressUpdate) => Promise<void>;
+}
+
+/**
+ * Options controlling how list endpoints follow `links.next` cursors
+ */
+export interface PaginationOptions {
+  allPages?: boolean; // Follow every `links.next` cursor until the collection is exhausted
+  maxItems?: number; // Stop once this many items have been collected (implies following cursors)
+}
+
+/**
+ * Last known App Store Connect API quota, as reported by the `X-Rate-Limit` header
+ */
+export interface RateLimitStatus {
+  limit?: number; // Requests allowed per rolling hour
+  remaining?: number; // Requests left in the current hour
+  lastUpdated?: string; // ISO 8601 timestamp of the response that reported the quota
+  retriedRequests: number; // Requests retried because of throttling or server errors
+}
+
 export interface ApiError {
-  id: string;
+  id?: string;
   status: string;
   code: string;
   title: string;
@@ -31,8 +85,31 @@ export interface ApiError {
     pointer?: string;
     parameter?: string;
   };
+  meta?: Record<string, unknown>;
 }
 
 export interface ApiErrorResponse {
   errors: ApiError[];
-}
\ No newline at end of file
+}
+
+/**
+ * A failed App Store Connect request, translated for tool results
+ */
+export interface ApiErrorReport {
+  message: string; // One-line summary of the first error
+  status?: number; // HTTP status of the response (absent for network failures)
+  method?: string;
+  url?: string;
+  requestId?: string; // Quote this when contacting Apple about the failure
+  errors: Array<{
+    code: string;
+    title: string;
+    detail: string;
+    status?: string;
+    pointer?: string; // JSON pointer into the request body, e.g. /data/attributes/versionString
+    parameter?: string; // Query parameter at fault, e.g. filter[platform]
+    id?: string;
+    meta?: Record<string, unknown>;
+    hint?: string; // Suggested correction for common error codes
+  }>;
+}
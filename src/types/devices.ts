@@ -1,41 +1,26 @@
-export type DevicePlatform = "IOS" | "MAC_OS";
-export type DeviceStatus = "ENABLED" | "DISABLED";
-export type DeviceClass = "APPLE_WATCH" | "IPAD" | "IPHONE" | "IPOD" | "APPLE_TV" | "MAC";
+import type * as Spec from './generated/app-store-connect.js';
 
-export interface Device {
-  id: string;
-  type: string;
-  attributes: {
-    name: string;
-    platform: DevicePlatform;
-    udid: string;
-    deviceClass: DeviceClass;
-    status: DeviceStatus;
-    model?: string;
-    addedDate?: string;
-  };
-}
+export type DevicePlatform = Spec.BundleIdPlatform;
+export type DeviceStatus = NonNullable<NonNullable<Spec.Device['attributes']>['status']>;
+export type DeviceClass = NonNullable<NonNullable<Spec.Device['attributes']>['deviceClass']>;
 
-export interface ListDevicesResponse {
-  data: Device[];
-}
+export type Device = Spec.Device;
+
+export type ListDevicesResponse = Spec.DevicesResponse;
 
 export interface DeviceFilters {
   name?: string;
   platform?: DevicePlatform;
   status?: DeviceStatus;
   udid?: string;
-  deviceClass?: DeviceClass;
 }
 
 export type DeviceSortOptions = 
+  | "id" | "-id"
   | "name" | "-name"
   | "platform" | "-platform"
   | "status" | "-status"
-  | "udid" | "-udid"
-  | "deviceClass" | "-deviceClass"
-  | "model" | "-model"
-  | "addedDate" | "-addedDate";
+  | "udid" | "-udid";
 
 export type DeviceFieldOptions = 
   | "name"
@@ -44,4 +29,4 @@ export type DeviceFieldOptions =
   | "deviceClass"
   | "status"
   | "model"
-  | "addedDate";
\ No newline at end of file
+  | "addedDate";
@@ -0,0 +1,12098 @@
+/**
+ * App Store Connect API types (OpenAPI spec version 3.2)
+ *
+ * GENERATED FILE - DO NOT EDIT.
+ * Generated from 3.2.json by src/codegen/openapi-types.ts; run `npm run generate:types` to update.
+ */
+
+export interface Actor {
+  type: 'actors';
+  id: string;
+  attributes?: {
+    actorType?: 'USER' | 'API_KEY' | 'XCODE_CLOUD' | 'APPLE';
+    userFirstName?: string;
+    userLastName?: string;
+    userEmail?: string;
+    apiKeyId?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface ActorResponse {
+  data: Actor;
+  links: DocumentLinks;
+}
+
+export interface ActorsResponse {
+  data: Actor[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AgeRatingDeclaration {
+  type: 'ageRatingDeclarations';
+  id: string;
+  attributes?: {
+    alcoholTobaccoOrDrugUseOrReferences?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    contests?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    /** @deprecated */
+    gamblingAndContests?: boolean;
+    gambling?: boolean;
+    gamblingSimulated?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    kidsAgeBand?: KidsAgeBand;
+    medicalOrTreatmentInformation?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    profanityOrCrudeHumor?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    sexualContentGraphicAndNudity?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    sexualContentOrNudity?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    seventeenPlus?: boolean;
+    horrorOrFearThemes?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    matureOrSuggestiveThemes?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    unrestrictedWebAccess?: boolean;
+    violenceCartoonOrFantasy?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    violenceRealisticProlongedGraphicOrSadistic?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    violenceRealistic?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+  };
+  links?: ResourceLinks;
+}
+
+export interface AgeRatingDeclarationResponse {
+  data: AgeRatingDeclaration;
+  links: DocumentLinks;
+}
+
+export interface AgeRatingDeclarationUpdateRequest {
+  data: {
+    type: 'ageRatingDeclarations';
+    id: string;
+    attributes?: {
+      alcoholTobaccoOrDrugUseOrReferences?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      contests?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      /** @deprecated */
+      gamblingAndContests?: boolean;
+      gambling?: boolean;
+      gamblingSimulated?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      kidsAgeBand?: KidsAgeBand;
+      medicalOrTreatmentInformation?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      profanityOrCrudeHumor?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      sexualContentGraphicAndNudity?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      sexualContentOrNudity?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      seventeenPlus?: boolean;
+      horrorOrFearThemes?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      matureOrSuggestiveThemes?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      unrestrictedWebAccess?: boolean;
+      violenceCartoonOrFantasy?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      violenceRealisticProlongedGraphicOrSadistic?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+      violenceRealistic?: 'NONE' | 'INFREQUENT_OR_MILD' | 'FREQUENT_OR_INTENSE';
+    };
+  };
+}
+
+export interface AgeRatingDeclarationWithoutIncludesResponse {
+  data: AppStoreVersion;
+  links: DocumentLinks;
+}
+
+export interface App {
+  type: 'apps';
+  id: string;
+  attributes?: {
+    name?: string;
+    bundleId?: string;
+    sku?: string;
+    primaryLocale?: string;
+    isOrEverWasMadeForKids?: boolean;
+    subscriptionStatusUrl?: string;
+    subscriptionStatusUrlVersion?: SubscriptionStatusUrlVersion;
+    subscriptionStatusUrlForSandbox?: string;
+    subscriptionStatusUrlVersionForSandbox?: SubscriptionStatusUrlVersion;
+    /** @deprecated */
+    availableInNewTerritories?: boolean;
+    contentRightsDeclaration?: 'DOES_NOT_USE_THIRD_PARTY_CONTENT' | 'USES_THIRD_PARTY_CONTENT';
+  };
+  relationships?: {
+    appEncryptionDeclarations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appEncryptionDeclarations';
+        id: string;
+      }>;
+    };
+    ciProduct?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciProducts';
+        id: string;
+      };
+    };
+    betaGroups?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaGroups';
+        id: string;
+      }>;
+    };
+    appStoreVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersions';
+        id: string;
+      }>;
+    };
+    preReleaseVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'preReleaseVersions';
+        id: string;
+      }>;
+    };
+    betaAppLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaAppLocalizations';
+        id: string;
+      }>;
+    };
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+    betaLicenseAgreement?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'betaLicenseAgreements';
+        id: string;
+      };
+    };
+    betaAppReviewDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'betaAppReviewDetails';
+        id: string;
+      };
+    };
+    appInfos?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appInfos';
+        id: string;
+      }>;
+    };
+    appClips?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appClips';
+        id: string;
+      }>;
+    };
+    endUserLicenseAgreement?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'endUserLicenseAgreements';
+        id: string;
+      };
+    };
+    preOrder?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPreOrders';
+        id: string;
+      };
+    };
+    /** @deprecated */
+    prices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPrices';
+        id: string;
+      }>;
+    };
+    /** @deprecated */
+    availableTerritories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territories';
+        id: string;
+      }>;
+    };
+    /** @deprecated */
+    inAppPurchases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchases';
+        id: string;
+      }>;
+    };
+    subscriptionGroups?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionGroups';
+        id: string;
+      }>;
+    };
+    gameCenterEnabledVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterEnabledVersions';
+        id: string;
+      }>;
+    };
+    appCustomProductPages?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appCustomProductPages';
+        id: string;
+      }>;
+    };
+    inAppPurchasesV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchases';
+        id: string;
+      }>;
+    };
+    promotedPurchases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'promotedPurchases';
+        id: string;
+      }>;
+    };
+    appEvents?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appEvents';
+        id: string;
+      }>;
+    };
+    reviewSubmissions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'reviewSubmissions';
+        id: string;
+      }>;
+    };
+    subscriptionGracePeriod?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionGracePeriods';
+        id: string;
+      };
+    };
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentsV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperiments';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppAvailability {
+  type: 'appAvailabilities';
+  id: string;
+  attributes?: {
+    availableInNewTerritories?: boolean;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    availableTerritories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territories';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppAvailabilityCreateRequest {
+  data: {
+    type: 'appAvailabilities';
+    attributes: {
+      availableInNewTerritories: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      availableTerritories: {
+        data: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppAvailabilityResponse {
+  data: AppAvailability;
+  included?: Array<App | Territory>;
+  links: DocumentLinks;
+}
+
+export interface AppAvailabilityV2 {
+  type: 'appAvailabilities';
+  id: string;
+  attributes?: {
+    availableInNewTerritories?: boolean;
+  };
+  relationships?: {
+    territoryAvailabilities?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territoryAvailabilities';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppAvailabilityV2CreateRequest {
+  data: {
+    type: 'appAvailabilities';
+    attributes: {
+      availableInNewTerritories: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      territoryAvailabilities: {
+        data: Array<{
+          type: 'territoryAvailabilities';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: TerritoryAvailabilityInlineCreate[];
+}
+
+export interface AppAvailabilityV2Response {
+  data: AppAvailabilityV2;
+  included?: TerritoryAvailability[];
+  links: DocumentLinks;
+}
+
+export interface AppBetaTestersLinkagesRequest {
+  data: Array<{
+    type: 'betaTesters';
+    id: string;
+  }>;
+}
+
+export interface AppCategoriesResponse {
+  data: AppCategory[];
+  included?: AppCategory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppCategoriesWithoutIncludesResponse {
+  data: AppCategory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppCategory {
+  type: 'appCategories';
+  id: string;
+  attributes?: {
+    platforms?: Platform[];
+  };
+  relationships?: {
+    subcategories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appCategories';
+        id: string;
+      }>;
+    };
+    parent?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppCategoryResponse {
+  data: AppCategory;
+  included?: AppCategory[];
+  links: DocumentLinks;
+}
+
+export interface AppCategoryWithoutIncludesResponse {
+  data: AppCategory;
+  links: DocumentLinks;
+}
+
+export interface AppClip {
+  type: 'appClips';
+  id: string;
+  attributes?: {
+    bundleId?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    appClipDefaultExperiences?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appClipDefaultExperiences';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export type AppClipAction = 'OPEN' | 'VIEW' | 'PLAY';
+
+export interface AppClipAdvancedExperience {
+  type: 'appClipAdvancedExperiences';
+  id: string;
+  attributes?: {
+    link?: string;
+    version?: number;
+    status?: 'RECEIVED' | 'DEACTIVATED' | 'APP_TRANSFER_IN_PROGRESS';
+    action?: AppClipAction;
+    isPoweredBy?: boolean;
+    place?: {
+      placeId?: string;
+      names?: string[];
+      mainAddress?: {
+        fullAddress?: string;
+        structuredAddress?: {
+          streetAddress?: string[];
+          floor?: string;
+          neighborhood?: string;
+          locality?: string;
+          stateProvince?: string;
+          postalCode?: string;
+          countryCode?: string;
+        };
+      };
+      displayPoint?: {
+        coordinates?: {
+          latitude?: number;
+          longitude?: number;
+        };
+        source?: 'CALCULATED' | 'MANUALLY_PLACED';
+      };
+      mapAction?: 'BUY_TICKETS' | 'VIEW_AVAILABILITY' | 'VIEW_PRICING' | 'HOTEL_BOOK_ROOM' | 'PARKING_RESERVE_PARKING' | 'RESTAURANT_JOIN_WAITLIST' | 'RESTAURANT_ORDER_DELIVERY' | 'RESTAURANT_ORDER_FOOD' | 'RESTAURANT_ORDER_TAKEOUT' | 'RESTAURANT_RESERVATION' | 'SCHEDULE_APPOINTMENT' | 'RESTAURANT_VIEW_MENU' | 'THEATER_NOW_PLAYING';
+      relationship?: 'OWNER' | 'AUTHORIZED' | 'OTHER';
+      phoneNumber?: {
+        number?: string;
+        type?: 'FAX' | 'LANDLINE' | 'MOBILE' | 'TOLLFREE';
+        intent?: string;
+      };
+      homePage?: string;
+      categories?: string[];
+    };
+    placeStatus?: 'PENDING' | 'MATCHED' | 'NO_MATCH';
+    businessCategory?: 'AUTOMOTIVE' | 'BEAUTY' | 'BIKES' | 'BOOKS' | 'CASINO' | 'EDUCATION' | 'EDUCATION_JAPAN' | 'ENTERTAINMENT' | 'EV_CHARGER' | 'FINANCIAL_USD' | 'FINANCIAL_CNY' | 'FINANCIAL_GBP' | 'FINANCIAL_JPY' | 'FINANCIAL_EUR' | 'FITNESS' | 'FOOD_AND_DRINK' | 'GAS' | 'GROCERY' | 'HEALTH_AND_MEDICAL' | 'HOTEL_AND_TRAVEL' | 'MUSIC' | 'PARKING' | 'PET_SERVICES' | 'PROFESSIONAL_SERVICES' | 'SHOPPING' | 'TICKETING' | 'TRANSIT';
+    defaultLanguage?: AppClipAdvancedExperienceLanguage;
+  };
+  relationships?: {
+    appClip?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClips';
+        id: string;
+      };
+    };
+    headerImage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipAdvancedExperienceImages';
+        id: string;
+      };
+    };
+    localizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appClipAdvancedExperienceLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipAdvancedExperienceCreateRequest {
+  data: {
+    type: 'appClipAdvancedExperiences';
+    attributes: {
+      link: string;
+      action?: AppClipAction;
+      isPoweredBy: boolean;
+      place?: {
+        placeId?: string;
+        names?: string[];
+        mainAddress?: {
+          fullAddress?: string;
+          structuredAddress?: {
+            streetAddress?: string[];
+            floor?: string;
+            neighborhood?: string;
+            locality?: string;
+            stateProvince?: string;
+            postalCode?: string;
+            countryCode?: string;
+          };
+        };
+        displayPoint?: {
+          coordinates?: {
+            latitude?: number;
+            longitude?: number;
+          };
+          source?: 'CALCULATED' | 'MANUALLY_PLACED';
+        };
+        mapAction?: 'BUY_TICKETS' | 'VIEW_AVAILABILITY' | 'VIEW_PRICING' | 'HOTEL_BOOK_ROOM' | 'PARKING_RESERVE_PARKING' | 'RESTAURANT_JOIN_WAITLIST' | 'RESTAURANT_ORDER_DELIVERY' | 'RESTAURANT_ORDER_FOOD' | 'RESTAURANT_ORDER_TAKEOUT' | 'RESTAURANT_RESERVATION' | 'SCHEDULE_APPOINTMENT' | 'RESTAURANT_VIEW_MENU' | 'THEATER_NOW_PLAYING';
+        relationship?: 'OWNER' | 'AUTHORIZED' | 'OTHER';
+        phoneNumber?: {
+          number?: string;
+          type?: 'FAX' | 'LANDLINE' | 'MOBILE' | 'TOLLFREE';
+          intent?: string;
+        };
+        homePage?: string;
+        categories?: string[];
+      };
+      businessCategory?: 'AUTOMOTIVE' | 'BEAUTY' | 'BIKES' | 'BOOKS' | 'CASINO' | 'EDUCATION' | 'EDUCATION_JAPAN' | 'ENTERTAINMENT' | 'EV_CHARGER' | 'FINANCIAL_USD' | 'FINANCIAL_CNY' | 'FINANCIAL_GBP' | 'FINANCIAL_JPY' | 'FINANCIAL_EUR' | 'FITNESS' | 'FOOD_AND_DRINK' | 'GAS' | 'GROCERY' | 'HEALTH_AND_MEDICAL' | 'HOTEL_AND_TRAVEL' | 'MUSIC' | 'PARKING' | 'PET_SERVICES' | 'PROFESSIONAL_SERVICES' | 'SHOPPING' | 'TICKETING' | 'TRANSIT';
+      defaultLanguage: AppClipAdvancedExperienceLanguage;
+    };
+    relationships: {
+      appClip: {
+        data: {
+          type: 'appClips';
+          id: string;
+        };
+      };
+      headerImage: {
+        data: {
+          type: 'appClipAdvancedExperienceImages';
+          id: string;
+        };
+      };
+      localizations: {
+        data: Array<{
+          type: 'appClipAdvancedExperienceLocalizations';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: AppClipAdvancedExperienceLocalizationInlineCreate[];
+}
+
+export interface AppClipAdvancedExperienceImage {
+  type: 'appClipAdvancedExperienceImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    imageAsset?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipAdvancedExperienceImageCreateRequest {
+  data: {
+    type: 'appClipAdvancedExperienceImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+  };
+}
+
+export interface AppClipAdvancedExperienceImageResponse {
+  data: AppClipAdvancedExperienceImage;
+  links: DocumentLinks;
+}
+
+export interface AppClipAdvancedExperienceImageUpdateRequest {
+  data: {
+    type: 'appClipAdvancedExperienceImages';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export type AppClipAdvancedExperienceLanguage = 'AR' | 'CA' | 'CS' | 'DA' | 'DE' | 'EL' | 'EN' | 'ES' | 'FI' | 'FR' | 'HE' | 'HI' | 'HR' | 'HU' | 'ID' | 'IT' | 'JA' | 'KO' | 'MS' | 'NL' | 'NO' | 'PL' | 'PT' | 'RO' | 'RU' | 'SK' | 'SV' | 'TH' | 'TR' | 'UK' | 'VI' | 'ZH';
+
+export interface AppClipAdvancedExperienceLocalization {
+  type: 'appClipAdvancedExperienceLocalizations';
+  id: string;
+  attributes?: {
+    language?: AppClipAdvancedExperienceLanguage;
+    title?: string;
+    subtitle?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipAdvancedExperienceLocalizationInlineCreate {
+  type: 'appClipAdvancedExperienceLocalizations';
+  id?: string;
+  attributes?: {
+    language?: AppClipAdvancedExperienceLanguage;
+    title?: string;
+    subtitle?: string;
+  };
+}
+
+export interface AppClipAdvancedExperienceResponse {
+  data: AppClipAdvancedExperience;
+  included?: Array<AppClip | AppClipAdvancedExperienceImage | AppClipAdvancedExperienceLocalization>;
+  links: DocumentLinks;
+}
+
+export interface AppClipAdvancedExperienceUpdateRequest {
+  data: {
+    type: 'appClipAdvancedExperiences';
+    id: string;
+    attributes?: {
+      action?: AppClipAction;
+      isPoweredBy?: boolean;
+      place?: {
+        placeId?: string;
+        names?: string[];
+        mainAddress?: {
+          fullAddress?: string;
+          structuredAddress?: {
+            streetAddress?: string[];
+            floor?: string;
+            neighborhood?: string;
+            locality?: string;
+            stateProvince?: string;
+            postalCode?: string;
+            countryCode?: string;
+          };
+        };
+        displayPoint?: {
+          coordinates?: {
+            latitude?: number;
+            longitude?: number;
+          };
+          source?: 'CALCULATED' | 'MANUALLY_PLACED';
+        };
+        mapAction?: 'BUY_TICKETS' | 'VIEW_AVAILABILITY' | 'VIEW_PRICING' | 'HOTEL_BOOK_ROOM' | 'PARKING_RESERVE_PARKING' | 'RESTAURANT_JOIN_WAITLIST' | 'RESTAURANT_ORDER_DELIVERY' | 'RESTAURANT_ORDER_FOOD' | 'RESTAURANT_ORDER_TAKEOUT' | 'RESTAURANT_RESERVATION' | 'SCHEDULE_APPOINTMENT' | 'RESTAURANT_VIEW_MENU' | 'THEATER_NOW_PLAYING';
+        relationship?: 'OWNER' | 'AUTHORIZED' | 'OTHER';
+        phoneNumber?: {
+          number?: string;
+          type?: 'FAX' | 'LANDLINE' | 'MOBILE' | 'TOLLFREE';
+          intent?: string;
+        };
+        homePage?: string;
+        categories?: string[];
+      };
+      businessCategory?: 'AUTOMOTIVE' | 'BEAUTY' | 'BIKES' | 'BOOKS' | 'CASINO' | 'EDUCATION' | 'EDUCATION_JAPAN' | 'ENTERTAINMENT' | 'EV_CHARGER' | 'FINANCIAL_USD' | 'FINANCIAL_CNY' | 'FINANCIAL_GBP' | 'FINANCIAL_JPY' | 'FINANCIAL_EUR' | 'FITNESS' | 'FOOD_AND_DRINK' | 'GAS' | 'GROCERY' | 'HEALTH_AND_MEDICAL' | 'HOTEL_AND_TRAVEL' | 'MUSIC' | 'PARKING' | 'PET_SERVICES' | 'PROFESSIONAL_SERVICES' | 'SHOPPING' | 'TICKETING' | 'TRANSIT';
+      defaultLanguage?: AppClipAdvancedExperienceLanguage;
+      removed?: boolean;
+    };
+    relationships?: {
+      appClip?: {
+        data?: {
+          type: 'appClips';
+          id: string;
+        };
+      };
+      headerImage?: {
+        data?: {
+          type: 'appClipAdvancedExperienceImages';
+          id: string;
+        };
+      };
+      localizations?: {
+        data?: Array<{
+          type: 'appClipAdvancedExperienceLocalizations';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: AppClipAdvancedExperienceLocalizationInlineCreate[];
+}
+
+export interface AppClipAdvancedExperiencesResponse {
+  data: AppClipAdvancedExperience[];
+  included?: Array<AppClip | AppClipAdvancedExperienceImage | AppClipAdvancedExperienceLocalization>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppClipAppStoreReviewDetail {
+  type: 'appClipAppStoreReviewDetails';
+  id: string;
+  attributes?: {
+    invocationUrls?: string[];
+  };
+  relationships?: {
+    appClipDefaultExperience?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDefaultExperiences';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipAppStoreReviewDetailCreateRequest {
+  data: {
+    type: 'appClipAppStoreReviewDetails';
+    attributes?: {
+      invocationUrls?: string[];
+    };
+    relationships: {
+      appClipDefaultExperience: {
+        data: {
+          type: 'appClipDefaultExperiences';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppClipAppStoreReviewDetailResponse {
+  data: AppClipAppStoreReviewDetail;
+  included?: AppClipDefaultExperience[];
+  links: DocumentLinks;
+}
+
+export interface AppClipAppStoreReviewDetailUpdateRequest {
+  data: {
+    type: 'appClipAppStoreReviewDetails';
+    id: string;
+    attributes?: {
+      invocationUrls?: string[];
+    };
+  };
+}
+
+export interface AppClipDefaultExperience {
+  type: 'appClipDefaultExperiences';
+  id: string;
+  attributes?: {
+    action?: AppClipAction;
+  };
+  relationships?: {
+    appClip?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClips';
+        id: string;
+      };
+    };
+    releaseWithAppStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    appClipDefaultExperienceLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appClipDefaultExperienceLocalizations';
+        id: string;
+      }>;
+    };
+    appClipAppStoreReviewDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipAppStoreReviewDetails';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipDefaultExperienceCreateRequest {
+  data: {
+    type: 'appClipDefaultExperiences';
+    attributes?: {
+      action?: AppClipAction;
+    };
+    relationships: {
+      appClip: {
+        data: {
+          type: 'appClips';
+          id: string;
+        };
+      };
+      releaseWithAppStoreVersion?: {
+        data?: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+      appClipDefaultExperienceTemplate?: {
+        data?: {
+          type: 'appClipDefaultExperiences';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppClipDefaultExperienceLocalization {
+  type: 'appClipDefaultExperienceLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    subtitle?: string;
+  };
+  relationships?: {
+    appClipDefaultExperience?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDefaultExperiences';
+        id: string;
+      };
+    };
+    appClipHeaderImage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipHeaderImages';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipDefaultExperienceLocalizationCreateRequest {
+  data: {
+    type: 'appClipDefaultExperienceLocalizations';
+    attributes: {
+      locale: string;
+      subtitle?: string;
+    };
+    relationships: {
+      appClipDefaultExperience: {
+        data: {
+          type: 'appClipDefaultExperiences';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppClipDefaultExperienceLocalizationResponse {
+  data: AppClipDefaultExperienceLocalization;
+  included?: Array<AppClipDefaultExperience | AppClipHeaderImage>;
+  links: DocumentLinks;
+}
+
+export interface AppClipDefaultExperienceLocalizationUpdateRequest {
+  data: {
+    type: 'appClipDefaultExperienceLocalizations';
+    id: string;
+    attributes?: {
+      subtitle?: string;
+    };
+  };
+}
+
+export interface AppClipDefaultExperienceLocalizationsResponse {
+  data: AppClipDefaultExperienceLocalization[];
+  included?: Array<AppClipDefaultExperience | AppClipHeaderImage>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppClipDefaultExperienceReleaseWithAppStoreVersionLinkageRequest {
+  data: {
+    type: 'appStoreVersions';
+    id: string;
+  };
+}
+
+export interface AppClipDefaultExperienceReleaseWithAppStoreVersionLinkageResponse {
+  data: {
+    type: 'appStoreVersions';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface AppClipDefaultExperienceResponse {
+  data: AppClipDefaultExperience;
+  included?: Array<AppClip | AppStoreVersion | AppClipDefaultExperienceLocalization | AppClipAppStoreReviewDetail>;
+  links: DocumentLinks;
+}
+
+export interface AppClipDefaultExperienceUpdateRequest {
+  data: {
+    type: 'appClipDefaultExperiences';
+    id: string;
+    attributes?: {
+      action?: AppClipAction;
+    };
+    relationships?: {
+      releaseWithAppStoreVersion?: {
+        data?: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppClipDefaultExperiencesResponse {
+  data: AppClipDefaultExperience[];
+  included?: Array<AppClip | AppStoreVersion | AppClipDefaultExperienceLocalization | AppClipAppStoreReviewDetail>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppClipDomainStatus {
+  type: 'appClipDomainStatuses';
+  id: string;
+  attributes?: {
+    domains?: Array<{
+      domain?: string;
+      isValid?: boolean;
+      lastUpdatedDate?: string;
+      errorCode?: 'BAD_HTTP_RESPONSE' | 'BAD_JSON_CONTENT' | 'BAD_PKCS7_SIGNATURE' | 'CANNOT_REACH_AASA_FILE' | 'DNS_ERROR' | 'INSECURE_REDIRECTS_FORBIDDEN' | 'INVALID_ENTITLEMENT_MISSING_SECTION' | 'INVALID_ENTITLEMENT_SYNTAX_ERROR' | 'INVALID_ENTITLEMENT_UNHANDLED_SECTION' | 'INVALID_ENTITLEMENT_UNKNOWN_ID' | 'NETWORK_ERROR' | 'NETWORK_ERROR_TEMPORARY' | 'OTHER_ERROR' | 'TIMEOUT' | 'TLS_ERROR' | 'UNEXPECTED_ERROR';
+    }>;
+    lastUpdatedDate?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipDomainStatusResponse {
+  data: AppClipDomainStatus;
+  links: DocumentLinks;
+}
+
+export interface AppClipHeaderImage {
+  type: 'appClipHeaderImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    imageAsset?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    appClipDefaultExperienceLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDefaultExperienceLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppClipHeaderImageCreateRequest {
+  data: {
+    type: 'appClipHeaderImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      appClipDefaultExperienceLocalization: {
+        data: {
+          type: 'appClipDefaultExperienceLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppClipHeaderImageResponse {
+  data: AppClipHeaderImage;
+  included?: AppClipDefaultExperienceLocalization[];
+  links: DocumentLinks;
+}
+
+export interface AppClipHeaderImageUpdateRequest {
+  data: {
+    type: 'appClipHeaderImages';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppClipResponse {
+  data: AppClip;
+  included?: Array<App | AppClipDefaultExperience>;
+  links: DocumentLinks;
+}
+
+export interface AppClipsResponse {
+  data: AppClip[];
+  included?: Array<App | AppClipDefaultExperience>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppCustomProductPage {
+  type: 'appCustomProductPages';
+  id: string;
+  attributes?: {
+    name?: string;
+    url?: string;
+    visible?: boolean;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    appCustomProductPageVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appCustomProductPageVersions';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppCustomProductPageCreateRequest {
+  data: {
+    type: 'appCustomProductPages';
+    attributes: {
+      name: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      appCustomProductPageVersions?: {
+        data?: Array<{
+          type: 'appCustomProductPageVersions';
+          id: string;
+        }>;
+      };
+      appStoreVersionTemplate?: {
+        data?: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+      customProductPageTemplate?: {
+        data?: {
+          type: 'appCustomProductPages';
+          id: string;
+        };
+      };
+    };
+  };
+  included?: Array<AppCustomProductPageLocalizationInlineCreate | AppCustomProductPageVersionInlineCreate>;
+}
+
+export interface AppCustomProductPageLocalization {
+  type: 'appCustomProductPageLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    promotionalText?: string;
+  };
+  relationships?: {
+    appCustomProductPageVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCustomProductPageVersions';
+        id: string;
+      };
+    };
+    appScreenshotSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appScreenshotSets';
+        id: string;
+      }>;
+    };
+    appPreviewSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPreviewSets';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppCustomProductPageLocalizationCreateRequest {
+  data: {
+    type: 'appCustomProductPageLocalizations';
+    attributes: {
+      locale: string;
+      promotionalText?: string;
+    };
+    relationships: {
+      appCustomProductPageVersion: {
+        data: {
+          type: 'appCustomProductPageVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppCustomProductPageLocalizationInlineCreate {
+  type: 'appCustomProductPageLocalizations';
+  id?: string;
+  attributes: {
+    locale: string;
+    promotionalText?: string;
+  };
+  relationships?: {
+    appCustomProductPageVersion?: {
+      data?: {
+        type: 'appCustomProductPageVersions';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface AppCustomProductPageLocalizationResponse {
+  data: AppCustomProductPageLocalization;
+  included?: Array<AppCustomProductPageVersion | AppScreenshotSet | AppPreviewSet>;
+  links: DocumentLinks;
+}
+
+export interface AppCustomProductPageLocalizationUpdateRequest {
+  data: {
+    type: 'appCustomProductPageLocalizations';
+    id: string;
+    attributes?: {
+      promotionalText?: string;
+    };
+  };
+}
+
+export interface AppCustomProductPageLocalizationsResponse {
+  data: AppCustomProductPageLocalization[];
+  included?: Array<AppCustomProductPageVersion | AppScreenshotSet | AppPreviewSet>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppCustomProductPageResponse {
+  data: AppCustomProductPage;
+  included?: Array<App | AppCustomProductPageVersion>;
+  links: DocumentLinks;
+}
+
+export interface AppCustomProductPageUpdateRequest {
+  data: {
+    type: 'appCustomProductPages';
+    id: string;
+    attributes?: {
+      name?: string;
+      visible?: boolean;
+    };
+  };
+}
+
+export interface AppCustomProductPageVersion {
+  type: 'appCustomProductPageVersions';
+  id: string;
+  attributes?: {
+    version?: string;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'READY_FOR_REVIEW' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'ACCEPTED' | 'APPROVED' | 'REPLACED_WITH_NEW_VERSION' | 'REJECTED';
+  };
+  relationships?: {
+    appCustomProductPage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCustomProductPages';
+        id: string;
+      };
+    };
+    appCustomProductPageLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appCustomProductPageLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppCustomProductPageVersionCreateRequest {
+  data: {
+    type: 'appCustomProductPageVersions';
+    relationships: {
+      appCustomProductPage: {
+        data: {
+          type: 'appCustomProductPages';
+          id: string;
+        };
+      };
+      appCustomProductPageLocalizations?: {
+        data?: Array<{
+          type: 'appCustomProductPageLocalizations';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface AppCustomProductPageVersionInlineCreate {
+  type: 'appCustomProductPageVersions';
+  id?: string;
+  relationships?: {
+    appCustomProductPage?: {
+      data?: {
+        type: 'appCustomProductPages';
+        id: string;
+      };
+    };
+    appCustomProductPageLocalizations?: {
+      data?: Array<{
+        type: 'appCustomProductPageLocalizations';
+        id: string;
+      }>;
+    };
+  };
+}
+
+export interface AppCustomProductPageVersionResponse {
+  data: AppCustomProductPageVersion;
+  included?: Array<AppCustomProductPage | AppCustomProductPageLocalization>;
+  links: DocumentLinks;
+}
+
+export interface AppCustomProductPageVersionsResponse {
+  data: AppCustomProductPageVersion[];
+  included?: Array<AppCustomProductPage | AppCustomProductPageLocalization>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppCustomProductPagesResponse {
+  data: AppCustomProductPage[];
+  included?: Array<App | AppCustomProductPageVersion>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppEncryptionDeclaration {
+  type: 'appEncryptionDeclarations';
+  id: string;
+  attributes?: {
+    appDescription?: string;
+    createdDate?: string;
+    /** @deprecated */
+    usesEncryption?: boolean;
+    exempt?: boolean;
+    containsProprietaryCryptography?: boolean;
+    containsThirdPartyCryptography?: boolean;
+    availableOnFrenchStore?: boolean;
+    /** @deprecated */
+    platform?: Platform;
+    /** @deprecated */
+    uploadedDate?: string;
+    /** @deprecated */
+    documentUrl?: string;
+    /** @deprecated */
+    documentName?: string;
+    /** @deprecated */
+    documentType?: string;
+    appEncryptionDeclarationState?: AppEncryptionDeclarationState;
+    codeValue?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    /** @deprecated */
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+    appEncryptionDeclarationDocument?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEncryptionDeclarationDocuments';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppEncryptionDeclarationBuildsLinkagesRequest {
+  data: Array<{
+    type: 'builds';
+    id: string;
+  }>;
+}
+
+export interface AppEncryptionDeclarationDocument {
+  type: 'appEncryptionDeclarationDocuments';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    assetToken?: string;
+    downloadUrl?: string;
+    sourceFileChecksum?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppEncryptionDeclarationDocumentCreateRequest {
+  data: {
+    type: 'appEncryptionDeclarationDocuments';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      appEncryptionDeclaration: {
+        data: {
+          type: 'appEncryptionDeclarations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppEncryptionDeclarationDocumentResponse {
+  data: AppEncryptionDeclarationDocument;
+  links: DocumentLinks;
+}
+
+export interface AppEncryptionDeclarationDocumentUpdateRequest {
+  data: {
+    type: 'appEncryptionDeclarationDocuments';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppEncryptionDeclarationResponse {
+  data: AppEncryptionDeclaration;
+  included?: Array<App | Build | AppEncryptionDeclarationDocument>;
+  links: DocumentLinks;
+}
+
+export type AppEncryptionDeclarationState = 'CREATED' | 'IN_REVIEW' | 'APPROVED' | 'REJECTED' | 'INVALID' | 'EXPIRED';
+
+export interface AppEncryptionDeclarationWithoutIncludesResponse {
+  data: Build;
+  links: DocumentLinks;
+}
+
+export interface AppEncryptionDeclarationsResponse {
+  data: AppEncryptionDeclaration[];
+  included?: Array<App | Build | AppEncryptionDeclarationDocument>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppEvent {
+  type: 'appEvents';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    badge?: 'LIVE_EVENT' | 'PREMIERE' | 'CHALLENGE' | 'COMPETITION' | 'NEW_SEASON' | 'MAJOR_UPDATE' | 'SPECIAL_EVENT';
+    eventState?: 'DRAFT' | 'READY_FOR_REVIEW' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'REJECTED' | 'ACCEPTED' | 'APPROVED' | 'PUBLISHED' | 'PAST' | 'ARCHIVED';
+    deepLink?: string;
+    purchaseRequirement?: 'NO_COST_ASSOCIATED' | 'IN_APP_PURCHASE' | 'SUBSCRIPTION' | 'IN_APP_PURCHASE_AND_SUBSCRIPTION' | 'IN_APP_PURCHASE_OR_SUBSCRIPTION';
+    primaryLocale?: string;
+    priority?: 'HIGH' | 'NORMAL';
+    purpose?: 'APPROPRIATE_FOR_ALL_USERS' | 'ATTRACT_NEW_USERS' | 'KEEP_ACTIVE_USERS_INFORMED' | 'BRING_BACK_LAPSED_USERS';
+    territorySchedules?: Array<{
+      territories?: string[];
+      publishStart?: string;
+      eventStart?: string;
+      eventEnd?: string;
+    }>;
+    archivedTerritorySchedules?: Array<{
+      territories?: string[];
+      publishStart?: string;
+      eventStart?: string;
+      eventEnd?: string;
+    }>;
+  };
+  relationships?: {
+    localizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appEventLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export type AppEventAssetType = 'EVENT_CARD' | 'EVENT_DETAILS_PAGE';
+
+export interface AppEventCreateRequest {
+  data: {
+    type: 'appEvents';
+    attributes: {
+      referenceName: string;
+      badge?: 'LIVE_EVENT' | 'PREMIERE' | 'CHALLENGE' | 'COMPETITION' | 'NEW_SEASON' | 'MAJOR_UPDATE' | 'SPECIAL_EVENT';
+      deepLink?: string;
+      purchaseRequirement?: 'NO_COST_ASSOCIATED' | 'IN_APP_PURCHASE' | 'SUBSCRIPTION' | 'IN_APP_PURCHASE_AND_SUBSCRIPTION' | 'IN_APP_PURCHASE_OR_SUBSCRIPTION';
+      primaryLocale?: string;
+      priority?: 'HIGH' | 'NORMAL';
+      purpose?: 'APPROPRIATE_FOR_ALL_USERS' | 'ATTRACT_NEW_USERS' | 'KEEP_ACTIVE_USERS_INFORMED' | 'BRING_BACK_LAPSED_USERS';
+      territorySchedules?: Array<{
+        territories?: string[];
+        publishStart?: string;
+        eventStart?: string;
+        eventEnd?: string;
+      }>;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppEventLocalization {
+  type: 'appEventLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    name?: string;
+    shortDescription?: string;
+    longDescription?: string;
+  };
+  relationships?: {
+    appEvent?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEvents';
+        id: string;
+      };
+    };
+    appEventScreenshots?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appEventScreenshots';
+        id: string;
+      }>;
+    };
+    appEventVideoClips?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appEventVideoClips';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppEventLocalizationCreateRequest {
+  data: {
+    type: 'appEventLocalizations';
+    attributes: {
+      locale: string;
+      name?: string;
+      shortDescription?: string;
+      longDescription?: string;
+    };
+    relationships: {
+      appEvent: {
+        data: {
+          type: 'appEvents';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppEventLocalizationResponse {
+  data: AppEventLocalization;
+  included?: Array<AppEvent | AppEventScreenshot | AppEventVideoClip>;
+  links: DocumentLinks;
+}
+
+export interface AppEventLocalizationUpdateRequest {
+  data: {
+    type: 'appEventLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      shortDescription?: string;
+      longDescription?: string;
+    };
+  };
+}
+
+export interface AppEventLocalizationsResponse {
+  data: AppEventLocalization[];
+  included?: Array<AppEvent | AppEventScreenshot | AppEventVideoClip>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppEventResponse {
+  data: AppEvent;
+  included?: AppEventLocalization[];
+  links: DocumentLinks;
+}
+
+export interface AppEventScreenshot {
+  type: 'appEventScreenshots';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    imageAsset?: ImageAsset;
+    assetToken?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+    appEventAssetType?: AppEventAssetType;
+  };
+  relationships?: {
+    appEventLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEventLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppEventScreenshotCreateRequest {
+  data: {
+    type: 'appEventScreenshots';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+      appEventAssetType: AppEventAssetType;
+    };
+    relationships: {
+      appEventLocalization: {
+        data: {
+          type: 'appEventLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppEventScreenshotResponse {
+  data: AppEventScreenshot;
+  included?: AppEventLocalization[];
+  links: DocumentLinks;
+}
+
+export interface AppEventScreenshotUpdateRequest {
+  data: {
+    type: 'appEventScreenshots';
+    id: string;
+    attributes?: {
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppEventScreenshotsResponse {
+  data: AppEventScreenshot[];
+  included?: AppEventLocalization[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppEventUpdateRequest {
+  data: {
+    type: 'appEvents';
+    id: string;
+    attributes?: {
+      referenceName?: string;
+      badge?: 'LIVE_EVENT' | 'PREMIERE' | 'CHALLENGE' | 'COMPETITION' | 'NEW_SEASON' | 'MAJOR_UPDATE' | 'SPECIAL_EVENT';
+      deepLink?: string;
+      purchaseRequirement?: 'NO_COST_ASSOCIATED' | 'IN_APP_PURCHASE' | 'SUBSCRIPTION' | 'IN_APP_PURCHASE_AND_SUBSCRIPTION' | 'IN_APP_PURCHASE_OR_SUBSCRIPTION';
+      primaryLocale?: string;
+      priority?: 'HIGH' | 'NORMAL';
+      purpose?: 'APPROPRIATE_FOR_ALL_USERS' | 'ATTRACT_NEW_USERS' | 'KEEP_ACTIVE_USERS_INFORMED' | 'BRING_BACK_LAPSED_USERS';
+      territorySchedules?: Array<{
+        territories?: string[];
+        publishStart?: string;
+        eventStart?: string;
+        eventEnd?: string;
+      }>;
+    };
+  };
+}
+
+export interface AppEventVideoClip {
+  type: 'appEventVideoClips';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    previewFrameTimeCode?: string;
+    videoUrl?: string;
+    previewImage?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+    appEventAssetType?: AppEventAssetType;
+  };
+  relationships?: {
+    appEventLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEventLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppEventVideoClipCreateRequest {
+  data: {
+    type: 'appEventVideoClips';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+      previewFrameTimeCode?: string;
+      appEventAssetType: AppEventAssetType;
+    };
+    relationships: {
+      appEventLocalization: {
+        data: {
+          type: 'appEventLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppEventVideoClipResponse {
+  data: AppEventVideoClip;
+  included?: AppEventLocalization[];
+  links: DocumentLinks;
+}
+
+export interface AppEventVideoClipUpdateRequest {
+  data: {
+    type: 'appEventVideoClips';
+    id: string;
+    attributes?: {
+      previewFrameTimeCode?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppEventVideoClipsResponse {
+  data: AppEventVideoClip[];
+  included?: AppEventLocalization[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppEventsResponse {
+  data: AppEvent[];
+  included?: AppEventLocalization[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppInfo {
+  type: 'appInfos';
+  id: string;
+  attributes?: {
+    appStoreState?: AppStoreVersionState;
+    appStoreAgeRating?: AppStoreAgeRating;
+    /** @deprecated */
+    brazilAgeRating?: BrazilAgeRating;
+    brazilAgeRatingV2?: 'SELF_RATED_L' | 'SELF_RATED_TEN' | 'SELF_RATED_TWELVE' | 'SELF_RATED_FOURTEEN' | 'SELF_RATED_SIXTEEN' | 'SELF_RATED_EIGHTEEN' | 'OFFICIAL_L' | 'OFFICIAL_TEN' | 'OFFICIAL_TWELVE' | 'OFFICIAL_FOURTEEN' | 'OFFICIAL_SIXTEEN' | 'OFFICIAL_EIGHTEEN';
+    kidsAgeBand?: KidsAgeBand;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    ageRatingDeclaration?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ageRatingDeclarations';
+        id: string;
+      };
+    };
+    appInfoLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appInfoLocalizations';
+        id: string;
+      }>;
+    };
+    primaryCategory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+    primarySubcategoryOne?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+    primarySubcategoryTwo?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+    secondaryCategory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+    secondarySubcategoryOne?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+    secondarySubcategoryTwo?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCategories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppInfoLocalization {
+  type: 'appInfoLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    name?: string;
+    subtitle?: string;
+    privacyPolicyUrl?: string;
+    privacyChoicesUrl?: string;
+    privacyPolicyText?: string;
+  };
+  relationships?: {
+    appInfo?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appInfos';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppInfoLocalizationCreateRequest {
+  data: {
+    type: 'appInfoLocalizations';
+    attributes: {
+      locale: string;
+      name?: string;
+      subtitle?: string;
+      privacyPolicyUrl?: string;
+      privacyChoicesUrl?: string;
+      privacyPolicyText?: string;
+    };
+    relationships: {
+      appInfo: {
+        data: {
+          type: 'appInfos';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppInfoLocalizationResponse {
+  data: AppInfoLocalization;
+  included?: AppInfo[];
+  links: DocumentLinks;
+}
+
+export interface AppInfoLocalizationUpdateRequest {
+  data: {
+    type: 'appInfoLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      subtitle?: string;
+      privacyPolicyUrl?: string;
+      privacyChoicesUrl?: string;
+      privacyPolicyText?: string;
+    };
+  };
+}
+
+export interface AppInfoLocalizationsResponse {
+  data: AppInfoLocalization[];
+  included?: AppInfo[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppInfoResponse {
+  data: AppInfo;
+  included?: Array<App | AgeRatingDeclaration | AppInfoLocalization | AppCategory>;
+  links: DocumentLinks;
+}
+
+export interface AppInfoUpdateRequest {
+  data: {
+    type: 'appInfos';
+    id: string;
+    relationships?: {
+      primaryCategory?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+      primarySubcategoryOne?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+      primarySubcategoryTwo?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+      secondaryCategory?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+      secondarySubcategoryOne?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+      secondarySubcategoryTwo?: {
+        data?: {
+          type: 'appCategories';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppInfosResponse {
+  data: AppInfo[];
+  included?: Array<App | AgeRatingDeclaration | AppInfoLocalization | AppCategory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppMediaAssetState {
+  errors?: AppMediaStateError[];
+  warnings?: AppMediaStateError[];
+  state?: 'AWAITING_UPLOAD' | 'UPLOAD_COMPLETE' | 'COMPLETE' | 'FAILED';
+}
+
+export interface AppMediaStateError {
+  code?: string;
+  description?: string;
+}
+
+/** @deprecated */
+export interface AppPreOrder {
+  type: 'appPreOrders';
+  id: string;
+  attributes?: {
+    preOrderAvailableDate?: string;
+    appReleaseDate?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppPreOrderCreateRequest {
+  data: {
+    type: 'appPreOrders';
+    attributes?: {
+      appReleaseDate?: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppPreOrderResponse {
+  data: AppPreOrder;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+/** @deprecated */
+export interface AppPreOrderUpdateRequest {
+  data: {
+    type: 'appPreOrders';
+    id: string;
+    attributes?: {
+      appReleaseDate?: string;
+    };
+  };
+}
+
+export interface AppPreOrderWithoutIncludesResponse {
+  data: App;
+  links: DocumentLinks;
+}
+
+export interface AppPreview {
+  type: 'appPreviews';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    previewFrameTimeCode?: string;
+    mimeType?: string;
+    videoUrl?: string;
+    previewImage?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    appPreviewSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPreviewSets';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPreviewCreateRequest {
+  data: {
+    type: 'appPreviews';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+      previewFrameTimeCode?: string;
+      mimeType?: string;
+    };
+    relationships: {
+      appPreviewSet: {
+        data: {
+          type: 'appPreviewSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppPreviewResponse {
+  data: AppPreview;
+  included?: AppPreviewSet[];
+  links: DocumentLinks;
+}
+
+export interface AppPreviewSet {
+  type: 'appPreviewSets';
+  id: string;
+  attributes?: {
+    previewType?: PreviewType;
+  };
+  relationships?: {
+    appStoreVersionLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionLocalizations';
+        id: string;
+      };
+    };
+    appCustomProductPageLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCustomProductPageLocalizations';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentTreatmentLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperimentTreatmentLocalizations';
+        id: string;
+      };
+    };
+    appPreviews?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPreviews';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPreviewSetAppPreviewsLinkagesRequest {
+  data: Array<{
+    type: 'appPreviews';
+    id: string;
+  }>;
+}
+
+export interface AppPreviewSetAppPreviewsLinkagesResponse {
+  data: Array<{
+    type: 'appPreviews';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPreviewSetCreateRequest {
+  data: {
+    type: 'appPreviewSets';
+    attributes: {
+      previewType: PreviewType;
+    };
+    relationships?: {
+      appStoreVersionLocalization?: {
+        data?: {
+          type: 'appStoreVersionLocalizations';
+          id: string;
+        };
+      };
+      appCustomProductPageLocalization?: {
+        data?: {
+          type: 'appCustomProductPageLocalizations';
+          id: string;
+        };
+      };
+      appStoreVersionExperimentTreatmentLocalization?: {
+        data?: {
+          type: 'appStoreVersionExperimentTreatmentLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppPreviewSetResponse {
+  data: AppPreviewSet;
+  included?: Array<AppStoreVersionLocalization | AppCustomProductPageLocalization | AppStoreVersionExperimentTreatmentLocalization | AppPreview>;
+  links: DocumentLinks;
+}
+
+export interface AppPreviewSetsResponse {
+  data: AppPreviewSet[];
+  included?: Array<AppStoreVersionLocalization | AppCustomProductPageLocalization | AppStoreVersionExperimentTreatmentLocalization | AppPreview>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPreviewUpdateRequest {
+  data: {
+    type: 'appPreviews';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      previewFrameTimeCode?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppPreviewsResponse {
+  data: AppPreview[];
+  included?: AppPreviewSet[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface AppPrice {
+  type: 'appPrices';
+  id: string;
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    priceTier?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPriceTiers';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPriceInlineCreate {
+  type: 'appPrices';
+  id?: string;
+}
+
+/** @deprecated */
+export interface AppPricePoint {
+  type: 'appPricePoints';
+  id: string;
+  attributes?: {
+    customerPrice?: string;
+    proceeds?: string;
+  };
+  relationships?: {
+    priceTier?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPriceTiers';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppPricePointResponse {
+  data: AppPricePoint;
+  included?: Array<AppPriceTier | Territory>;
+  links: DocumentLinks;
+}
+
+/** @deprecated */
+export interface AppPricePointV2 {
+  type: 'appPricePoints';
+  id: string;
+  attributes?: {
+    customerPrice?: string;
+    proceeds?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    priceTier?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPriceTiers';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPricePointV3 {
+  type: 'appPricePoints';
+  id: string;
+  attributes?: {
+    customerPrice?: string;
+    proceeds?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPricePointV3Response {
+  data: AppPricePointV3;
+  included?: Array<App | Territory>;
+  links: DocumentLinks;
+}
+
+/** @deprecated */
+export interface AppPricePointsResponse {
+  data: AppPricePoint[];
+  included?: Array<AppPriceTier | Territory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface AppPricePointsV2Response {
+  data: AppPricePointV2[];
+  included?: Array<App | AppPriceTier | Territory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPricePointsV3Response {
+  data: AppPricePointV3[];
+  included?: Array<App | Territory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface AppPriceResponse {
+  data: AppPrice;
+  included?: Array<App | AppPriceTier>;
+  links: DocumentLinks;
+}
+
+export interface AppPriceSchedule {
+  type: 'appPriceSchedules';
+  id: string;
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    baseTerritory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    manualPrices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPrices';
+        id: string;
+      }>;
+    };
+    automaticPrices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPrices';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPriceScheduleCreateRequest {
+  data: {
+    type: 'appPriceSchedules';
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      baseTerritory: {
+        data: {
+          type: 'territories';
+          id: string;
+        };
+      };
+      manualPrices: {
+        data: Array<{
+          type: 'appPrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: Array<AppPriceV2InlineCreate | TerritoryInlineCreate>;
+}
+
+export interface AppPriceScheduleResponse {
+  data: AppPriceSchedule;
+  included?: Array<App | Territory | AppPriceV2>;
+  links: DocumentLinks;
+}
+
+/** @deprecated */
+export interface AppPriceTier {
+  type: 'appPriceTiers';
+  id: string;
+  relationships?: {
+    /** @deprecated */
+    pricePoints?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPricePoints';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppPriceTierResponse {
+  data: AppPriceTier;
+  included?: AppPricePoint[];
+  links: DocumentLinks;
+}
+
+/** @deprecated */
+export interface AppPriceTiersResponse {
+  data: AppPriceTier[];
+  included?: AppPricePoint[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPriceV2 {
+  type: 'appPrices';
+  id: string;
+  attributes?: {
+    manual?: boolean;
+    startDate?: string;
+    endDate?: string;
+  };
+  relationships?: {
+    appPricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appPricePoints';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppPriceV2InlineCreate {
+  type: 'appPrices';
+  id?: string;
+}
+
+/** @deprecated */
+export interface AppPricesResponse {
+  data: AppPrice[];
+  included?: Array<App | AppPriceTier>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPricesV2Response {
+  data: AppPriceV2[];
+  included?: Array<AppPricePointV3 | Territory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppPromotedPurchasesLinkagesRequest {
+  data: Array<{
+    type: 'promotedPurchases';
+    id: string;
+  }>;
+}
+
+export interface AppPromotedPurchasesLinkagesResponse {
+  data: Array<{
+    type: 'promotedPurchases';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppResponse {
+  data: App;
+  included?: Array<AppEncryptionDeclaration | CiProduct | BetaGroup | AppStoreVersion | PrereleaseVersion | BetaAppLocalization | Build | BetaLicenseAgreement | BetaAppReviewDetail | AppInfo | AppClip | EndUserLicenseAgreement | AppPreOrder | AppPrice | Territory | InAppPurchase | SubscriptionGroup | GameCenterEnabledVersion | AppCustomProductPage | InAppPurchaseV2 | PromotedPurchase | AppEvent | ReviewSubmission | SubscriptionGracePeriod | GameCenterDetail | AppStoreVersionExperimentV2>;
+  links: DocumentLinks;
+}
+
+export interface AppScreenshot {
+  type: 'appScreenshots';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    imageAsset?: ImageAsset;
+    assetToken?: string;
+    assetType?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    appScreenshotSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appScreenshotSets';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppScreenshotCreateRequest {
+  data: {
+    type: 'appScreenshots';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      appScreenshotSet: {
+        data: {
+          type: 'appScreenshotSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppScreenshotResponse {
+  data: AppScreenshot;
+  included?: AppScreenshotSet[];
+  links: DocumentLinks;
+}
+
+export interface AppScreenshotSet {
+  type: 'appScreenshotSets';
+  id: string;
+  attributes?: {
+    screenshotDisplayType?: ScreenshotDisplayType;
+  };
+  relationships?: {
+    appStoreVersionLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionLocalizations';
+        id: string;
+      };
+    };
+    appCustomProductPageLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCustomProductPageLocalizations';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentTreatmentLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperimentTreatmentLocalizations';
+        id: string;
+      };
+    };
+    appScreenshots?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appScreenshots';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppScreenshotSetAppScreenshotsLinkagesRequest {
+  data: Array<{
+    type: 'appScreenshots';
+    id: string;
+  }>;
+}
+
+export interface AppScreenshotSetAppScreenshotsLinkagesResponse {
+  data: Array<{
+    type: 'appScreenshots';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppScreenshotSetCreateRequest {
+  data: {
+    type: 'appScreenshotSets';
+    attributes: {
+      screenshotDisplayType: ScreenshotDisplayType;
+    };
+    relationships?: {
+      appStoreVersionLocalization?: {
+        data?: {
+          type: 'appStoreVersionLocalizations';
+          id: string;
+        };
+      };
+      appCustomProductPageLocalization?: {
+        data?: {
+          type: 'appCustomProductPageLocalizations';
+          id: string;
+        };
+      };
+      appStoreVersionExperimentTreatmentLocalization?: {
+        data?: {
+          type: 'appStoreVersionExperimentTreatmentLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppScreenshotSetResponse {
+  data: AppScreenshotSet;
+  included?: Array<AppStoreVersionLocalization | AppCustomProductPageLocalization | AppStoreVersionExperimentTreatmentLocalization | AppScreenshot>;
+  links: DocumentLinks;
+}
+
+export interface AppScreenshotSetsResponse {
+  data: AppScreenshotSet[];
+  included?: Array<AppStoreVersionLocalization | AppCustomProductPageLocalization | AppStoreVersionExperimentTreatmentLocalization | AppScreenshot>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppScreenshotUpdateRequest {
+  data: {
+    type: 'appScreenshots';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppScreenshotsResponse {
+  data: AppScreenshot[];
+  included?: AppScreenshotSet[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type AppStoreAgeRating = 'FOUR_PLUS' | 'NINE_PLUS' | 'TWELVE_PLUS' | 'SEVENTEEN_PLUS';
+
+export interface AppStoreReviewAttachment {
+  type: 'appStoreReviewAttachments';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    appStoreReviewDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreReviewDetails';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreReviewAttachmentCreateRequest {
+  data: {
+    type: 'appStoreReviewAttachments';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      appStoreReviewDetail: {
+        data: {
+          type: 'appStoreReviewDetails';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreReviewAttachmentResponse {
+  data: AppStoreReviewAttachment;
+  included?: AppStoreReviewDetail[];
+  links: DocumentLinks;
+}
+
+export interface AppStoreReviewAttachmentUpdateRequest {
+  data: {
+    type: 'appStoreReviewAttachments';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface AppStoreReviewAttachmentsResponse {
+  data: AppStoreReviewAttachment[];
+  included?: AppStoreReviewDetail[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreReviewDetail {
+  type: 'appStoreReviewDetails';
+  id: string;
+  attributes?: {
+    contactFirstName?: string;
+    contactLastName?: string;
+    contactPhone?: string;
+    contactEmail?: string;
+    demoAccountName?: string;
+    demoAccountPassword?: string;
+    demoAccountRequired?: boolean;
+    notes?: string;
+  };
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    appStoreReviewAttachments?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreReviewAttachments';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreReviewDetailCreateRequest {
+  data: {
+    type: 'appStoreReviewDetails';
+    attributes?: {
+      contactFirstName?: string;
+      contactLastName?: string;
+      contactPhone?: string;
+      contactEmail?: string;
+      demoAccountName?: string;
+      demoAccountPassword?: string;
+      demoAccountRequired?: boolean;
+      notes?: string;
+    };
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreReviewDetailResponse {
+  data: AppStoreReviewDetail;
+  included?: Array<AppStoreVersion | AppStoreReviewAttachment>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreReviewDetailUpdateRequest {
+  data: {
+    type: 'appStoreReviewDetails';
+    id: string;
+    attributes?: {
+      contactFirstName?: string;
+      contactLastName?: string;
+      contactPhone?: string;
+      contactEmail?: string;
+      demoAccountName?: string;
+      demoAccountPassword?: string;
+      demoAccountRequired?: boolean;
+      notes?: string;
+    };
+  };
+}
+
+export interface AppStoreVersion {
+  type: 'appStoreVersions';
+  id: string;
+  attributes?: {
+    platform?: Platform;
+    versionString?: string;
+    appStoreState?: AppStoreVersionState;
+    copyright?: string;
+    releaseType?: 'MANUAL' | 'AFTER_APPROVAL' | 'SCHEDULED';
+    earliestReleaseDate?: string;
+    downloadable?: boolean;
+    createdDate?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    /** @deprecated */
+    ageRatingDeclaration?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ageRatingDeclarations';
+        id: string;
+      };
+    };
+    appStoreVersionLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionLocalizations';
+        id: string;
+      }>;
+    };
+    build?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'builds';
+        id: string;
+      };
+    };
+    appStoreVersionPhasedRelease?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionPhasedReleases';
+        id: string;
+      };
+    };
+    routingAppCoverage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'routingAppCoverages';
+        id: string;
+      };
+    };
+    appStoreReviewDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreReviewDetails';
+        id: string;
+      };
+    };
+    appStoreVersionSubmission?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionSubmissions';
+        id: string;
+      };
+    };
+    appClipDefaultExperience?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDefaultExperiences';
+        id: string;
+      };
+    };
+    appStoreVersionExperiments?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperiments';
+        id: string;
+      }>;
+    };
+    appStoreVersionExperimentsV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperiments';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionAppClipDefaultExperienceLinkageRequest {
+  data: {
+    type: 'appClipDefaultExperiences';
+    id: string;
+  };
+}
+
+export interface AppStoreVersionAppClipDefaultExperienceLinkageResponse {
+  data: {
+    type: 'appClipDefaultExperiences';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionBuildLinkageRequest {
+  data: {
+    type: 'builds';
+    id: string;
+  };
+}
+
+export interface AppStoreVersionBuildLinkageResponse {
+  data: {
+    type: 'builds';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionCreateRequest {
+  data: {
+    type: 'appStoreVersions';
+    attributes: {
+      platform: Platform;
+      versionString: string;
+      copyright?: string;
+      releaseType?: 'MANUAL' | 'AFTER_APPROVAL' | 'SCHEDULED';
+      earliestReleaseDate?: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      appStoreVersionLocalizations?: {
+        data?: Array<{
+          type: 'appStoreVersionLocalizations';
+          id: string;
+        }>;
+      };
+      build?: {
+        data?: {
+          type: 'builds';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppStoreVersionExperiment {
+  type: 'appStoreVersionExperiments';
+  id: string;
+  attributes?: {
+    name?: string;
+    trafficProportion?: number;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'READY_FOR_REVIEW' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'ACCEPTED' | 'APPROVED' | 'REJECTED' | 'COMPLETED' | 'STOPPED';
+    reviewRequired?: boolean;
+    startDate?: string;
+    endDate?: string;
+  };
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentTreatments?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperimentTreatments';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppStoreVersionExperimentCreateRequest {
+  data: {
+    type: 'appStoreVersionExperiments';
+    attributes: {
+      name: string;
+      trafficProportion: number;
+    };
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppStoreVersionExperimentResponse {
+  data: AppStoreVersionExperiment;
+  included?: Array<AppStoreVersion | AppStoreVersionExperimentTreatment>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionExperimentTreatment {
+  type: 'appStoreVersionExperimentTreatments';
+  id: string;
+  attributes?: {
+    name?: string;
+    appIcon?: ImageAsset;
+    appIconName?: string;
+    promotedDate?: string;
+  };
+  relationships?: {
+    appStoreVersionExperiment?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperiments';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperiments';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentTreatmentLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperimentTreatmentLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionExperimentTreatmentCreateRequest {
+  data: {
+    type: 'appStoreVersionExperimentTreatments';
+    attributes: {
+      name: string;
+      appIconName?: string;
+    };
+    relationships: {
+      appStoreVersionExperiment: {
+        data: {
+          type: 'appStoreVersionExperiments';
+          id: string;
+        };
+      };
+      appStoreVersionExperimentV2?: {
+        data?: {
+          type: 'appStoreVersionExperiments';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionExperimentTreatmentLocalization {
+  type: 'appStoreVersionExperimentTreatmentLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+  };
+  relationships?: {
+    appStoreVersionExperimentTreatment?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperimentTreatments';
+        id: string;
+      };
+    };
+    appScreenshotSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appScreenshotSets';
+        id: string;
+      }>;
+    };
+    appPreviewSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPreviewSets';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionExperimentTreatmentLocalizationCreateRequest {
+  data: {
+    type: 'appStoreVersionExperimentTreatmentLocalizations';
+    attributes: {
+      locale: string;
+    };
+    relationships: {
+      appStoreVersionExperimentTreatment: {
+        data: {
+          type: 'appStoreVersionExperimentTreatments';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionExperimentTreatmentLocalizationResponse {
+  data: AppStoreVersionExperimentTreatmentLocalization;
+  included?: Array<AppStoreVersionExperimentTreatment | AppScreenshotSet | AppPreviewSet>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionExperimentTreatmentLocalizationsResponse {
+  data: AppStoreVersionExperimentTreatmentLocalization[];
+  included?: Array<AppStoreVersionExperimentTreatment | AppScreenshotSet | AppPreviewSet>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreVersionExperimentTreatmentResponse {
+  data: AppStoreVersionExperimentTreatment;
+  included?: Array<AppStoreVersionExperiment | AppStoreVersionExperimentV2 | AppStoreVersionExperimentTreatmentLocalization>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionExperimentTreatmentUpdateRequest {
+  data: {
+    type: 'appStoreVersionExperimentTreatments';
+    id: string;
+    attributes?: {
+      name?: string;
+      appIconName?: string;
+    };
+  };
+}
+
+export interface AppStoreVersionExperimentTreatmentsResponse {
+  data: AppStoreVersionExperimentTreatment[];
+  included?: Array<AppStoreVersionExperiment | AppStoreVersionExperimentV2 | AppStoreVersionExperimentTreatmentLocalization>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface AppStoreVersionExperimentUpdateRequest {
+  data: {
+    type: 'appStoreVersionExperiments';
+    id: string;
+    attributes?: {
+      name?: string;
+      trafficProportion?: number;
+      started?: boolean;
+    };
+  };
+}
+
+export interface AppStoreVersionExperimentV2 {
+  type: 'appStoreVersionExperiments';
+  id: string;
+  attributes?: {
+    name?: string;
+    platform?: Platform;
+    trafficProportion?: number;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'READY_FOR_REVIEW' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'ACCEPTED' | 'APPROVED' | 'REJECTED' | 'COMPLETED' | 'STOPPED';
+    reviewRequired?: boolean;
+    startDate?: string;
+    endDate?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    latestControlVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    controlVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersions';
+        id: string;
+      }>;
+    };
+    appStoreVersionExperimentTreatments?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appStoreVersionExperimentTreatments';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionExperimentV2CreateRequest {
+  data: {
+    type: 'appStoreVersionExperiments';
+    attributes: {
+      name: string;
+      platform: Platform;
+      trafficProportion: number;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionExperimentV2Response {
+  data: AppStoreVersionExperimentV2;
+  included?: Array<App | AppStoreVersion | AppStoreVersionExperimentTreatment>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionExperimentV2UpdateRequest {
+  data: {
+    type: 'appStoreVersionExperiments';
+    id: string;
+    attributes?: {
+      name?: string;
+      trafficProportion?: number;
+      started?: boolean;
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppStoreVersionExperimentsResponse {
+  data: AppStoreVersionExperiment[];
+  included?: Array<AppStoreVersion | AppStoreVersionExperimentTreatment>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreVersionExperimentsV2Response {
+  data: AppStoreVersionExperimentV2[];
+  included?: Array<App | AppStoreVersion | AppStoreVersionExperimentTreatment>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreVersionLocalization {
+  type: 'appStoreVersionLocalizations';
+  id: string;
+  attributes?: {
+    description?: string;
+    locale?: string;
+    keywords?: string;
+    marketingUrl?: string;
+    promotionalText?: string;
+    supportUrl?: string;
+    whatsNew?: string;
+  };
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    appScreenshotSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appScreenshotSets';
+        id: string;
+      }>;
+    };
+    appPreviewSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'appPreviewSets';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionLocalizationCreateRequest {
+  data: {
+    type: 'appStoreVersionLocalizations';
+    attributes: {
+      description?: string;
+      locale: string;
+      keywords?: string;
+      marketingUrl?: string;
+      promotionalText?: string;
+      supportUrl?: string;
+      whatsNew?: string;
+    };
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionLocalizationResponse {
+  data: AppStoreVersionLocalization;
+  included?: Array<AppStoreVersion | AppScreenshotSet | AppPreviewSet>;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionLocalizationUpdateRequest {
+  data: {
+    type: 'appStoreVersionLocalizations';
+    id: string;
+    attributes?: {
+      description?: string;
+      keywords?: string;
+      marketingUrl?: string;
+      promotionalText?: string;
+      supportUrl?: string;
+      whatsNew?: string;
+    };
+  };
+}
+
+export interface AppStoreVersionLocalizationsResponse {
+  data: AppStoreVersionLocalization[];
+  included?: Array<AppStoreVersion | AppScreenshotSet | AppPreviewSet>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreVersionLocalizationsWithoutIncludesResponse {
+  data: AppStoreVersion[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppStoreVersionPhasedRelease {
+  type: 'appStoreVersionPhasedReleases';
+  id: string;
+  attributes?: {
+    phasedReleaseState?: PhasedReleaseState;
+    startDate?: string;
+    totalPauseDuration?: number;
+    currentDayNumber?: number;
+  };
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionPhasedReleaseCreateRequest {
+  data: {
+    type: 'appStoreVersionPhasedReleases';
+    attributes?: {
+      phasedReleaseState?: PhasedReleaseState;
+    };
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionPhasedReleaseResponse {
+  data: AppStoreVersionPhasedRelease;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionPhasedReleaseUpdateRequest {
+  data: {
+    type: 'appStoreVersionPhasedReleases';
+    id: string;
+    attributes?: {
+      phasedReleaseState?: PhasedReleaseState;
+    };
+  };
+}
+
+export interface AppStoreVersionPhasedReleaseWithoutIncludesResponse {
+  data: AppStoreVersion;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionPromotion {
+  type: 'appStoreVersionPromotions';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionPromotionCreateRequest {
+  data: {
+    type: 'appStoreVersionPromotions';
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+      appStoreVersionExperimentTreatment: {
+        data: {
+          type: 'appStoreVersionExperimentTreatments';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionPromotionResponse {
+  data: AppStoreVersionPromotion;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionReleaseRequest {
+  type: 'appStoreVersionReleaseRequests';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface AppStoreVersionReleaseRequestCreateRequest {
+  data: {
+    type: 'appStoreVersionReleaseRequests';
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionReleaseRequestResponse {
+  data: AppStoreVersionReleaseRequest;
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionResponse {
+  data: AppStoreVersion;
+  included?: Array<App | AgeRatingDeclaration | AppStoreVersionLocalization | Build | AppStoreVersionPhasedRelease | RoutingAppCoverage | AppStoreReviewDetail | AppStoreVersionSubmission | AppClipDefaultExperience | AppStoreVersionExperiment | AppStoreVersionExperimentV2>;
+  links: DocumentLinks;
+}
+
+export type AppStoreVersionState = 'ACCEPTED' | 'DEVELOPER_REMOVED_FROM_SALE' | 'DEVELOPER_REJECTED' | 'IN_REVIEW' | 'INVALID_BINARY' | 'METADATA_REJECTED' | 'PENDING_APPLE_RELEASE' | 'PENDING_CONTRACT' | 'PENDING_DEVELOPER_RELEASE' | 'PREPARE_FOR_SUBMISSION' | 'PREORDER_READY_FOR_SALE' | 'PROCESSING_FOR_APP_STORE' | 'READY_FOR_REVIEW' | 'READY_FOR_SALE' | 'REJECTED' | 'REMOVED_FROM_SALE' | 'WAITING_FOR_EXPORT_COMPLIANCE' | 'WAITING_FOR_REVIEW' | 'REPLACED_WITH_NEW_VERSION';
+
+/** @deprecated */
+export interface AppStoreVersionSubmission {
+  type: 'appStoreVersionSubmissions';
+  id: string;
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface AppStoreVersionSubmissionCreateRequest {
+  data: {
+    type: 'appStoreVersionSubmissions';
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+/** @deprecated */
+export interface AppStoreVersionSubmissionResponse {
+  data: AppStoreVersionSubmission;
+  included?: AppStoreVersion[];
+  links: DocumentLinks;
+}
+
+export interface AppStoreVersionUpdateRequest {
+  data: {
+    type: 'appStoreVersions';
+    id: string;
+    attributes?: {
+      versionString?: string;
+      copyright?: string;
+      releaseType?: 'MANUAL' | 'AFTER_APPROVAL' | 'SCHEDULED';
+      earliestReleaseDate?: string;
+      downloadable?: boolean;
+    };
+    relationships?: {
+      build?: {
+        data?: {
+          type: 'builds';
+          id: string;
+        };
+      };
+      appClipDefaultExperience?: {
+        data?: {
+          type: 'appClipDefaultExperiences';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface AppStoreVersionsResponse {
+  data: AppStoreVersion[];
+  included?: Array<App | AgeRatingDeclaration | AppStoreVersionLocalization | Build | AppStoreVersionPhasedRelease | RoutingAppCoverage | AppStoreReviewDetail | AppStoreVersionSubmission | AppClipDefaultExperience | AppStoreVersionExperiment | AppStoreVersionExperimentV2>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppUpdateRequest {
+  data: {
+    type: 'apps';
+    id: string;
+    attributes?: {
+      bundleId?: string;
+      primaryLocale?: string;
+      subscriptionStatusUrl?: string;
+      subscriptionStatusUrlVersion?: SubscriptionStatusUrlVersion;
+      subscriptionStatusUrlForSandbox?: string;
+      subscriptionStatusUrlVersionForSandbox?: SubscriptionStatusUrlVersion;
+      /** @deprecated */
+      availableInNewTerritories?: boolean;
+      contentRightsDeclaration?: 'DOES_NOT_USE_THIRD_PARTY_CONTENT' | 'USES_THIRD_PARTY_CONTENT';
+    };
+    relationships?: {
+      /** @deprecated */
+      prices?: {
+        data?: Array<{
+          type: 'appPrices';
+          id: string;
+        }>;
+      };
+      /** @deprecated */
+      availableTerritories?: {
+        data?: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: AppPriceInlineCreate[];
+}
+
+export interface AppWithoutIncludesResponse {
+  data: PrereleaseVersion;
+  links: DocumentLinks;
+}
+
+export interface AppsBetaTesterUsagesV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        crashCount?: number;
+        sessionCount?: number;
+        feedbackCount?: number;
+      };
+    };
+    dimensions?: {
+      betaTesters?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+  included?: BetaTester[];
+}
+
+export interface AppsResponse {
+  data: App[];
+  included?: Array<AppEncryptionDeclaration | CiProduct | BetaGroup | AppStoreVersion | PrereleaseVersion | BetaAppLocalization | Build | BetaLicenseAgreement | BetaAppReviewDetail | AppInfo | AppClip | EndUserLicenseAgreement | AppPreOrder | AppPrice | Territory | InAppPurchase | SubscriptionGroup | GameCenterEnabledVersion | AppCustomProductPage | InAppPurchaseV2 | PromotedPurchase | AppEvent | ReviewSubmission | SubscriptionGracePeriod | GameCenterDetail | AppStoreVersionExperimentV2>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface AppsWithoutIncludesResponse {
+  data: User[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaAppClipInvocation {
+  type: 'betaAppClipInvocations';
+  id: string;
+  attributes?: {
+    url?: string;
+  };
+  relationships?: {
+    betaAppClipInvocationLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaAppClipInvocationLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaAppClipInvocationCreateRequest {
+  data: {
+    type: 'betaAppClipInvocations';
+    attributes: {
+      url: string;
+    };
+    relationships: {
+      buildBundle: {
+        data: {
+          type: 'buildBundles';
+          id: string;
+        };
+      };
+      betaAppClipInvocationLocalizations: {
+        data: Array<{
+          type: 'betaAppClipInvocationLocalizations';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: BetaAppClipInvocationLocalizationInlineCreate[];
+}
+
+export interface BetaAppClipInvocationLocalization {
+  type: 'betaAppClipInvocationLocalizations';
+  id: string;
+  attributes?: {
+    title?: string;
+    locale?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaAppClipInvocationLocalizationCreateRequest {
+  data: {
+    type: 'betaAppClipInvocationLocalizations';
+    attributes: {
+      title: string;
+      locale: string;
+    };
+    relationships: {
+      betaAppClipInvocation: {
+        data: {
+          type: 'betaAppClipInvocations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BetaAppClipInvocationLocalizationInlineCreate {
+  type: 'betaAppClipInvocationLocalizations';
+  id?: string;
+  attributes: {
+    title: string;
+    locale: string;
+  };
+  relationships?: {
+    betaAppClipInvocation?: {
+      data?: {
+        type: 'betaAppClipInvocations';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface BetaAppClipInvocationLocalizationResponse {
+  data: BetaAppClipInvocationLocalization;
+  links: DocumentLinks;
+}
+
+export interface BetaAppClipInvocationLocalizationUpdateRequest {
+  data: {
+    type: 'betaAppClipInvocationLocalizations';
+    id: string;
+    attributes?: {
+      title?: string;
+    };
+  };
+}
+
+export interface BetaAppClipInvocationResponse {
+  data: BetaAppClipInvocation;
+  included?: BetaAppClipInvocationLocalization[];
+  links: DocumentLinks;
+}
+
+export interface BetaAppClipInvocationUpdateRequest {
+  data: {
+    type: 'betaAppClipInvocations';
+    id: string;
+    attributes?: {
+      url?: string;
+    };
+  };
+}
+
+export interface BetaAppClipInvocationsResponse {
+  data: BetaAppClipInvocation[];
+  included?: BetaAppClipInvocationLocalization[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaAppLocalization {
+  type: 'betaAppLocalizations';
+  id: string;
+  attributes?: {
+    feedbackEmail?: string;
+    marketingUrl?: string;
+    privacyPolicyUrl?: string;
+    tvOsPrivacyPolicy?: string;
+    description?: string;
+    locale?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaAppLocalizationCreateRequest {
+  data: {
+    type: 'betaAppLocalizations';
+    attributes: {
+      feedbackEmail?: string;
+      marketingUrl?: string;
+      privacyPolicyUrl?: string;
+      tvOsPrivacyPolicy?: string;
+      description?: string;
+      locale: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BetaAppLocalizationResponse {
+  data: BetaAppLocalization;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export interface BetaAppLocalizationUpdateRequest {
+  data: {
+    type: 'betaAppLocalizations';
+    id: string;
+    attributes?: {
+      feedbackEmail?: string;
+      marketingUrl?: string;
+      privacyPolicyUrl?: string;
+      tvOsPrivacyPolicy?: string;
+      description?: string;
+    };
+  };
+}
+
+export interface BetaAppLocalizationsResponse {
+  data: BetaAppLocalization[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaAppLocalizationsWithoutIncludesResponse {
+  data: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaAppReviewDetail {
+  type: 'betaAppReviewDetails';
+  id: string;
+  attributes?: {
+    contactFirstName?: string;
+    contactLastName?: string;
+    contactPhone?: string;
+    contactEmail?: string;
+    demoAccountName?: string;
+    demoAccountPassword?: string;
+    demoAccountRequired?: boolean;
+    notes?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaAppReviewDetailResponse {
+  data: BetaAppReviewDetail;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export interface BetaAppReviewDetailUpdateRequest {
+  data: {
+    type: 'betaAppReviewDetails';
+    id: string;
+    attributes?: {
+      contactFirstName?: string;
+      contactLastName?: string;
+      contactPhone?: string;
+      contactEmail?: string;
+      demoAccountName?: string;
+      demoAccountPassword?: string;
+      demoAccountRequired?: boolean;
+      notes?: string;
+    };
+  };
+}
+
+export interface BetaAppReviewDetailWithoutIncludesResponse {
+  data: App;
+  links: DocumentLinks;
+}
+
+export interface BetaAppReviewDetailsResponse {
+  data: BetaAppReviewDetail[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaAppReviewSubmission {
+  type: 'betaAppReviewSubmissions';
+  id: string;
+  attributes?: {
+    betaReviewState?: BetaReviewState;
+    submittedDate?: string;
+  };
+  relationships?: {
+    build?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'builds';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaAppReviewSubmissionCreateRequest {
+  data: {
+    type: 'betaAppReviewSubmissions';
+    relationships: {
+      build: {
+        data: {
+          type: 'builds';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BetaAppReviewSubmissionResponse {
+  data: BetaAppReviewSubmission;
+  included?: Build[];
+  links: DocumentLinks;
+}
+
+export interface BetaAppReviewSubmissionWithoutIncludesResponse {
+  data: Build;
+  links: DocumentLinks;
+}
+
+export interface BetaAppReviewSubmissionsResponse {
+  data: BetaAppReviewSubmission[];
+  included?: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaBuildLocalization {
+  type: 'betaBuildLocalizations';
+  id: string;
+  attributes?: {
+    whatsNew?: string;
+    locale?: string;
+  };
+  relationships?: {
+    build?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'builds';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaBuildLocalizationCreateRequest {
+  data: {
+    type: 'betaBuildLocalizations';
+    attributes: {
+      whatsNew?: string;
+      locale: string;
+    };
+    relationships: {
+      build: {
+        data: {
+          type: 'builds';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BetaBuildLocalizationResponse {
+  data: BetaBuildLocalization;
+  included?: Build[];
+  links: DocumentLinks;
+}
+
+export interface BetaBuildLocalizationUpdateRequest {
+  data: {
+    type: 'betaBuildLocalizations';
+    id: string;
+    attributes?: {
+      whatsNew?: string;
+    };
+  };
+}
+
+export interface BetaBuildLocalizationsResponse {
+  data: BetaBuildLocalization[];
+  included?: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaBuildLocalizationsWithoutIncludesResponse {
+  data: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaBuildUsagesV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        crashCount?: number;
+        installCount?: number;
+        sessionCount?: number;
+        feedbackCount?: number;
+        inviteCount?: number;
+      };
+    };
+    dimensions?: {
+      bundleIds?: {
+        links?: {
+          groupBy?: string;
+        };
+      };
+    };
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaGroup {
+  type: 'betaGroups';
+  id: string;
+  attributes?: {
+    name?: string;
+    createdDate?: string;
+    isInternalGroup?: boolean;
+    hasAccessToAllBuilds?: boolean;
+    publicLinkEnabled?: boolean;
+    publicLinkId?: string;
+    publicLinkLimitEnabled?: boolean;
+    publicLinkLimit?: number;
+    publicLink?: string;
+    feedbackEnabled?: boolean;
+    iosBuildsAvailableForAppleSiliconMac?: boolean;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+    betaTesters?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaTesters';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaGroupBetaTestersLinkagesRequest {
+  data: Array<{
+    type: 'betaTesters';
+    id: string;
+  }>;
+}
+
+export interface BetaGroupBetaTestersLinkagesResponse {
+  data: Array<{
+    type: 'betaTesters';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaGroupBuildsLinkagesRequest {
+  data: Array<{
+    type: 'builds';
+    id: string;
+  }>;
+}
+
+export interface BetaGroupBuildsLinkagesResponse {
+  data: Array<{
+    type: 'builds';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaGroupCreateRequest {
+  data: {
+    type: 'betaGroups';
+    attributes: {
+      name: string;
+      isInternalGroup?: boolean;
+      hasAccessToAllBuilds?: boolean;
+      publicLinkEnabled?: boolean;
+      publicLinkLimitEnabled?: boolean;
+      publicLinkLimit?: number;
+      feedbackEnabled?: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      builds?: {
+        data?: Array<{
+          type: 'builds';
+          id: string;
+        }>;
+      };
+      betaTesters?: {
+        data?: Array<{
+          type: 'betaTesters';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface BetaGroupResponse {
+  data: BetaGroup;
+  included?: Array<App | Build | BetaTester>;
+  links: DocumentLinks;
+}
+
+export interface BetaGroupUpdateRequest {
+  data: {
+    type: 'betaGroups';
+    id: string;
+    attributes?: {
+      name?: string;
+      publicLinkEnabled?: boolean;
+      publicLinkLimitEnabled?: boolean;
+      publicLinkLimit?: number;
+      feedbackEnabled?: boolean;
+      iosBuildsAvailableForAppleSiliconMac?: boolean;
+    };
+  };
+}
+
+export interface BetaGroupsResponse {
+  data: BetaGroup[];
+  included?: Array<App | Build | BetaTester>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaGroupsWithoutIncludesResponse {
+  data: BetaTester[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type BetaInviteType = 'EMAIL' | 'PUBLIC_LINK';
+
+export interface BetaLicenseAgreement {
+  type: 'betaLicenseAgreements';
+  id: string;
+  attributes?: {
+    agreementText?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaLicenseAgreementResponse {
+  data: BetaLicenseAgreement;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export interface BetaLicenseAgreementUpdateRequest {
+  data: {
+    type: 'betaLicenseAgreements';
+    id: string;
+    attributes?: {
+      agreementText?: string;
+    };
+  };
+}
+
+export interface BetaLicenseAgreementWithoutIncludesResponse {
+  data: App;
+  links: DocumentLinks;
+}
+
+export interface BetaLicenseAgreementsResponse {
+  data: BetaLicenseAgreement[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type BetaReviewState = 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'REJECTED' | 'APPROVED';
+
+export interface BetaTester {
+  type: 'betaTesters';
+  id: string;
+  attributes?: {
+    firstName?: string;
+    lastName?: string;
+    email?: string;
+    inviteType?: BetaInviteType;
+  };
+  relationships?: {
+    apps?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'apps';
+        id: string;
+      }>;
+    };
+    betaGroups?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaGroups';
+        id: string;
+      }>;
+    };
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BetaTesterAppsLinkagesRequest {
+  data: Array<{
+    type: 'apps';
+    id: string;
+  }>;
+}
+
+export interface BetaTesterAppsLinkagesResponse {
+  data: Array<{
+    type: 'apps';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaTesterBetaGroupsLinkagesRequest {
+  data: Array<{
+    type: 'betaGroups';
+    id: string;
+  }>;
+}
+
+export interface BetaTesterBetaGroupsLinkagesResponse {
+  data: Array<{
+    type: 'betaGroups';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaTesterBuildsLinkagesRequest {
+  data: Array<{
+    type: 'builds';
+    id: string;
+  }>;
+}
+
+export interface BetaTesterBuildsLinkagesResponse {
+  data: Array<{
+    type: 'builds';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaTesterCreateRequest {
+  data: {
+    type: 'betaTesters';
+    attributes: {
+      firstName?: string;
+      lastName?: string;
+      email: string;
+    };
+    relationships?: {
+      betaGroups?: {
+        data?: Array<{
+          type: 'betaGroups';
+          id: string;
+        }>;
+      };
+      builds?: {
+        data?: Array<{
+          type: 'builds';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface BetaTesterInvitation {
+  type: 'betaTesterInvitations';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface BetaTesterInvitationCreateRequest {
+  data: {
+    type: 'betaTesterInvitations';
+    relationships: {
+      betaTester: {
+        data: {
+          type: 'betaTesters';
+          id: string;
+        };
+      };
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BetaTesterInvitationResponse {
+  data: BetaTesterInvitation;
+  links: DocumentLinks;
+}
+
+export interface BetaTesterResponse {
+  data: BetaTester;
+  included?: Array<App | BetaGroup | Build>;
+  links: DocumentLinks;
+}
+
+export interface BetaTesterUsagesV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        crashCount?: number;
+        sessionCount?: number;
+        feedbackCount?: number;
+      };
+    };
+    dimensions?: {
+      apps?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaTestersResponse {
+  data: BetaTester[];
+  included?: Array<App | BetaGroup | Build>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BetaTestersWithoutIncludesResponse {
+  data: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type BrazilAgeRating = 'L' | 'TEN' | 'TWELVE' | 'FOURTEEN' | 'SIXTEEN' | 'EIGHTEEN';
+
+export interface Build {
+  type: 'builds';
+  id: string;
+  attributes?: {
+    version?: string;
+    uploadedDate?: string;
+    expirationDate?: string;
+    expired?: boolean;
+    minOsVersion?: string;
+    lsMinimumSystemVersion?: string;
+    computedMinMacOsVersion?: string;
+    iconAssetToken?: ImageAsset;
+    processingState?: 'PROCESSING' | 'FAILED' | 'INVALID' | 'VALID';
+    buildAudienceType?: BuildAudienceType;
+    usesNonExemptEncryption?: boolean;
+  };
+  relationships?: {
+    preReleaseVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'preReleaseVersions';
+        id: string;
+      };
+    };
+    individualTesters?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaTesters';
+        id: string;
+      }>;
+    };
+    betaGroups?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaGroups';
+        id: string;
+      }>;
+    };
+    betaBuildLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaBuildLocalizations';
+        id: string;
+      }>;
+    };
+    appEncryptionDeclaration?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEncryptionDeclarations';
+        id: string;
+      };
+    };
+    betaAppReviewSubmission?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'betaAppReviewSubmissions';
+        id: string;
+      };
+    };
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    buildBetaDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'buildBetaDetails';
+        id: string;
+      };
+    };
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    icons?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'buildIcons';
+        id: string;
+      }>;
+    };
+    buildBundles?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'buildBundles';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BuildAppEncryptionDeclarationLinkageRequest {
+  data: {
+    type: 'appEncryptionDeclarations';
+    id: string;
+  };
+}
+
+export interface BuildAppEncryptionDeclarationLinkageResponse {
+  data: {
+    type: 'appEncryptionDeclarations';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export type BuildAudienceType = 'INTERNAL_ONLY' | 'APP_STORE_ELIGIBLE';
+
+export interface BuildBetaDetail {
+  type: 'buildBetaDetails';
+  id: string;
+  attributes?: {
+    autoNotifyEnabled?: boolean;
+    internalBuildState?: InternalBetaState;
+    externalBuildState?: ExternalBetaState;
+  };
+  relationships?: {
+    build?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'builds';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BuildBetaDetailResponse {
+  data: BuildBetaDetail;
+  included?: Build[];
+  links: DocumentLinks;
+}
+
+export interface BuildBetaDetailUpdateRequest {
+  data: {
+    type: 'buildBetaDetails';
+    id: string;
+    attributes?: {
+      autoNotifyEnabled?: boolean;
+    };
+  };
+}
+
+export interface BuildBetaDetailWithoutIncludesResponse {
+  data: Build;
+  links: DocumentLinks;
+}
+
+export interface BuildBetaDetailsResponse {
+  data: BuildBetaDetail[];
+  included?: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildBetaGroupsLinkagesRequest {
+  data: Array<{
+    type: 'betaGroups';
+    id: string;
+  }>;
+}
+
+export interface BuildBetaNotification {
+  type: 'buildBetaNotifications';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface BuildBetaNotificationCreateRequest {
+  data: {
+    type: 'buildBetaNotifications';
+    relationships: {
+      build: {
+        data: {
+          type: 'builds';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BuildBetaNotificationResponse {
+  data: BuildBetaNotification;
+  links: DocumentLinks;
+}
+
+export interface BuildBundle {
+  type: 'buildBundles';
+  id: string;
+  attributes?: {
+    bundleId?: string;
+    bundleType?: 'APP' | 'APP_CLIP';
+    sdkBuild?: string;
+    platformBuild?: string;
+    fileName?: string;
+    hasSirikit?: boolean;
+    hasOnDemandResources?: boolean;
+    hasPrerenderedIcon?: boolean;
+    usesLocationServices?: boolean;
+    isIosBuildMacAppStoreCompatible?: boolean;
+    includesSymbols?: boolean;
+    dSYMUrl?: string;
+    supportedArchitectures?: string[];
+    requiredCapabilities?: string[];
+    deviceProtocols?: string[];
+    locales?: string[];
+    entitlements?: Record<string, Record<string, string>>;
+  };
+  relationships?: {
+    appClipDomainCacheStatus?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDomainStatuses';
+        id: string;
+      };
+    };
+    appClipDomainDebugStatus?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appClipDomainStatuses';
+        id: string;
+      };
+    };
+    betaAppClipInvocations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'betaAppClipInvocations';
+        id: string;
+      }>;
+    };
+    buildBundleFileSizes?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'buildBundleFileSizes';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BuildBundleFileSize {
+  type: 'buildBundleFileSizes';
+  id: string;
+  attributes?: {
+    deviceModel?: string;
+    osVersion?: string;
+    downloadBytes?: number;
+    installBytes?: number;
+  };
+  links?: ResourceLinks;
+}
+
+export interface BuildBundleFileSizesResponse {
+  data: BuildBundleFileSize[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildIcon {
+  type: 'buildIcons';
+  id: string;
+  attributes?: {
+    name?: string;
+    iconAsset?: ImageAsset;
+    iconType?: IconAssetType;
+  };
+  links?: ResourceLinks;
+}
+
+export interface BuildIconsResponse {
+  data: BuildIcon[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildIconsWithoutIncludesResponse {
+  data: Build[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildIndividualTestersLinkagesRequest {
+  data: Array<{
+    type: 'betaTesters';
+    id: string;
+  }>;
+}
+
+export interface BuildIndividualTestersLinkagesResponse {
+  data: Array<{
+    type: 'betaTesters';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildResponse {
+  data: Build;
+  included?: Array<PrereleaseVersion | BetaTester | BetaGroup | BetaBuildLocalization | AppEncryptionDeclaration | BetaAppReviewSubmission | App | BuildBetaDetail | AppStoreVersion | BuildIcon | BuildBundle>;
+  links: DocumentLinks;
+}
+
+export interface BuildUpdateRequest {
+  data: {
+    type: 'builds';
+    id: string;
+    attributes?: {
+      expired?: boolean;
+      usesNonExemptEncryption?: boolean;
+    };
+    relationships?: {
+      appEncryptionDeclaration?: {
+        data?: {
+          type: 'appEncryptionDeclarations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BuildWithoutIncludesResponse {
+  data: BuildBetaDetail;
+  links: DocumentLinks;
+}
+
+export interface BuildsResponse {
+  data: Build[];
+  included?: Array<PrereleaseVersion | BetaTester | BetaGroup | BetaBuildLocalization | AppEncryptionDeclaration | BetaAppReviewSubmission | App | BuildBetaDetail | AppStoreVersion | BuildIcon | BuildBundle>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BuildsWithoutIncludesResponse {
+  data: PrereleaseVersion[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BundleId {
+  type: 'bundleIds';
+  id: string;
+  attributes?: {
+    name?: string;
+    platform?: BundleIdPlatform;
+    identifier?: string;
+    seedId?: string;
+  };
+  relationships?: {
+    profiles?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'profiles';
+        id: string;
+      }>;
+    };
+    bundleIdCapabilities?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'bundleIdCapabilities';
+        id: string;
+      }>;
+    };
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface BundleIdCapabilitiesResponse {
+  data: BundleIdCapability[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BundleIdCapabilitiesWithoutIncludesResponse {
+  data: BundleId[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface BundleIdCapability {
+  type: 'bundleIdCapabilities';
+  id: string;
+  attributes?: {
+    capabilityType?: CapabilityType;
+    settings?: CapabilitySetting[];
+  };
+  links?: ResourceLinks;
+}
+
+export interface BundleIdCapabilityCreateRequest {
+  data: {
+    type: 'bundleIdCapabilities';
+    attributes: {
+      capabilityType: CapabilityType;
+      settings?: CapabilitySetting[];
+    };
+    relationships: {
+      bundleId: {
+        data: {
+          type: 'bundleIds';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface BundleIdCapabilityResponse {
+  data: BundleIdCapability;
+  links: DocumentLinks;
+}
+
+export interface BundleIdCapabilityUpdateRequest {
+  data: {
+    type: 'bundleIdCapabilities';
+    id: string;
+    attributes?: {
+      capabilityType?: CapabilityType;
+      settings?: CapabilitySetting[];
+    };
+  };
+}
+
+export interface BundleIdCreateRequest {
+  data: {
+    type: 'bundleIds';
+    attributes: {
+      name: string;
+      platform: BundleIdPlatform;
+      identifier: string;
+      seedId?: string;
+    };
+  };
+}
+
+export type BundleIdPlatform = 'IOS' | 'MAC_OS';
+
+export interface BundleIdResponse {
+  data: BundleId;
+  included?: Array<Profile | BundleIdCapability | App>;
+  links: DocumentLinks;
+}
+
+export interface BundleIdUpdateRequest {
+  data: {
+    type: 'bundleIds';
+    id: string;
+    attributes?: {
+      name?: string;
+    };
+  };
+}
+
+export interface BundleIdWithoutIncludesResponse {
+  data: Profile;
+  links: DocumentLinks;
+}
+
+export interface BundleIdsResponse {
+  data: BundleId[];
+  included?: Array<Profile | BundleIdCapability | App>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CapabilityOption {
+  key?: 'XCODE_5' | 'XCODE_6' | 'COMPLETE_PROTECTION' | 'PROTECTED_UNLESS_OPEN' | 'PROTECTED_UNTIL_FIRST_USER_AUTH' | 'PRIMARY_APP_CONSENT';
+  name?: string;
+  description?: string;
+  enabledByDefault?: boolean;
+  enabled?: boolean;
+  supportsWildcard?: boolean;
+}
+
+export interface CapabilitySetting {
+  key?: 'ICLOUD_VERSION' | 'DATA_PROTECTION_PERMISSION_LEVEL' | 'APPLE_ID_AUTH_APP_CONSENT';
+  name?: string;
+  description?: string;
+  enabledByDefault?: boolean;
+  visible?: boolean;
+  allowedInstances?: 'ENTRY' | 'SINGLE' | 'MULTIPLE';
+  minInstances?: number;
+  options?: CapabilityOption[];
+}
+
+export type CapabilityType = 'ICLOUD' | 'IN_APP_PURCHASE' | 'GAME_CENTER' | 'PUSH_NOTIFICATIONS' | 'WALLET' | 'INTER_APP_AUDIO' | 'MAPS' | 'ASSOCIATED_DOMAINS' | 'PERSONAL_VPN' | 'APP_GROUPS' | 'HEALTHKIT' | 'HOMEKIT' | 'WIRELESS_ACCESSORY_CONFIGURATION' | 'APPLE_PAY' | 'DATA_PROTECTION' | 'SIRIKIT' | 'NETWORK_EXTENSIONS' | 'MULTIPATH' | 'HOT_SPOT' | 'NFC_TAG_READING' | 'CLASSKIT' | 'AUTOFILL_CREDENTIAL_PROVIDER' | 'ACCESS_WIFI_INFORMATION' | 'NETWORK_CUSTOM_PROTOCOL' | 'COREMEDIA_HLS_LOW_LATENCY' | 'SYSTEM_EXTENSION_INSTALL' | 'USER_MANAGEMENT' | 'APPLE_ID_AUTH';
+
+export interface Certificate {
+  type: 'certificates';
+  id: string;
+  attributes?: {
+    name?: string;
+    certificateType?: CertificateType;
+    displayName?: string;
+    serialNumber?: string;
+    platform?: BundleIdPlatform;
+    expirationDate?: string;
+    certificateContent?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface CertificateCreateRequest {
+  data: {
+    type: 'certificates';
+    attributes: {
+      csrContent: string;
+      certificateType: CertificateType;
+    };
+  };
+}
+
+export interface CertificateResponse {
+  data: Certificate;
+  links: DocumentLinks;
+}
+
+export type CertificateType = 'IOS_DEVELOPMENT' | 'IOS_DISTRIBUTION' | 'MAC_APP_DISTRIBUTION' | 'MAC_INSTALLER_DISTRIBUTION' | 'MAC_APP_DEVELOPMENT' | 'DEVELOPER_ID_KEXT' | 'DEVELOPER_ID_APPLICATION' | 'DEVELOPMENT' | 'DISTRIBUTION' | 'PASS_TYPE_ID' | 'PASS_TYPE_ID_WITH_NFC';
+
+export interface CertificatesResponse {
+  data: Certificate[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CertificatesWithoutIncludesResponse {
+  data: Profile[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiAction {
+  name?: string;
+  actionType?: CiActionType;
+  destination?: 'ANY_IOS_DEVICE' | 'ANY_IOS_SIMULATOR' | 'ANY_TVOS_DEVICE' | 'ANY_TVOS_SIMULATOR' | 'ANY_WATCHOS_DEVICE' | 'ANY_WATCHOS_SIMULATOR' | 'ANY_MAC' | 'ANY_MAC_CATALYST' | 'ANY_VISIONOS_DEVICE' | 'ANY_VISIONOS_SIMULATOR';
+  buildDistributionAudience?: BuildAudienceType;
+  testConfiguration?: {
+    kind?: 'USE_SCHEME_SETTINGS' | 'SPECIFIC_TEST_PLANS';
+    testPlanName?: string;
+    testDestinations?: CiTestDestination[];
+  };
+  scheme?: string;
+  platform?: 'MACOS' | 'IOS' | 'TVOS' | 'WATCHOS' | 'VISIONOS';
+  isRequiredToPass?: boolean;
+}
+
+export type CiActionType = 'BUILD' | 'ANALYZE' | 'TEST' | 'ARCHIVE';
+
+export interface CiArtifact {
+  type: 'ciArtifacts';
+  id: string;
+  attributes?: {
+    fileType?: 'ARCHIVE' | 'ARCHIVE_EXPORT' | 'LOG_BUNDLE' | 'RESULT_BUNDLE' | 'TEST_PRODUCTS' | 'XCODEBUILD_PRODUCTS' | 'STAPLED_NOTARIZED_ARCHIVE';
+    fileName?: string;
+    fileSize?: number;
+    downloadUrl?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiArtifactResponse {
+  data: CiArtifact;
+  links: DocumentLinks;
+}
+
+export interface CiArtifactsResponse {
+  data: CiArtifact[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiBranchPatterns {
+  isAllMatch?: boolean;
+  patterns?: Array<{
+    pattern?: string;
+    isPrefix?: boolean;
+  }>;
+}
+
+export interface CiBranchStartCondition {
+  source?: CiBranchPatterns;
+  filesAndFoldersRule?: CiFilesAndFoldersRule;
+  autoCancel?: boolean;
+}
+
+export interface CiBuildAction {
+  type: 'ciBuildActions';
+  id: string;
+  attributes?: {
+    name?: string;
+    actionType?: CiActionType;
+    startedDate?: string;
+    finishedDate?: string;
+    issueCounts?: CiIssueCounts;
+    executionProgress?: CiExecutionProgress;
+    completionStatus?: CiCompletionStatus;
+    isRequiredToPass?: boolean;
+  };
+  relationships?: {
+    buildRun?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciBuildRuns';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiBuildActionResponse {
+  data: CiBuildAction;
+  included?: CiBuildRun[];
+  links: DocumentLinks;
+}
+
+export interface CiBuildActionsResponse {
+  data: CiBuildAction[];
+  included?: CiBuildRun[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiBuildRun {
+  type: 'ciBuildRuns';
+  id: string;
+  attributes?: {
+    number?: number;
+    createdDate?: string;
+    startedDate?: string;
+    finishedDate?: string;
+    sourceCommit?: {
+      commitSha?: string;
+      message?: string;
+      author?: CiGitUser;
+      committer?: CiGitUser;
+      webUrl?: string;
+    };
+    destinationCommit?: {
+      commitSha?: string;
+      message?: string;
+      author?: CiGitUser;
+      committer?: CiGitUser;
+      webUrl?: string;
+    };
+    isPullRequestBuild?: boolean;
+    issueCounts?: CiIssueCounts;
+    executionProgress?: CiExecutionProgress;
+    completionStatus?: CiCompletionStatus;
+    startReason?: 'GIT_REF_CHANGE' | 'MANUAL' | 'MANUAL_REBUILD' | 'PULL_REQUEST_OPEN' | 'PULL_REQUEST_UPDATE' | 'SCHEDULE';
+    cancelReason?: 'AUTOMATICALLY_BY_NEWER_BUILD' | 'MANUALLY_BY_USER';
+  };
+  relationships?: {
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+    workflow?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciWorkflows';
+        id: string;
+      };
+    };
+    product?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciProducts';
+        id: string;
+      };
+    };
+    sourceBranchOrTag?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmGitReferences';
+        id: string;
+      };
+    };
+    destinationBranch?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmGitReferences';
+        id: string;
+      };
+    };
+    pullRequest?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmPullRequests';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiBuildRunCreateRequest {
+  data: {
+    type: 'ciBuildRuns';
+    attributes?: {
+      clean?: boolean;
+    };
+    relationships?: {
+      buildRun?: {
+        data?: {
+          type: 'ciBuildRuns';
+          id: string;
+        };
+      };
+      workflow?: {
+        data?: {
+          type: 'ciWorkflows';
+          id: string;
+        };
+      };
+      sourceBranchOrTag?: {
+        data?: {
+          type: 'scmGitReferences';
+          id: string;
+        };
+      };
+      pullRequest?: {
+        data?: {
+          type: 'scmPullRequests';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface CiBuildRunResponse {
+  data: CiBuildRun;
+  included?: Array<Build | CiWorkflow | CiProduct | ScmGitReference | ScmPullRequest>;
+  links: DocumentLinks;
+}
+
+export interface CiBuildRunsResponse {
+  data: CiBuildRun[];
+  included?: Array<Build | CiWorkflow | CiProduct | ScmGitReference | ScmPullRequest>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type CiCompletionStatus = 'SUCCEEDED' | 'FAILED' | 'ERRORED' | 'CANCELED' | 'SKIPPED';
+
+export type CiExecutionProgress = 'PENDING' | 'RUNNING' | 'COMPLETE';
+
+export interface CiFilesAndFoldersRule {
+  mode?: 'START_IF_ANY_FILE_MATCHES' | 'DO_NOT_START_IF_ALL_FILES_MATCH';
+  matchers?: CiStartConditionFileMatcher[];
+}
+
+export type CiGitRefKind = 'BRANCH' | 'TAG';
+
+export interface CiGitUser {
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface CiIssue {
+  type: 'ciIssues';
+  id: string;
+  attributes?: {
+    issueType?: 'ANALYZER_WARNING' | 'ERROR' | 'TEST_FAILURE' | 'WARNING';
+    message?: string;
+    fileSource?: FileLocation;
+    category?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiIssueCounts {
+  analyzerWarnings?: number;
+  errors?: number;
+  testFailures?: number;
+  warnings?: number;
+}
+
+export interface CiIssueResponse {
+  data: CiIssue;
+  links: DocumentLinks;
+}
+
+export interface CiIssuesResponse {
+  data: CiIssue[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiMacOsVersion {
+  type: 'ciMacOsVersions';
+  id: string;
+  attributes?: {
+    version?: string;
+    name?: string;
+  };
+  relationships?: {
+    xcodeVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'ciXcodeVersions';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiMacOsVersionResponse {
+  data: CiMacOsVersion;
+  included?: CiXcodeVersion[];
+  links: DocumentLinks;
+}
+
+export interface CiMacOsVersionsResponse {
+  data: CiMacOsVersion[];
+  included?: CiXcodeVersion[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiManualBranchStartCondition {
+  source?: CiBranchPatterns;
+}
+
+export interface CiManualPullRequestStartCondition {
+  source?: CiBranchPatterns;
+  destination?: CiBranchPatterns;
+}
+
+export interface CiManualTagStartCondition {
+  source?: CiTagPatterns;
+}
+
+export interface CiProduct {
+  type: 'ciProducts';
+  id: string;
+  attributes?: {
+    name?: string;
+    createdDate?: string;
+    productType?: 'APP' | 'FRAMEWORK';
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    bundleId?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'bundleIds';
+        id: string;
+      };
+    };
+    primaryRepositories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'scmRepositories';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiProductResponse {
+  data: CiProduct;
+  included?: Array<App | BundleId | ScmRepository>;
+  links: DocumentLinks;
+}
+
+export interface CiProductsResponse {
+  data: CiProduct[];
+  included?: Array<App | BundleId | ScmRepository>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiPullRequestStartCondition {
+  source?: CiBranchPatterns;
+  destination?: CiBranchPatterns;
+  filesAndFoldersRule?: CiFilesAndFoldersRule;
+  autoCancel?: boolean;
+}
+
+export interface CiScheduledStartCondition {
+  source?: CiBranchPatterns;
+  schedule?: {
+    frequency?: 'WEEKLY' | 'DAILY' | 'HOURLY';
+    days?: Array<'SUNDAY' | 'MONDAY' | 'TUESDAY' | 'WEDNESDAY' | 'THURSDAY' | 'FRIDAY' | 'SATURDAY'>;
+    hour?: number;
+    minute?: number;
+    timezone?: string;
+  };
+}
+
+export interface CiStartConditionFileMatcher {
+  directory?: string;
+  fileExtension?: string;
+  fileName?: string;
+}
+
+export interface CiTagPatterns {
+  isAllMatch?: boolean;
+  patterns?: Array<{
+    pattern?: string;
+    isPrefix?: boolean;
+  }>;
+}
+
+export interface CiTagStartCondition {
+  source?: CiTagPatterns;
+  filesAndFoldersRule?: CiFilesAndFoldersRule;
+  autoCancel?: boolean;
+}
+
+export interface CiTestDestination {
+  deviceTypeName?: string;
+  deviceTypeIdentifier?: string;
+  runtimeName?: string;
+  runtimeIdentifier?: string;
+  kind?: CiTestDestinationKind;
+}
+
+export type CiTestDestinationKind = 'SIMULATOR' | 'MAC';
+
+export interface CiTestResult {
+  type: 'ciTestResults';
+  id: string;
+  attributes?: {
+    className?: string;
+    name?: string;
+    status?: CiTestStatus;
+    fileSource?: FileLocation;
+    message?: string;
+    destinationTestResults?: Array<{
+      uuid?: string;
+      deviceName?: string;
+      osVersion?: string;
+      status?: CiTestStatus;
+      duration?: number;
+    }>;
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiTestResultResponse {
+  data: CiTestResult;
+  links: DocumentLinks;
+}
+
+export interface CiTestResultsResponse {
+  data: CiTestResult[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type CiTestStatus = 'SUCCESS' | 'FAILURE' | 'MIXED' | 'SKIPPED' | 'EXPECTED_FAILURE';
+
+export interface CiWorkflow {
+  type: 'ciWorkflows';
+  id: string;
+  attributes?: {
+    name?: string;
+    description?: string;
+    branchStartCondition?: CiBranchStartCondition;
+    tagStartCondition?: CiTagStartCondition;
+    pullRequestStartCondition?: CiPullRequestStartCondition;
+    scheduledStartCondition?: CiScheduledStartCondition;
+    manualBranchStartCondition?: CiManualBranchStartCondition;
+    manualTagStartCondition?: CiManualTagStartCondition;
+    manualPullRequestStartCondition?: CiManualPullRequestStartCondition;
+    actions?: CiAction[];
+    isEnabled?: boolean;
+    isLockedForEditing?: boolean;
+    clean?: boolean;
+    containerFilePath?: string;
+    lastModifiedDate?: string;
+  };
+  relationships?: {
+    product?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciProducts';
+        id: string;
+      };
+    };
+    repository?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmRepositories';
+        id: string;
+      };
+    };
+    xcodeVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciXcodeVersions';
+        id: string;
+      };
+    };
+    macOsVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'ciMacOsVersions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiWorkflowCreateRequest {
+  data: {
+    type: 'ciWorkflows';
+    attributes: {
+      name: string;
+      description: string;
+      branchStartCondition?: CiBranchStartCondition;
+      tagStartCondition?: CiTagStartCondition;
+      pullRequestStartCondition?: CiPullRequestStartCondition;
+      scheduledStartCondition?: CiScheduledStartCondition;
+      manualBranchStartCondition?: CiManualBranchStartCondition;
+      manualTagStartCondition?: CiManualTagStartCondition;
+      manualPullRequestStartCondition?: CiManualPullRequestStartCondition;
+      actions: CiAction[];
+      isEnabled: boolean;
+      isLockedForEditing?: boolean;
+      clean: boolean;
+      containerFilePath: string;
+    };
+    relationships: {
+      product: {
+        data: {
+          type: 'ciProducts';
+          id: string;
+        };
+      };
+      repository: {
+        data: {
+          type: 'scmRepositories';
+          id: string;
+        };
+      };
+      xcodeVersion: {
+        data: {
+          type: 'ciXcodeVersions';
+          id: string;
+        };
+      };
+      macOsVersion: {
+        data: {
+          type: 'ciMacOsVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface CiWorkflowResponse {
+  data: CiWorkflow;
+  included?: Array<CiProduct | ScmRepository | CiXcodeVersion | CiMacOsVersion>;
+  links: DocumentLinks;
+}
+
+export interface CiWorkflowUpdateRequest {
+  data: {
+    type: 'ciWorkflows';
+    id: string;
+    attributes?: {
+      name?: string;
+      description?: string;
+      branchStartCondition?: CiBranchStartCondition;
+      tagStartCondition?: CiTagStartCondition;
+      pullRequestStartCondition?: CiPullRequestStartCondition;
+      scheduledStartCondition?: CiScheduledStartCondition;
+      manualBranchStartCondition?: CiManualBranchStartCondition;
+      manualTagStartCondition?: CiManualTagStartCondition;
+      manualPullRequestStartCondition?: CiManualPullRequestStartCondition;
+      actions?: CiAction[];
+      isEnabled?: boolean;
+      isLockedForEditing?: boolean;
+      clean?: boolean;
+      containerFilePath?: string;
+    };
+    relationships?: {
+      xcodeVersion?: {
+        data?: {
+          type: 'ciXcodeVersions';
+          id: string;
+        };
+      };
+      macOsVersion?: {
+        data?: {
+          type: 'ciMacOsVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface CiWorkflowsResponse {
+  data: CiWorkflow[];
+  included?: Array<CiProduct | ScmRepository | CiXcodeVersion | CiMacOsVersion>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CiXcodeVersion {
+  type: 'ciXcodeVersions';
+  id: string;
+  attributes?: {
+    version?: string;
+    name?: string;
+    testDestinations?: Array<{
+      deviceTypeName?: string;
+      deviceTypeIdentifier?: string;
+      availableRuntimes?: Array<{
+        runtimeName?: string;
+        runtimeIdentifier?: string;
+      }>;
+      kind?: CiTestDestinationKind;
+    }>;
+  };
+  relationships?: {
+    macOsVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'ciMacOsVersions';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CiXcodeVersionResponse {
+  data: CiXcodeVersion;
+  included?: CiMacOsVersion[];
+  links: DocumentLinks;
+}
+
+export interface CiXcodeVersionsResponse {
+  data: CiXcodeVersion[];
+  included?: CiMacOsVersion[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface CustomerReview {
+  type: 'customerReviews';
+  id: string;
+  attributes?: {
+    rating?: number;
+    title?: string;
+    body?: string;
+    reviewerNickname?: string;
+    createdDate?: string;
+    territory?: TerritoryCode;
+  };
+  relationships?: {
+    response?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'customerReviewResponses';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CustomerReviewResponse {
+  data: CustomerReview;
+  included?: CustomerReviewResponseV1[];
+  links: DocumentLinks;
+}
+
+export interface CustomerReviewResponseV1 {
+  type: 'customerReviewResponses';
+  id: string;
+  attributes?: {
+    responseBody?: string;
+    lastModifiedDate?: string;
+    state?: 'PUBLISHED' | 'PENDING_PUBLISH';
+  };
+  relationships?: {
+    review?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'customerReviews';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface CustomerReviewResponseV1CreateRequest {
+  data: {
+    type: 'customerReviewResponses';
+    attributes: {
+      responseBody: string;
+    };
+    relationships: {
+      review: {
+        data: {
+          type: 'customerReviews';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface CustomerReviewResponseV1Response {
+  data: CustomerReviewResponseV1;
+  included?: CustomerReview[];
+  links: DocumentLinks;
+}
+
+export interface CustomerReviewsResponse {
+  data: CustomerReview[];
+  included?: CustomerReviewResponseV1[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface Device {
+  type: 'devices';
+  id: string;
+  attributes?: {
+    name?: string;
+    platform?: BundleIdPlatform;
+    udid?: string;
+    deviceClass?: 'APPLE_WATCH' | 'IPAD' | 'IPHONE' | 'IPOD' | 'APPLE_TV' | 'MAC';
+    status?: 'ENABLED' | 'DISABLED';
+    model?: string;
+    addedDate?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface DeviceCreateRequest {
+  data: {
+    type: 'devices';
+    attributes: {
+      name: string;
+      platform: BundleIdPlatform;
+      udid: string;
+    };
+  };
+}
+
+export interface DeviceResponse {
+  data: Device;
+  links: DocumentLinks;
+}
+
+export interface DeviceUpdateRequest {
+  data: {
+    type: 'devices';
+    id: string;
+    attributes?: {
+      name?: string;
+      status?: 'ENABLED' | 'DISABLED';
+    };
+  };
+}
+
+export interface DevicesResponse {
+  data: Device[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface DevicesWithoutIncludesResponse {
+  data: Profile[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface DiagnosticLog {
+  type: 'diagnosticLogs';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface DiagnosticLogCallStackNode {
+  sampleCount?: number;
+  isBlameFrame?: boolean;
+  symbolName?: string;
+  insightsCategory?: string;
+  offsetIntoSymbol?: string;
+  binaryName?: string;
+  fileName?: string;
+  binaryUUID?: string;
+  lineNumber?: string;
+  address?: string;
+  offsetIntoBinaryTextSegment?: string;
+  rawFrame?: string;
+  subFrames?: DiagnosticLogCallStackNode[];
+}
+
+export interface DiagnosticSignature {
+  type: 'diagnosticSignatures';
+  id: string;
+  attributes?: {
+    diagnosticType?: 'DISK_WRITES' | 'HANGS';
+    signature?: string;
+    weight?: number;
+  };
+  links?: ResourceLinks;
+}
+
+export interface DiagnosticSignaturesResponse {
+  data: DiagnosticSignature[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface DocumentLinks {
+  self: string;
+}
+
+export interface EndAppAvailabilityPreOrder {
+  type: 'endAppAvailabilityPreOrders';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface EndAppAvailabilityPreOrderCreateRequest {
+  data: {
+    type: 'endAppAvailabilityPreOrders';
+    relationships: {
+      territoryAvailabilities: {
+        data: Array<{
+          type: 'territoryAvailabilities';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface EndAppAvailabilityPreOrderResponse {
+  data: EndAppAvailabilityPreOrder;
+  links: DocumentLinks;
+}
+
+export interface EndUserLicenseAgreement {
+  type: 'endUserLicenseAgreements';
+  id: string;
+  attributes?: {
+    agreementText?: string;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    territories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territories';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface EndUserLicenseAgreementCreateRequest {
+  data: {
+    type: 'endUserLicenseAgreements';
+    attributes: {
+      agreementText: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      territories: {
+        data: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface EndUserLicenseAgreementResponse {
+  data: EndUserLicenseAgreement;
+  included?: Array<App | Territory>;
+  links: DocumentLinks;
+}
+
+export interface EndUserLicenseAgreementUpdateRequest {
+  data: {
+    type: 'endUserLicenseAgreements';
+    id: string;
+    attributes?: {
+      agreementText?: string;
+    };
+    relationships?: {
+      territories?: {
+        data?: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface EndUserLicenseAgreementWithoutIncludesResponse {
+  data: App;
+  links: DocumentLinks;
+}
+
+export interface ErrorResponse {
+  errors?: Array<{
+    id?: string;
+    status: string;
+    code: string;
+    title: string;
+    detail: string;
+    source?: ErrorSourcePointer | ErrorSourceParameter;
+    meta?: Record<string, unknown>;
+  }>;
+}
+
+export interface ErrorSourceParameter {
+  parameter?: string;
+}
+
+export interface ErrorSourcePointer {
+  pointer?: string;
+}
+
+export type ExternalBetaState = 'PROCESSING' | 'PROCESSING_EXCEPTION' | 'MISSING_EXPORT_COMPLIANCE' | 'READY_FOR_BETA_TESTING' | 'IN_BETA_TESTING' | 'EXPIRED' | 'READY_FOR_BETA_SUBMISSION' | 'IN_EXPORT_COMPLIANCE_REVIEW' | 'WAITING_FOR_BETA_REVIEW' | 'IN_BETA_REVIEW' | 'BETA_REJECTED' | 'BETA_APPROVED';
+
+export interface FileLocation {
+  path?: string;
+  lineNumber?: number;
+}
+
+export interface GameCenterAchievement {
+  type: 'gameCenterAchievements';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    vendorIdentifier?: string;
+    points?: number;
+    showBeforeEarned?: boolean;
+    repeatable?: boolean;
+    archived?: boolean;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterGroup?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterGroups';
+        id: string;
+      };
+    };
+    groupAchievement?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterAchievements';
+        id: string;
+      };
+    };
+    localizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAchievementLocalizations';
+        id: string;
+      }>;
+    };
+    releases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAchievementReleases';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterAchievementCreateRequest {
+  data: {
+    type: 'gameCenterAchievements';
+    attributes: {
+      referenceName: string;
+      vendorIdentifier: string;
+      points: number;
+      showBeforeEarned: boolean;
+      repeatable: boolean;
+    };
+    relationships?: {
+      gameCenterDetail?: {
+        data?: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterGroup?: {
+        data?: {
+          type: 'gameCenterGroups';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterAchievementGroupAchievementLinkageRequest {
+  data: {
+    type: 'gameCenterAchievements';
+    id: string;
+  };
+}
+
+export interface GameCenterAchievementGroupAchievementLinkageResponse {
+  data: {
+    type: 'gameCenterAchievements';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface GameCenterAchievementImage {
+  type: 'gameCenterAchievementImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    imageAsset?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    gameCenterAchievementLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterAchievementLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterAchievementImageCreateRequest {
+  data: {
+    type: 'gameCenterAchievementImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      gameCenterAchievementLocalization: {
+        data: {
+          type: 'gameCenterAchievementLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterAchievementImageResponse {
+  data: GameCenterAchievementImage;
+  included?: GameCenterAchievementLocalization[];
+  links: DocumentLinks;
+}
+
+export interface GameCenterAchievementImageUpdateRequest {
+  data: {
+    type: 'gameCenterAchievementImages';
+    id: string;
+    attributes?: {
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface GameCenterAchievementLocalization {
+  type: 'gameCenterAchievementLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    name?: string;
+    beforeEarnedDescription?: string;
+    afterEarnedDescription?: string;
+  };
+  relationships?: {
+    gameCenterAchievement?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterAchievements';
+        id: string;
+      };
+    };
+    gameCenterAchievementImage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterAchievementImages';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterAchievementLocalizationCreateRequest {
+  data: {
+    type: 'gameCenterAchievementLocalizations';
+    attributes: {
+      locale: string;
+      name: string;
+      beforeEarnedDescription: string;
+      afterEarnedDescription: string;
+    };
+    relationships: {
+      gameCenterAchievement: {
+        data: {
+          type: 'gameCenterAchievements';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterAchievementLocalizationResponse {
+  data: GameCenterAchievementLocalization;
+  included?: Array<GameCenterAchievement | GameCenterAchievementImage>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterAchievementLocalizationUpdateRequest {
+  data: {
+    type: 'gameCenterAchievementLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      beforeEarnedDescription?: string;
+      afterEarnedDescription?: string;
+    };
+  };
+}
+
+export interface GameCenterAchievementLocalizationsResponse {
+  data: GameCenterAchievementLocalization[];
+  included?: Array<GameCenterAchievement | GameCenterAchievementImage>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterAchievementRelease {
+  type: 'gameCenterAchievementReleases';
+  id: string;
+  attributes?: {
+    live?: boolean;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterAchievement?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterAchievements';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterAchievementReleaseCreateRequest {
+  data: {
+    type: 'gameCenterAchievementReleases';
+    relationships: {
+      gameCenterDetail: {
+        data: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterAchievement: {
+        data: {
+          type: 'gameCenterAchievements';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterAchievementReleaseResponse {
+  data: GameCenterAchievementRelease;
+  included?: Array<GameCenterDetail | GameCenterAchievement>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterAchievementReleasesResponse {
+  data: GameCenterAchievementRelease[];
+  included?: Array<GameCenterDetail | GameCenterAchievement>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterAchievementResponse {
+  data: GameCenterAchievement;
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterAchievement | GameCenterAchievementLocalization | GameCenterAchievementRelease>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterAchievementUpdateRequest {
+  data: {
+    type: 'gameCenterAchievements';
+    id: string;
+    attributes?: {
+      referenceName?: string;
+      points?: number;
+      showBeforeEarned?: boolean;
+      repeatable?: boolean;
+      archived?: boolean;
+    };
+  };
+}
+
+export interface GameCenterAchievementsResponse {
+  data: GameCenterAchievement[];
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterAchievement | GameCenterAchievementLocalization | GameCenterAchievementRelease>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterAppVersion {
+  type: 'gameCenterAppVersions';
+  id: string;
+  attributes?: {
+    enabled?: boolean;
+  };
+  relationships?: {
+    compatibilityVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAppVersions';
+        id: string;
+      }>;
+    };
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterAppVersionCompatibilityVersionsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterAppVersions';
+    id: string;
+  }>;
+}
+
+export interface GameCenterAppVersionCompatibilityVersionsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterAppVersions';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterAppVersionCreateRequest {
+  data: {
+    type: 'gameCenterAppVersions';
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterAppVersionResponse {
+  data: GameCenterAppVersion;
+  included?: Array<GameCenterAppVersion | AppStoreVersion>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterAppVersionUpdateRequest {
+  data: {
+    type: 'gameCenterAppVersions';
+    id: string;
+    attributes?: {
+      enabled?: boolean;
+    };
+  };
+}
+
+export interface GameCenterAppVersionsResponse {
+  data: GameCenterAppVersion[];
+  included?: Array<GameCenterAppVersion | AppStoreVersion>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterDetail {
+  type: 'gameCenterDetails';
+  id: string;
+  attributes?: {
+    arcadeEnabled?: boolean;
+    challengeEnabled?: boolean;
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    gameCenterAppVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAppVersions';
+        id: string;
+      }>;
+    };
+    gameCenterGroup?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterGroups';
+        id: string;
+      };
+    };
+    gameCenterLeaderboards?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboards';
+        id: string;
+      }>;
+    };
+    gameCenterLeaderboardSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      }>;
+    };
+    gameCenterAchievements?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAchievements';
+        id: string;
+      }>;
+    };
+    defaultLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+    defaultGroupLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+    achievementReleases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAchievementReleases';
+        id: string;
+      }>;
+    };
+    leaderboardReleases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardReleases';
+        id: string;
+      }>;
+    };
+    leaderboardSetReleases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSetReleases';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterDetailCreateRequest {
+  data: {
+    type: 'gameCenterDetails';
+    attributes?: {
+      challengeEnabled?: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterDetailGameCenterAchievementsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterAchievements';
+    id: string;
+  }>;
+}
+
+export interface GameCenterDetailGameCenterAchievementsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterAchievements';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterDetailGameCenterLeaderboardSetsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  }>;
+}
+
+export interface GameCenterDetailGameCenterLeaderboardSetsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterDetailGameCenterLeaderboardsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+}
+
+export interface GameCenterDetailGameCenterLeaderboardsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterDetailResponse {
+  data: GameCenterDetail;
+  included?: Array<App | GameCenterAppVersion | GameCenterGroup | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterAchievement | GameCenterAchievementRelease | GameCenterLeaderboardRelease | GameCenterLeaderboardSetRelease>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterDetailUpdateRequest {
+  data: {
+    type: 'gameCenterDetails';
+    id: string;
+    attributes?: {
+      challengeEnabled?: boolean;
+    };
+    relationships?: {
+      gameCenterGroup?: {
+        data?: {
+          type: 'gameCenterGroups';
+          id: string;
+        };
+      };
+      defaultLeaderboard?: {
+        data?: {
+          type: 'gameCenterLeaderboards';
+          id: string;
+        };
+      };
+      defaultGroupLeaderboard?: {
+        data?: {
+          type: 'gameCenterLeaderboards';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterDetailsResponse {
+  data: GameCenterDetail[];
+  included?: Array<App | GameCenterAppVersion | GameCenterGroup | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterAchievement | GameCenterAchievementRelease | GameCenterLeaderboardRelease | GameCenterLeaderboardSetRelease>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface GameCenterEnabledVersion {
+  type: 'gameCenterEnabledVersions';
+  id: string;
+  attributes?: {
+    platform?: Platform;
+    versionString?: string;
+    iconAsset?: ImageAsset;
+  };
+  relationships?: {
+    compatibleVersions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterEnabledVersions';
+        id: string;
+      }>;
+    };
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+/** @deprecated */
+export interface GameCenterEnabledVersionCompatibleVersionsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterEnabledVersions';
+    id: string;
+  }>;
+}
+
+/** @deprecated */
+export interface GameCenterEnabledVersionCompatibleVersionsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterEnabledVersions';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface GameCenterEnabledVersionsResponse {
+  data: GameCenterEnabledVersion[];
+  included?: Array<GameCenterEnabledVersion | App>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterGroup {
+  type: 'gameCenterGroups';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+  };
+  relationships?: {
+    gameCenterDetails?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterDetails';
+        id: string;
+      }>;
+    };
+    gameCenterLeaderboards?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboards';
+        id: string;
+      }>;
+    };
+    gameCenterLeaderboardSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      }>;
+    };
+    gameCenterAchievements?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterAchievements';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterGroupCreateRequest {
+  data: {
+    type: 'gameCenterGroups';
+    attributes?: {
+      referenceName?: string;
+    };
+  };
+}
+
+export interface GameCenterGroupGameCenterAchievementsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterAchievements';
+    id: string;
+  }>;
+}
+
+export interface GameCenterGroupGameCenterAchievementsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterAchievements';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterGroupGameCenterLeaderboardSetsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  }>;
+}
+
+export interface GameCenterGroupGameCenterLeaderboardSetsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterGroupGameCenterLeaderboardsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+}
+
+export interface GameCenterGroupGameCenterLeaderboardsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterGroupResponse {
+  data: GameCenterGroup;
+  included?: Array<GameCenterDetail | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterAchievement>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterGroupUpdateRequest {
+  data: {
+    type: 'gameCenterGroups';
+    id: string;
+    attributes?: {
+      referenceName?: string;
+    };
+  };
+}
+
+export interface GameCenterGroupsResponse {
+  data: GameCenterGroup[];
+  included?: Array<GameCenterDetail | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterAchievement>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboard {
+  type: 'gameCenterLeaderboards';
+  id: string;
+  attributes?: {
+    defaultFormatter?: GameCenterLeaderboardFormatter;
+    referenceName?: string;
+    vendorIdentifier?: string;
+    submissionType?: 'BEST_SCORE' | 'MOST_RECENT_SCORE';
+    scoreSortType?: 'ASC' | 'DESC';
+    scoreRangeStart?: string;
+    scoreRangeEnd?: string;
+    recurrenceStartDate?: string;
+    recurrenceDuration?: string;
+    recurrenceRule?: string;
+    archived?: boolean;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterGroup?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterGroups';
+        id: string;
+      };
+    };
+    groupLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+    gameCenterLeaderboardSets?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      }>;
+    };
+    localizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardLocalizations';
+        id: string;
+      }>;
+    };
+    releases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardReleases';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboards';
+    attributes: {
+      defaultFormatter: GameCenterLeaderboardFormatter;
+      referenceName: string;
+      vendorIdentifier: string;
+      submissionType: 'BEST_SCORE' | 'MOST_RECENT_SCORE';
+      scoreSortType: 'ASC' | 'DESC';
+      scoreRangeStart?: string;
+      scoreRangeEnd?: string;
+      recurrenceStartDate?: string;
+      recurrenceDuration?: string;
+      recurrenceRule?: string;
+    };
+    relationships?: {
+      gameCenterDetail?: {
+        data?: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterGroup?: {
+        data?: {
+          type: 'gameCenterGroups';
+          id: string;
+        };
+      };
+      gameCenterLeaderboardSets?: {
+        data?: Array<{
+          type: 'gameCenterLeaderboardSets';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardEntrySubmission {
+  type: 'gameCenterLeaderboardEntrySubmissions';
+  id: string;
+  attributes?: {
+    bundleId?: string;
+    challengeIds?: string[];
+    context?: string;
+    scopedPlayerId?: string;
+    score?: string;
+    submittedDate?: string;
+    vendorIdentifier?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardEntrySubmissionCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardEntrySubmissions';
+    attributes: {
+      bundleId: string;
+      challengeIds?: string[];
+      context?: string;
+      scopedPlayerId: string;
+      score: string;
+      submittedDate?: string;
+      vendorIdentifier: string;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardEntrySubmissionResponse {
+  data: GameCenterLeaderboardEntrySubmission;
+  links: DocumentLinks;
+}
+
+export type GameCenterLeaderboardFormatter = 'INTEGER' | 'DECIMAL_POINT_1_PLACE' | 'DECIMAL_POINT_2_PLACE' | 'DECIMAL_POINT_3_PLACE' | 'ELAPSED_TIME_MILLISECOND' | 'ELAPSED_TIME_MINUTE' | 'ELAPSED_TIME_SECOND' | 'MONEY_POUND_DECIMAL' | 'MONEY_POUND' | 'MONEY_DOLLAR_DECIMAL' | 'MONEY_DOLLAR' | 'MONEY_EURO_DECIMAL' | 'MONEY_EURO' | 'MONEY_FRANC_DECIMAL' | 'MONEY_FRANC' | 'MONEY_KRONER_DECIMAL' | 'MONEY_KRONER' | 'MONEY_YEN';
+
+export interface GameCenterLeaderboardGroupLeaderboardLinkageRequest {
+  data: {
+    type: 'gameCenterLeaderboards';
+    id: string;
+  };
+}
+
+export interface GameCenterLeaderboardGroupLeaderboardLinkageResponse {
+  data: {
+    type: 'gameCenterLeaderboards';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardImage {
+  type: 'gameCenterLeaderboardImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    imageAsset?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    gameCenterLeaderboardLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardImageCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      gameCenterLeaderboardLocalization: {
+        data: {
+          type: 'gameCenterLeaderboardLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardImageResponse {
+  data: GameCenterLeaderboardImage;
+  included?: GameCenterLeaderboardLocalization[];
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardImageUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardImages';
+    id: string;
+    attributes?: {
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardLocalization {
+  type: 'gameCenterLeaderboardLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    name?: string;
+    formatterOverride?: GameCenterLeaderboardFormatter;
+    formatterSuffix?: string;
+    formatterSuffixSingular?: string;
+  };
+  relationships?: {
+    gameCenterLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+    gameCenterLeaderboardImage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardImages';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardLocalizationCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardLocalizations';
+    attributes: {
+      locale: string;
+      name: string;
+      formatterOverride?: GameCenterLeaderboardFormatter;
+      formatterSuffix?: string;
+      formatterSuffixSingular?: string;
+    };
+    relationships: {
+      gameCenterLeaderboard: {
+        data: {
+          type: 'gameCenterLeaderboards';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardLocalizationResponse {
+  data: GameCenterLeaderboardLocalization;
+  included?: Array<GameCenterLeaderboard | GameCenterLeaderboardImage>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardLocalizationUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      formatterOverride?: GameCenterLeaderboardFormatter;
+      formatterSuffix?: string;
+      formatterSuffixSingular?: string;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardLocalizationsResponse {
+  data: GameCenterLeaderboardLocalization[];
+  included?: Array<GameCenterLeaderboard | GameCenterLeaderboardImage>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardRelease {
+  type: 'gameCenterLeaderboardReleases';
+  id: string;
+  attributes?: {
+    live?: boolean;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardReleaseCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardReleases';
+    relationships: {
+      gameCenterDetail: {
+        data: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterLeaderboard: {
+        data: {
+          type: 'gameCenterLeaderboards';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardReleaseResponse {
+  data: GameCenterLeaderboardRelease;
+  included?: Array<GameCenterDetail | GameCenterLeaderboard>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardReleasesResponse {
+  data: GameCenterLeaderboardRelease[];
+  included?: Array<GameCenterDetail | GameCenterLeaderboard>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardResponse {
+  data: GameCenterLeaderboard;
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterLeaderboardLocalization | GameCenterLeaderboardRelease>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSet {
+  type: 'gameCenterLeaderboardSets';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    vendorIdentifier?: string;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterGroup?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterGroups';
+        id: string;
+      };
+    };
+    groupLeaderboardSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      };
+    };
+    localizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSetLocalizations';
+        id: string;
+      }>;
+    };
+    gameCenterLeaderboards?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboards';
+        id: string;
+      }>;
+    };
+    releases?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterLeaderboardSetReleases';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardSetCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSets';
+    attributes: {
+      referenceName: string;
+      vendorIdentifier: string;
+    };
+    relationships?: {
+      gameCenterDetail?: {
+        data?: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterGroup?: {
+        data?: {
+          type: 'gameCenterGroups';
+          id: string;
+        };
+      };
+      gameCenterLeaderboards?: {
+        data?: Array<{
+          type: 'gameCenterLeaderboards';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetGameCenterLeaderboardsLinkagesRequest {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+}
+
+export interface GameCenterLeaderboardSetGameCenterLeaderboardsLinkagesResponse {
+  data: Array<{
+    type: 'gameCenterLeaderboards';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardSetGroupLeaderboardSetLinkageRequest {
+  data: {
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  };
+}
+
+export interface GameCenterLeaderboardSetGroupLeaderboardSetLinkageResponse {
+  data: {
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+  };
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetImage {
+  type: 'gameCenterLeaderboardSetImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    imageAsset?: ImageAsset;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    gameCenterLeaderboardSetLocalization?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSetLocalizations';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardSetImageCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      gameCenterLeaderboardSetLocalization: {
+        data: {
+          type: 'gameCenterLeaderboardSetLocalizations';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetImageResponse {
+  data: GameCenterLeaderboardSetImage;
+  included?: GameCenterLeaderboardSetLocalization[];
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetImageUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetImages';
+    id: string;
+    attributes?: {
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetLocalization {
+  type: 'gameCenterLeaderboardSetLocalizations';
+  id: string;
+  attributes?: {
+    locale?: string;
+    name?: string;
+  };
+  relationships?: {
+    gameCenterLeaderboardSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      };
+    };
+    gameCenterLeaderboardSetImage?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSetImages';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardSetLocalizationCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetLocalizations';
+    attributes: {
+      locale: string;
+      name: string;
+    };
+    relationships: {
+      gameCenterLeaderboardSet: {
+        data: {
+          type: 'gameCenterLeaderboardSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetLocalizationResponse {
+  data: GameCenterLeaderboardSetLocalization;
+  included?: Array<GameCenterLeaderboardSet | GameCenterLeaderboardSetImage>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetLocalizationUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetLocalizationsResponse {
+  data: GameCenterLeaderboardSetLocalization[];
+  included?: Array<GameCenterLeaderboardSet | GameCenterLeaderboardSetImage>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardSetMemberLocalization {
+  type: 'gameCenterLeaderboardSetMemberLocalizations';
+  id: string;
+  attributes?: {
+    name?: string;
+    locale?: string;
+  };
+  relationships?: {
+    gameCenterLeaderboardSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      };
+    };
+    gameCenterLeaderboard?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboards';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardSetMemberLocalizationCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetMemberLocalizations';
+    attributes?: {
+      name?: string;
+      locale?: string;
+    };
+    relationships: {
+      gameCenterLeaderboardSet: {
+        data: {
+          type: 'gameCenterLeaderboardSets';
+          id: string;
+        };
+      };
+      gameCenterLeaderboard: {
+        data: {
+          type: 'gameCenterLeaderboards';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetMemberLocalizationResponse {
+  data: GameCenterLeaderboardSetMemberLocalization;
+  included?: Array<GameCenterLeaderboardSet | GameCenterLeaderboard>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetMemberLocalizationUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetMemberLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetMemberLocalizationsResponse {
+  data: GameCenterLeaderboardSetMemberLocalization[];
+  included?: Array<GameCenterLeaderboardSet | GameCenterLeaderboard>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardSetRelease {
+  type: 'gameCenterLeaderboardSetReleases';
+  id: string;
+  attributes?: {
+    live?: boolean;
+  };
+  relationships?: {
+    gameCenterDetail?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterDetails';
+        id: string;
+      };
+    };
+    gameCenterLeaderboardSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterLeaderboardSets';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterLeaderboardSetReleaseCreateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSetReleases';
+    relationships: {
+      gameCenterDetail: {
+        data: {
+          type: 'gameCenterDetails';
+          id: string;
+        };
+      };
+      gameCenterLeaderboardSet: {
+        data: {
+          type: 'gameCenterLeaderboardSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetReleaseResponse {
+  data: GameCenterLeaderboardSetRelease;
+  included?: Array<GameCenterDetail | GameCenterLeaderboardSet>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetReleasesResponse {
+  data: GameCenterLeaderboardSetRelease[];
+  included?: Array<GameCenterDetail | GameCenterLeaderboardSet>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardSetResponse {
+  data: GameCenterLeaderboardSet;
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterLeaderboardSet | GameCenterLeaderboardSetLocalization | GameCenterLeaderboard | GameCenterLeaderboardSetRelease>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterLeaderboardSetUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboardSets';
+    id: string;
+    attributes?: {
+      referenceName?: string;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardSetsResponse {
+  data: GameCenterLeaderboardSet[];
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterLeaderboardSet | GameCenterLeaderboardSetLocalization | GameCenterLeaderboard | GameCenterLeaderboardSetRelease>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterLeaderboardUpdateRequest {
+  data: {
+    type: 'gameCenterLeaderboards';
+    id: string;
+    attributes?: {
+      defaultFormatter?: GameCenterLeaderboardFormatter;
+      referenceName?: string;
+      submissionType?: 'BEST_SCORE' | 'MOST_RECENT_SCORE';
+      scoreSortType?: 'ASC' | 'DESC';
+      scoreRangeStart?: string;
+      scoreRangeEnd?: string;
+      recurrenceStartDate?: string;
+      recurrenceDuration?: string;
+      recurrenceRule?: string;
+      archived?: boolean;
+    };
+  };
+}
+
+export interface GameCenterLeaderboardsResponse {
+  data: GameCenterLeaderboard[];
+  included?: Array<GameCenterDetail | GameCenterGroup | GameCenterLeaderboard | GameCenterLeaderboardSet | GameCenterLeaderboardLocalization | GameCenterLeaderboardRelease>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingAppRequestsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+        averageSecondsInQueue?: number;
+        p50SecondsInQueue?: number;
+        p95SecondsInQueue?: number;
+      };
+    };
+    dimensions?: {
+      result?: {
+        links?: {
+          groupBy?: string;
+        };
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingBooleanRuleResultsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+      };
+    };
+    dimensions?: {
+      result?: {
+        links?: {
+          groupBy?: string;
+        };
+      };
+      gameCenterMatchmakingQueue?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingNumberRuleResultsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+        averageResult?: number;
+        p50Result?: number;
+        p95Result?: number;
+      };
+    };
+    dimensions?: {
+      gameCenterMatchmakingQueue?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingQueue {
+  type: 'gameCenterMatchmakingQueues';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    classicMatchmakingBundleIds?: string[];
+  };
+  relationships?: {
+    ruleSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterMatchmakingRuleSets';
+        id: string;
+      };
+    };
+    experimentRuleSet?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'gameCenterMatchmakingRuleSets';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterMatchmakingQueueCreateRequest {
+  data: {
+    type: 'gameCenterMatchmakingQueues';
+    attributes: {
+      referenceName: string;
+      classicMatchmakingBundleIds?: string[];
+    };
+    relationships: {
+      ruleSet: {
+        data: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+      experimentRuleSet?: {
+        data?: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterMatchmakingQueueRequestsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+        averageSecondsInQueue?: number;
+        p50SecondsInQueue?: number;
+        p95SecondsInQueue?: number;
+      };
+    };
+    dimensions?: {
+      result?: {
+        links?: {
+          groupBy?: string;
+        };
+      };
+      gameCenterDetail?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingQueueResponse {
+  data: GameCenterMatchmakingQueue;
+  included?: GameCenterMatchmakingRuleSet[];
+  links: DocumentLinks;
+}
+
+export interface GameCenterMatchmakingQueueSizesV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+        averageNumberOfRequests?: number;
+        p50NumberOfRequests?: number;
+        p95NumberOfRequests?: number;
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingQueueUpdateRequest {
+  data: {
+    type: 'gameCenterMatchmakingQueues';
+    id: string;
+    attributes?: {
+      classicMatchmakingBundleIds?: string[];
+    };
+    relationships?: {
+      ruleSet?: {
+        data?: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+      experimentRuleSet?: {
+        data?: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterMatchmakingQueuesResponse {
+  data: GameCenterMatchmakingQueue[];
+  included?: GameCenterMatchmakingRuleSet[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingRule {
+  type: 'gameCenterMatchmakingRules';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    description?: string;
+    type?: 'COMPATIBLE' | 'DISTANCE' | 'MATCH' | 'TEAM';
+    expression?: string;
+    weight?: number;
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterMatchmakingRuleCreateRequest {
+  data: {
+    type: 'gameCenterMatchmakingRules';
+    attributes: {
+      referenceName: string;
+      description: string;
+      type: 'COMPATIBLE' | 'DISTANCE' | 'MATCH' | 'TEAM';
+      expression: string;
+      weight?: number;
+    };
+    relationships: {
+      ruleSet: {
+        data: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterMatchmakingRuleErrorsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+      };
+    };
+    dimensions?: {
+      gameCenterMatchmakingQueue?: {
+        links?: {
+          groupBy?: string;
+          related?: string;
+        };
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingRuleResponse {
+  data: GameCenterMatchmakingRule;
+  links: DocumentLinks;
+}
+
+export interface GameCenterMatchmakingRuleSet {
+  type: 'gameCenterMatchmakingRuleSets';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    ruleLanguageVersion?: number;
+    minPlayers?: number;
+    maxPlayers?: number;
+  };
+  relationships?: {
+    teams?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterMatchmakingTeams';
+        id: string;
+      }>;
+    };
+    rules?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterMatchmakingRules';
+        id: string;
+      }>;
+    };
+    matchmakingQueues?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'gameCenterMatchmakingQueues';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterMatchmakingRuleSetCreateRequest {
+  data: {
+    type: 'gameCenterMatchmakingRuleSets';
+    attributes: {
+      referenceName: string;
+      ruleLanguageVersion: number;
+      minPlayers: number;
+      maxPlayers: number;
+    };
+  };
+}
+
+export interface GameCenterMatchmakingRuleSetResponse {
+  data: GameCenterMatchmakingRuleSet;
+  included?: Array<GameCenterMatchmakingTeam | GameCenterMatchmakingRule | GameCenterMatchmakingQueue>;
+  links: DocumentLinks;
+}
+
+export interface GameCenterMatchmakingRuleSetTest {
+  type: 'gameCenterMatchmakingRuleSetTests';
+  id: string;
+  attributes?: {
+    matchmakingResults?: Array<Array<{
+      requestName?: string;
+      teamAssignments?: GameCenterMatchmakingTeamAssignment[];
+    }>>;
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterMatchmakingRuleSetTestCreateRequest {
+  data: {
+    type: 'gameCenterMatchmakingRuleSetTests';
+    relationships: {
+      matchmakingRuleSet: {
+        data: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+      matchmakingRequests: {
+        data: Array<{
+          type: 'gameCenterMatchmakingTestRequests';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: Array<GameCenterMatchmakingTestPlayerPropertyInlineCreate | GameCenterMatchmakingTestRequestInlineCreate>;
+}
+
+export interface GameCenterMatchmakingRuleSetTestResponse {
+  data: GameCenterMatchmakingRuleSetTest;
+  links: DocumentLinks;
+}
+
+export interface GameCenterMatchmakingRuleSetUpdateRequest {
+  data: {
+    type: 'gameCenterMatchmakingRuleSets';
+    id: string;
+    attributes?: {
+      minPlayers?: number;
+      maxPlayers?: number;
+    };
+  };
+}
+
+export interface GameCenterMatchmakingRuleSetsResponse {
+  data: GameCenterMatchmakingRuleSet[];
+  included?: Array<GameCenterMatchmakingTeam | GameCenterMatchmakingRule | GameCenterMatchmakingQueue>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingRuleUpdateRequest {
+  data: {
+    type: 'gameCenterMatchmakingRules';
+    id: string;
+    attributes?: {
+      description?: string;
+      expression?: string;
+      weight?: number;
+    };
+  };
+}
+
+export interface GameCenterMatchmakingRulesResponse {
+  data: GameCenterMatchmakingRule[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingSessionsV1MetricResponse {
+  data: Array<{
+    dataPoints?: {
+      start?: string;
+      end?: string;
+      values?: {
+        count?: number;
+        averagePlayerCount?: number;
+        p50PlayerCount?: number;
+        p95PlayerCount?: number;
+      };
+    };
+    granularity?: 'P1D' | 'PT1H' | 'PT15M';
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingTeam {
+  type: 'gameCenterMatchmakingTeams';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    minPlayers?: number;
+    maxPlayers?: number;
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterMatchmakingTeamAssignment {
+  playerId?: string;
+  team?: string;
+}
+
+export interface GameCenterMatchmakingTeamCreateRequest {
+  data: {
+    type: 'gameCenterMatchmakingTeams';
+    attributes: {
+      referenceName: string;
+      minPlayers: number;
+      maxPlayers: number;
+    };
+    relationships: {
+      ruleSet: {
+        data: {
+          type: 'gameCenterMatchmakingRuleSets';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface GameCenterMatchmakingTeamResponse {
+  data: GameCenterMatchmakingTeam;
+  links: DocumentLinks;
+}
+
+export interface GameCenterMatchmakingTeamUpdateRequest {
+  data: {
+    type: 'gameCenterMatchmakingTeams';
+    id: string;
+    attributes?: {
+      minPlayers?: number;
+      maxPlayers?: number;
+    };
+  };
+}
+
+export interface GameCenterMatchmakingTeamsResponse {
+  data: GameCenterMatchmakingTeam[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface GameCenterMatchmakingTestPlayerPropertyInlineCreate {
+  type: 'gameCenterMatchmakingTestPlayerProperties';
+  id?: string;
+  attributes: {
+    playerId: string;
+    properties?: Property[];
+  };
+}
+
+export interface GameCenterMatchmakingTestRequestInlineCreate {
+  type: 'gameCenterMatchmakingTestRequests';
+  id?: string;
+  attributes: {
+    requestName: string;
+    secondsInQueue: number;
+    locale?: 'AR-SA' | 'CA-ES' | 'CS-CZ' | 'DA-DK' | 'DE-DE' | 'EL-GR' | 'EN-AU' | 'EN-GB' | 'EN-US' | 'EN-KY' | 'ES-ES' | 'ES-MX' | 'FI-FI' | 'FR-CA' | 'FR-FR' | 'HI-IN' | 'HR-HR' | 'HU-HU' | 'ID-ID' | 'IT-IT' | 'IW-IL' | 'JA-JP' | 'KO-KR' | 'MS-MY' | 'NL-NL' | 'NO-NO' | 'PL-PL' | 'PT-BR' | 'PT-PT' | 'RO-RO' | 'RU-RU' | 'SK-SK' | 'SV-SE' | 'TH-TH' | 'TR-TR' | 'UK-UA' | 'ZH-CN' | 'ZH-TW' | 'ZH-HK';
+    location?: Location;
+    minPlayers?: number;
+    maxPlayers?: number;
+    playerCount?: number;
+    bundleId: string;
+    platform: Platform;
+    appVersion: string;
+  };
+  relationships?: {
+    matchmakingPlayerProperties?: {
+      data?: Array<{
+        type: 'gameCenterMatchmakingTestPlayerProperties';
+        id: string;
+      }>;
+    };
+  };
+}
+
+export interface GameCenterPlayerAchievementSubmission {
+  type: 'gameCenterPlayerAchievementSubmissions';
+  id: string;
+  attributes?: {
+    bundleId?: string;
+    challengeIds?: string[];
+    percentageAchieved?: number;
+    scopedPlayerId?: string;
+    submittedDate?: string;
+    vendorIdentifier?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface GameCenterPlayerAchievementSubmissionCreateRequest {
+  data: {
+    type: 'gameCenterPlayerAchievementSubmissions';
+    attributes: {
+      bundleId: string;
+      challengeIds?: string[];
+      percentageAchieved: number;
+      scopedPlayerId: string;
+      submittedDate?: string;
+      vendorIdentifier: string;
+    };
+  };
+}
+
+export interface GameCenterPlayerAchievementSubmissionResponse {
+  data: GameCenterPlayerAchievementSubmission;
+  links: DocumentLinks;
+}
+
+export interface HttpHeader {
+  name?: string;
+  value?: string;
+}
+
+export type IconAssetType = 'APP_STORE' | 'MESSAGES_APP_STORE' | 'WATCH_APP_STORE' | 'TV_OS_HOME_SCREEN' | 'TV_OS_TOP_SHELF' | 'ALTERNATE_EXPERIMENT';
+
+export interface ImageAsset {
+  templateUrl?: string;
+  width?: number;
+  height?: number;
+}
+
+/** @deprecated */
+export interface InAppPurchase {
+  type: 'inAppPurchases';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+    productId?: string;
+    inAppPurchaseType?: 'AUTOMATICALLY_RENEWABLE_SUBSCRIPTION' | 'NON_CONSUMABLE' | 'CONSUMABLE' | 'NON_RENEWING_SUBSCRIPTION' | 'FREE_SUBSCRIPTION';
+    state?: 'CREATED' | 'DEVELOPER_SIGNED_OFF' | 'DEVELOPER_ACTION_NEEDED' | 'DELETION_IN_PROGRESS' | 'APPROVED' | 'DELETED' | 'REMOVED_FROM_SALE' | 'DEVELOPER_REMOVED_FROM_SALE' | 'WAITING_FOR_UPLOAD' | 'PROCESSING_CONTENT' | 'REPLACED' | 'REJECTED' | 'WAITING_FOR_SCREENSHOT' | 'PREPARE_FOR_SUBMISSION' | 'MISSING_METADATA' | 'READY_TO_SUBMIT' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'PENDING_DEVELOPER_RELEASE';
+  };
+  relationships?: {
+    apps?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'apps';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseAppStoreReviewScreenshot {
+  type: 'inAppPurchaseAppStoreReviewScreenshots';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    imageAsset?: ImageAsset;
+    assetToken?: string;
+    assetType?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    inAppPurchaseV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseAppStoreReviewScreenshotCreateRequest {
+  data: {
+    type: 'inAppPurchaseAppStoreReviewScreenshots';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      inAppPurchaseV2: {
+        data: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface InAppPurchaseAppStoreReviewScreenshotResponse {
+  data: InAppPurchaseAppStoreReviewScreenshot;
+  included?: InAppPurchaseV2[];
+  links: DocumentLinks;
+}
+
+export interface InAppPurchaseAppStoreReviewScreenshotUpdateRequest {
+  data: {
+    type: 'inAppPurchaseAppStoreReviewScreenshots';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface InAppPurchaseAvailability {
+  type: 'inAppPurchaseAvailabilities';
+  id: string;
+  attributes?: {
+    availableInNewTerritories?: boolean;
+  };
+  relationships?: {
+    availableTerritories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territories';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseAvailabilityCreateRequest {
+  data: {
+    type: 'inAppPurchaseAvailabilities';
+    attributes: {
+      availableInNewTerritories: boolean;
+    };
+    relationships: {
+      inAppPurchase: {
+        data: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+      availableTerritories: {
+        data: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface InAppPurchaseAvailabilityResponse {
+  data: InAppPurchaseAvailability;
+  included?: Territory[];
+  links: DocumentLinks;
+}
+
+export interface InAppPurchaseContent {
+  type: 'inAppPurchaseContents';
+  id: string;
+  attributes?: {
+    fileName?: string;
+    fileSize?: number;
+    url?: string;
+    lastModifiedDate?: string;
+  };
+  relationships?: {
+    inAppPurchaseV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseContentResponse {
+  data: InAppPurchaseContent;
+  included?: InAppPurchaseV2[];
+  links: DocumentLinks;
+}
+
+export interface InAppPurchaseLocalization {
+  type: 'inAppPurchaseLocalizations';
+  id: string;
+  attributes?: {
+    name?: string;
+    locale?: string;
+    description?: string;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'WAITING_FOR_REVIEW' | 'APPROVED' | 'REJECTED';
+  };
+  relationships?: {
+    inAppPurchaseV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseLocalizationCreateRequest {
+  data: {
+    type: 'inAppPurchaseLocalizations';
+    attributes: {
+      name: string;
+      locale: string;
+      description?: string;
+    };
+    relationships: {
+      inAppPurchaseV2: {
+        data: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface InAppPurchaseLocalizationResponse {
+  data: InAppPurchaseLocalization;
+  included?: InAppPurchaseV2[];
+  links: DocumentLinks;
+}
+
+export interface InAppPurchaseLocalizationUpdateRequest {
+  data: {
+    type: 'inAppPurchaseLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      description?: string;
+    };
+  };
+}
+
+export interface InAppPurchaseLocalizationsResponse {
+  data: InAppPurchaseLocalization[];
+  included?: InAppPurchaseV2[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface InAppPurchasePrice {
+  type: 'inAppPurchasePrices';
+  id: string;
+  attributes?: {
+    startDate?: string;
+    endDate?: string;
+    manual?: boolean;
+  };
+  relationships?: {
+    inAppPurchasePricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchasePricePoints';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchasePriceInlineCreate {
+  type: 'inAppPurchasePrices';
+  id?: string;
+  attributes?: {
+    startDate?: string;
+    endDate?: string;
+  };
+  relationships?: {
+    inAppPurchaseV2?: {
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+    inAppPurchasePricePoint?: {
+      data?: {
+        type: 'inAppPurchasePricePoints';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface InAppPurchasePricePoint {
+  type: 'inAppPurchasePricePoints';
+  id: string;
+  attributes?: {
+    customerPrice?: string;
+    proceeds?: string;
+    /** @deprecated */
+    priceTier?: string;
+  };
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchasePricePointsResponse {
+  data: InAppPurchasePricePoint[];
+  included?: Territory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface InAppPurchasePriceSchedule {
+  type: 'inAppPurchasePriceSchedules';
+  id: string;
+  relationships?: {
+    inAppPurchase?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+    baseTerritory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    manualPrices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchasePrices';
+        id: string;
+      }>;
+    };
+    automaticPrices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchasePrices';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchasePriceScheduleCreateRequest {
+  data: {
+    type: 'inAppPurchasePriceSchedules';
+    relationships: {
+      inAppPurchase: {
+        data: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+      baseTerritory: {
+        data: {
+          type: 'territories';
+          id: string;
+        };
+      };
+      manualPrices: {
+        data: Array<{
+          type: 'inAppPurchasePrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: Array<InAppPurchasePriceInlineCreate | TerritoryInlineCreate>;
+}
+
+export interface InAppPurchasePriceScheduleResponse {
+  data: InAppPurchasePriceSchedule;
+  included?: Array<InAppPurchaseV2 | Territory | InAppPurchasePrice>;
+  links: DocumentLinks;
+}
+
+export interface InAppPurchasePricesResponse {
+  data: InAppPurchasePrice[];
+  included?: Array<InAppPurchasePricePoint | Territory>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+/** @deprecated */
+export interface InAppPurchaseResponse {
+  data: InAppPurchase;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export type InAppPurchaseState = 'MISSING_METADATA' | 'WAITING_FOR_UPLOAD' | 'PROCESSING_CONTENT' | 'READY_TO_SUBMIT' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'DEVELOPER_ACTION_NEEDED' | 'PENDING_BINARY_APPROVAL' | 'APPROVED' | 'DEVELOPER_REMOVED_FROM_SALE' | 'REMOVED_FROM_SALE' | 'REJECTED';
+
+export interface InAppPurchaseSubmission {
+  type: 'inAppPurchaseSubmissions';
+  id: string;
+  relationships?: {
+    inAppPurchaseV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseSubmissionCreateRequest {
+  data: {
+    type: 'inAppPurchaseSubmissions';
+    relationships: {
+      inAppPurchaseV2: {
+        data: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface InAppPurchaseSubmissionResponse {
+  data: InAppPurchaseSubmission;
+  included?: InAppPurchaseV2[];
+  links: DocumentLinks;
+}
+
+export type InAppPurchaseType = 'CONSUMABLE' | 'NON_CONSUMABLE' | 'NON_RENEWING_SUBSCRIPTION';
+
+export interface InAppPurchaseV2 {
+  type: 'inAppPurchases';
+  id: string;
+  attributes?: {
+    name?: string;
+    productId?: string;
+    inAppPurchaseType?: InAppPurchaseType;
+    state?: InAppPurchaseState;
+    reviewNote?: string;
+    familySharable?: boolean;
+    contentHosting?: boolean;
+  };
+  relationships?: {
+    inAppPurchaseLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchaseLocalizations';
+        id: string;
+      }>;
+    };
+    pricePoints?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'inAppPurchasePricePoints';
+        id: string;
+      }>;
+    };
+    content?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchaseContents';
+        id: string;
+      };
+    };
+    appStoreReviewScreenshot?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchaseAppStoreReviewScreenshots';
+        id: string;
+      };
+    };
+    promotedPurchase?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'promotedPurchases';
+        id: string;
+      };
+    };
+    iapPriceSchedule?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchasePriceSchedules';
+        id: string;
+      };
+    };
+    inAppPurchaseAvailability?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchaseAvailabilities';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface InAppPurchaseV2CreateRequest {
+  data: {
+    type: 'inAppPurchases';
+    attributes: {
+      name: string;
+      productId: string;
+      inAppPurchaseType: InAppPurchaseType;
+      reviewNote?: string;
+      familySharable?: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface InAppPurchaseV2Response {
+  data: InAppPurchaseV2;
+  included?: Array<InAppPurchaseLocalization | InAppPurchasePricePoint | InAppPurchaseContent | InAppPurchaseAppStoreReviewScreenshot | PromotedPurchase | InAppPurchasePriceSchedule | InAppPurchaseAvailability>;
+  links: DocumentLinks;
+}
+
+export interface InAppPurchaseV2UpdateRequest {
+  data: {
+    type: 'inAppPurchases';
+    id: string;
+    attributes?: {
+      name?: string;
+      reviewNote?: string;
+      familySharable?: boolean;
+    };
+  };
+}
+
+/** @deprecated */
+export interface InAppPurchasesResponse {
+  data: InAppPurchase[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface InAppPurchasesV2Response {
+  data: InAppPurchaseV2[];
+  included?: Array<InAppPurchaseLocalization | InAppPurchasePricePoint | InAppPurchaseContent | InAppPurchaseAppStoreReviewScreenshot | PromotedPurchase | InAppPurchasePriceSchedule | InAppPurchaseAvailability>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type InternalBetaState = 'PROCESSING' | 'PROCESSING_EXCEPTION' | 'MISSING_EXPORT_COMPLIANCE' | 'READY_FOR_BETA_TESTING' | 'IN_BETA_TESTING' | 'EXPIRED' | 'IN_EXPORT_COMPLIANCE_REVIEW';
+
+export type KidsAgeBand = 'FIVE_AND_UNDER' | 'SIX_TO_EIGHT' | 'NINE_TO_ELEVEN';
+
+export interface Location {
+  latitude?: number;
+  longitude?: number;
+}
+
+export type MetricCategory = 'HANG' | 'LAUNCH' | 'MEMORY' | 'DISK' | 'BATTERY' | 'TERMINATION' | 'ANIMATION';
+
+export interface MetricsInsight {
+  metricCategory?: MetricCategory;
+  latestVersion?: string;
+  metric?: string;
+  summaryString?: string;
+  referenceVersions?: string;
+  maxLatestVersionValue?: number;
+  subSystemLabel?: string;
+  highImpact?: boolean;
+  populations?: Array<{
+    deltaPercentage?: number;
+    percentile?: string;
+    summaryString?: string;
+    referenceAverageValue?: number;
+    latestVersionValue?: number;
+    device?: string;
+  }>;
+}
+
+export interface PagedDocumentLinks {
+  self: string;
+  first?: string;
+  next?: string;
+}
+
+export interface PagingInformation {
+  paging: {
+    total?: number;
+    limit: number;
+  };
+}
+
+export interface PerfPowerMetric {
+  type: 'perfPowerMetrics';
+  id: string;
+  attributes?: {
+    platform?: 'IOS';
+    metricType?: 'DISK' | 'HANG' | 'BATTERY' | 'LAUNCH' | 'MEMORY' | 'ANIMATION' | 'TERMINATION';
+    deviceType?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export type PhasedReleaseState = 'INACTIVE' | 'ACTIVE' | 'PAUSED' | 'COMPLETE';
+
+export type Platform = 'IOS' | 'MAC_OS' | 'TV_OS' | 'VISION_OS';
+
+export interface PreReleaseVersionsResponse {
+  data: PrereleaseVersion[];
+  included?: Array<Build | App>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface PreReleaseVersionsWithoutIncludesResponse {
+  data: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface PrereleaseVersion {
+  type: 'preReleaseVersions';
+  id: string;
+  attributes?: {
+    version?: string;
+    platform?: Platform;
+  };
+  relationships?: {
+    builds?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'builds';
+        id: string;
+      }>;
+    };
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface PrereleaseVersionResponse {
+  data: PrereleaseVersion;
+  included?: Array<Build | App>;
+  links: DocumentLinks;
+}
+
+export interface PrereleaseVersionWithoutIncludesResponse {
+  data: Build;
+  links: DocumentLinks;
+}
+
+export type PreviewType = 'IPHONE_67' | 'IPHONE_61' | 'IPHONE_65' | 'IPHONE_58' | 'IPHONE_55' | 'IPHONE_47' | 'IPHONE_40' | 'IPHONE_35' | 'IPAD_PRO_3GEN_129' | 'IPAD_PRO_3GEN_11' | 'IPAD_PRO_129' | 'IPAD_105' | 'IPAD_97' | 'DESKTOP' | 'APPLE_TV' | 'APPLE_VISION_PRO';
+
+export interface Profile {
+  type: 'profiles';
+  id: string;
+  attributes?: {
+    name?: string;
+    platform?: BundleIdPlatform;
+    profileType?: 'IOS_APP_DEVELOPMENT' | 'IOS_APP_STORE' | 'IOS_APP_ADHOC' | 'IOS_APP_INHOUSE' | 'MAC_APP_DEVELOPMENT' | 'MAC_APP_STORE' | 'MAC_APP_DIRECT' | 'TVOS_APP_DEVELOPMENT' | 'TVOS_APP_STORE' | 'TVOS_APP_ADHOC' | 'TVOS_APP_INHOUSE' | 'MAC_CATALYST_APP_DEVELOPMENT' | 'MAC_CATALYST_APP_STORE' | 'MAC_CATALYST_APP_DIRECT';
+    profileState?: 'ACTIVE' | 'INVALID';
+    profileContent?: string;
+    uuid?: string;
+    createdDate?: string;
+    expirationDate?: string;
+  };
+  relationships?: {
+    bundleId?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'bundleIds';
+        id: string;
+      };
+    };
+    devices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'devices';
+        id: string;
+      }>;
+    };
+    certificates?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'certificates';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ProfileCreateRequest {
+  data: {
+    type: 'profiles';
+    attributes: {
+      name: string;
+      profileType: 'IOS_APP_DEVELOPMENT' | 'IOS_APP_STORE' | 'IOS_APP_ADHOC' | 'IOS_APP_INHOUSE' | 'MAC_APP_DEVELOPMENT' | 'MAC_APP_STORE' | 'MAC_APP_DIRECT' | 'TVOS_APP_DEVELOPMENT' | 'TVOS_APP_STORE' | 'TVOS_APP_ADHOC' | 'TVOS_APP_INHOUSE' | 'MAC_CATALYST_APP_DEVELOPMENT' | 'MAC_CATALYST_APP_STORE' | 'MAC_CATALYST_APP_DIRECT';
+    };
+    relationships: {
+      bundleId: {
+        data: {
+          type: 'bundleIds';
+          id: string;
+        };
+      };
+      devices?: {
+        data?: Array<{
+          type: 'devices';
+          id: string;
+        }>;
+      };
+      certificates: {
+        data: Array<{
+          type: 'certificates';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface ProfileResponse {
+  data: Profile;
+  included?: Array<BundleId | Device | Certificate>;
+  links: DocumentLinks;
+}
+
+export interface ProfilesResponse {
+  data: Profile[];
+  included?: Array<BundleId | Device | Certificate>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ProfilesWithoutIncludesResponse {
+  data: BundleId[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface PromotedPurchase {
+  type: 'promotedPurchases';
+  id: string;
+  attributes?: {
+    visibleForAllUsers?: boolean;
+    enabled?: boolean;
+    state?: 'APPROVED' | 'IN_REVIEW' | 'PREPARE_FOR_SUBMISSION' | 'REJECTED';
+  };
+  relationships?: {
+    inAppPurchaseV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'inAppPurchases';
+        id: string;
+      };
+    };
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    promotionImages?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'promotedPurchaseImages';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface PromotedPurchaseCreateRequest {
+  data: {
+    type: 'promotedPurchases';
+    attributes: {
+      visibleForAllUsers: boolean;
+      enabled?: boolean;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+      inAppPurchaseV2?: {
+        data?: {
+          type: 'inAppPurchases';
+          id: string;
+        };
+      };
+      subscription?: {
+        data?: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface PromotedPurchaseImage {
+  type: 'promotedPurchaseImages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    assetToken?: string;
+    imageAsset?: ImageAsset;
+    assetType?: string;
+    uploadOperations?: UploadOperation[];
+    state?: 'AWAITING_UPLOAD' | 'UPLOAD_COMPLETE' | 'FAILED' | 'PREPARE_FOR_SUBMISSION' | 'WAITING_FOR_REVIEW' | 'APPROVED' | 'REJECTED';
+  };
+  relationships?: {
+    promotedPurchase?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'promotedPurchases';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface PromotedPurchaseImageCreateRequest {
+  data: {
+    type: 'promotedPurchaseImages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      promotedPurchase: {
+        data: {
+          type: 'promotedPurchases';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface PromotedPurchaseImageResponse {
+  data: PromotedPurchaseImage;
+  included?: PromotedPurchase[];
+  links: DocumentLinks;
+}
+
+export interface PromotedPurchaseImageUpdateRequest {
+  data: {
+    type: 'promotedPurchaseImages';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface PromotedPurchaseImagesResponse {
+  data: PromotedPurchaseImage[];
+  included?: PromotedPurchase[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface PromotedPurchaseResponse {
+  data: PromotedPurchase;
+  included?: Array<InAppPurchaseV2 | Subscription | PromotedPurchaseImage>;
+  links: DocumentLinks;
+}
+
+export interface PromotedPurchaseUpdateRequest {
+  data: {
+    type: 'promotedPurchases';
+    id: string;
+    attributes?: {
+      visibleForAllUsers?: boolean;
+      enabled?: boolean;
+    };
+  };
+}
+
+export interface PromotedPurchasesResponse {
+  data: PromotedPurchase[];
+  included?: Array<InAppPurchaseV2 | Subscription | PromotedPurchaseImage>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface Property {
+  key?: string;
+  value?: string;
+}
+
+export interface ResourceLinks {
+  self?: string;
+}
+
+export interface ReviewSubmission {
+  type: 'reviewSubmissions';
+  id: string;
+  attributes?: {
+    platform?: Platform;
+    submittedDate?: string;
+    state?: 'READY_FOR_REVIEW' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'UNRESOLVED_ISSUES' | 'CANCELING' | 'COMPLETING' | 'COMPLETE';
+  };
+  relationships?: {
+    app?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'apps';
+        id: string;
+      };
+    };
+    items?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'reviewSubmissionItems';
+        id: string;
+      }>;
+    };
+    appStoreVersionForReview?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    submittedByActor?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'actors';
+        id: string;
+      };
+    };
+    lastUpdatedByActor?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'actors';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ReviewSubmissionCreateRequest {
+  data: {
+    type: 'reviewSubmissions';
+    attributes: {
+      platform: Platform;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface ReviewSubmissionItem {
+  type: 'reviewSubmissionItems';
+  id: string;
+  attributes?: {
+    state?: 'READY_FOR_REVIEW' | 'ACCEPTED' | 'APPROVED' | 'REJECTED' | 'REMOVED';
+  };
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+    appCustomProductPageVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appCustomProductPageVersions';
+        id: string;
+      };
+    };
+    appStoreVersionExperiment?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperiments';
+        id: string;
+      };
+    };
+    appStoreVersionExperimentV2?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersionExperiments';
+        id: string;
+      };
+    };
+    appEvent?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appEvents';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ReviewSubmissionItemCreateRequest {
+  data: {
+    type: 'reviewSubmissionItems';
+    relationships: {
+      reviewSubmission: {
+        data: {
+          type: 'reviewSubmissions';
+          id: string;
+        };
+      };
+      appStoreVersion?: {
+        data?: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+      appCustomProductPageVersion?: {
+        data?: {
+          type: 'appCustomProductPageVersions';
+          id: string;
+        };
+      };
+      appStoreVersionExperiment?: {
+        data?: {
+          type: 'appStoreVersionExperiments';
+          id: string;
+        };
+      };
+      appStoreVersionExperimentV2?: {
+        data?: {
+          type: 'appStoreVersionExperiments';
+          id: string;
+        };
+      };
+      appEvent?: {
+        data?: {
+          type: 'appEvents';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface ReviewSubmissionItemResponse {
+  data: ReviewSubmissionItem;
+  included?: Array<AppStoreVersion | AppCustomProductPageVersion | AppStoreVersionExperiment | AppStoreVersionExperimentV2 | AppEvent>;
+  links: DocumentLinks;
+}
+
+export interface ReviewSubmissionItemUpdateRequest {
+  data: {
+    type: 'reviewSubmissionItems';
+    id: string;
+    attributes?: {
+      resolved?: boolean;
+      removed?: boolean;
+    };
+  };
+}
+
+export interface ReviewSubmissionItemsResponse {
+  data: ReviewSubmissionItem[];
+  included?: Array<AppStoreVersion | AppCustomProductPageVersion | AppStoreVersionExperiment | AppStoreVersionExperimentV2 | AppEvent>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ReviewSubmissionResponse {
+  data: ReviewSubmission;
+  included?: Array<App | ReviewSubmissionItem | AppStoreVersion | Actor>;
+  links: DocumentLinks;
+}
+
+export interface ReviewSubmissionUpdateRequest {
+  data: {
+    type: 'reviewSubmissions';
+    id: string;
+    attributes?: {
+      submitted?: boolean;
+      canceled?: boolean;
+    };
+  };
+}
+
+export interface ReviewSubmissionsResponse {
+  data: ReviewSubmission[];
+  included?: Array<App | ReviewSubmissionItem | AppStoreVersion | Actor>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface RoutingAppCoverage {
+  type: 'routingAppCoverages';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    appStoreVersion?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'appStoreVersions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface RoutingAppCoverageCreateRequest {
+  data: {
+    type: 'routingAppCoverages';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      appStoreVersion: {
+        data: {
+          type: 'appStoreVersions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface RoutingAppCoverageResponse {
+  data: RoutingAppCoverage;
+  included?: AppStoreVersion[];
+  links: DocumentLinks;
+}
+
+export interface RoutingAppCoverageUpdateRequest {
+  data: {
+    type: 'routingAppCoverages';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface RoutingAppCoverageWithoutIncludesResponse {
+  data: AppStoreVersion;
+  links: DocumentLinks;
+}
+
+export interface SandboxTesterV2 {
+  type: 'sandboxTesters';
+  id: string;
+  attributes?: {
+    firstName?: string;
+    lastName?: string;
+    acAccountName?: string;
+    territory?: TerritoryCode;
+    applePayCompatible?: boolean;
+    interruptPurchases?: boolean;
+    subscriptionRenewalRate?: 'MONTHLY_RENEWAL_EVERY_ONE_HOUR' | 'MONTHLY_RENEWAL_EVERY_THIRTY_MINUTES' | 'MONTHLY_RENEWAL_EVERY_FIFTEEN_MINUTES' | 'MONTHLY_RENEWAL_EVERY_FIVE_MINUTES' | 'MONTHLY_RENEWAL_EVERY_THREE_MINUTES';
+  };
+  links?: ResourceLinks;
+}
+
+export interface SandboxTesterV2Response {
+  data: SandboxTesterV2;
+  links: DocumentLinks;
+}
+
+export interface SandboxTesterV2UpdateRequest {
+  data: {
+    type: 'sandboxTesters';
+    id: string;
+    attributes?: {
+      territory?: TerritoryCode;
+      interruptPurchases?: boolean;
+      subscriptionRenewalRate?: 'MONTHLY_RENEWAL_EVERY_ONE_HOUR' | 'MONTHLY_RENEWAL_EVERY_THIRTY_MINUTES' | 'MONTHLY_RENEWAL_EVERY_FIFTEEN_MINUTES' | 'MONTHLY_RENEWAL_EVERY_FIVE_MINUTES' | 'MONTHLY_RENEWAL_EVERY_THREE_MINUTES';
+    };
+  };
+}
+
+export interface SandboxTestersClearPurchaseHistoryRequestV2 {
+  type: 'sandboxTestersClearPurchaseHistoryRequest';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface SandboxTestersClearPurchaseHistoryRequestV2CreateRequest {
+  data: {
+    type: 'sandboxTestersClearPurchaseHistoryRequest';
+    relationships: {
+      sandboxTesters: {
+        data: Array<{
+          type: 'sandboxTesters';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface SandboxTestersClearPurchaseHistoryRequestV2Response {
+  data: SandboxTestersClearPurchaseHistoryRequestV2;
+  links: DocumentLinks;
+}
+
+export interface SandboxTestersV2Response {
+  data: SandboxTesterV2[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ScmGitReference {
+  type: 'scmGitReferences';
+  id: string;
+  attributes?: {
+    name?: string;
+    canonicalName?: string;
+    isDeleted?: boolean;
+    kind?: CiGitRefKind;
+  };
+  relationships?: {
+    repository?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmRepositories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ScmGitReferenceResponse {
+  data: ScmGitReference;
+  included?: ScmRepository[];
+  links: DocumentLinks;
+}
+
+export interface ScmGitReferencesResponse {
+  data: ScmGitReference[];
+  included?: ScmRepository[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ScmProvider {
+  type: 'scmProviders';
+  id: string;
+  attributes?: {
+    scmProviderType?: ScmProviderType;
+    url?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface ScmProviderResponse {
+  data: ScmProvider;
+  links: DocumentLinks;
+}
+
+export interface ScmProviderType {
+  kind?: 'BITBUCKET_CLOUD' | 'BITBUCKET_SERVER' | 'GITHUB_CLOUD' | 'GITHUB_ENTERPRISE' | 'GITLAB_CLOUD' | 'GITLAB_SELF_MANAGED';
+  displayName?: string;
+  isOnPremise?: boolean;
+}
+
+export interface ScmProvidersResponse {
+  data: ScmProvider[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ScmPullRequest {
+  type: 'scmPullRequests';
+  id: string;
+  attributes?: {
+    title?: string;
+    number?: number;
+    webUrl?: string;
+    sourceRepositoryOwner?: string;
+    sourceRepositoryName?: string;
+    sourceBranchName?: string;
+    destinationRepositoryOwner?: string;
+    destinationRepositoryName?: string;
+    destinationBranchName?: string;
+    isClosed?: boolean;
+    isCrossRepository?: boolean;
+  };
+  relationships?: {
+    repository?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmRepositories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ScmPullRequestResponse {
+  data: ScmPullRequest;
+  included?: ScmRepository[];
+  links: DocumentLinks;
+}
+
+export interface ScmPullRequestsResponse {
+  data: ScmPullRequest[];
+  included?: ScmRepository[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ScmRepositoriesResponse {
+  data: ScmRepository[];
+  included?: Array<ScmProvider | ScmGitReference>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface ScmRepository {
+  type: 'scmRepositories';
+  id: string;
+  attributes?: {
+    lastAccessedDate?: string;
+    httpCloneUrl?: string;
+    sshCloneUrl?: string;
+    ownerName?: string;
+    repositoryName?: string;
+  };
+  relationships?: {
+    scmProvider?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmProviders';
+        id: string;
+      };
+    };
+    defaultBranch?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'scmGitReferences';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface ScmRepositoryResponse {
+  data: ScmRepository;
+  included?: Array<ScmProvider | ScmGitReference>;
+  links: DocumentLinks;
+}
+
+export type ScreenshotDisplayType = 'APP_IPHONE_67' | 'APP_IPHONE_61' | 'APP_IPHONE_65' | 'APP_IPHONE_58' | 'APP_IPHONE_55' | 'APP_IPHONE_47' | 'APP_IPHONE_40' | 'APP_IPHONE_35' | 'APP_IPAD_PRO_3GEN_129' | 'APP_IPAD_PRO_3GEN_11' | 'APP_IPAD_PRO_129' | 'APP_IPAD_105' | 'APP_IPAD_97' | 'APP_DESKTOP' | 'APP_WATCH_ULTRA' | 'APP_WATCH_SERIES_7' | 'APP_WATCH_SERIES_4' | 'APP_WATCH_SERIES_3' | 'APP_APPLE_TV' | 'APP_APPLE_VISION_PRO' | 'IMESSAGE_APP_IPHONE_67' | 'IMESSAGE_APP_IPHONE_61' | 'IMESSAGE_APP_IPHONE_65' | 'IMESSAGE_APP_IPHONE_58' | 'IMESSAGE_APP_IPHONE_55' | 'IMESSAGE_APP_IPHONE_47' | 'IMESSAGE_APP_IPHONE_40' | 'IMESSAGE_APP_IPAD_PRO_3GEN_129' | 'IMESSAGE_APP_IPAD_PRO_3GEN_11' | 'IMESSAGE_APP_IPAD_PRO_129' | 'IMESSAGE_APP_IPAD_105' | 'IMESSAGE_APP_IPAD_97';
+
+export interface Subscription {
+  type: 'subscriptions';
+  id: string;
+  attributes?: {
+    name?: string;
+    productId?: string;
+    familySharable?: boolean;
+    state?: 'MISSING_METADATA' | 'READY_TO_SUBMIT' | 'WAITING_FOR_REVIEW' | 'IN_REVIEW' | 'DEVELOPER_ACTION_NEEDED' | 'PENDING_BINARY_APPROVAL' | 'APPROVED' | 'DEVELOPER_REMOVED_FROM_SALE' | 'REMOVED_FROM_SALE' | 'REJECTED';
+    subscriptionPeriod?: 'ONE_WEEK' | 'ONE_MONTH' | 'TWO_MONTHS' | 'THREE_MONTHS' | 'SIX_MONTHS' | 'ONE_YEAR';
+    reviewNote?: string;
+    groupLevel?: number;
+  };
+  relationships?: {
+    subscriptionLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionLocalizations';
+        id: string;
+      }>;
+    };
+    appStoreReviewScreenshot?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionAppStoreReviewScreenshots';
+        id: string;
+      };
+    };
+    group?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionGroups';
+        id: string;
+      };
+    };
+    introductoryOffers?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionIntroductoryOffers';
+        id: string;
+      }>;
+    };
+    promotionalOffers?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionPromotionalOffers';
+        id: string;
+      }>;
+    };
+    offerCodes?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionOfferCodes';
+        id: string;
+      }>;
+    };
+    prices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionPrices';
+        id: string;
+      }>;
+    };
+    promotedPurchase?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'promotedPurchases';
+        id: string;
+      };
+    };
+    subscriptionAvailability?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionAvailabilities';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionAppStoreReviewScreenshot {
+  type: 'subscriptionAppStoreReviewScreenshots';
+  id: string;
+  attributes?: {
+    fileSize?: number;
+    fileName?: string;
+    sourceFileChecksum?: string;
+    imageAsset?: ImageAsset;
+    assetToken?: string;
+    assetType?: string;
+    uploadOperations?: UploadOperation[];
+    assetDeliveryState?: AppMediaAssetState;
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionAppStoreReviewScreenshotCreateRequest {
+  data: {
+    type: 'subscriptionAppStoreReviewScreenshots';
+    attributes: {
+      fileSize: number;
+      fileName: string;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionAppStoreReviewScreenshotResponse {
+  data: SubscriptionAppStoreReviewScreenshot;
+  included?: Subscription[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionAppStoreReviewScreenshotUpdateRequest {
+  data: {
+    type: 'subscriptionAppStoreReviewScreenshots';
+    id: string;
+    attributes?: {
+      sourceFileChecksum?: string;
+      uploaded?: boolean;
+    };
+  };
+}
+
+export interface SubscriptionAvailability {
+  type: 'subscriptionAvailabilities';
+  id: string;
+  attributes?: {
+    availableInNewTerritories?: boolean;
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    availableTerritories?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'territories';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionAvailabilityCreateRequest {
+  data: {
+    type: 'subscriptionAvailabilities';
+    attributes: {
+      availableInNewTerritories: boolean;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+      availableTerritories: {
+        data: Array<{
+          type: 'territories';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface SubscriptionAvailabilityResponse {
+  data: SubscriptionAvailability;
+  included?: Array<Subscription | Territory>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionCreateRequest {
+  data: {
+    type: 'subscriptions';
+    attributes: {
+      name: string;
+      productId: string;
+      familySharable?: boolean;
+      subscriptionPeriod?: 'ONE_WEEK' | 'ONE_MONTH' | 'TWO_MONTHS' | 'THREE_MONTHS' | 'SIX_MONTHS' | 'ONE_YEAR';
+      reviewNote?: string;
+      groupLevel?: number;
+    };
+    relationships: {
+      group: {
+        data: {
+          type: 'subscriptionGroups';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export type SubscriptionCustomerEligibility = 'NEW' | 'EXISTING' | 'EXPIRED';
+
+export interface SubscriptionGracePeriod {
+  type: 'subscriptionGracePeriods';
+  id: string;
+  attributes?: {
+    optIn?: boolean;
+    sandboxOptIn?: boolean;
+    duration?: SubscriptionGracePeriodDuration;
+    renewalType?: 'ALL_RENEWALS' | 'PAID_TO_PAID_ONLY';
+  };
+  links?: ResourceLinks;
+}
+
+export type SubscriptionGracePeriodDuration = 'THREE_DAYS' | 'SIXTEEN_DAYS' | 'TWENTY_EIGHT_DAYS';
+
+export interface SubscriptionGracePeriodResponse {
+  data: SubscriptionGracePeriod;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionGracePeriodUpdateRequest {
+  data: {
+    type: 'subscriptionGracePeriods';
+    id: string;
+    attributes?: {
+      optIn?: boolean;
+      sandboxOptIn?: boolean;
+      duration?: SubscriptionGracePeriodDuration;
+      renewalType?: 'ALL_RENEWALS' | 'PAID_TO_PAID_ONLY';
+    };
+  };
+}
+
+export interface SubscriptionGroup {
+  type: 'subscriptionGroups';
+  id: string;
+  attributes?: {
+    referenceName?: string;
+  };
+  relationships?: {
+    subscriptions?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptions';
+        id: string;
+      }>;
+    };
+    subscriptionGroupLocalizations?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionGroupLocalizations';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionGroupCreateRequest {
+  data: {
+    type: 'subscriptionGroups';
+    attributes: {
+      referenceName: string;
+    };
+    relationships: {
+      app: {
+        data: {
+          type: 'apps';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionGroupLocalization {
+  type: 'subscriptionGroupLocalizations';
+  id: string;
+  attributes?: {
+    name?: string;
+    customAppName?: string;
+    locale?: string;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'WAITING_FOR_REVIEW' | 'APPROVED' | 'REJECTED';
+  };
+  relationships?: {
+    subscriptionGroup?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionGroups';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionGroupLocalizationCreateRequest {
+  data: {
+    type: 'subscriptionGroupLocalizations';
+    attributes: {
+      name: string;
+      customAppName?: string;
+      locale: string;
+    };
+    relationships: {
+      subscriptionGroup: {
+        data: {
+          type: 'subscriptionGroups';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionGroupLocalizationResponse {
+  data: SubscriptionGroupLocalization;
+  included?: SubscriptionGroup[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionGroupLocalizationUpdateRequest {
+  data: {
+    type: 'subscriptionGroupLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      customAppName?: string;
+    };
+  };
+}
+
+export interface SubscriptionGroupLocalizationsResponse {
+  data: SubscriptionGroupLocalization[];
+  included?: SubscriptionGroup[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionGroupResponse {
+  data: SubscriptionGroup;
+  included?: Array<Subscription | SubscriptionGroupLocalization>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionGroupSubmission {
+  type: 'subscriptionGroupSubmissions';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionGroupSubmissionCreateRequest {
+  data: {
+    type: 'subscriptionGroupSubmissions';
+    relationships: {
+      subscriptionGroup: {
+        data: {
+          type: 'subscriptionGroups';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionGroupSubmissionResponse {
+  data: SubscriptionGroupSubmission;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionGroupUpdateRequest {
+  data: {
+    type: 'subscriptionGroups';
+    id: string;
+    attributes?: {
+      referenceName?: string;
+    };
+  };
+}
+
+export interface SubscriptionGroupsResponse {
+  data: SubscriptionGroup[];
+  included?: Array<Subscription | SubscriptionGroupLocalization>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionIntroductoryOffer {
+  type: 'subscriptionIntroductoryOffers';
+  id: string;
+  attributes?: {
+    startDate?: string;
+    endDate?: string;
+    duration?: SubscriptionOfferDuration;
+    offerMode?: SubscriptionOfferMode;
+    numberOfPeriods?: number;
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionIntroductoryOfferCreateRequest {
+  data: {
+    type: 'subscriptionIntroductoryOffers';
+    attributes: {
+      startDate?: string;
+      endDate?: string;
+      duration: SubscriptionOfferDuration;
+      offerMode: SubscriptionOfferMode;
+      numberOfPeriods: number;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+      territory?: {
+        data?: {
+          type: 'territories';
+          id: string;
+        };
+      };
+      subscriptionPricePoint?: {
+        data?: {
+          type: 'subscriptionPricePoints';
+          id: string;
+        };
+      };
+    };
+  };
+  included?: SubscriptionPricePointInlineCreate[];
+}
+
+export interface SubscriptionIntroductoryOfferInlineCreate {
+  type: 'subscriptionIntroductoryOffers';
+  id?: string;
+  attributes: {
+    startDate?: string;
+    endDate?: string;
+    duration: SubscriptionOfferDuration;
+    offerMode: SubscriptionOfferMode;
+    numberOfPeriods: number;
+  };
+  relationships?: {
+    subscription?: {
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    territory?: {
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface SubscriptionIntroductoryOfferResponse {
+  data: SubscriptionIntroductoryOffer;
+  included?: Array<Subscription | Territory | SubscriptionPricePoint>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionIntroductoryOfferUpdateRequest {
+  data: {
+    type: 'subscriptionIntroductoryOffers';
+    id: string;
+    attributes?: {
+      endDate?: string;
+    };
+  };
+}
+
+export interface SubscriptionIntroductoryOffersLinkagesRequest {
+  data: Array<{
+    type: 'subscriptionIntroductoryOffers';
+    id: string;
+  }>;
+}
+
+export interface SubscriptionIntroductoryOffersLinkagesResponse {
+  data: Array<{
+    type: 'subscriptionIntroductoryOffers';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionIntroductoryOffersResponse {
+  data: SubscriptionIntroductoryOffer[];
+  included?: Array<Subscription | Territory | SubscriptionPricePoint>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionLocalization {
+  type: 'subscriptionLocalizations';
+  id: string;
+  attributes?: {
+    name?: string;
+    locale?: string;
+    description?: string;
+    state?: 'PREPARE_FOR_SUBMISSION' | 'WAITING_FOR_REVIEW' | 'APPROVED' | 'REJECTED';
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionLocalizationCreateRequest {
+  data: {
+    type: 'subscriptionLocalizations';
+    attributes: {
+      name: string;
+      locale: string;
+      description?: string;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionLocalizationResponse {
+  data: SubscriptionLocalization;
+  included?: Subscription[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionLocalizationUpdateRequest {
+  data: {
+    type: 'subscriptionLocalizations';
+    id: string;
+    attributes?: {
+      name?: string;
+      description?: string;
+    };
+  };
+}
+
+export interface SubscriptionLocalizationsResponse {
+  data: SubscriptionLocalization[];
+  included?: Subscription[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionOfferCode {
+  type: 'subscriptionOfferCodes';
+  id: string;
+  attributes?: {
+    name?: string;
+    customerEligibilities?: SubscriptionCustomerEligibility[];
+    offerEligibility?: SubscriptionOfferEligibility;
+    duration?: SubscriptionOfferDuration;
+    offerMode?: SubscriptionOfferMode;
+    numberOfPeriods?: number;
+    totalNumberOfCodes?: number;
+    active?: boolean;
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    oneTimeUseCodes?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionOfferCodeOneTimeUseCodes';
+        id: string;
+      }>;
+    };
+    customCodes?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionOfferCodeCustomCodes';
+        id: string;
+      }>;
+    };
+    prices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionOfferCodePrices';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionOfferCodeCreateRequest {
+  data: {
+    type: 'subscriptionOfferCodes';
+    attributes: {
+      name: string;
+      customerEligibilities: SubscriptionCustomerEligibility[];
+      offerEligibility: SubscriptionOfferEligibility;
+      duration: SubscriptionOfferDuration;
+      offerMode: SubscriptionOfferMode;
+      numberOfPeriods: number;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+      prices: {
+        data: Array<{
+          type: 'subscriptionOfferCodePrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: SubscriptionOfferCodePriceInlineCreate[];
+}
+
+export interface SubscriptionOfferCodeCustomCode {
+  type: 'subscriptionOfferCodeCustomCodes';
+  id: string;
+  attributes?: {
+    customCode?: string;
+    numberOfCodes?: number;
+    createdDate?: string;
+    expirationDate?: string;
+    active?: boolean;
+  };
+  relationships?: {
+    offerCode?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionOfferCodes';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionOfferCodeCustomCodeCreateRequest {
+  data: {
+    type: 'subscriptionOfferCodeCustomCodes';
+    attributes: {
+      customCode: string;
+      numberOfCodes: number;
+      expirationDate?: string;
+    };
+    relationships: {
+      offerCode: {
+        data: {
+          type: 'subscriptionOfferCodes';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionOfferCodeCustomCodeResponse {
+  data: SubscriptionOfferCodeCustomCode;
+  included?: SubscriptionOfferCode[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionOfferCodeCustomCodeUpdateRequest {
+  data: {
+    type: 'subscriptionOfferCodeCustomCodes';
+    id: string;
+    attributes?: {
+      active?: boolean;
+    };
+  };
+}
+
+export interface SubscriptionOfferCodeCustomCodesResponse {
+  data: SubscriptionOfferCodeCustomCode[];
+  included?: SubscriptionOfferCode[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCode {
+  type: 'subscriptionOfferCodeOneTimeUseCodes';
+  id: string;
+  attributes?: {
+    numberOfCodes?: number;
+    createdDate?: string;
+    expirationDate?: string;
+    active?: boolean;
+  };
+  relationships?: {
+    offerCode?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionOfferCodes';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCodeCreateRequest {
+  data: {
+    type: 'subscriptionOfferCodeOneTimeUseCodes';
+    attributes: {
+      numberOfCodes: number;
+      expirationDate: string;
+    };
+    relationships: {
+      offerCode: {
+        data: {
+          type: 'subscriptionOfferCodes';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCodeResponse {
+  data: SubscriptionOfferCodeOneTimeUseCode;
+  included?: SubscriptionOfferCode[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCodeUpdateRequest {
+  data: {
+    type: 'subscriptionOfferCodeOneTimeUseCodes';
+    id: string;
+    attributes?: {
+      active?: boolean;
+    };
+  };
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCodeValue {
+  type: 'subscriptionOfferCodeOneTimeUseCodeValues';
+  id: string;
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionOfferCodeOneTimeUseCodesResponse {
+  data: SubscriptionOfferCodeOneTimeUseCode[];
+  included?: SubscriptionOfferCode[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionOfferCodePrice {
+  type: 'subscriptionOfferCodePrices';
+  id: string;
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionOfferCodePriceInlineCreate {
+  type: 'subscriptionOfferCodePrices';
+  id?: string;
+  relationships?: {
+    territory?: {
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface SubscriptionOfferCodePricesResponse {
+  data: SubscriptionOfferCodePrice[];
+  included?: Array<Territory | SubscriptionPricePoint>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionOfferCodeResponse {
+  data: SubscriptionOfferCode;
+  included?: Array<Subscription | SubscriptionOfferCodeOneTimeUseCode | SubscriptionOfferCodeCustomCode | SubscriptionOfferCodePrice>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionOfferCodeUpdateRequest {
+  data: {
+    type: 'subscriptionOfferCodes';
+    id: string;
+    attributes?: {
+      active?: boolean;
+    };
+  };
+}
+
+export interface SubscriptionOfferCodesResponse {
+  data: SubscriptionOfferCode[];
+  included?: Array<Subscription | SubscriptionOfferCodeOneTimeUseCode | SubscriptionOfferCodeCustomCode | SubscriptionOfferCodePrice>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type SubscriptionOfferDuration = 'ONE_DAY' | 'THREE_DAYS' | 'ONE_WEEK' | 'TWO_WEEKS' | 'ONE_MONTH' | 'TWO_MONTHS' | 'THREE_MONTHS' | 'SIX_MONTHS' | 'ONE_YEAR';
+
+export type SubscriptionOfferEligibility = 'STACK_WITH_INTRO_OFFERS' | 'REPLACE_INTRO_OFFERS';
+
+export type SubscriptionOfferMode = 'PAY_AS_YOU_GO' | 'PAY_UP_FRONT' | 'FREE_TRIAL';
+
+export interface SubscriptionPrice {
+  type: 'subscriptionPrices';
+  id: string;
+  attributes?: {
+    startDate?: string;
+    preserved?: boolean;
+  };
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionPriceCreateRequest {
+  data: {
+    type: 'subscriptionPrices';
+    attributes?: {
+      startDate?: string;
+      preserveCurrentPrice?: boolean;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+      territory?: {
+        data?: {
+          type: 'territories';
+          id: string;
+        };
+      };
+      subscriptionPricePoint: {
+        data: {
+          type: 'subscriptionPricePoints';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionPriceInlineCreate {
+  type: 'subscriptionPrices';
+  id?: string;
+  attributes?: {
+    startDate?: string;
+    preserveCurrentPrice?: boolean;
+  };
+  relationships?: {
+    subscription?: {
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    territory?: {
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface SubscriptionPricePoint {
+  type: 'subscriptionPricePoints';
+  id: string;
+  attributes?: {
+    customerPrice?: string;
+    proceeds?: string;
+    proceedsYear2?: string;
+  };
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionPricePointInlineCreate {
+  type: 'subscriptionPricePoints';
+  id?: string;
+}
+
+export interface SubscriptionPricePointResponse {
+  data: SubscriptionPricePoint;
+  included?: Territory[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionPricePointsResponse {
+  data: SubscriptionPricePoint[];
+  included?: Territory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionPriceResponse {
+  data: SubscriptionPrice;
+  included?: Array<Territory | SubscriptionPricePoint>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionPricesLinkagesRequest {
+  data: Array<{
+    type: 'subscriptionPrices';
+    id: string;
+  }>;
+}
+
+export interface SubscriptionPricesLinkagesResponse {
+  data: Array<{
+    type: 'subscriptionPrices';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionPricesResponse {
+  data: SubscriptionPrice[];
+  included?: Array<Territory | SubscriptionPricePoint>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionPromotionalOffer {
+  type: 'subscriptionPromotionalOffers';
+  id: string;
+  attributes?: {
+    name?: string;
+    offerCode?: string;
+    duration?: SubscriptionOfferDuration;
+    offerMode?: SubscriptionOfferMode;
+    numberOfPeriods?: number;
+  };
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    prices?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'subscriptionPromotionalOfferPrices';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionPromotionalOfferCreateRequest {
+  data: {
+    type: 'subscriptionPromotionalOffers';
+    attributes: {
+      name: string;
+      offerCode: string;
+      duration: SubscriptionOfferDuration;
+      offerMode: SubscriptionOfferMode;
+      numberOfPeriods: number;
+    };
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+      prices: {
+        data: Array<{
+          type: 'subscriptionPromotionalOfferPrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: SubscriptionPromotionalOfferPriceInlineCreate[];
+}
+
+export interface SubscriptionPromotionalOfferInlineCreate {
+  type: 'subscriptionPromotionalOffers';
+  id?: string;
+  attributes: {
+    name: string;
+    offerCode: string;
+    duration: SubscriptionOfferDuration;
+    offerMode: SubscriptionOfferMode;
+    numberOfPeriods: number;
+  };
+  relationships?: {
+    subscription?: {
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+    prices?: {
+      data?: Array<{
+        type: 'subscriptionPromotionalOfferPrices';
+        id: string;
+      }>;
+    };
+  };
+}
+
+export interface SubscriptionPromotionalOfferPrice {
+  type: 'subscriptionPromotionalOfferPrices';
+  id: string;
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionPromotionalOfferPriceInlineCreate {
+  type: 'subscriptionPromotionalOfferPrices';
+  id?: string;
+  relationships?: {
+    territory?: {
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+    subscriptionPricePoint?: {
+      data?: {
+        type: 'subscriptionPricePoints';
+        id: string;
+      };
+    };
+  };
+}
+
+export interface SubscriptionPromotionalOfferPricesResponse {
+  data: SubscriptionPromotionalOfferPrice[];
+  included?: Array<Territory | SubscriptionPricePoint>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionPromotionalOfferResponse {
+  data: SubscriptionPromotionalOffer;
+  included?: Array<Subscription | SubscriptionPromotionalOfferPrice>;
+  links: DocumentLinks;
+}
+
+export interface SubscriptionPromotionalOfferUpdateRequest {
+  data: {
+    type: 'subscriptionPromotionalOffers';
+    id: string;
+    relationships?: {
+      prices?: {
+        data?: Array<{
+          type: 'subscriptionPromotionalOfferPrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: SubscriptionPromotionalOfferPriceInlineCreate[];
+}
+
+export interface SubscriptionPromotionalOffersResponse {
+  data: SubscriptionPromotionalOffer[];
+  included?: Array<Subscription | SubscriptionPromotionalOfferPrice>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface SubscriptionResponse {
+  data: Subscription;
+  included?: Array<SubscriptionLocalization | SubscriptionAppStoreReviewScreenshot | SubscriptionGroup | SubscriptionIntroductoryOffer | SubscriptionPromotionalOffer | SubscriptionOfferCode | SubscriptionPrice | PromotedPurchase | SubscriptionAvailability>;
+  links: DocumentLinks;
+}
+
+export type SubscriptionStatusUrlVersion = 'V1' | 'V2' | 'v1' | 'v2';
+
+export interface SubscriptionSubmission {
+  type: 'subscriptionSubmissions';
+  id: string;
+  relationships?: {
+    subscription?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'subscriptions';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface SubscriptionSubmissionCreateRequest {
+  data: {
+    type: 'subscriptionSubmissions';
+    relationships: {
+      subscription: {
+        data: {
+          type: 'subscriptions';
+          id: string;
+        };
+      };
+    };
+  };
+}
+
+export interface SubscriptionSubmissionResponse {
+  data: SubscriptionSubmission;
+  included?: Subscription[];
+  links: DocumentLinks;
+}
+
+export interface SubscriptionUpdateRequest {
+  data: {
+    type: 'subscriptions';
+    id: string;
+    attributes?: {
+      name?: string;
+      familySharable?: boolean;
+      subscriptionPeriod?: 'ONE_WEEK' | 'ONE_MONTH' | 'TWO_MONTHS' | 'THREE_MONTHS' | 'SIX_MONTHS' | 'ONE_YEAR';
+      reviewNote?: string;
+      groupLevel?: number;
+    };
+    relationships?: {
+      introductoryOffers?: {
+        data?: Array<{
+          type: 'subscriptionIntroductoryOffers';
+          id: string;
+        }>;
+      };
+      promotionalOffers?: {
+        data?: Array<{
+          type: 'subscriptionPromotionalOffers';
+          id: string;
+        }>;
+      };
+      prices?: {
+        data?: Array<{
+          type: 'subscriptionPrices';
+          id: string;
+        }>;
+      };
+    };
+  };
+  included?: Array<SubscriptionPromotionalOfferInlineCreate | SubscriptionPriceInlineCreate | SubscriptionIntroductoryOfferInlineCreate>;
+}
+
+export interface SubscriptionsResponse {
+  data: Subscription[];
+  included?: Array<SubscriptionLocalization | SubscriptionAppStoreReviewScreenshot | SubscriptionGroup | SubscriptionIntroductoryOffer | SubscriptionPromotionalOffer | SubscriptionOfferCode | SubscriptionPrice | PromotedPurchase | SubscriptionAvailability>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface TerritoriesResponse {
+  data: Territory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface TerritoriesWithoutIncludesResponse {
+  data: EndUserLicenseAgreement[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface Territory {
+  type: 'territories';
+  id: string;
+  attributes?: {
+    currency?: string;
+  };
+  links?: ResourceLinks;
+}
+
+export interface TerritoryAvailabilitiesResponse {
+  data: TerritoryAvailability[];
+  included?: Territory[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface TerritoryAvailability {
+  type: 'territoryAvailabilities';
+  id: string;
+  attributes?: {
+    available?: boolean;
+    releaseDate?: string;
+    preOrderEnabled?: boolean;
+    preOrderPublishDate?: string;
+    contentStatuses?: Array<'AVAILABLE' | 'AVAILABLE_FOR_PREORDER_ON_DATE' | 'PROCESSING_TO_NOT_AVAILABLE' | 'PROCESSING_TO_AVAILABLE' | 'PROCESSING_TO_PRE_ORDER' | 'AVAILABLE_FOR_SALE_UNRELEASED_APP' | 'PREORDER_ON_UNRELEASED_APP' | 'AVAILABLE_FOR_PREORDER' | 'MISSING_RATING' | 'CANNOT_SELL_RESTRICTED_RATING' | 'BRAZIL_REQUIRED_TAX_ID' | 'MISSING_GRN' | 'UNVERIFIED_GRN' | 'CANNOT_SELL_SEVENTEEN_PLUS_APPS' | 'CANNOT_SELL_SEXUALLY_EXPLICIT' | 'CANNOT_SELL_NON_IOS_GAMES' | 'CANNOT_SELL_SEVENTEEN_PLUS_GAMES' | 'CANNOT_SELL_FREQUENT_INTENSE_GAMBLING' | 'CANNOT_SELL_CASINO' | 'CANNOT_SELL_CASINO_WITHOUT_GRAC' | 'CANNOT_SELL_CASINO_WITHOUT_AGE_VERIFICATION' | 'CANNOT_SELL_FREQUENT_INTENSE_ALCOHOL_TOBACCO_DRUGS' | 'CANNOT_SELL_FREQUENT_INTENSE_VIOLENCE' | 'CANNOT_SELL_FREQUENT_INTENSE_SEXUAL_CONTENT_NUDITY' | 'CANNOT_SELL_INFREQUENT_MILD_ALCOHOL_TOBACCO_DRUGS' | 'CANNOT_SELL_INFREQUENT_MILD_SEXUAL_CONTENT_NUDITY' | 'CANNOT_SELL_ADULT_ONLY' | 'CANNOT_SELL_FREQUENT_INTENSE' | 'CANNOT_SELL_FREQUENT_INTENSE_WITHOUT_GRAC' | 'CANNOT_SELL_GAMBLING_CONTESTS' | 'CANNOT_SELL_GAMBLING' | 'CANNOT_SELL_CONTESTS' | 'CANNOT_SELL'>;
+  };
+  relationships?: {
+    territory?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      data?: {
+        type: 'territories';
+        id: string;
+      };
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface TerritoryAvailabilityInlineCreate {
+  type: 'territoryAvailabilities';
+  id?: string;
+}
+
+export interface TerritoryAvailabilityResponse {
+  data: TerritoryAvailability;
+  included?: Territory[];
+  links: DocumentLinks;
+}
+
+export interface TerritoryAvailabilityUpdateRequest {
+  data: {
+    type: 'territoryAvailabilities';
+    id: string;
+    attributes?: {
+      available?: boolean;
+      releaseDate?: string;
+      preOrderEnabled?: boolean;
+    };
+  };
+}
+
+export type TerritoryCode = 'ABW' | 'AFG' | 'AGO' | 'AIA' | 'ALB' | 'AND' | 'ANT' | 'ARE' | 'ARG' | 'ARM' | 'ASM' | 'ATG' | 'AUS' | 'AUT' | 'AZE' | 'BDI' | 'BEL' | 'BEN' | 'BES' | 'BFA' | 'BGD' | 'BGR' | 'BHR' | 'BHS' | 'BIH' | 'BLR' | 'BLZ' | 'BMU' | 'BOL' | 'BRA' | 'BRB' | 'BRN' | 'BTN' | 'BWA' | 'CAF' | 'CAN' | 'CHE' | 'CHL' | 'CHN' | 'CIV' | 'CMR' | 'COD' | 'COG' | 'COK' | 'COL' | 'COM' | 'CPV' | 'CRI' | 'CUB' | 'CUW' | 'CXR' | 'CYM' | 'CYP' | 'CZE' | 'DEU' | 'DJI' | 'DMA' | 'DNK' | 'DOM' | 'DZA' | 'ECU' | 'EGY' | 'ERI' | 'ESP' | 'EST' | 'ETH' | 'FIN' | 'FJI' | 'FLK' | 'FRA' | 'FRO' | 'FSM' | 'GAB' | 'GBR' | 'GEO' | 'GGY' | 'GHA' | 'GIB' | 'GIN' | 'GLP' | 'GMB' | 'GNB' | 'GNQ' | 'GRC' | 'GRD' | 'GRL' | 'GTM' | 'GUF' | 'GUM' | 'GUY' | 'HKG' | 'HND' | 'HRV' | 'HTI' | 'HUN' | 'IDN' | 'IMN' | 'IND' | 'IRL' | 'IRQ' | 'ISL' | 'ISR' | 'ITA' | 'JAM' | 'JEY' | 'JOR' | 'JPN' | 'KAZ' | 'KEN' | 'KGZ' | 'KHM' | 'KIR' | 'KNA' | 'KOR' | 'KWT' | 'LAO' | 'LBN' | 'LBR' | 'LBY' | 'LCA' | 'LIE' | 'LKA' | 'LSO' | 'LTU' | 'LUX' | 'LVA' | 'MAC' | 'MAR' | 'MCO' | 'MDA' | 'MDG' | 'MDV' | 'MEX' | 'MHL' | 'MKD' | 'MLI' | 'MLT' | 'MMR' | 'MNE' | 'MNG' | 'MNP' | 'MOZ' | 'MRT' | 'MSR' | 'MTQ' | 'MUS' | 'MWI' | 'MYS' | 'MYT' | 'NAM' | 'NCL' | 'NER' | 'NFK' | 'NGA' | 'NIC' | 'NIU' | 'NLD' | 'NOR' | 'NPL' | 'NRU' | 'NZL' | 'OMN' | 'PAK' | 'PAN' | 'PER' | 'PHL' | 'PLW' | 'PNG' | 'POL' | 'PRI' | 'PRT' | 'PRY' | 'PSE' | 'PYF' | 'QAT' | 'REU' | 'ROU' | 'RUS' | 'RWA' | 'SAU' | 'SEN' | 'SGP' | 'SHN' | 'SLB' | 'SLE' | 'SLV' | 'SMR' | 'SOM' | 'SPM' | 'SRB' | 'SSD' | 'STP' | 'SUR' | 'SVK' | 'SVN' | 'SWE' | 'SWZ' | 'SXM' | 'SYC' | 'TCA' | 'TCD' | 'TGO' | 'THA' | 'TJK' | 'TKM' | 'TLS' | 'TON' | 'TTO' | 'TUN' | 'TUR' | 'TUV' | 'TWN' | 'TZA' | 'UGA' | 'UKR' | 'UMI' | 'URY' | 'USA' | 'UZB' | 'VAT' | 'VCT' | 'VEN' | 'VGB' | 'VIR' | 'VNM' | 'VUT' | 'WLF' | 'WSM' | 'YEM' | 'ZAF' | 'ZMB' | 'ZWE';
+
+export interface TerritoryInlineCreate {
+  type: 'territories';
+  id?: string;
+}
+
+export interface TerritoryResponse {
+  data: Territory;
+  links: DocumentLinks;
+}
+
+export interface UploadOperation {
+  method?: string;
+  url?: string;
+  length?: number;
+  offset?: number;
+  requestHeaders?: HttpHeader[];
+}
+
+export interface User {
+  type: 'users';
+  id: string;
+  attributes?: {
+    username?: string;
+    firstName?: string;
+    lastName?: string;
+    roles?: UserRole[];
+    allAppsVisible?: boolean;
+    provisioningAllowed?: boolean;
+  };
+  relationships?: {
+    visibleApps?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'apps';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface UserInvitation {
+  type: 'userInvitations';
+  id: string;
+  attributes?: {
+    email?: string;
+    firstName?: string;
+    lastName?: string;
+    expirationDate?: string;
+    roles?: UserRole[];
+    allAppsVisible?: boolean;
+    provisioningAllowed?: boolean;
+  };
+  relationships?: {
+    visibleApps?: {
+      links?: {
+        self?: string;
+        related?: string;
+      };
+      meta?: PagingInformation;
+      data?: Array<{
+        type: 'apps';
+        id: string;
+      }>;
+    };
+  };
+  links?: ResourceLinks;
+}
+
+export interface UserInvitationCreateRequest {
+  data: {
+    type: 'userInvitations';
+    attributes: {
+      email: string;
+      firstName: string;
+      lastName: string;
+      roles: UserRole[];
+      allAppsVisible?: boolean;
+      provisioningAllowed?: boolean;
+    };
+    relationships?: {
+      visibleApps?: {
+        data?: Array<{
+          type: 'apps';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface UserInvitationResponse {
+  data: UserInvitation;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export interface UserInvitationsResponse {
+  data: UserInvitation[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface UserResponse {
+  data: User;
+  included?: App[];
+  links: DocumentLinks;
+}
+
+export type UserRole = 'ADMIN' | 'FINANCE' | 'ACCOUNT_HOLDER' | 'SALES' | 'MARKETING' | 'APP_MANAGER' | 'DEVELOPER' | 'ACCESS_TO_REPORTS' | 'CUSTOMER_SUPPORT' | 'IMAGE_MANAGER' | 'CREATE_APPS' | 'CLOUD_MANAGED_DEVELOPER_ID' | 'CLOUD_MANAGED_APP_DISTRIBUTION';
+
+export interface UserUpdateRequest {
+  data: {
+    type: 'users';
+    id: string;
+    attributes?: {
+      roles?: UserRole[];
+      allAppsVisible?: boolean;
+      provisioningAllowed?: boolean;
+    };
+    relationships?: {
+      visibleApps?: {
+        data?: Array<{
+          type: 'apps';
+          id: string;
+        }>;
+      };
+    };
+  };
+}
+
+export interface UserVisibleAppsLinkagesRequest {
+  data: Array<{
+    type: 'apps';
+    id: string;
+  }>;
+}
+
+export interface UserVisibleAppsLinkagesResponse {
+  data: Array<{
+    type: 'apps';
+    id: string;
+  }>;
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export interface UsersResponse {
+  data: User[];
+  included?: App[];
+  links: PagedDocumentLinks;
+  meta?: PagingInformation;
+}
+
+export type csv = string;
+
+export interface diagnosticLogs {
+  productData?: Array<{
+    signatureId?: string;
+    diagnosticInsights?: Array<{
+      insightsURL?: string;
+      insightsCategory?: string;
+      insightsString?: string;
+    }>;
+    diagnosticLogs?: Array<{
+      callStackTree?: Array<{
+        callStackPerThread?: boolean;
+        callStacks?: Array<{
+          callStackRootFrames?: DiagnosticLogCallStackNode[];
+        }>;
+      }>;
+      diagnosticMetaData?: {
+        bundleId?: string;
+        event?: string;
+        osVersion?: string;
+        appVersion?: string;
+        writesCaused?: string;
+        deviceType?: string;
+        platformArchitecture?: string;
+        eventDetail?: string;
+        buildVersion?: string;
+      };
+    }>;
+  }>;
+  version?: string;
+}
+
+export type gzip = string;
+
+export interface xcodeMetrics {
+  version?: string;
+  insights?: {
+    trendingUp?: MetricsInsight[];
+    regressions?: MetricsInsight[];
+  };
+  productData?: Array<{
+    platform?: string;
+    metricCategories?: Array<{
+      identifier?: MetricCategory;
+      metrics?: Array<{
+        identifier?: string;
+        goalKeys?: Array<{
+          goalKey?: string;
+          lowerBound?: number;
+          upperBound?: number;
+        }>;
+        unit?: {
+          identifier?: string;
+          displayName?: string;
+        };
+        datasets?: Array<{
+          filterCriteria?: {
+            percentile?: string;
+            device?: string;
+            deviceMarketingName?: string;
+          };
+          points?: Array<{
+            version?: string;
+            value?: number;
+            errorMargin?: number;
+            percentageBreakdown?: {
+              value?: number;
+              subSystemLabel?: string;
+            };
+            goal?: string;
+          }>;
+        }>;
+      }>;
+    }>;
+  }>;
+}
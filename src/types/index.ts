@@ -7,6 +7,9 @@ export * from './apps.js';
 // Beta testing types
 export * from './beta.js';
 
+// Build types
+export * from './builds.js';
+
 // Bundle ID types
 export * from './bundles.js';
 
@@ -22,8 +25,17 @@ export * from './analytics.js';
 // Screenshot types
 export * from './screenshots.js';
 
+// App preview types
+export * from './previews.js';
+
 // Localization types
 export * from './localizations.js';
 
+// Review submission types
+export * from './reviewSubmissions.js';
+
 // Xcode Cloud types
-export * from './xcodeCloud.js';
\ No newline at end of file
+export * from './xcodeCloud.js';
+
+// Types generated from Apple's OpenAPI spec (3.2.json)
+export * as AppStoreConnectSchemas from './generated/app-store-connect.js';
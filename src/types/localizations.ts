@@ -1,146 +1,85 @@
 // App Store Version Localization Types
+import type * as Spec from './generated/app-store-connect.js';
 
-export interface AppStoreVersionLocalization {
-  id: string;
-  type: 'appStoreVersionLocalizations';
-  attributes: {
-    description?: string;
-    keywords?: string;
-    locale: string;
-    marketingUrl?: string;
-    promotionalText?: string;
-    supportUrl?: string;
-    whatsNew?: string;
-  };
-  relationships?: {
-    appStoreVersion?: {
-      data: {
-        type: 'appStoreVersions';
-        id: string;
-      };
-    };
-  };
-}
+export type AppStoreVersionLocalization = Spec.AppStoreVersionLocalization;
 
-export interface ListAppStoreVersionLocalizationsResponse {
-  data: AppStoreVersionLocalization[];
-  links?: {
-    self: string;
-    next?: string;
-  };
-  meta?: {
-    paging: {
-      total: number;
-      limit: number;
-    };
-  };
-}
+export type ListAppStoreVersionLocalizationsResponse = Spec.AppStoreVersionLocalizationsResponse;
 
-export interface AppStoreVersionLocalizationResponse {
-  data: AppStoreVersionLocalization;
-  included?: any[];
-  links?: {
-    self: string;
-  };
-}
+export type AppStoreVersionLocalizationResponse = Spec.AppStoreVersionLocalizationResponse;
+
+export type AppStoreVersionLocalizationCreateRequest = Spec.AppStoreVersionLocalizationCreateRequest;
+
+export type AppStoreVersionLocalizationUpdateRequest = Spec.AppStoreVersionLocalizationUpdateRequest;
+
+export type AppStoreVersionLocalizationField =
+  keyof NonNullable<Spec.AppStoreVersionLocalizationUpdateRequest['data']['attributes']>;
+
+export type AppStoreVersion = Spec.AppStoreVersion;
+
+export type ListAppStoreVersionsResponse = Spec.AppStoreVersionsResponse;
+
+export type AppStoreVersionCreateRequest = Spec.AppStoreVersionCreateRequest;
 
-export interface AppStoreVersionLocalizationUpdateRequest {
-  data: {
-    type: 'appStoreVersionLocalizations';
-    id: string;
-    attributes: {
-      description?: string;
-      keywords?: string;
-      marketingUrl?: string;
-      promotionalText?: string;
-      supportUrl?: string;
-      whatsNew?: string;
-    };
-  };
+export type AppStoreVersionResponse = Spec.AppStoreVersionResponse;
+
+export type AppStoreVersionPhasedRelease = Spec.AppStoreVersionPhasedRelease;
+
+export type AppStoreVersionPhasedReleaseResponse = Spec.AppStoreVersionPhasedReleaseResponse;
+
+export type PhasedReleaseState = Spec.PhasedReleaseState;
+
+export type AppStoreVersionReleaseRequestResponse = Spec.AppStoreVersionReleaseRequestResponse;
+
+/**
+ * Where a version's phased release stands
+ */
+export interface PhasedReleaseStatus {
+  appStoreVersionId: string;
+  versionString?: string;
+  appStoreState?: Spec.AppStoreVersionState;
+  phasedReleaseId?: string; // Absent when the version is released to everyone at once
+  phasedReleaseState?: PhasedReleaseState;
+  startDate?: string;
+  currentDayNumber?: number; // 1 to 7
+  totalPauseDuration?: number; // Days
+  percentage: number | null; // Share of users with automatic updates offered the version; null without a phased release
 }
 
-export type AppStoreVersionLocalizationField = 
-  | 'description'
-  | 'keywords' 
-  | 'marketingUrl'
-  | 'promotionalText'
-  | 'supportUrl'
-  | 'whatsNew';
-
-export interface AppStoreVersion {
-  id: string;
-  type: 'appStoreVersions';
-  attributes: {
-    platform: string;
-    versionString?: string;
-    appStoreState?: string;
-    copyright?: string;
-    releaseType?: string;
-    earliestReleaseDate?: string;
-    downloadable?: boolean;
-    createdDate?: string;
-  };
-  relationships?: {
-    app?: {
-      data: {
-        type: 'apps';
-        id: string;
-      };
-    };
-    appStoreVersionLocalizations?: {
-      data: Array<{
-        type: 'appStoreVersionLocalizations';
-        id: string;
-      }>;
-    };
-  };
+export type LocalizationFileFormat = 'csv' | 'json' | 'xliff';
+
+/**
+ * The text fields of one locale; a field left out (or empty) is not changed on import
+ */
+export type LocalizationTexts = Partial<Record<AppStoreVersionLocalizationField, string>>;
+
+export interface LocalizationExport {
+  appStoreVersionId: string;
+  format: LocalizationFileFormat;
+  locales: string[];
+  filePath?: string; // Where the file was written, if it was
+  content?: string; // The file, when not written to disk
 }
 
-export interface ListAppStoreVersionsResponse {
-  data: AppStoreVersion[];
-  links?: {
-    self: string;
-    next?: string;
-  };
-  meta?: {
-    paging: {
-      total: number;
-      limit: number;
-    };
-  };
+export interface LocalizationFieldChange {
+  field: AppStoreVersionLocalizationField;
+  from?: string;
+  to: string;
 }
 
-export interface AppStoreVersionCreateRequest {
-  data: {
-    type: 'appStoreVersions';
-    attributes: {
-      platform: 'IOS' | 'MAC_OS' | 'TV_OS' | 'VISION_OS';
-      versionString: string;
-      copyright?: string;
-      releaseType?: 'MANUAL' | 'AFTER_APPROVAL' | 'SCHEDULED';
-      earliestReleaseDate?: string; // ISO 8601 date string
-    };
-    relationships: {
-      app: {
-        data: {
-          type: 'apps';
-          id: string;
-        };
-      };
-      build?: {
-        data: {
-          type: 'builds';
-          id: string;
-        };
-      };
-    };
-  };
+export interface LocalizationImportChange {
+  locale: string;
+  action: 'create' | 'update' | 'unchanged';
+  localizationId?: string;
+  changes: LocalizationFieldChange[];
+  error?: string;
 }
 
-export interface AppStoreVersionResponse {
-  data: AppStoreVersion;
-  included?: any[];
-  links?: {
-    self: string;
-  };
-}
\ No newline at end of file
+export interface LocalizationImportResult {
+  appStoreVersionId: string;
+  applied: boolean; // False for a preview
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  locales: LocalizationImportChange[];
+}
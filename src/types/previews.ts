@@ -0,0 +1,125 @@
+import type * as Spec from './generated/app-store-connect.js';
+import { AppMediaAssetState } from './screenshots.js';
+
+export type PreviewType = Spec.PreviewType;
+
+export type AppPreview = Spec.AppPreview;
+
+export type AppPreviewResponse = Spec.AppPreviewResponse;
+
+export type AppPreviewUpdateRequest = Spec.AppPreviewUpdateRequest;
+
+export type PreviewSet = Spec.AppPreviewSet;
+
+export type PreviewSetResponse = Spec.AppPreviewSetResponse;
+
+export type ListPreviewSetsResponse = Spec.AppPreviewSetsResponse;
+
+/**
+ * Portrait pixel sizes Apple accepts for app previews of each type; devices that can be
+ * turned also take them in landscape
+ */
+export const PREVIEW_RESOLUTIONS: Partial<Record<PreviewType, Array<{ width: number; height: number }>>> = {
+  'IPHONE_67': [{ width: 886, height: 1920 }],
+  'IPHONE_65': [{ width: 886, height: 1920 }],
+  'IPHONE_61': [{ width: 886, height: 1920 }],
+  'IPHONE_58': [{ width: 886, height: 1920 }],
+  'IPHONE_55': [{ width: 1080, height: 1920 }],
+  'IPHONE_47': [{ width: 750, height: 1334 }],
+  'IPHONE_40': [{ width: 1080, height: 1920 }],
+  'IPAD_PRO_3GEN_129': [{ width: 1200, height: 1600 }],
+  'IPAD_PRO_3GEN_11': [{ width: 1200, height: 1600 }],
+  'IPAD_PRO_129': [{ width: 1200, height: 1600 }, { width: 900, height: 1200 }],
+  'IPAD_105': [{ width: 1200, height: 1600 }],
+  'IPAD_97': [{ width: 900, height: 1200 }, { width: 1200, height: 1600 }],
+};
+
+// Landscape-only preview types, by their single accepted size
+export const LANDSCAPE_PREVIEW_RESOLUTIONS: Partial<Record<PreviewType, { width: number; height: number }>> = {
+  'DESKTOP': { width: 1920, height: 1080 },
+  'APPLE_TV': { width: 1920, height: 1080 },
+  'APPLE_VISION_PRO': { width: 3840, height: 2160 },
+};
+
+// Length, in seconds, and size limits of an app preview
+export const PREVIEW_LIMITS = {
+  minDurationSeconds: 15,
+  maxDurationSeconds: 30,
+  maxFileBytes: 500 * 1024 * 1024,
+};
+
+export interface VideoMetadata {
+  durationSeconds: number;
+  width: number; // As displayed, after the track's rotation
+  height: number;
+  codec?: string; // Sample description format, e.g. avc1 (H.264) or apch (ProRes 422 HQ)
+}
+
+/**
+ * A local video that passed the checks for its preview type
+ */
+export interface CheckedPreview extends VideoMetadata {
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+/**
+ * A local video to upload as an app preview
+ */
+export interface PreviewUpload {
+  locale: string; // e.g. en-US
+  previewType: PreviewType;
+  filePath: string;
+  previewFrameTimeCode?: string; // Poster frame, e.g. 00:00:05:00
+}
+
+export interface PreviewUploadResult {
+  filePath: string;
+  locale: string;
+  previewType: PreviewType;
+  previewSetId?: string;
+  previewId?: string;
+  fileName?: string;
+  durationSeconds?: number;
+  width?: number;
+  height?: number;
+  assetDeliveryState?: AppMediaAssetState;
+  error?: string;
+}
+
+export interface PreviewUploadSummary {
+  appStoreVersionId: string;
+  uploaded: number;
+  failed: number;
+  results: PreviewUploadResult[];
+}
+
+export interface PreviewSummary {
+  previewId: string;
+  fileName?: string;
+  fileSize?: number;
+  mimeType?: string;
+  previewFrameTimeCode?: string;
+  videoUrl?: string;
+  posterFrameUrl?: string;
+  assetDeliveryState?: AppMediaAssetState['state'];
+  errors?: string[]; // Why processing failed, if it did
+}
+
+/**
+ * A preview set with its previews in display order
+ */
+export interface PreviewSetSummary {
+  previewSetId: string;
+  locale: string;
+  localizationId: string;
+  previewType?: PreviewType;
+  previews: PreviewSummary[];
+}
+
+export interface PreviewSetListing {
+  appStoreVersionId: string;
+  sets: PreviewSetSummary[];
+}
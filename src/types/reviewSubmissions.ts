@@ -0,0 +1,46 @@
+// App Review Submission Types
+import type * as Spec from './generated/app-store-connect.js';
+
+export type ReviewSubmission = Spec.ReviewSubmission;
+
+export type ReviewSubmissionResponse = Spec.ReviewSubmissionResponse;
+
+export type ListReviewSubmissionsResponse = Spec.ReviewSubmissionsResponse;
+
+export type ReviewSubmissionState = NonNullable<NonNullable<Spec.ReviewSubmission['attributes']>['state']>;
+
+export type ReviewSubmissionItem = Spec.ReviewSubmissionItem;
+
+export type ReviewSubmissionItemResponse = Spec.ReviewSubmissionItemResponse;
+
+export type ReviewSubmissionItemCreateRequest = Spec.ReviewSubmissionItemCreateRequest;
+
+/**
+ * Kinds of item a submission can carry, named after their relationship
+ */
+export type ReviewSubmissionItemKind = 'appStoreVersion' | 'appCustomProductPageVersion' | 'appEvent';
+
+export type ReviewSubmissionCheck = 'version' | 'build' | 'localizations' | 'reviewDetail';
+
+/**
+ * Something that stops (error) or may stop (warning) a version from passing review
+ */
+export interface ReviewSubmissionIssue {
+  check: ReviewSubmissionCheck;
+  severity: 'error' | 'warning';
+  message: string;
+  locale?: string;
+}
+
+/**
+ * Result of checking that an App Store version is complete enough to submit
+ */
+export interface ReviewSubmissionPreflight {
+  appStoreVersionId: string;
+  versionString?: string;
+  platform?: Spec.Platform;
+  appStoreState?: Spec.AppStoreVersionState;
+  buildId?: string;
+  ready: boolean; // No errors; warnings do not block a submission
+  issues: ReviewSubmissionIssue[];
+}
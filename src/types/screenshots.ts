@@ -1,39 +1,148 @@
-export type ScreenshotDisplayType = 
-  | 'APP_IPHONE_65' 
-  | 'APP_IPHONE_55' 
-  | 'APP_IPHONE_67'
-  | 'APP_IPHONE_61'
-  | 'APP_IPHONE_58'
-  | 'APP_IPAD_PRO_3GEN_129'
-  | 'APP_IPAD_PRO_129'
-  | 'APP_IPAD_PRO_11'
-  | 'APP_IPAD_10_9'
-  | 'APP_IPAD_10_5'
-  | 'APP_IPAD_9_7';
-
-export interface ScreenshotSet {
-  id: string;
-  type: string;
-  attributes: {
-    screenshotDisplayType: ScreenshotDisplayType;
-    deviceType: string;
-  };
-}
-
-export interface ListScreenshotSetsResponse {
-  data: ScreenshotSet[];
-}
-
-export const SCREENSHOT_DIMENSIONS: Record<ScreenshotDisplayType, { width: number; height: number }> = {
-  'APP_IPHONE_65': { width: 1284, height: 2778 },
-  'APP_IPHONE_55': { width: 1242, height: 2208 },
+import type * as Spec from './generated/app-store-connect.js';
+
+export type ScreenshotDisplayType = Spec.ScreenshotDisplayType;
+
+export type ScreenshotSet = Spec.AppScreenshotSet;
+
+export type ListScreenshotSetsResponse = Spec.AppScreenshotSetsResponse;
+
+/**
+ * Portrait pixel dimensions Apple accepts for each display type (the largest accepted size where several are allowed)
+ */
+export const SCREENSHOT_DIMENSIONS: Partial<Record<ScreenshotDisplayType, { width: number; height: number }>> = {
   'APP_IPHONE_67': { width: 1290, height: 2796 },
+  'APP_IPHONE_65': { width: 1284, height: 2778 },
   'APP_IPHONE_61': { width: 1179, height: 2556 },
   'APP_IPHONE_58': { width: 1170, height: 2532 },
+  'APP_IPHONE_55': { width: 1242, height: 2208 },
+  'APP_IPHONE_47': { width: 750, height: 1334 },
+  'APP_IPHONE_40': { width: 640, height: 1136 },
+  'APP_IPHONE_35': { width: 640, height: 960 },
   'APP_IPAD_PRO_3GEN_129': { width: 2048, height: 2732 },
+  'APP_IPAD_PRO_3GEN_11': { width: 1668, height: 2388 },
   'APP_IPAD_PRO_129': { width: 2048, height: 2732 },
-  'APP_IPAD_PRO_11': { width: 1668, height: 2388 },
-  'APP_IPAD_10_9': { width: 1640, height: 2360 },
-  'APP_IPAD_10_5': { width: 1668, height: 2224 },
-  'APP_IPAD_9_7': { width: 1536, height: 2048 },
-};
\ No newline at end of file
+  'APP_IPAD_105': { width: 1668, height: 2224 },
+  'APP_IPAD_97': { width: 1536, height: 2048 },
+};
+
+export type AppScreenshot = Spec.AppScreenshot;
+
+export type AppScreenshotResponse = Spec.AppScreenshotResponse;
+
+export type ScreenshotSetResponse = Spec.AppScreenshotSetResponse;
+
+// Asset uploads: a reservation returns the parts to send, which are then committed
+export type UploadOperation = Spec.UploadOperation;
+
+export type AppMediaAssetState = Spec.AppMediaAssetState;
+
+export type ImageAsset = Spec.ImageAsset;
+
+/**
+ * How images whose aspect ratio differs from the display type's are handled
+ *
+ * strict: rejected; cover: scaled and cropped to fill; contain: scaled and padded.
+ * Images with the right aspect ratio are scaled in every mode.
+ */
+export type ScreenshotResizeMode = 'strict' | 'cover' | 'contain';
+
+/**
+ * Local image files to upload into one screenshot set
+ */
+export interface ScreenshotUploadSet {
+  locale: string; // e.g. en-US
+  displayType: ScreenshotDisplayType;
+  filePaths: string[]; // In display order
+}
+
+/**
+ * An image ready to upload, in the size its display type requires
+ */
+export interface PreparedScreenshot {
+  filePath: string;
+  fileName: string;
+  data: Buffer;
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  resized: boolean;
+  flattened: boolean; // Transparency was removed; App Store screenshots must be opaque
+}
+
+export interface ScreenshotUploadResult {
+  filePath: string;
+  locale: string;
+  displayType: ScreenshotDisplayType;
+  screenshotSetId?: string;
+  screenshotId?: string;
+  fileName?: string;
+  width?: number;
+  height?: number;
+  resized?: boolean;
+  assetDeliveryState?: AppMediaAssetState;
+  error?: string;
+}
+
+export interface ScreenshotUploadSummary {
+  appStoreVersionId: string;
+  uploaded: number;
+  failed: number;
+  results: ScreenshotUploadResult[];
+}
+
+export type ScreenshotSetScreenshotsLinkagesRequest = Spec.AppScreenshotSetAppScreenshotsLinkagesRequest;
+
+export interface ScreenshotSummary {
+  screenshotId: string;
+  fileName?: string;
+  fileSize?: number;
+  width?: number;
+  height?: number;
+  assetDeliveryState?: AppMediaAssetState['state'];
+  errors?: string[]; // Why processing failed, if it did
+  thumbnailUrl?: string;
+}
+
+/**
+ * A screenshot set with its screenshots in display order
+ */
+export interface ScreenshotSetSummary {
+  screenshotSetId: string;
+  locale: string;
+  localizationId: string;
+  displayType?: ScreenshotDisplayType;
+  screenshots: ScreenshotSummary[];
+}
+
+export interface ScreenshotThumbnail {
+  screenshotId: string;
+  mimeType: string;
+  data: string; // Base64
+}
+
+export interface ScreenshotSetListing {
+  appStoreVersionId: string;
+  sets: ScreenshotSetSummary[];
+  thumbnails?: ScreenshotThumbnail[];
+}
+
+export interface ScreenshotCopyResult {
+  locale: string;
+  sourceScreenshotId: string;
+  fileName?: string;
+  screenshotSetId?: string;
+  screenshotId?: string;
+  assetDeliveryState?: AppMediaAssetState;
+  error?: string;
+}
+
+export interface ScreenshotCopySummary {
+  appStoreVersionId: string;
+  sourceLocale: string;
+  displayType: ScreenshotDisplayType;
+  copied: number;
+  failed: number;
+  removed: number; // Screenshots deleted from target sets first, with `replace`
+  results: ScreenshotCopyResult[];
+}
@@ -1,32 +1,10 @@
-export type UserRole = 
-  | "ADMIN"
-  | "FINANCE"
-  | "TECHNICAL"
-  | "SALES"
-  | "MARKETING"
-  | "DEVELOPER"
-  | "ACCOUNT_HOLDER"
-  | "READ_ONLY"
-  | "APP_MANAGER"
-  | "ACCESS_TO_REPORTS"
-  | "CUSTOMER_SUPPORT";
+import type * as Spec from './generated/app-store-connect.js';
 
-export interface User {
-  id: string;
-  type: string;
-  attributes: {
-    username: string;
-    firstName: string;
-    lastName: string;
-    roles: UserRole[];
-    allAppsVisible?: boolean;
-    provisioningAllowed?: boolean;
-  };
-}
+export type UserRole = Spec.UserRole;
 
-export interface ListUsersResponse {
-  data: User[];
-}
+export type User = Spec.User;
+
+export type ListUsersResponse = Spec.UsersResponse;
 
 export interface UserFilters {
   username?: string;
@@ -36,8 +14,6 @@ export interface UserFilters {
 
 export type UserSortOptions = 
   | "username" | "-username"
-  | "firstName" | "-firstName"
-  | "lastName" | "-lastName"
-  | "roles" | "-roles";
+  | "lastName" | "-lastName";
 
-export type UserIncludeOptions = "visibleApps";
\ No newline at end of file
+export type UserIncludeOptions = "visibleApps";
@@ -6,63 +6,38 @@
  *
  * API Reference: https://developer.apple.com/documentation/appstoreconnectapi
  * Implementation Guide: https://www.polpiella.dev/using-app-store-connect-api-to-trigger-xcode-cloud-workflows
+ *
+ * Enums are aliases of the generated spec types. The resource interfaces below mark
+ * the attributes Xcode Cloud always returns as required, which the spec does not.
  */
 
+import type * as Spec from './generated/app-store-connect.js';
+
 // ============================================================================
 // Enums and Union Types
 // ============================================================================
 
 /** Execution progress states for a build run */
-export type CiBuildRunExecutionProgress =
-  | 'PENDING'
-  | 'RUNNING'
-  | 'COMPLETE';
+export type CiBuildRunExecutionProgress = Spec.CiExecutionProgress;
 
 /** Completion status for a finished build run */
-export type CiBuildRunCompletionStatus =
-  | 'SUCCEEDED'
-  | 'FAILED'
-  | 'ERRORED'
-  | 'CANCELED'
-  | 'SKIPPED';
+export type CiBuildRunCompletionStatus = Spec.CiCompletionStatus;
 
 /** Types of build actions */
-export type CiBuildActionExecutionProgress =
-  | 'PENDING'
-  | 'RUNNING'
-  | 'COMPLETE';
-
-export type CiBuildActionCompletionStatus =
-  | 'SUCCEEDED'
-  | 'FAILED'
-  | 'ERRORED'
-  | 'CANCELED'
-  | 'SKIPPED';
-
-export type CiBuildActionName =
-  | 'BUILD'
-  | 'ANALYZE'
-  | 'TEST'
-  | 'ARCHIVE';
+export type CiBuildActionExecutionProgress = Spec.CiExecutionProgress;
+
+export type CiBuildActionCompletionStatus = Spec.CiCompletionStatus;
+
+export type CiBuildActionName = Spec.CiActionType;
 
 /** Product types for CI products */
-export type CiProductProductType =
-  | 'APP'
-  | 'FRAMEWORK';
+export type CiProductProductType = NonNullable<NonNullable<Spec.CiProduct['attributes']>['productType']>;
 
 /** Source control provider */
-export type ScmProviderType =
-  | 'BITBUCKET_CLOUD'
-  | 'BITBUCKET_SERVER'
-  | 'GITHUB'
-  | 'GITHUB_ENTERPRISE'
-  | 'GITLAB'
-  | 'GITLAB_SELF_MANAGED';
+export type ScmProviderType = NonNullable<Spec.ScmProviderType['kind']>;
 
 /** Git reference type */
-export type CiGitRefKind =
-  | 'BRANCH'
-  | 'TAG';
+export type CiGitRefKind = Spec.CiGitRefKind;
 
 // ============================================================================
 // Core Resource Types
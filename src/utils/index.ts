@@ -1 +1,4 @@
-export * from './validation.js';
\ No newline at end of file
+export * from './validation.js';
+export * from './json-schema.js';
+export * from './reports.js';
+export * from './async.js';
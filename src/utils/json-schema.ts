@@ -0,0 +1,208 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Covers the subset of JSON Schema used by the App Store Connect OpenAPI spec:
+ * type, enum, const, properties, required, additionalProperties, items, oneOf,
+ * anyOf, allOf, if/then/else, minimum/maximum, minLength/maxLength, pattern, format
+ * and local `$ref`s (resolved through a caller-supplied resolver).
+ *
+ * Besides the standard date, date-time, email and uri formats, tool schemas can use
+ * `year-month` (YYYY-MM) and `bundle-id` (reverse-DNS, optionally ending in `.*`).
+ */
+
+export interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  if?: JsonSchema;
+  then?: JsonSchema;
+  else?: JsonSchema;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  format?: string;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaValidationError {
+  path: string; // Location of the offending value, e.g. `data.attributes.locale`
+  message: string;
+}
+
+export interface SchemaValidationOptions {
+  resolveRef?: (ref: string) => JsonSchema | undefined;
+}
+
+const FORMAT_CHECKS: Record<string, (value: string) => boolean> = {
+  'date': (value) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': (value) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value) && !isNaN(Date.parse(value)),
+  'year-month': (value) => /^\d{4}-(0[1-9]|1[0-2])$/.test(value),
+  'bundle-id': (value) => /^[A-Za-z0-9-]+(\.[A-Za-z0-9-]+)*\.([A-Za-z0-9-]+|\*)$/.test(value),
+  'email': (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'uri': (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+/**
+ * Validates a value against a JSON Schema
+ * @returns Every violation found (empty when the value is valid)
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  options: SchemaValidationOptions = {},
+  path = ''
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const at = path || '(root)';
+
+  if (schema.$ref) {
+    const resolved = options.resolveRef?.(schema.$ref);
+    if (!resolved) {
+      return [{ path: at, message: `cannot resolve schema reference ${schema.$ref}` }];
+    }
+    return validateSchema(value, resolved, options, path);
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateSchema(value, subschema, options, path));
+    }
+  }
+
+  for (const keyword of ['oneOf', 'anyOf'] as const) {
+    const alternatives = schema[keyword];
+    if (alternatives && !alternatives.some(subschema => validateSchema(value, subschema, options, path).length === 0)) {
+      errors.push({ path: at, message: `does not match any of the allowed schemas` });
+    }
+  }
+
+  if (schema.if) {
+    const branch = validateSchema(value, schema.if, options, path).length === 0 ? schema.then : schema.else;
+    if (branch) {
+      errors.push(...validateSchema(value, branch, options, path));
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push({ path: at, message: `must be of type ${types.join(' | ')}, got ${typeOf(value)}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+    errors.push({ path: at, message: `must be one of: ${schema.enum.join(', ')}` });
+  }
+
+  if (schema.const !== undefined && schema.const !== value) {
+    errors.push({ path: at, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: at, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path: at, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `must match pattern ${schema.pattern}` });
+    }
+    const check = schema.format ? FORMAT_CHECKS[schema.format] : undefined;
+    if (check && !check(value)) {
+      errors.push({ path: at, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path: at, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path: at, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path: at, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items!, options, joinPath(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+
+    for (const field of schema.required ?? []) {
+      if (record[field] === undefined) {
+        errors.push({ path: joinPath(path, field), message: 'is required' });
+      }
+    }
+
+    for (const [key, fieldValue] of Object.entries(record)) {
+      if (fieldValue === undefined) continue;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(fieldValue, propertySchema, options, joinPath(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(fieldValue, schema.additionalProperties, options, joinPath(path, key)));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Formats validation errors as a single human-readable message
+ */
+export function formatSchemaErrors(errors: SchemaValidationError[]): string {
+  return errors.map(error => `${error.path} ${error.message}`).join('; ');
+}
@@ -0,0 +1,179 @@
+/**
+ * Helpers for Apple's tab-separated report files
+ *
+ * Sales and finance reports are delivered as gzip-compressed TSV files whose first
+ * line names the columns. These helpers decompress and split them, convert column
+ * values to typed fields and write rows back out as CSV.
+ */
+
+import zlib from 'zlib';
+import { ReportColumn, ReportColumnType, ReportRow, ReportTotalsEntry, ReportValue } from '../types/index.js';
+
+/**
+ * Returns the text of a report body, decompressing it if it is gzip-compressed
+ */
+export function decompressReport(body: Buffer | string): string {
+  if (typeof body === 'string') {
+    return body;
+  }
+
+  // gzip files start with the magic bytes 1f 8b
+  const compressed = body.length > 1 && body[0] === 0x1f && body[1] === 0x8b;
+  return (compressed ? zlib.gunzipSync(body) : body).toString('utf-8');
+}
+
+/**
+ * Splits TSV text into lines of cells, skipping blank lines
+ */
+export function splitTsvLines(text: string): string[][] {
+  return text.replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => line.split('\t').map(value => value.trim()));
+}
+
+/**
+ * Splits TSV text into its header line and records, skipping blank lines
+ */
+export function parseTsv(text: string): { headers: string[]; records: string[][] } {
+  const [headers = [''], ...records] = splitTsvLines(text);
+  return { headers, records };
+}
+
+/**
+ * Converts a column header to a camelCase field name, e.g. "Download Date (PST)" to downloadDatePst
+ */
+export function toFieldName(header: string): string {
+  const words = header.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words
+    .map((word, index) => {
+      const lower = word.toLowerCase();
+      return index === 0 ? lower : lower.charAt(0).toUpperCase() + lower.slice(1);
+    })
+    .join('');
+}
+
+/**
+ * Converts a report value to its column type
+ *
+ * Empty values become null. Dates are written as MM/DD/YYYY or YYYY-MM-DD in Apple's
+ * reports and are returned as YYYY-MM-DD.
+ */
+export function convertReportValue(value: string | undefined, type: ReportColumnType): ReportValue {
+  if (value === undefined || value === '' || value === ' ') {
+    return null;
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'decimal': {
+      const number = Number(value.replace(/,/g, ''));
+      return Number.isFinite(number) ? number : value;
+    }
+    case 'date': {
+      const us = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(value);
+      return us ? `${us[3]}-${us[1]}-${us[2]}` : value;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Parses report text into typed rows
+ *
+ * Columns are typed by the given map of header to type; headers it does not list
+ * (e.g. columns added in a newer report version) are kept as strings.
+ */
+export function parseReportRows(
+  text: string,
+  columnTypes: Record<string, ReportColumnType>
+): { columns: ReportColumn[]; rows: ReportRow[] } {
+  const { headers, records } = parseTsv(text);
+  return buildReportRows(headers, records, columnTypes);
+}
+
+/**
+ * Types already-split records by their headers, as parseReportRows does
+ */
+export function buildReportRows(
+  headers: string[],
+  records: string[][],
+  columnTypes: Record<string, ReportColumnType>
+): { columns: ReportColumn[]; rows: ReportRow[] } {
+  const columns = headers.map(header => ({
+    header,
+    field: toFieldName(header),
+    type: columnTypes[header] ?? 'string',
+  }));
+
+  const rows = records.map(record => Object.fromEntries(
+    columns.map((column, index) => [column.field, convertReportValue(record[index], column.type)])
+  ));
+
+  return { columns, rows };
+}
+
+/**
+ * Guesses column types for reports without a known layout, from the values in each column
+ *
+ * A column is typed only if every non-empty value fits the type; otherwise it stays a string.
+ */
+export function inferColumnTypes(headers: string[], records: string[][]): Record<string, ReportColumnType> {
+  const patterns: Array<[ReportColumnType, RegExp]> = [
+    ['integer', /^-?\d+$/],
+    ['decimal', /^-?\d*\.?\d+$/],
+    ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ];
+
+  return Object.fromEntries(headers.map((header, index) => {
+    const values = records.map(record => record[index]).filter(value => value !== undefined && value !== '');
+    const match = values.length > 0 ? patterns.find(([, pattern]) => values.every(value => pattern.test(value))) : undefined;
+    return [header, match?.[0] ?? 'string'];
+  }));
+}
+
+/**
+ * Quotes a CSV field if it contains a quote, comma or line break
+ */
+export function escapeCsv(value: ReportValue): string {
+  if (value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes rows as CSV, with the original column headers as the header line
+ */
+export function toCsv(columns: ReportColumn[], rows: ReportRow[]): string {
+  return [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escapeCsv(row[column.field])).join(',')),
+  ].join('\n');
+}
+
+/**
+ * Rounds a currency amount to cents, hiding floating-point noise from summed totals
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Returns the totals entry for a key, creating it on first use
+ */
+export function totalsEntry(group: Record<string, ReportTotalsEntry>, key: string): ReportTotalsEntry {
+  return group[key] ??= { units: 0, proceeds: {} };
+}
+
+/**
+ * Adds units and an amount in the given currency to a totals entry
+ */
+export function addToTotals(entry: ReportTotalsEntry, units: number, currency: string | undefined, amount: number | undefined): void {
+  entry.units += units;
+  if (currency && amount !== undefined) {
+    entry.proceeds[currency] = roundAmount((entry.proceeds[currency] ?? 0) + amount);
+  }
+}
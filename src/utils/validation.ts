@@ -1,7 +1,13 @@
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 
+/**
+ * Checks that required fields are present; `0` and `false` are valid values, empty strings are not
+ */
 export function validateRequired(params: Record<string, any>, requiredFields: string[]): void {
-  const missingFields = requiredFields.filter(field => !params[field]);
+  const missingFields = requiredFields.filter(field => {
+    const value = params[field];
+    return value === undefined || value === null || value === '';
+  });
   
   if (missingFields.length > 0) {
     throw new McpError(